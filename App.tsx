@@ -1,17 +1,23 @@
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { type Shape, type Tool, type DrawMode, PolylineShape, BezierCurveShape, ViewTransform, RectangleShape, ImageShape, IsoscelesTriangleShape, TrapezoidShape, ParallelogramShape, PathShape, CanvasAction, LineShape, PolygonShape, ArcShape, RightTriangleShape, TextShape, BitmapShape, RotatableShape, EllipseShape, type ProjectTemplate, type NewProjectSettings, FillableShape, DistributePathState, DistributeEntity, Layer, GroupShape } from './types';
+import { type Shape, type Tool, type DrawMode, PolylineShape, BezierCurveShape, ViewTransform, RectangleShape, ImageShape, IsoscelesTriangleShape, TrapezoidShape, ParallelogramShape, PathShape, CanvasAction, LineShape, PolygonShape, ArcShape, RightTriangleShape, TextShape, BitmapShape, RotatableShape, EllipseShape, type ProjectTemplate, type NewProjectSettings, FillableShape, DistributePathState, DistributeEntity, Layer, GroupShape, type CodeStyleProfile, type CodeGeneratorOptions, type AnimationSettings, type ResizeMode, type GeneratorType, type CodeFileExtension, type ProjectVariable, type CustomBitmap, type ScrollViewport, type ColorNameMode, type ProjectPage, type PageLayout, type CodePage } from './types';
 import Canvas from './components/Canvas';
-import CodeDisplay, { type CodeLine } from './components/CodeDisplay';
+import CodeDisplay, { type CodeLine, isCommentLine } from './components/CodeDisplay';
 import PropertyEditor from './components/PropertyEditor';
 import ShapeList from './components/ShapeList';
 import LayerList from './components/LayerList';
 import { useHistoryState } from './hooks/useHistoryState';
 import { generateTkinterCode } from './services/geminiService';
 import { generateTkinterCodeLocally } from './services/localGeneratorService';
+import { generateTurtleCodeLocally } from './services/turtleGeneratorService';
+import { generatePygameCodeLocally } from './services/pygameGeneratorService';
+import { generateCanvasCodeLocally } from './services/canvasGeneratorService';
+import { generatePillowCodeLocally } from './services/pillowGeneratorService';
 import SettingsModal from './components/SettingsModal';
 import PreviewModal from './components/PreviewModal';
 import ExportModal, { type ExportSettings } from './components/ExportModal';
+import BitmapEditorModal from './components/BitmapEditorModal';
+import PageTabs from './components/PageTabs';
 import NewProjectModal from './components/NewProjectModal';
 import ConfirmationModal from './components/ConfirmationModal';
 import SaveAsModal from './components/SaveAsModal';
@@ -22,12 +28,20 @@ import ApiKeyModal from './components/ApiKeyModal';
 import FeedbackModal from './components/FeedbackModal';
 import CheatCodeModal from './components/CheatCodeModal';
 import LoaderShowcaseModal from './components/LoaderShowcaseModal';
-import { saveFile, generateSvg, exportToRaster, openProjectFile, saveToHandle } from './lib/exportUtils';
-import { SquareIcon, CodeIcon, XIcon, AxesIcon, FitToScreenIcon, SelectIcon, EditPointsIcon, RectangleIcon, EllipseIcon, CircleIcon, LineIcon, PolylineIcon, BezierIcon, PolygonIcon, PencilIcon, TriangleIcon, RightTriangleIcon, RhombusIcon, TrapezoidIcon, ParallelogramIcon, PiesliceIcon, ChordIcon, ArcIcon, StarIcon, TextIcon, ImageIcon, BitmapIcon, UndoIcon, RedoIcon, DuplicateIcon, GroupIcon, UngroupIcon, ToolsIcon, TrashIcon, GridIcon, SettingsIcon, DrawFromCornerIcon, DrawFromCenterIcon, CheckIcon, MenuIcon, SunIcon, MoonIcon, HomeIcon, BoldIcon, ItalicIcon, UnderlineIcon, StrikethroughIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, SadMonitorIcon, FullscreenIcon, ExitFullscreenIcon, AlignShapesLeftIcon, AlignShapesCenterHIcon, AlignShapesRightIcon, AlignShapesTopIcon, AlignShapesCenterVIcon, AlignShapesBottomIcon, DistributeHorizontalIcon, DistributeVerticalIcon, ChevronDownIcon, ChevronRightIcon, DistributePathIcon, FlipHorizontalIcon, FlipVerticalIcon, EraserIcon, CloudGalleryIcon } from './components/icons';
+import { saveFile, generateSvg, exportToRaster, openProjectFile, saveToHandle, collectImageAssets, collectBitmapAssets, createZip } from './lib/exportUtils';
+import { getUsedCustomBitmaps } from './lib/bitmaps';
+import { collectClipboardShapes, parseShapeClipboard, prepareShapesForPaste, writeShapeClipboard } from './lib/clipboard';
+import { importSvg, isSvgFile, isSvgText } from './lib/svgImport';
+import { SquareIcon, CodeIcon, XIcon, AxesIcon, FitToScreenIcon, SelectIcon, EditPointsIcon, RectangleIcon, EllipseIcon, CircleIcon, LineIcon, PolylineIcon, BezierIcon, PolygonIcon, PencilIcon, TriangleIcon, RightTriangleIcon, RhombusIcon, TrapezoidIcon, ParallelogramIcon, PiesliceIcon, ChordIcon, ArcIcon, StarIcon, TextIcon, ImageIcon, BitmapIcon, WidgetIcon, UndoIcon, RedoIcon, DuplicateIcon, GroupIcon, UngroupIcon, ToolsIcon, TrashIcon, GridIcon, SettingsIcon, DrawFromCornerIcon, DrawFromCenterIcon, CheckIcon, MenuIcon, SunIcon, MoonIcon, HomeIcon, BoldIcon, ItalicIcon, UnderlineIcon, StrikethroughIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, SadMonitorIcon, FullscreenIcon, ExitFullscreenIcon, AlignShapesLeftIcon, AlignShapesCenterHIcon, AlignShapesRightIcon, AlignShapesTopIcon, AlignShapesCenterVIcon, AlignShapesBottomIcon, DistributeHorizontalIcon, DistributeVerticalIcon, ChevronDownIcon, ChevronRightIcon, DistributePathIcon, FlipHorizontalIcon, FlipVerticalIcon, EraserIcon, CloudGalleryIcon } from './components/icons';
 import { getFinalPoints, getVisualBoundingBox, getBoundingBox, getEditablePoints, getShapeCenter, rotatePoint, isShapeClosed, isPathClosed, evaluateShapeContourPointAndTangent } from './lib/geometry';
-import { getDefaultNameForShape, isDefaultName } from './lib/constants';
+import { getDefaultNameForShape, getStateStyles, isDefaultName } from './lib/constants';
+import AnimationTimeline from './components/AnimationTimeline';
+import { getAnimatedShape, getAnimatedShapes, recordAnimatedEdit, DEFAULT_ANIMATION_SETTINGS } from './lib/animation';
+import { parseTkinterScript, applyTkinterEditToShape, type TkinterImportResult, type TkinterParseFailure } from './lib/tkinterParser';
 import Ruler from './components/Ruler';
-import { ColorInput, Select, NumberInput } from './components/FormControls';
+import { ColorInput, Select, NumberInput, VariableScopeContext, CustomBitmapsContext } from './components/FormControls';
+import { getVariableScope, reapplyExpressions } from './lib/expressions';
+import { findInvalidTkColors, isValidTkColor } from './lib/colors';
 import StatusBar from './components/StatusBar';
 import WelcomeScreen from './components/WelcomeScreen';
 import { useRecentProjects, type RecentProject } from './hooks/useRecentProjects';
@@ -51,7 +65,6 @@ import { FloatingModeControls } from './components/FloatingModeControls';
 import { useIsMobile, useIsLandscape } from './hooks/useIsMobile';
 
 type Theme = 'dark' | 'light';
-type GeneratorType = 'local' | 'gemini';
 type SettingsTab = 'canvas' | 'grid' | 'appearance' | 'code' | 'templates';
 
 const APP_VERSION = '1.3.17';
@@ -131,6 +144,9 @@ const MenuBar: React.FC<{
     canUndo: boolean;
     canRedo: boolean;
     onDuplicate: () => void;
+    onCopy: () => void;
+    onCut: () => void;
+    onPaste: () => void;
     isShapeSelected: boolean;
     onDelete: () => void;
     onConvertToPath: () => void;
@@ -148,6 +164,8 @@ const MenuBar: React.FC<{
     setShowCenterGuides: (show: boolean) => void;
     enableSnapping: boolean;
     setEnableSnapping: (show: boolean) => void;
+    showTimeline: boolean;
+    setShowTimeline: (show: boolean) => void;
     onOpenSettings: () => void;
     theme: Theme;
     setTheme: (theme: Theme) => void;
@@ -231,6 +249,9 @@ const MenuBar: React.FC<{
                             <MenuItem onClick={() => handleMenuClick(props.onUndo, closeEdit)} disabled={!props.canUndo} shortcut="Ctrl+Z">{t('menu.edit.undo')}</MenuItem>
                             <MenuItem onClick={() => handleMenuClick(props.onRedo, closeEdit)} disabled={!props.canRedo} shortcut="Ctrl+Y">{t('menu.edit.redo')}</MenuItem>
                             <hr className="border-[var(--border-secondary)] my-1"/>
+                            <MenuItem onClick={() => handleMenuClick(props.onCut, closeEdit)} disabled={!props.isShapeSelected || props.isDistributingPath} shortcut="Ctrl+X">{t('menu.edit.cut')}</MenuItem>
+                            <MenuItem onClick={() => handleMenuClick(props.onCopy, closeEdit)} disabled={!props.isShapeSelected || props.isDistributingPath} shortcut="Ctrl+C">{t('menu.edit.copy')}</MenuItem>
+                            <MenuItem onClick={() => handleMenuClick(props.onPaste, closeEdit)} disabled={props.isDistributingPath} shortcut="Ctrl+V">{t('menu.edit.paste')}</MenuItem>
                             <MenuItem onClick={() => handleMenuClick(props.onDuplicate, closeEdit)} disabled={!props.isShapeSelected || props.isDistributingPath} shortcut="Ctrl+D">{t('menu.edit.duplicate')}</MenuItem>
                             <MenuItem onClick={() => handleMenuClick(props.onDelete, closeEdit)} disabled={!props.isShapeSelected || props.isDistributingPath} shortcut="Del">{t('menu.edit.delete')}</MenuItem>
                         </div>
@@ -246,7 +267,7 @@ const MenuBar: React.FC<{
                             <MenuItem onClick={() => handleMenuClick(props.onExtractFromGroup, closeObject)} disabled={!props.canExtractFromGroup}>{t('menu.edit.extractFromGroup')}</MenuItem>
                             <hr className="border-[var(--border-secondary)] my-1"/>
                             <MenuItem onClick={() => handleMenuClick(props.onFlipH, closeObject)} disabled={!props.canFlip} shortcut="Ctrl+H">{t('menu.edit.flipH')}</MenuItem>
-                            <MenuItem onClick={() => handleMenuClick(props.onFlipV, closeObject)} disabled={!props.canFlip} shortcut="Ctrl+V">{t('menu.edit.flipV')}</MenuItem>
+                            <MenuItem onClick={() => handleMenuClick(props.onFlipV, closeObject)} disabled={!props.canFlip} shortcut="Ctrl+Shift+H">{t('menu.edit.flipV')}</MenuItem>
                             <hr className="border-[var(--border-secondary)] my-1"/>
                             <MenuItem onClick={() => handleMenuClick(() => props.onAlignShapes?.('center-both', 'canvas'), closeObject)} disabled={!props.isShapeSelected}>🎯 {t('menu.object.centerCanvas') || 'В центр полотна'}</MenuItem>
                             <hr className="border-[var(--border-secondary)] my-1"/>
@@ -269,6 +290,7 @@ const MenuBar: React.FC<{
                             <MenuCheckbox checked={props.showAxes} onChange={props.setShowAxes}>{t('menu.view.rulers')}</MenuCheckbox>
                             <MenuCheckbox checked={props.showCenterGuides} onChange={props.setShowCenterGuides}>{t('settings.appearance.showCenterGuides')}</MenuCheckbox>
                             <MenuCheckbox checked={props.enableSnapping} onChange={props.setEnableSnapping}>{t('settings.appearance.enableSnapping')}</MenuCheckbox>
+                            <MenuCheckbox checked={props.showTimeline} onChange={props.setShowTimeline}>{t('menu.view.timeline')}</MenuCheckbox>
                             <hr className="border-[var(--border-secondary)] my-1"/>
                             <div className="px-3 py-1.5 text-xs text-[var(--text-tertiary)]">{t('menu.view.theme')}</div>
                             <MenuItem onClick={() => {props.setTheme('dark'); closeView()}} selected={props.theme === 'dark'}>{t('menu.view.theme.dark')}</MenuItem>
@@ -353,7 +375,8 @@ const LeftToolbar: React.FC<{
         // Group 4: Other
         { name: 'pencil', label: t('tool.pencil'), icon: <PencilIcon size={iconSize} />, group: 4 },
         { name: 'image', label: t('tool.image'), icon: <ImageIcon size={iconSize} />, group: 4, disabled: !activeCheats.has('001') && !activeCheats.has('002') },
-        { name: 'bitmap', label: t('tool.bitmap'), icon: <BitmapIcon size={iconSize} />, group: 4, disabled: true },
+        { name: 'bitmap', label: t('tool.bitmap'), icon: <BitmapIcon size={iconSize} />, group: 4 },
+        { name: 'widget', label: t('tool.widget'), icon: <WidgetIcon size={iconSize} />, group: 4 },
     ];
 
     return (
@@ -423,7 +446,7 @@ const ToolControls: React.FC<ToolControlsProps> = ({
 
   const showDrawMode = useMemo(() => ['rectangle', 'square', 'circle', 'ellipse', 'triangle', 'right-triangle', 'polygon', 'star', 'rhombus', 'trapezoid', 'parallelogram', 'arc', 'pieslice', 'chord'].includes(activeTool), [activeTool]);
   const showFill = useMemo(() => ['rectangle', 'square', 'circle', 'ellipse', 'triangle', 'right-triangle', 'rhombus', 'trapezoid', 'parallelogram', 'pieslice', 'chord', 'polygon', 'star', 'polyline', 'bezier'].includes(activeTool), [activeTool]);
-  const showStroke = useMemo(() => !['select', 'edit-points', 'image', 'bitmap', 'text'].includes(activeTool), [activeTool]);
+  const showStroke = useMemo(() => !['select', 'edit-points', 'image', 'bitmap', 'widget', 'text'].includes(activeTool), [activeTool]);
   const showSides = useMemo(() => ['polygon', 'star'].includes(activeTool), [activeTool]);
   const showTextControls = useMemo(() => activeTool === 'text', [activeTool]);
 
@@ -577,7 +600,7 @@ const ContextualControls: React.FC<ContextualControlsProps> = ({ allShapes, sele
         return false;
     });
   }, [effectiveShapes]);
-  const hasStroke = effectiveShapes.some((s: any) => 'stroke' in s && 'strokeWidth' in s && !['image', 'bitmap', 'text'].includes(s.type));
+  const hasStroke = effectiveShapes.some((s: any) => 'stroke' in s && 'strokeWidth' in s && !['image', 'bitmap', 'widget', 'text'].includes(s.type));
   const hasSides = effectiveShapes.some((s: any) => s.type === 'polygon' || s.type === 'star');
   const isText = effectiveShapes.some((s: any) => s.type === 'text');
 
@@ -1135,7 +1158,7 @@ const applyDistributePathToShapes = (currentShapes: Shape[], pathState: Distribu
             
             if (dx !== 0 || dy !== 0) {
                 switch (updatedS.type) {
-                    case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                    case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                         updatedS = { ...updatedS, x: (updatedS as any).x + dx, y: (updatedS as any).y + dy };
                         break;
                     case 'ellipse': case 'polygon': case 'star':
@@ -1172,7 +1195,7 @@ const applyDistributePathToShapes = (currentShapes: Shape[], pathState: Distribu
                     const extraDy = rotated.y - (center.y + dy);
                     
                     switch (updatedS.type) {
-                        case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                        case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                             updatedS = { ...updatedS, x: (updatedS as any).x + extraDx, y: (updatedS as any).y + extraDy };
                             break;
                         case 'ellipse': case 'polygon': case 'star':
@@ -1230,6 +1253,47 @@ const applyDistributePathToShapes = (currentShapes: Shape[], pathState: Distribu
     return newShapes;
 };
 
+/** Shapes in drawing order, bottom layer first; shapes on hidden layers are flagged `layerHidden`. */
+const orderShapesByLayers = (shapes: Shape[], layers: Layer[] | undefined): Shape[] => {
+    if (!layers || layers.length === 0) return shapes;
+    const shapeMap = new Map(shapes.map((s: any) => [s.id, s]));
+    const orderedShapes: Shape[] = [];
+
+    const processShape = (shapeId: string, parentHidden: boolean, targetArray: Shape[]) => {
+        let shape = shapeMap.get(shapeId);
+        if (shape) {
+            let newShape = shape;
+            if (parentHidden) {
+                newShape = { ...shape, layerHidden: true } as any;
+            }
+            targetArray.push(newShape);
+            shapeMap.delete(shapeId);
+
+            if (newShape.type === 'group' && (newShape as any).shapeIds) {
+                for (const childId of (newShape as any).shapeIds) {
+                    processShape(childId, parentHidden || newShape.state === 'hidden', targetArray);
+                }
+            }
+        }
+    };
+
+    // Render from bottom layer to top layer
+    for (let i = layers.length - 1; i >= 0; i--) {
+        const layer = layers[i];
+        for (const shapeId of layer.shapeIds || []) {
+            processShape(shapeId, !layer.visible, orderedShapes);
+        }
+    }
+
+    // Unassigned shapes fall back to rendering at the bottom
+    const unassignedShapes: Shape[] = [];
+    for (const shapeId of shapeMap.keys()) {
+        processShape(shapeId, false, unassignedShapes);
+    }
+
+    return [...unassignedShapes, ...orderedShapes];
+};
+
 export default function App(): React.ReactNode {
   const { t } = useLanguage();
   const { state: historyState, setState: _setHistoryState, updateCurrentState: _updateCurrentState, undo, redo, canUndo, canRedo, reset: resetHistoryState } = useHistoryState<{shapes: Shape[], distributePathState: DistributePathState | null, layers: Layer[], activeLayerId: string | null}>({ 
@@ -1329,6 +1393,32 @@ export default function App(): React.ReactNode {
   const [generateTkinterTags, setGenerateTkinterTags] = useState<boolean>(false);
   const [showSystemTags, setShowSystemTags] = useState<boolean>(false);
   const [outlineWithFill, setOutlineWithFill] = useState<boolean>(true);
+  const [codeStyle, setCodeStyle] = useState<CodeStyleProfile>('classic');
+  const [shapeVariables, setShapeVariables] = useState<boolean>(false);
+  const [compressLoops, setCompressLoops] = useState<boolean>(false);
+  const [groupFunctions, setGroupFunctions] = useState<boolean>(false);
+  const [resizeMode, setResizeMode] = useState<ResizeMode>('fixed');
+  const [scaleFonts, setScaleFonts] = useState<boolean>(false);
+  const [canvasHtmlPage, setCanvasHtmlPage] = useState<boolean>(true);
+  const [nativeImages, setNativeImages] = useState<boolean>(false);
+  const [colorNames, setColorNames] = useState<ColorNameMode>('hex');
+  const [animationSettings, setAnimationSettings] = useState<AnimationSettings>(DEFAULT_ANIMATION_SETTINGS);
+  const [projectVariables, setProjectVariables] = useState<ProjectVariable[]>([]);
+  const [customBitmaps, setCustomBitmaps] = useState<CustomBitmap[]>([]);
+  const [scrollViewport, setScrollViewport] = useState<ScrollViewport | null>(null);
+  // Pages of a multi-page project; empty while the project has a single page. The page being edited
+  // lives in the canvas and history state, so its entry here is only brought up to date by `livePages`.
+  const [pages, setPages] = useState<ProjectPage[]>([]);
+  const [currentPageId, setCurrentPageId] = useState<string | null>(null);
+  const [pageLayout, setPageLayout] = useState<PageLayout>('frames');
+  // The bitmap editor is open while this is set; the string is the bitmap to show first ('' for none).
+  const [bitmapEditorTarget, setBitmapEditorTarget] = useState<string | null>(null);
+  const [showTimeline, setShowTimeline] = useState<boolean>(false);
+  const [animationTime, setAnimationTime] = useState<number>(0);
+  const [isAnimationPlaying, setIsAnimationPlaying] = useState<boolean>(false);
+  // Playhead time while the timeline is open; edits made then are recorded as keyframes.
+  const animationTimeRef = useRef<number | null>(null);
+  animationTimeRef.current = showTimeline ? animationTime : null;
   const [isFullscreen, setIsFullscreen] = useState<boolean>(!!document.fullscreenElement);
   const [maxRecentProjects, setMaxRecentProjects] = useState(12);
   const [openAsWebApp, setOpenAsWebApp] = useState<boolean>(false);
@@ -1761,7 +1851,7 @@ export default function App(): React.ReactNode {
   const codeStringForExport = useMemo(() => {
     const lines = showComments 
       ? generatedCodeLines 
-      : generatedCodeLines.filter(line => !((line?.content || '').trim() || '').startsWith('#'));
+      : generatedCodeLines.filter(line => !isCommentLine(line));
     
     return lines.map(line => line.content).join('\n');
   }, [generatedCodeLines, showComments]);
@@ -1792,21 +1882,32 @@ export default function App(): React.ReactNode {
         }
     }, [generatorType]);
 
-    const generateProjectThumbnail = useCallback((shapesToRender: Shape[], width: number, height: number, bgColor: string): string => {
-        const svgString = generateSvg(shapesToRender, width, height, bgColor);
+    const generateProjectThumbnail = useCallback((shapesToRender: Shape[], width: number, height: number, bgColor: string, bitmaps: CustomBitmap[] = []): string => {
+        const svgString = generateSvg(shapesToRender, width, height, bgColor, bitmaps);
         // FIX: Correctly encode UTF-8 strings for btoa to prevent errors with non-Latin characters in text shapes.
         const correctlyEncoded = unescape(encodeURIComponent(svgString));
         return `data:image/svg+xml;base64,${btoa(correctlyEncoded)}`;
     }, []);
     
+  // The project's pages with the one on the canvas brought up to date.
+  const livePages = useMemo(() => pages.map(page => page.id === currentPageId
+      ? { ...page, width: canvasWidth, height: canvasHeight, bgColor: canvasBgColor, canvasVarName, shapes, layers, activeLayerId }
+      : page
+  ), [pages, currentPageId, canvasWidth, canvasHeight, canvasBgColor, canvasVarName, shapes, layers, activeLayerId]);
+
   const getProjectSignature = useCallback((pName: string, s: Shape[]) => {
     return JSON.stringify({
         projectName: pName,
         shapes: s,
-        canvasSettings: { width: canvasWidth, height: canvasHeight, bgColor: canvasBgColor, varName: canvasVarName },
-        uiSettings: { theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags }
+        canvasSettings: { width: canvasWidth, height: canvasHeight, bgColor: canvasBgColor, varName: canvasVarName, viewport: scrollViewport },
+        animation: animationSettings,
+        variables: projectVariables,
+        customBitmaps,
+        pages: livePages,
+        pageLayout,
+        uiSettings: { theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags, codeStyle, shapeVariables, compressLoops, groupFunctions, resizeMode, scaleFonts, canvasHtmlPage, nativeImages, colorNames }
     });
-  }, [canvasWidth, canvasHeight, canvasBgColor, canvasVarName, theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags]);
+  }, [canvasWidth, canvasHeight, canvasBgColor, canvasVarName, theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags, codeStyle, shapeVariables, compressLoops, groupFunctions, resizeMode, scaleFonts, canvasHtmlPage, nativeImages, colorNames, animationSettings, projectVariables, customBitmaps, scrollViewport, livePages, pageLayout]);
 
   const lastSavedSignatureRef = useRef('');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -1835,47 +1936,7 @@ export default function App(): React.ReactNode {
 
 
   const displayedShapes = useMemo(() => {
-    let currentShapes = shapes;
-    
-    // Apply layer visibility and ordering
-    if (layers && layers.length > 0) {
-        const shapeMap = new Map(currentShapes.map((s: any) => [s.id, s]));
-        const orderedShapes: Shape[] = [];
-        
-        const processShape = (shapeId: string, parentHidden: boolean, targetArray: Shape[]) => {
-            let shape = shapeMap.get(shapeId);
-            if (shape) {
-                let newShape = shape;
-                if (parentHidden) {
-                    newShape = { ...shape, layerHidden: true } as any;
-                }
-                targetArray.push(newShape);
-                shapeMap.delete(shapeId);
-                
-                if (newShape.type === 'group' && (newShape as any).shapeIds) {
-                    for (const childId of (newShape as any).shapeIds) {
-                        processShape(childId, parentHidden || newShape.state === 'hidden', targetArray);
-                    }
-                }
-            }
-        };
-
-        // Render from bottom layer to top layer
-        for (let i = layers.length - 1; i >= 0; i--) {
-            const layer = layers[i];
-            for (const shapeId of layer.shapeIds || []) {
-                processShape(shapeId, !layer.visible, orderedShapes);
-            }
-        }
-        
-        // Unassigned shapes fall back to rendering at the bottom
-        const unassignedShapes: Shape[] = [];
-        for (const shapeId of shapeMap.keys()) {
-            processShape(shapeId, false, unassignedShapes);
-        }
-        
-        currentShapes = [...unassignedShapes, ...orderedShapes];
-    }
+    let currentShapes = orderShapesByLayers(shapes, layers);
 
     if (distributePathState) {
         currentShapes = applyDistributePathToShapes(currentShapes, distributePathState);
@@ -1889,6 +1950,13 @@ export default function App(): React.ReactNode {
     });
   }, [shapes, previewOverrides, distributePathState, layers]);
 
+  // While the timeline is open the canvas shows the frame under the playhead.
+  const canvasShapes = useMemo(() => showTimeline ? getAnimatedShapes(displayedShapes, animationTime) : displayedShapes, [displayedShapes, showTimeline, animationTime]);
+
+  useEffect(() => {
+    if (!showTimeline) setIsAnimationPlaying(false);
+  }, [showTimeline]);
+
   const lockedShapeIds = useMemo(() => {
     const ids = new Set<string>();
     for (const layer of layers || []) {
@@ -1967,6 +2035,82 @@ export default function App(): React.ReactNode {
     }
   }, [isMobile, isLandscape, isProjectActive, mobileSheet, mobileSheetPinMode, mobileSheetHeightVh, mobileSheetWidthVw, fitCanvasToView]);
 
+  const loadPageIntoEditor = useCallback((page: ProjectPage) => {
+      setCurrentPageId(page.id);
+      setCanvasWidth(page.width);
+      setCanvasHeight(page.height);
+      setCanvasBgColor(page.bgColor);
+      setCanvasVarName(page.canvasVarName);
+      // Each page keeps its own shapes and layers, so undo doesn't reach across a page switch.
+      resetHistory(page.shapes, page.layers, page.activeLayerId);
+      setSelectedShapeIds([]);
+      setActivePointIndex(null);
+      setIsDrawingPolyline(false);
+      setPolylinePoints([]);
+      setIsDrawingBezier(false);
+      setBezierPoints([]);
+      setTimeout(() => fitCanvasToView(page.width, page.height), 0);
+  }, [resetHistory, fitCanvasToView]);
+
+  const handleSwitchPage = useCallback((pageId: string) => {
+      const target = livePages.find(page => page.id === pageId);
+      if (!target || pageId === currentPageId) return;
+      setPages(livePages);
+      loadPageIntoEditor(target);
+  }, [livePages, currentPageId, loadPageIntoEditor]);
+
+  const handleAddPage = useCallback(() => {
+      const existing = livePages.length > 0 ? livePages : [{
+          id: `page-${Date.now()}`,
+          name: `${t('pages.defaultName')} 1`,
+          width: canvasWidth,
+          height: canvasHeight,
+          bgColor: canvasBgColor,
+          canvasVarName,
+          shapes,
+          layers,
+          activeLayerId,
+      }];
+      let index = existing.length + 1;
+      while (existing.some(page => page.name === `${t('pages.defaultName')} ${index}`)) index++;
+      let varIndex = existing.length + 1;
+      while (existing.some(page => page.canvasVarName === `c${varIndex}`)) varIndex++;
+      const layerId = `layer-${Date.now()}`;
+      const newPage: ProjectPage = {
+          id: `page-${Date.now()}-${existing.length}`,
+          name: `${t('pages.defaultName')} ${index}`,
+          width: canvasWidth,
+          height: canvasHeight,
+          bgColor: '#ffffff',
+          canvasVarName: `c${varIndex}`,
+          shapes: [],
+          layers: [{ id: layerId, name: `${t('layer.defaultName') || 'Шар'} 1`, visible: true, locked: false, shapeIds: [] }],
+          activeLayerId: layerId,
+      };
+      setPages([...existing, newPage]);
+      loadPageIntoEditor(newPage);
+  }, [livePages, canvasWidth, canvasHeight, canvasBgColor, canvasVarName, shapes, layers, activeLayerId, loadPageIntoEditor, t]);
+
+  const handleRenamePage = useCallback((pageId: string, name: string) => {
+      setPages(prev => prev.map(page => page.id === pageId ? { ...page, name } : page));
+  }, []);
+
+  const handleDeletePage = useCallback((pageId: string) => {
+      const index = livePages.findIndex(page => page.id === pageId);
+      if (index < 0) return;
+      const remaining = livePages.filter(page => page.id !== pageId);
+      if (pageId === currentPageId) {
+          loadPageIntoEditor(remaining[Math.min(index, remaining.length - 1)]);
+      }
+      // A project left with one page goes back to being a plain single-canvas project.
+      if (remaining.length <= 1) {
+          setPages([]);
+          setCurrentPageId(null);
+      } else {
+          setPages(remaining);
+      }
+  }, [livePages, currentPageId, loadPageIntoEditor]);
+
 
   const showNotification = useCallback((message: string, type: 'info' | 'error' = 'info', duration: number = 3000) => {
     setNotification({ message, type });
@@ -2079,8 +2223,9 @@ export default function App(): React.ReactNode {
     cancelShapePreview();
     const updateFn = (prevShapes: Shape[]) => {
       const oldShape = prevShapes.find((s: any) => s.id === updatedShape.id);
+      const storedShape = oldShape && animationTimeRef.current !== null ? recordAnimatedEdit(oldShape, updatedShape, animationTimeRef.current) : updatedShape;
       
-      let nextShapes = prevShapes.map(shape => (shape.id === updatedShape.id ? updatedShape : shape));
+      let nextShapes = prevShapes.map(shape => (shape.id === updatedShape.id ? storedShape : shape));
       
       // If a group was updated, check if any generic styling properties changed,
       // and if so, apply them to its children.
@@ -2167,7 +2312,12 @@ export default function App(): React.ReactNode {
     cancelShapePreview();
     const updateFn = (prevShapes: Shape[]) => {
       const updatesMap = new Map(updatedShapes.map((s: any) => [s.id, s]));
-      return prevShapes.map((s: any) => updatesMap.get(s.id) || s);
+      const time = animationTimeRef.current;
+      return prevShapes.map((s: any) => {
+          const updated = updatesMap.get(s.id);
+          if (!updated) return s;
+          return time !== null ? recordAnimatedEdit(s, updated, time) : updated;
+      });
     };
 
     if (isTransient) {
@@ -2296,7 +2446,7 @@ export default function App(): React.ReactNode {
         if (newGroupId) newShape.groupId = newGroupId;
         
         switch (newShape.type) {
-            case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': newShape.x += offset; newShape.y += offset; break;
+            case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget': newShape.x += offset; newShape.y += offset; break;
             case 'ellipse': case 'polygon': case 'star': newShape.cx += offset; newShape.cy += offset; break;
             case 'line':
                 newShape.points[0].x += offset; newShape.points[0].y += offset;
@@ -2735,14 +2885,14 @@ export default function App(): React.ReactNode {
   const convertToPath = useCallback((shapeId: string) => {
     const shape = shapes.find((s: any) => s.id === shapeId);
     if (!shape) return;
-    if (['polyline', 'bezier', 'pencil', 'line', 'text', 'image', 'bitmap'].includes(shape.type)) return;
+    if (['polyline', 'bezier', 'pencil', 'line', 'text', 'image', 'bitmap', 'widget'].includes(shape.type)) return;
     const finalPoints = getFinalPoints(shape);
     if (!finalPoints) return;
     const isClosed = shape.type !== 'arc' || shape.style !== 'arc';
     const newPolyline: PolylineShape = {
         id: shape.id, name: undefined, type: 'polyline', points: finalPoints, isClosed, rotation: 0, state: shape.state, stroke: shape.stroke, strokeWidth: shape.strokeWidth, fill: 'fill' in shape && typeof shape.fill === 'string' && isClosed ? shape.fill : 'none',
         joinstyle: 'joinstyle' in shape && shape.joinstyle ? shape.joinstyle : undefined, dash: 'dash' in shape ? shape.dash : undefined, dashoffset: 'dashoffset' in shape ? shape.dashoffset : undefined,
-        smooth: 'smooth' in shape ? shape.smooth : undefined, stipple: 'stipple' in shape ? shape.stipple : undefined, capstyle: undefined, arrow: undefined, arrowshape: undefined, activeStroke: undefined,
+        smooth: 'smooth' in shape ? shape.smooth : undefined, stipple: 'stipple' in shape ? shape.stipple : undefined, capstyle: undefined, arrow: undefined, arrowshape: undefined, ...getStateStyles(shape),
         isAspectRatioLocked: 'isAspectRatioLocked' in shape ? shape.isAspectRatioLocked : false,
     };
 
@@ -2919,7 +3069,11 @@ export default function App(): React.ReactNode {
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file) {
+        // Tk can't show SVG pictures, so an SVG becomes shapes instead.
+        if (file && isSvgFile(file)) {
+            setIsImportingImage(false);
+            importSvgFile(file);
+        } else if (file) {
             const reader = new FileReader();
             reader.onload = (event) => {
                 const base64String = event.target?.result as string;
@@ -2964,8 +3118,9 @@ export default function App(): React.ReactNode {
     }, [isDrawingPolyline, isDrawingBezier, handleCompletePolyline, handleCancelBezier, shapes, selectedShapeIds, showNotification]);
 
   const selectedShapes = useMemo(() => {
-    return shapes.filter((s: any) => selectedShapeIds.includes(s.id));
-  }, [shapes, selectedShapeIds]);
+    const selected = shapes.filter((s: any) => selectedShapeIds.includes(s.id));
+    return showTimeline ? selected.map((s: Shape) => getAnimatedShape(s, animationTime)) : selected;
+  }, [shapes, selectedShapeIds, showTimeline, animationTime]);
 
   const selectedShape = selectedShapes.length === 1 ? selectedShapes[0] : null;
   
@@ -2974,6 +3129,40 @@ export default function App(): React.ReactNode {
     return shapes.find((s: any) => s.id === inlineEditingShapeId) as TextShape || null;
   }, [shapes, inlineEditingShapeId]);
 
+  // Every page as the Tkinter generator draws it; the page on the canvas shows its live preview.
+  const codePages = useMemo<CodePage[] | undefined>(() => {
+      if (livePages.length < 2) return undefined;
+      return livePages.map(page => ({
+          name: page.name,
+          width: page.width,
+          height: page.height,
+          bgColor: page.bgColor,
+          canvasVarName: page.canvasVarName,
+          shapes: (page.id === currentPageId ? displayedShapes : orderShapesByLayers(page.shapes, page.layers))
+              .filter((s: any) => !(s.type === 'image' && s.isImport) && s.state !== 'hidden'),
+      }));
+  }, [livePages, currentPageId, displayedShapes]);
+
+  const codeGeneratorOptions = useMemo<CodeGeneratorOptions>(() => ({ codeStyle, shapeVariables, compressLoops, groupFunctions, resizeMode, scaleFonts, nativeImages, animation: animationSettings, variables: projectVariables, colorNames, customBitmaps, viewport: scrollViewport ?? undefined, pages: codePages, pageLayout }), [codeStyle, shapeVariables, compressLoops, groupFunctions, resizeMode, scaleFonts, nativeImages, animationSettings, projectVariables, colorNames, customBitmaps, scrollViewport, codePages, pageLayout]);
+
+  const variableScope = useMemo(() => getVariableScope(projectVariables, canvasWidth, canvasHeight), [projectVariables, canvasWidth, canvasHeight]);
+  const customBitmapsContext = useMemo(() => ({ bitmaps: customBitmaps, onEdit: (bitmapId?: string) => setBitmapEditorTarget(bitmapId ?? '') }), [customBitmaps]);
+  const usedBitmapIds = useMemo(() => {
+      const allShapes = livePages.length > 0 ? livePages.flatMap(page => page.shapes) : shapes;
+      return new Set(getUsedCustomBitmaps(allShapes, customBitmaps).map(bitmap => bitmap.id));
+  }, [shapes, livePages, customBitmaps]);
+  const previousVariableScopeRef = useRef(variableScope);
+  useEffect(() => {
+      const previousScope = previousVariableScopeRef.current;
+      previousVariableScopeRef.current = variableScope;
+      if (previousScope === variableScope) return;
+      // Shapes follow their expressions when a variable or the canvas size changes.
+      updateShapesWithoutHistory(prev => {
+          const next = prev.map(shape => reapplyExpressions(shape, previousScope, variableScope));
+          return next.some((shape, index) => shape !== prev[index]) ? next : prev;
+      });
+  }, [variableScope, updateShapesWithoutHistory]);
+
   const handleGenerateCode = useCallback(async () => {
     if (isMobile) {
         setMobileSheet('code');
@@ -2998,10 +3187,22 @@ export default function App(): React.ReactNode {
 
     try {
       if (generatorType === 'local') {
-        const { codeLines } = await generateTkinterCodeLocally(finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, t);
+        const { codeLines } = await generateTkinterCodeLocally(finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, t, codeGeneratorOptions);
+        setGeneratedCodeLines(codeLines);
+      } else if (generatorType === 'turtle') {
+        const { codeLines } = await generateTurtleCodeLocally(finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, t);
+        setGeneratedCodeLines(codeLines);
+      } else if (generatorType === 'pygame') {
+        const { codeLines } = await generatePygameCodeLocally(finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, t);
+        setGeneratedCodeLines(codeLines);
+      } else if (generatorType === 'canvas') {
+        const { codeLines } = await generateCanvasCodeLocally(finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, canvasHtmlPage, t);
+        setGeneratedCodeLines(codeLines);
+      } else if (generatorType === 'pillow') {
+        const { codeLines } = await generatePillowCodeLocally(finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, t);
         setGeneratedCodeLines(codeLines);
       } else {
-        const code = await generateTkinterCode(apiKey!, finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags);
+        const code = await generateTkinterCode(apiKey!, finalShapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, codeGeneratorOptions);
         const lines = code.split('\n');
         const codeLines = lines.map(line => {
             const match = line.match(/(.*?) # ID:([a-zA-Z0-9.-]+)/);
@@ -3022,25 +3223,42 @@ export default function App(): React.ReactNode {
     } finally {
       setIsLoading(false);
     }
-  }, [displayedShapes, canvasWidth, canvasHeight, canvasBgColor, projectName, generatorType, canvasVarName, autoGenerateComments, generateTkinterTags, showSystemTags, apiKey, activeCheats, outlineWithFill, showNotification, t]);
+  }, [displayedShapes, canvasWidth, canvasHeight, canvasBgColor, projectName, generatorType, canvasVarName, autoGenerateComments, generateTkinterTags, showSystemTags, apiKey, activeCheats, outlineWithFill, codeGeneratorOptions, canvasHtmlPage, showNotification, t]);
+
+  const handleEditCodeLine = useCallback((shapeId: string, content: string): TkinterParseFailure | null => {
+    const original = shapes.find((s: Shape) => s.id === shapeId);
+    if (!original) return 'unsupported';
+    const result = applyTkinterEditToShape(original, content, shapes, variableScope);
+    if (typeof result === 'string') return result;
+    updateShape(result);
+    return null;
+  }, [shapes, variableScope, updateShape]);
 
   const displayedShapesString = useMemo(() => JSON.stringify(displayedShapes), [displayedShapes]);
   const shapesString = useMemo(() => JSON.stringify(shapes), [shapes]);
 
   useEffect(() => {
-    if (generatorType === 'local' && isProjectActive) {
+    if (generatorType !== 'gemini' && isProjectActive) {
         const generate = async () => {
             let shapesForGeneration = displayedShapes.filter((s: any) => !(s.type === 'image' && s.isImport) && s.state !== 'hidden');
             if (activeCheats.has('002')) {
                 shapesForGeneration = shapesForGeneration.filter((s: any) => s.type !== 'image');
             }
-            const { codeLines } = await generateTkinterCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, t);
+            const { codeLines } = generatorType === 'turtle'
+                ? await generateTurtleCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, t)
+                : generatorType === 'pygame'
+                ? await generatePygameCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, t)
+                : generatorType === 'canvas'
+                ? await generateCanvasCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, canvasHtmlPage, t)
+                : generatorType === 'pillow'
+                ? await generatePillowCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, autoGenerateComments, t)
+                : await generateTkinterCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, t, codeGeneratorOptions);
             setGeneratedCodeLines(codeLines);
             setShapesAtGenerationTime(JSON.parse(displayedShapesString));
         };
         generate();
     }
-  }, [displayedShapesString, shapesString, canvasWidth, canvasHeight, canvasBgColor, generatorType, projectName, isProjectActive, canvasVarName, autoGenerateComments, generateTkinterTags, showSystemTags, activeCheats, outlineWithFill, t]);
+  }, [displayedShapesString, shapesString, canvasWidth, canvasHeight, canvasBgColor, generatorType, projectName, isProjectActive, canvasVarName, autoGenerateComments, generateTkinterTags, showSystemTags, activeCheats, outlineWithFill, codeGeneratorOptions, canvasHtmlPage, t]);
   
   const hasUnsyncedChangesWithCode = useMemo(() => {
     if (!shapesAtGenerationTime) return false;
@@ -3058,6 +3276,8 @@ export default function App(): React.ReactNode {
     setIsDrawingBezier(false);
     setBezierPoints([]);
     setShapesAtGenerationTime(null);
+    setIsAnimationPlaying(false);
+    setAnimationTime(0);
     setActiveCheats(new Set());
     setFileHandle(null);
     localStorage.removeItem(AUTOSAVE_KEY);
@@ -3104,6 +3324,12 @@ export default function App(): React.ReactNode {
     setCanvasHeight(settings.height);
     setCanvasBgColor(settings.bgColor);
     setCanvasVarName(settings.canvasVarName);
+    setProjectVariables([]);
+    setCustomBitmaps([]);
+    setScrollViewport(null);
+    setPages([]);
+    setCurrentPageId(null);
+    setPageLayout('frames');
 
     if (templateId) {
         const template = projectTemplates.find((t: any) => t.id === templateId);
@@ -3154,12 +3380,18 @@ export default function App(): React.ReactNode {
         shapes: shapesToSave,
         layers: layers,
         activeLayerId: activeLayerId,
-        thumbnail: generateProjectThumbnail(displayedShapes, canvasWidth, canvasHeight, canvasBgColor),
-        canvasSettings: { width: canvasWidth, height: canvasHeight, bgColor: canvasBgColor, varName: canvasVarName },
+        thumbnail: generateProjectThumbnail(displayedShapes, canvasWidth, canvasHeight, canvasBgColor, customBitmaps),
+        canvasSettings: { width: canvasWidth, height: canvasHeight, bgColor: canvasBgColor, varName: canvasVarName, viewport: scrollViewport },
+        animation: animationSettings,
+        variables: projectVariables,
+        customBitmaps,
+        // The top-level shapes, layers and canvas settings are the current page's, so single-page readers still open the file.
+        ...(livePages.length > 0 ? { pages: livePages, currentPageId } : {}),
+        pageLayout,
         viewTransform,
-        uiSettings: { theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags }
+        uiSettings: { theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags, codeStyle, shapeVariables, compressLoops, groupFunctions, resizeMode, scaleFonts, canvasHtmlPage, nativeImages, colorNames }
     };
-  }, [shapes, displayedShapes, layers, activeLayerId, canvasWidth, canvasHeight, canvasBgColor, canvasVarName, viewTransform, theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, generateProjectThumbnail]);
+  }, [shapes, displayedShapes, layers, activeLayerId, canvasWidth, canvasHeight, canvasBgColor, canvasVarName, viewTransform, theme, showGrid, gridSize, snapToGrid, gridSnapStep, showAxes, showCenterGuides, enableSnapping, showCursorCoords, showRotationAngle, showLineNumbers, showTkinterNames, generatorType, highlightCodeOnSelection, autoGenerateComments, showComments, outlineWithFill, generateTkinterTags, showSystemTags, codeStyle, shapeVariables, compressLoops, groupFunctions, resizeMode, scaleFonts, canvasHtmlPage, nativeImages, colorNames, animationSettings, projectVariables, customBitmaps, scrollViewport, livePages, currentPageId, pageLayout, generateProjectThumbnail]);
 
     const handleSaveProject = useCallback(async () => {
         if (!hasUnsavedChanges && fileHandle) {
@@ -3317,17 +3549,29 @@ export default function App(): React.ReactNode {
   const processLoadedData = useCallback((fileContent: string | object, fileName?: string, handle?: FileSystemFileHandle | null) => {
     try {
         let savedData: any = null;
+        let tkinterImport: TkinterImportResult | null = null;
         if (typeof fileContent === 'string') {
             const trimmed = (fileContent || '').trim();
             if (trimmed.startsWith('from tkinter') || trimmed.startsWith('import tkinter') || fileName?.endsWith('.py')) {
-                showNotification('Вибраний файл є Python-скриптом (.py), а не JSON-проєктом Веретки (.vec.json)', 'error');
-                return;
-            }
-            try {
-                savedData = JSON.parse(fileContent);
-            } catch (jsonErr) {
-                showNotification('Помилка парсингу файлу проєкту: вибраний файл не містить дійсного JSON-формату (.vec.json)', 'error');
-                return;
+                tkinterImport = parseTkinterScript(fileContent);
+                if (tkinterImport.shapes.length === 0) {
+                    showNotification(t('import.tkinter.noShapes'), 'error', 5000);
+                    return;
+                }
+                const importedCanvas = tkinterImport.canvasSettings;
+                savedData = {
+                    projectName: tkinterImport.projectName || (fileName ? fileName.replace(/\.py$/, '') : undefined),
+                    shapes: tkinterImport.shapes,
+                    variables: tkinterImport.variables,
+                    canvasSettings: { width: importedCanvas.width, height: importedCanvas.height, bgColor: importedCanvas.bgColor, varName: importedCanvas.varName, viewport: importedCanvas.viewport },
+                };
+            } else {
+                try {
+                    savedData = JSON.parse(fileContent);
+                } catch (jsonErr) {
+                    showNotification('Помилка парсингу файлу проєкту: вибраний файл не містить дійсного JSON-формату (.vec.json)', 'error');
+                    return;
+                }
             }
         } else {
             savedData = fileContent;
@@ -3348,6 +3592,14 @@ export default function App(): React.ReactNode {
             setCanvasHeight(loadedHeight);
             setCanvasBgColor(cs.bgColor || '#ffffff');
             setCanvasVarName(cs.varName || 'c');
+            setScrollViewport(cs.viewport || null);
+            setAnimationSettings({ ...DEFAULT_ANIMATION_SETTINGS, ...(savedData.animation || {}) });
+            setProjectVariables(Array.isArray(savedData.variables) ? savedData.variables : []);
+            setCustomBitmaps(Array.isArray(savedData.customBitmaps) ? savedData.customBitmaps : []);
+            const loadedPages: ProjectPage[] = Array.isArray(savedData.pages) && savedData.pages.length > 1 ? savedData.pages : [];
+            setPages(loadedPages);
+            setCurrentPageId(loadedPages.some(page => page.id === savedData.currentPageId) ? savedData.currentPageId : loadedPages[0]?.id ?? null);
+            setPageLayout(savedData.pageLayout === 'grid' ? 'grid' : 'frames');
             
             // Automatically fit canvas scale to full visible area on project open
             setTimeout(() => fitCanvasToView(loadedWidth, loadedHeight), 0);
@@ -3374,6 +3626,15 @@ export default function App(): React.ReactNode {
             setGenerateTkinterTags(ui.generateTkinterTags ?? false);
             setShowSystemTags(ui.showSystemTags ?? false);
             setOutlineWithFill(ui.outlineWithFill ?? true);
+            setCodeStyle(ui.codeStyle || 'classic');
+            setShapeVariables(ui.shapeVariables ?? false);
+            setCompressLoops(ui.compressLoops ?? false);
+            setGroupFunctions(ui.groupFunctions ?? false);
+            setResizeMode(ui.resizeMode || 'fixed');
+            setScaleFonts(ui.scaleFonts ?? false);
+            setCanvasHtmlPage(ui.canvasHtmlPage ?? true);
+            setNativeImages(ui.nativeImages ?? false);
+            setColorNames(ui.colorNames || 'hex');
             
             lastSavedSignatureRef.current = getProjectSignature(newProjectName, shapesToLoad);
 
@@ -3385,7 +3646,25 @@ export default function App(): React.ReactNode {
             if (handle) {
                 addRecentProject(handle, savedData.thumbnail);
             }
-            showNotification(t('app.1015'), 'info');
+            // Colours Tk doesn't know would stop the generated script with a TclError.
+            // A multi-page project is checked on every page, not only the one that opens.
+            const invalidColors = findInvalidTkColors(loadedPages.length > 0 ? loadedPages.flatMap(page => page.shapes) : shapesToLoad);
+            const bgColors = loadedPages.length > 0 ? loadedPages.map(page => page.bgColor) : [cs.bgColor];
+            bgColors.forEach(color => {
+                if (color && !isValidTkColor(color) && !invalidColors.includes(color)) invalidColors.push(color);
+            });
+            if (tkinterImport && tkinterImport.unmappedLines.length > 0) {
+                const shortLine = (content: string) => content.length > 40 ? `${content.slice(0, 39)}…` : content;
+                const { unmappedLines } = tkinterImport;
+                const lines = unmappedLines.slice(0, 3).map(l => `${l.lineNumber}: ${shortLine(l.content)}`).join('; ') + (unmappedLines.length > 3 ? '; …' : '');
+                showNotification(t('import.tkinter.partial', { count: tkinterImport.shapes.length, skipped: unmappedLines.length, lines }), 'error', 10000);
+            } else if (invalidColors.length > 0) {
+                showNotification(t('color.invalidLoaded', { count: invalidColors.length, colors: invalidColors.slice(0, 5).map(c => `"${c}"`).join(', ') }), 'error', 8000);
+            } else if (tkinterImport) {
+                showNotification(t('import.tkinter.success', { count: tkinterImport.shapes.length }), 'info');
+            } else {
+                showNotification(t('app.1015'), 'info');
+            }
             localStorage.removeItem(AUTOSAVE_KEY);
             setTimeout(() => fitCanvasToView(loadedWidth, loadedHeight), 50);
         } else {
@@ -3411,7 +3690,8 @@ export default function App(): React.ReactNode {
 
     if (result) {
         processLoadedData(result.content, result.handle.name, result.handle);
-        setFileHandle(result.handle);
+        // An imported Tkinter script must not be overwritten with project JSON on save.
+        setFileHandle(result.handle.name.endsWith('.py') ? null : result.handle);
     } else {
         projectLoadInputRef.current?.click();
     }
@@ -3452,10 +3732,32 @@ export default function App(): React.ReactNode {
     showNotification(t('app.1024'), 'info', 1500);
     try {
         const shapesToExport = displayedShapes;
-        const svgString = generateSvg(shapesToExport, canvasWidth, canvasHeight, canvasBgColor);
+        const svgString = generateSvg(shapesToExport, canvasWidth, canvasHeight, canvasBgColor, customBitmaps);
         const suggestedName = `${projectName}.${settings.format}`;
 
-        if (settings.format === 'svg') {
+        if (settings.format === 'zip') {
+            // The bundle always carries the Tkinter program, loading its images from the assets folder.
+            const shapesForGeneration = shapesToExport.filter((s: any) => !(s.type === 'image' && s.isImport) && s.state !== 'hidden');
+            const assetShapes = codePages ? codePages.flatMap(page => page.shapes) : shapesForGeneration;
+            const { files, imageFiles } = await collectImageAssets(assetShapes);
+            const { files: bitmapAssets, bitmapFiles } = collectBitmapAssets(assetShapes, customBitmaps);
+            const { codeLines } = await generateTkinterCodeLocally(shapesForGeneration, canvasWidth, canvasHeight, canvasBgColor, projectName, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, t, { ...codeGeneratorOptions, imageFiles, bitmapFiles });
+            const blob = createZip([
+                { name: `${projectName}.py`, data: codeLines.map(line => line.content).join('\n') },
+                ...files,
+                ...bitmapAssets,
+                { name: `${projectName}.vec.json`, data: JSON.stringify(getSaveData(projectName), null, 2) },
+            ]);
+            await saveFile(
+                blob,
+                suggestedName,
+                [{
+                    description: t('export.bundle'),
+                    accept: { 'application/zip': ['.zip'] },
+                }],
+                'application/zip'
+            );
+        } else if (settings.format === 'svg') {
             await saveFile(
                 svgString,
                 suggestedName,
@@ -3493,14 +3795,14 @@ export default function App(): React.ReactNode {
         console.error(t('app.1029'), err);
         showNotification(t('app.1030'), 'error');
     }
-  }, [displayedShapes, canvasWidth, canvasHeight, canvasBgColor, projectName, showNotification]);
+  }, [displayedShapes, canvasWidth, canvasHeight, canvasBgColor, projectName, showNotification, canvasVarName, autoGenerateComments, outlineWithFill, generateTkinterTags, showSystemTags, t, codeGeneratorOptions, codePages, customBitmaps, getSaveData]);
 
   const handleOpenRecent = useCallback(async (project: RecentProject) => {
     try {
         const content = await openRecentProject(project);
         if (content) {
             processLoadedData(content, project.name, project.handle);
-            setFileHandle(project.handle);
+            setFileHandle(project.name.endsWith('.py') ? null : project.handle);
         }
     } catch (err) {
         console.error(t('app.1031'), err);
@@ -3534,7 +3836,7 @@ export default function App(): React.ReactNode {
   }, [clearAllProjects, recentProjects.length, showNotification]);
 
 
-    const handleSaveCode = useCallback(async (fileName: string, extension: '.py' | '.txt', includeLineNumbers: boolean) => {
+    const handleSaveCode = useCallback(async (fileName: string, extension: CodeFileExtension, includeLineNumbers: boolean) => {
         setIsSaveCodeModalOpen(false);
         
         let contentToSave: string;
@@ -3544,7 +3846,7 @@ export default function App(): React.ReactNode {
 
         if (extension === '.txt' && includeLineNumbers) {
             contentToSave = generatedCodeLines
-                .filter(line => showComments || !((line?.content || '').trim() || '').startsWith('#'))
+                .filter(line => showComments || !isCommentLine(line))
                 .map((line, index) => `${String(index + 1).padStart(4, ' ')} | ${line.content}`)
                 .join('\n');
         } else {
@@ -3560,6 +3862,14 @@ export default function App(): React.ReactNode {
             fileDescription = t('app.1042');
             mimeType = 'text/python';
             accept = { [mimeType]: ['.py'] };
+        } else if (extension === '.html') {
+            fileDescription = t('code.htmlFile');
+            mimeType = 'text/html';
+            accept = { [mimeType]: ['.html'] };
+        } else if (extension === '.js') {
+            fileDescription = t('code.jsFile');
+            mimeType = 'text/javascript';
+            accept = { [mimeType]: ['.js'] };
         } else { // .txt
             fileDescription = t('app.1043');
             mimeType = 'text/plain';
@@ -3664,6 +3974,135 @@ export default function App(): React.ReactNode {
     }
   }, [selectedShapeIds, duplicateShape]);
 
+  const getClipboardShapes = useCallback(() => {
+    if (distributePathState || selectedShapeIds.length === 0) return null;
+    const clipboardShapes = collectClipboardShapes(selectedShapeIds, orderShapesByLayers(shapes, layers));
+    return clipboardShapes.length > 0 ? clipboardShapes : null;
+  }, [distributePathState, selectedShapeIds, shapes, layers]);
+
+  // Copy and cut write either into the event's clipboard data (keyboard) or through the Clipboard API (menu).
+  const handleCopy = useCallback(async (isCut = false, dataTransfer?: DataTransfer | null) => {
+    const clipboardShapes = getClipboardShapes();
+    if (!clipboardShapes) return;
+    try {
+        await writeShapeClipboard(clipboardShapes, customBitmaps, dataTransfer);
+    } catch (err) {
+        console.error(err);
+        showNotification(t('clipboard.writeError'), 'error');
+        return;
+    }
+    if (isCut) {
+        const idsToDelete = [...selectedShapeIds];
+        setSelectedShapeIds([]);
+        deleteShape(idsToDelete);
+    }
+    showNotification(t(isCut ? 'clipboard.cut' : 'clipboard.copied').replace('{count}', String(clipboardShapes.length)));
+  }, [getClipboardShapes, customBitmaps, selectedShapeIds, deleteShape, showNotification, t]);
+
+  /** Pastes shapes copied in this or another project; returns false when the text holds no shapes. */
+  const pasteClipboardText = useCallback((text: string) => {
+    const data = parseShapeClipboard(text);
+    if (!data || distributePathState) return false;
+    const missingBitmaps = data.customBitmaps.filter(bitmap => !customBitmaps.some(own => own.id === bitmap.id));
+    if (missingBitmaps.length > 0) setCustomBitmaps(prev => [...prev, ...missingBitmaps]);
+    // At the cursor while it is over the canvas; otherwise just beside the originals.
+    addShapes(prepareShapesForPaste(data.shapes, cursorPos), true);
+    showNotification(t('clipboard.pasted').replace('{count}', String(data.shapes.length)));
+    return true;
+  }, [distributePathState, customBitmaps, cursorPos, addShapes, showNotification, t]);
+
+  /** Adds the drawing of an SVG document as shapes at its own coordinates; returns false when the text isn't SVG. */
+  const importSvgText = useCallback((text: string) => {
+    if (distributePathState) return false;
+    const result = importSvg(text);
+    if (!result) {
+        showNotification(t('svgImport.invalid'), 'error');
+        return false;
+    }
+    const count = result.shapes.filter(shape => shape.type !== 'group').length;
+    if (count === 0) {
+        showNotification(t('svgImport.empty'), 'error');
+        return true;
+    }
+    addShapes(result.shapes, true);
+    const message = t('svgImport.imported').replace('{count}', String(count));
+    showNotification(result.skippedCount > 0 ? `${message} ${t('svgImport.skipped').replace('{count}', String(result.skippedCount))}` : message);
+    return true;
+  }, [distributePathState, addShapes, showNotification, t]);
+
+  const importSvgFile = useCallback(async (file: File) => {
+    try {
+        importSvgText(await file.text());
+    } catch (err) {
+        console.error(err);
+        showNotification(t('svgImport.invalid'), 'error');
+    }
+  }, [importSvgText, showNotification, t]);
+
+  const handleCanvasDragOver = (e: React.DragEvent) => {
+    if (Array.from(e.dataTransfer.items).some(item => item.kind === 'file')) {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  const handleCanvasDrop = (e: React.DragEvent) => {
+    const file = Array.from(e.dataTransfer.files).find(isSvgFile);
+    if (!file) return;
+    e.preventDefault();
+    importSvgFile(file);
+  };
+
+  const handlePaste = useCallback(async () => {
+    let text = '';
+    try {
+        text = await navigator.clipboard.readText();
+    } catch (err) {
+        console.error(err);
+        showNotification(t('clipboard.readError'), 'error');
+        return;
+    }
+    if (pasteClipboardText(text)) return;
+    if (isSvgText(text)) importSvgText(text);
+    else showNotification(t('clipboard.empty'), 'error');
+  }, [pasteClipboardText, importSvgText, showNotification, t]);
+
+  useEffect(() => {
+    if (!isProjectActive) return;
+    // Text fields, the inline text editor and selected text (e.g. in the code panel) keep the browser's own behaviour.
+    const isTextTarget = (e: ClipboardEvent) =>
+        (e.target as HTMLElement).matches?.('input, textarea, [contenteditable="true"]') || !!inlineEditingShapeId || !!window.getSelection()?.toString();
+    const onCopyOrCut = (e: ClipboardEvent) => {
+        if (isTextTarget(e) || !getClipboardShapes()) return;
+        e.preventDefault();
+        handleCopy(e.type === 'cut', e.clipboardData);
+    };
+    const onPaste = (e: ClipboardEvent) => {
+        if (isTextTarget(e)) return;
+        const svgFile = Array.from(e.clipboardData?.files || []).find(isSvgFile);
+        if (svgFile) {
+            e.preventDefault();
+            importSvgFile(svgFile);
+            return;
+        }
+        const text = e.clipboardData?.getData('text/plain') || '';
+        if (pasteClipboardText(text)) {
+            e.preventDefault();
+        } else if (isSvgText(text) || e.clipboardData?.types.includes('image/svg+xml')) {
+            e.preventDefault();
+            importSvgText(isSvgText(text) ? text : e.clipboardData!.getData('image/svg+xml'));
+        }
+    };
+    document.addEventListener('copy', onCopyOrCut);
+    document.addEventListener('cut', onCopyOrCut);
+    document.addEventListener('paste', onPaste);
+    return () => {
+        document.removeEventListener('copy', onCopyOrCut);
+        document.removeEventListener('cut', onCopyOrCut);
+        document.removeEventListener('paste', onPaste);
+    };
+  }, [isProjectActive, inlineEditingShapeId, getClipboardShapes, handleCopy, pasteClipboardText, importSvgText, importSvgFile]);
+
   const handleDelete = useCallback(() => { 
     if (distributePathState) return;
     if (selectedShapeIds.length > 0) {
@@ -3869,7 +4308,7 @@ export default function App(): React.ReactNode {
                       
                       if (dx === 0) return s;
                       switch (s.type) {
-                          case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                          case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                               return { ...s, x: s.x + dx };
                           case 'ellipse': case 'polygon': case 'star':
                               return { ...s, cx: s.cx + dx };
@@ -3902,7 +4341,7 @@ export default function App(): React.ReactNode {
                       
                       if (dy === 0) return s;
                       switch (s.type) {
-                          case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                          case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                               return { ...s, y: s.y + dy };
                           case 'ellipse': case 'polygon': case 'star':
                               return { ...s, cy: s.cy + dy };
@@ -3933,7 +4372,7 @@ export default function App(): React.ReactNode {
               if (dx === 0 && dy === 0) return s;
 
               switch (s.type) {
-                  case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                  case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                       return { ...s, x: s.x + dx, y: s.y + dy };
                   case 'ellipse': case 'polygon': case 'star':
                       return { ...s, cx: s.cx + dx, cy: s.cy + dy };
@@ -4185,7 +4624,7 @@ export default function App(): React.ReactNode {
                             const dy = C2_new.y - C2.y;
                             
                             switch (newS.type) {
-                                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                                     newS.x += dx; newS.y += dy; break;
                                 case 'ellipse': case 'polygon': case 'star':
                                     newS.cx += dx; newS.cy += dy; break;
@@ -4524,13 +4963,7 @@ export default function App(): React.ReactNode {
                 case 'KeyH':
                     if (selectedShapeIds.length > 0) {
                         e.preventDefault();
-                        handleFlip('horizontal');
-                    }
-                    return;
-                case 'KeyV':
-                    if (selectedShapeIds.length > 0) {
-                        e.preventDefault();
-                        handleFlip('vertical');
+                        handleFlip(e.shiftKey ? 'vertical' : 'horizontal');
                     }
                     return;
                 case 'KeyD':
@@ -4749,7 +5182,7 @@ export default function App(): React.ReactNode {
                 
                 // Apply transformation
                 switch (newShape.type) {
-                    case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                    case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                         newShape.x += dx;
                         newShape.y += dy;
                         break;
@@ -5029,11 +5462,13 @@ export default function App(): React.ReactNode {
     };
 
   return (
+    <VariableScopeContext.Provider value={variableScope}>
+    <CustomBitmapsContext.Provider value={customBitmapsContext}>
     <div className="h-screen bg-[var(--bg-app)] text-[var(--text-primary)] font-sans flex flex-col selection:bg-[var(--accent-primary)] selection:text-[var(--accent-text)] overflow-hidden">
       
       <div className="h-full flex flex-col">
-          <input type="file" ref={fileInputRef} style={{ display: 'none' }} accept="image/png, image/jpeg, image/gif, image/webp" onChange={handleFileSelect} />
-          <input type="file" ref={projectLoadInputRef} style={{ display: 'none' }} accept=".json,.vec.json" onChange={handleProjectFileSelected} />
+          <input type="file" ref={fileInputRef} style={{ display: 'none' }} accept="image/png, image/jpeg, image/gif, image/webp, image/svg+xml, .svg" onChange={handleFileSelect} />
+          <input type="file" ref={projectLoadInputRef} style={{ display: 'none' }} accept=".json,.vec.json,.py" onChange={handleProjectFileSelected} />
           {notification && (
             <div className={`fixed top-5 left-1/2 -translate-x-1/2 ${notification.type === 'error' ? 'bg-[var(--destructive-bg)]' : 'bg-[var(--accent-primary)]'} text-[var(--accent-text)] py-2 px-4 rounded-lg shadow-lg z-[99999] animate-fade-in-down`}>
               {notification.message}
@@ -5087,6 +5522,9 @@ export default function App(): React.ReactNode {
               canUndo={canUndo}
               canRedo={canRedo}
               onDuplicate={handleDuplicate}
+              onCopy={() => handleCopy()}
+              onCut={() => handleCopy(true)}
+              onPaste={handlePaste}
               isShapeSelected={!(selectedShapeIds.length === 0)}
               onDelete={handleDelete}
               onGroup={handleGroup}
@@ -5114,6 +5552,8 @@ export default function App(): React.ReactNode {
               setShowCenterGuides={setShowCenterGuides}
               enableSnapping={enableSnapping}
               setEnableSnapping={setEnableSnapping}
+              showTimeline={showTimeline}
+              setShowTimeline={setShowTimeline}
               onOpenSettings={handleOpenSettings}
               theme={theme}
               setTheme={setTheme}
@@ -5221,6 +5661,7 @@ export default function App(): React.ReactNode {
                         onSaveCode={() => setIsSaveCodeModalOpen(true)}
                         onOpenOrRunCodeOnline={handleOpenOrRunCodeOnline}
                         codeStringForExport={codeStringForExport}
+                        onEditCodeLine={handleEditCodeLine}
                     />
                 </div>
             </aside>}
@@ -5252,7 +5693,7 @@ export default function App(): React.ReactNode {
             >
                 {isProjectActive ? (
                     <>
-                        <div ref={viewportRef} className="bg-[var(--bg-secondary)] rounded-lg shadow-inner flex-grow overflow-hidden relative grid" style={{
+                        <div ref={viewportRef} onDragOver={handleCanvasDragOver} onDrop={handleCanvasDrop} className="bg-[var(--bg-secondary)] rounded-lg shadow-inner flex-grow overflow-hidden relative grid" style={{
                             gridTemplateRows: showAxes ? `${RULER_THICKNESS}px 1fr` : '1fr',
                             gridTemplateColumns: showAxes ? `${RULER_THICKNESS}px 1fr` : '1fr',
                         }}>
@@ -5322,13 +5763,15 @@ export default function App(): React.ReactNode {
                                     />
                                 )}
                                 <Canvas
+                                    customBitmaps={customBitmaps}
+                                    viewport={scrollViewport}
                                     onDrawingAttempt={handleDrawingAttempt}
                                     distributePathState={distributePathState}
                                     onDistributePathChange={setDistributePathStateWithoutHistory}
                                     onDistributePathChangeEnd={handleDistributePathChangeEnd}
                                     isSelectingPathShape={isSelectingPathShape}
                                     onSelectPathShape={handleSelectPathShape}
-                                    width={canvasWidth} height={canvasHeight} backgroundColor={previewCanvasBgColor ?? canvasBgColor} shapes={displayedShapes} lockedShapeIds={lockedShapeIds} addShape={addShape} addShapes={addShapes} updateShape={updateShape} updateShapes={updateShapes} activeTool={activeTool} drawMode={drawMode}
+                                    width={canvasWidth} height={canvasHeight} backgroundColor={previewCanvasBgColor ?? canvasBgColor} shapes={canvasShapes} lockedShapeIds={lockedShapeIds} addShape={addShape} addShapes={addShapes} updateShape={updateShape} updateShapes={updateShapes} activeTool={activeTool} drawMode={drawMode}
                                     fillColor={isFillEnabled ? (previewFillColor ?? fillColor) : 'none'} strokeColor={isStrokeEnabled ? (previewStrokeColor ?? strokeColor) : 'none'} strokeWidth={isStrokeEnabled ? strokeWidth : 0}
                                     textColor={previewTextColor ?? textColor}
                                     textFont={textFont}
@@ -5347,10 +5790,33 @@ export default function App(): React.ReactNode {
                                     enableSnapping={enableSnapping}
                                 />
                             </div>
+                            <PageTabs
+                                pages={livePages}
+                                currentPageId={currentPageId}
+                                onSwitchPage={handleSwitchPage}
+                                onAddPage={handleAddPage}
+                                onRenamePage={handleRenamePage}
+                                onDeletePage={handleDeletePage}
+                            />
                             <button onClick={() => fitCanvasToView()} title={t('menu.view.fit')} className="absolute bottom-4 right-4 z-10 p-2 bg-[var(--bg-primary)] text-[var(--text-secondary)] rounded-full shadow-lg hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] transition-colors">
                                 <FitToScreenIcon />
                             </button>
                         </div>
+                        {showTimeline && !isMobile && (
+                            <AnimationTimeline
+                                shapes={displayedShapes}
+                                selectedShapeIds={selectedShapeIds}
+                                onSelectShape={(id) => handleSelectShape(id)}
+                                updateShape={updateShape}
+                                time={animationTime}
+                                setTime={setAnimationTime}
+                                isPlaying={isAnimationPlaying}
+                                setIsPlaying={setIsAnimationPlaying}
+                                settings={animationSettings}
+                                setSettings={setAnimationSettings}
+                                onClose={() => setShowTimeline(false)}
+                            />
+                        )}
                         <StatusBar 
                             zoomLevel={viewTransform.scale} 
                             cursorPos={cursorPos}
@@ -5750,6 +6216,7 @@ export default function App(): React.ReactNode {
                               onSaveCode={() => setIsSaveCodeModalOpen(true)}
                               onOpenOrRunCodeOnline={handleOpenOrRunCodeOnline}
                               codeStringForExport={codeStringForExport}
+                              onEditCodeLine={handleEditCodeLine}
                           />
                       </div>
                   </MobileBottomSheet>
@@ -5782,6 +6249,7 @@ export default function App(): React.ReactNode {
               onRenameTemplate={handleRenameTemplate}
               templates={projectTemplates}
               canvasWidth={canvasWidth} setCanvasWidth={setCanvasWidth} canvasHeight={canvasHeight} setCanvasHeight={setCanvasHeight} 
+              scrollViewport={scrollViewport} setScrollViewport={setScrollViewport}
               canvasBgColor={canvasBgColor} 
               setCanvasBgColor={(color) => { setCanvasBgColor(color); setPreviewCanvasBgColor(null); }}
               setPreviewCanvasBgColor={setPreviewCanvasBgColor}
@@ -5802,6 +6270,17 @@ export default function App(): React.ReactNode {
               generateTkinterTags={generateTkinterTags} setGenerateTkinterTags={setGenerateTkinterTags}
               showSystemTags={showSystemTags} setShowSystemTags={setShowSystemTags}
               outlineWithFill={outlineWithFill} setOutlineWithFill={setOutlineWithFill}
+              codeStyle={codeStyle} setCodeStyle={setCodeStyle}
+              shapeVariables={shapeVariables} setShapeVariables={setShapeVariables}
+              compressLoops={compressLoops} setCompressLoops={setCompressLoops}
+              groupFunctions={groupFunctions} setGroupFunctions={setGroupFunctions}
+              resizeMode={resizeMode} setResizeMode={setResizeMode}
+              scaleFonts={scaleFonts} setScaleFonts={setScaleFonts}
+              canvasHtmlPage={canvasHtmlPage} setCanvasHtmlPage={setCanvasHtmlPage}
+              nativeImages={nativeImages} setNativeImages={setNativeImages}
+              colorNames={colorNames} setColorNames={setColorNames}
+              pageCount={livePages.length} pageLayout={pageLayout} setPageLayout={setPageLayout}
+              projectVariables={projectVariables} setProjectVariables={setProjectVariables}
               maxRecentProjects={maxRecentProjects}
               setMaxRecentProjects={setMaxRecentProjects}
             />
@@ -5821,6 +6300,11 @@ export default function App(): React.ReactNode {
                 width={canvasWidth} 
                 height={canvasHeight} 
                 backgroundColor={canvasBgColor} 
+                animation={animationSettings}
+                resizeMode={resizeMode}
+                scaleFonts={scaleFonts}
+                customBitmaps={customBitmaps}
+                viewport={scrollViewport}
                 onClose={() => setIsPreviewOpen(false)} 
             />
           )}
@@ -5829,6 +6313,15 @@ export default function App(): React.ReactNode {
                 onClose={() => setIsExportModalOpen(false)}
                 onExport={handleExport}
             />
+          )}
+           {bitmapEditorTarget !== null && (
+            <BitmapEditorModal
+                bitmaps={customBitmaps}
+                usedBitmapIds={usedBitmapIds}
+                initialBitmapId={bitmapEditorTarget || undefined}
+                onChange={setCustomBitmaps}
+                onClose={() => setBitmapEditorTarget(null)}
+            />
           )}
            {isNewProjectModalOpen && (
             <NewProjectModal
@@ -5915,6 +6408,7 @@ export default function App(): React.ReactNode {
                 onClose={() => setIsSaveCodeModalOpen(false)}
                 onSave={handleSaveCode}
                 currentProjectName={projectName}
+                codeExtension={generatorType !== 'canvas' ? '.py' : canvasHtmlPage ? '.html' : '.js'}
             />
           )}
           {isSaveTemplateModalOpen && (
@@ -6036,5 +6530,7 @@ export default function App(): React.ReactNode {
           )}
       </div>
     </div>
+    </CustomBitmapsContext.Provider>
+    </VariableScopeContext.Provider>
   );
 }
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Shape, AnimationSettings, AnimationEasing, ShapeKeyframe } from '../types';
+import { useLanguage } from './LanguageContext';
+import { PlayIcon, PauseIcon, TrashIcon, XIcon } from './icons';
+import { Select, NumberInput } from './FormControls';
+import { getDefaultNameForShape } from '../lib/constants';
+import { ANIMATION_EASINGS, captureKeyframeValues, getAnimatedShape, setKeyframe } from '../lib/animation';
+
+interface AnimationTimelineProps {
+  shapes: Shape[];
+  selectedShapeIds: string[];
+  onSelectShape: (id: string) => void;
+  updateShape: (shape: Shape, isTransient?: boolean) => void;
+  time: number;
+  setTime: (time: number) => void;
+  isPlaying: boolean;
+  setIsPlaying: (isPlaying: boolean) => void;
+  settings: AnimationSettings;
+  setSettings: (settings: AnimationSettings) => void;
+  onClose: () => void;
+}
+
+const LABEL_WIDTH = 128;
+
+const formatSeconds = (ms: number) => (ms / 1000).toFixed(2);
+
+const AnimationTimeline: React.FC<AnimationTimelineProps> = ({ shapes, selectedShapeIds, onSelectShape, updateShape, time, setTime, isPlaying, setIsPlaying, settings, setSettings, onClose }) => {
+  const { t } = useLanguage();
+  const [selectedKeyframe, setSelectedKeyframe] = useState<{ shapeId: string; keyframeId: string } | null>(null);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  const selectedShape = selectedShapeIds.length === 1 ? shapes.find(s => s.id === selectedShapeIds[0]) : undefined;
+  const canAddKeyframe = !!selectedShape && selectedShape.type !== 'group';
+
+  // Rows: every animated shape plus the selected one, in drawing order.
+  const rows = useMemo(() => shapes.filter(s => s.type !== 'group' && ((s.keyframes && s.keyframes.length > 0) || s.id === selectedShape?.id)), [shapes, selectedShape]);
+
+  const activeKeyframe = useMemo(() => {
+    if (!selectedKeyframe) return null;
+    const shape = shapes.find(s => s.id === selectedKeyframe.shapeId);
+    const keyframe = shape?.keyframes?.find(k => k.id === selectedKeyframe.keyframeId);
+    return shape && keyframe ? { shape, keyframe } : null;
+  }, [shapes, selectedKeyframe]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      let next = timeRef.current + (now - last);
+      last = now;
+      if (next >= settings.duration) {
+        if (!settings.loop) {
+          setTime(settings.duration);
+          setIsPlaying(false);
+          return;
+        }
+        next = settings.duration > 0 ? next % settings.duration : 0;
+      }
+      setTime(next);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, settings.duration, settings.loop, setTime, setIsPlaying]);
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && time >= settings.duration) setTime(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleAddKeyframe = () => {
+    if (!selectedShape || !canAddKeyframe) return;
+    const values = captureKeyframeValues(getAnimatedShape(selectedShape, time));
+    const updated = setKeyframe(selectedShape, time, values);
+    updateShape(updated);
+    const keyframe = updated.keyframes!.find(k => Math.abs(k.time - time) < 1);
+    if (keyframe) setSelectedKeyframe({ shapeId: selectedShape.id, keyframeId: keyframe.id });
+  };
+
+  const updateKeyframe = (shape: Shape, keyframeId: string, changes: Partial<ShapeKeyframe>, isTransient?: boolean) => {
+    const keyframes = (shape.keyframes || []).map(k => k.id === keyframeId ? { ...k, ...changes } : k).sort((a, b) => a.time - b.time);
+    updateShape({ ...shape, keyframes }, isTransient);
+  };
+
+  const deleteKeyframe = (shape: Shape, keyframeId: string) => {
+    const keyframes = (shape.keyframes || []).filter(k => k.id !== keyframeId);
+    updateShape({ ...shape, keyframes: keyframes.length > 0 ? keyframes : undefined });
+    setSelectedKeyframe(null);
+  };
+
+  const timeFromPointer = (e: React.PointerEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = rect.width > 0 ? (e.clientX - rect.left) / rect.width : 0;
+    return Math.max(0, Math.min(1, ratio)) * settings.duration;
+  };
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsPlaying(false);
+    setTime(timeFromPointer(e));
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) setTime(timeFromPointer(e));
+  };
+
+  const position = (ms: number) => `${settings.duration > 0 ? Math.min(100, (ms / settings.duration) * 100) : 0}%`;
+  const tickStep = settings.duration > 10000 ? 2000 : settings.duration > 4000 ? 1000 : 500;
+  const ticks = Array.from({ length: Math.floor(settings.duration / tickStep) + 1 }, (_, i) => i * tickStep);
+
+  return (
+    <div className="shadow-lg rounded-lg bg-[var(--bg-primary)] flex flex-col mt-2 flex-shrink-0 max-h-64">
+      <div className="flex items-center gap-2 p-2 px-3 bg-[var(--bg-app)]/50 rounded-t-lg border-b border-[var(--border-primary)] flex-wrap">
+        <h2 className="font-semibold text-[var(--text-primary)] text-sm mr-2">{t('animation.title')}</h2>
+        <button onClick={handleTogglePlay} title={isPlaying ? t('animation.pause') : t('animation.play')} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+          {isPlaying ? <PauseIcon size={16} /> : <PlayIcon size={16} />}
+        </button>
+        <span className="text-xs font-mono text-[var(--text-secondary)] w-24">{formatSeconds(time)} / {formatSeconds(settings.duration)} s</span>
+        <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)]" title={t('animation.durationDesc')}>
+          {t('animation.duration')}
+          <div className="w-20"><NumberInput id="animation-duration" value={settings.duration / 1000} onChange={v => setSettings({ ...settings, duration: Math.max(100, Math.round(v * 1000)) })} min={0.1} step={0.5} unit="s" /></div>
+        </label>
+        <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)]" title={t('animation.fpsDesc')}>
+          FPS
+          <div className="w-16"><NumberInput id="animation-fps" value={settings.fps} onChange={v => setSettings({ ...settings, fps: Math.max(1, Math.min(120, Math.round(v))) })} min={1} max={120} /></div>
+        </label>
+        <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)] cursor-pointer">
+          <input type="checkbox" checked={settings.loop} onChange={e => setSettings({ ...settings, loop: e.target.checked })} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+          {t('animation.loop')}
+        </label>
+        <button onClick={handleAddKeyframe} disabled={!canAddKeyframe} title={t('animation.addKeyframeDesc')} className="px-2 py-1 text-xs bg-[var(--bg-tertiary)] hover:bg-[var(--accent-primary)] hover:text-[var(--accent-text)] rounded-md disabled:opacity-50 disabled:hover:bg-[var(--bg-tertiary)] disabled:hover:text-inherit">
+          ◆ {t('animation.addKeyframe')}
+        </button>
+        {activeKeyframe && (
+          <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+            <div className="w-20"><NumberInput id="keyframe-time" value={activeKeyframe.keyframe.time / 1000} onChange={(v, isFinal) => updateKeyframe(activeKeyframe.shape, activeKeyframe.keyframe.id, { time: Math.max(0, Math.round(v * 1000)) }, isFinal === false)} min={0} step={0.1} unit="s" title={t('animation.keyframeTime')} /></div>
+            <div className="w-28">
+              <Select id="keyframe-easing" value={activeKeyframe.keyframe.easing} onChange={v => updateKeyframe(activeKeyframe.shape, activeKeyframe.keyframe.id, { easing: v as AnimationEasing })} title={t('animation.easingDesc')}>
+                {ANIMATION_EASINGS.map(easing => <option key={easing} value={easing}>{t(`animation.easing.${easing}`)}</option>)}
+              </Select>
+            </div>
+            <button onClick={() => deleteKeyframe(activeKeyframe.shape, activeKeyframe.keyframe.id)} title={t('animation.deleteKeyframe')} className="p-1.5 rounded hover:bg-[var(--destructive-bg)] text-[var(--destructive-text)] hover:text-[var(--accent-text)]"><TrashIcon size={16} /></button>
+          </div>
+        )}
+        <button onClick={onClose} title={t('animation.close')} className="ml-auto p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] rounded-full"><XIcon /></button>
+      </div>
+      <div className="relative overflow-y-auto p-scrollbar px-3 pb-2 select-none">
+        <div className="flex items-end h-6 sticky top-0 bg-[var(--bg-primary)] z-10">
+          <div style={{ width: LABEL_WIDTH }} className="flex-shrink-0" />
+          <div className="relative flex-1 h-full cursor-pointer" onPointerDown={handleScrubStart} onPointerMove={handleScrubMove}>
+            {ticks.map(ms => (
+              <div key={ms} className="absolute bottom-0 h-2 border-l border-[var(--border-secondary)]" style={{ left: position(ms) }}>
+                <span className="absolute bottom-2 -translate-x-1/2 text-[10px] text-[var(--text-tertiary)]">{ms / 1000}</span>
+              </div>
+            ))}
+            <div className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-primary)] pointer-events-none" style={{ left: position(time) }} />
+          </div>
+        </div>
+        {rows.length === 0 && <div className="text-xs text-[var(--text-tertiary)] py-2">{t('animation.empty')}</div>}
+        {rows.map(shape => (
+          <div key={shape.id} className="flex items-center h-7 border-t border-[var(--border-secondary)]">
+            <button onClick={() => onSelectShape(shape.id)} style={{ width: LABEL_WIDTH }} className={`flex-shrink-0 truncate text-left text-xs pr-2 ${selectedShapeIds.includes(shape.id) ? 'text-[var(--accent-primary)] font-semibold' : 'text-[var(--text-secondary)]'}`}>
+              {shape.name || getDefaultNameForShape(shape, t)}
+            </button>
+            <div className="relative flex-1 h-full cursor-pointer" onPointerDown={handleScrubStart} onPointerMove={handleScrubMove}>
+              {(shape.keyframes || []).map(keyframe => {
+                const isActive = selectedKeyframe?.keyframeId === keyframe.id;
+                return (
+                  <div
+                    key={keyframe.id}
+                    onPointerDown={e => {
+                      e.stopPropagation();
+                      setIsPlaying(false);
+                      setTime(keyframe.time);
+                      setSelectedKeyframe({ shapeId: shape.id, keyframeId: keyframe.id });
+                    }}
+                    title={`${formatSeconds(keyframe.time)} s · ${Object.keys(keyframe.values).join(', ')}`}
+                    className={`absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border ${isActive ? 'bg-[var(--accent-primary)] border-[var(--accent-primary)]' : 'bg-[var(--bg-tertiary)] border-[var(--text-secondary)]'}`}
+                    style={{ left: position(keyframe.time) }}
+                  />
+                );
+              })}
+              <div className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-primary)]/60 pointer-events-none" style={{ left: position(time) }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnimationTimeline;
@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import { type CustomBitmap } from '../types';
+import { XIcon } from './icons';
+import { InputWrapper, Label, NumberInput } from './FormControls';
+import { useLanguage } from './LanguageContext';
+import { MAX_BITMAP_SIZE, createBitmap, getBitmapPixelPath, parseXbm, resizeBitmap, setBitmapPixel } from '../lib/bitmaps';
+
+interface BitmapEditorModalProps {
+  bitmaps: CustomBitmap[];
+  /** Bitmaps that shapes refer to; these can't be deleted. */
+  usedBitmapIds: Set<string>;
+  initialBitmapId?: string;
+  onChange: (bitmaps: CustomBitmap[]) => void;
+  onClose: () => void;
+}
+
+// Side of the drawing grid in screen pixels; cells shrink to fit bigger bitmaps.
+const GRID_SIZE = 320;
+
+const newBitmapId = () => `bitmap-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const BitmapThumbnail: React.FC<{ bitmap: CustomBitmap }> = ({ bitmap }) => (
+    <svg width={24} height={24} viewBox={`0 0 ${bitmap.width} ${bitmap.height}`} preserveAspectRatio="xMidYMid meet" shapeRendering="crispEdges" className="flex-shrink-0 bg-white rounded-sm">
+        <path d={getBitmapPixelPath(bitmap)} fill="black" />
+    </svg>
+);
+
+/**
+ * Draws and imports the project's 1-bit bitmaps. Shapes use them as bitmap items and as fill or
+ * outline stipples; edits apply to the project right away.
+ */
+const BitmapEditorModal: React.FC<BitmapEditorModalProps> = ({ bitmaps, usedBitmapIds, initialBitmapId, onChange, onClose }) => {
+    const { t } = useLanguage();
+    const [selectedId, setSelectedId] = useState<string | null>(initialBitmapId ?? bitmaps[0]?.id ?? null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Whether the current stroke sets or clears pixels; decided by the pixel it starts on.
+    const paintValueRef = useRef<boolean | null>(null);
+
+    const selected = bitmaps.find(b => b.id === selectedId) ?? null;
+    const cellSize = selected ? Math.max(2, Math.floor(GRID_SIZE / Math.max(selected.width, selected.height))) : 1;
+
+    const updateSelected = (bitmap: CustomBitmap) => onChange(bitmaps.map(b => b.id === bitmap.id ? bitmap : b));
+
+    const addBitmap = (bitmap: CustomBitmap) => {
+        onChange([...bitmaps, bitmap]);
+        setSelectedId(bitmap.id);
+    };
+
+    const handleNew = () => {
+        addBitmap(createBitmap(newBitmapId(), `${t('bitmaps.defaultName')}_${bitmaps.length + 1}`));
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const pixels = parseXbm(await file.text());
+        if (!pixels) {
+            setImportError(t('bitmaps.importError').replace('{size}', String(MAX_BITMAP_SIZE)));
+            return;
+        }
+        setImportError(null);
+        addBitmap({ id: newBitmapId(), name: file.name.replace(/\.xbm$/i, ''), ...pixels });
+    };
+
+    const handleDelete = () => {
+        if (!selected) return;
+        const index = bitmaps.indexOf(selected);
+        const remaining = bitmaps.filter(b => b.id !== selected.id);
+        onChange(remaining);
+        setSelectedId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+    };
+
+    const paintAt = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!selected || paintValueRef.current === null) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.floor((e.clientX - rect.left) / cellSize);
+        const y = Math.floor((e.clientY - rect.top) / cellSize);
+        const next = setBitmapPixel(selected, x, y, paintValueRef.current);
+        if (next !== selected) updateSelected(next);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!selected) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.floor((e.clientX - rect.left) / cellSize);
+        const y = Math.floor((e.clientY - rect.top) / cellSize);
+        paintValueRef.current = selected.rows[y]?.[x] !== '1';
+        e.currentTarget.setPointerCapture(e.pointerId);
+        paintAt(e);
+    };
+
+    const gridLines = selected && cellSize >= 6
+        ? [
+            ...Array.from({ length: selected.width - 1 }, (_, i) => `M${(i + 1) * cellSize},0v${selected.height * cellSize}`),
+            ...Array.from({ length: selected.height - 1 }, (_, i) => `M0,${(i + 1) * cellSize}h${selected.width * cellSize}`),
+        ].join('')
+        : '';
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 flex items-center justify-center z-[9999]"
+            onClick={onClose}
+        >
+            <div
+                className="bg-[var(--bg-primary)] rounded-lg shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh]"
+                onClick={e => e.stopPropagation()}
+            >
+                <header className="flex justify-between items-center p-4 border-b border-[var(--border-primary)]">
+                    <h2 className="text-xl font-bold text-[var(--text-primary)]">{t('bitmaps.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] rounded-full">
+                        <XIcon />
+                    </button>
+                </header>
+
+                <div className="p-4 flex gap-4 overflow-y-auto">
+                    <div className="w-48 flex-shrink-0 flex flex-col gap-2">
+                        <div className="flex flex-col gap-1 overflow-y-auto max-h-80">
+                            {bitmaps.map(bitmap => (
+                                <button
+                                    key={bitmap.id}
+                                    onClick={() => setSelectedId(bitmap.id)}
+                                    className={`flex items-center gap-2 px-2 py-1 rounded-md text-sm text-left truncate ${bitmap.id === selectedId ? 'bg-[var(--accent-primary)] text-[var(--accent-text)]' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'}`}
+                                >
+                                    <BitmapThumbnail bitmap={bitmap} />
+                                    <span className="truncate">{bitmap.name}</span>
+                                </button>
+                            ))}
+                        </div>
+                        <button onClick={handleNew} className="w-full px-2 py-1 text-sm bg-[var(--bg-tertiary)] hover:bg-[var(--accent-primary)] rounded-md">+ {t('bitmaps.new')}</button>
+                        <button onClick={() => fileInputRef.current?.click()} className="w-full px-2 py-1 text-sm bg-[var(--bg-tertiary)] hover:bg-[var(--accent-primary)] rounded-md">{t('bitmaps.import')}</button>
+                        <input type="file" ref={fileInputRef} style={{ display: 'none' }} accept=".xbm" onChange={handleImport} />
+                        {importError && <p className="text-xs text-red-500">{importError}</p>}
+                    </div>
+
+                    {selected ? (
+                        <div className="flex-grow space-y-3 min-w-0">
+                            <InputWrapper>
+                                <Label htmlFor="bitmap-name" title={t('bitmaps.nameDesc')}>{t('bitmaps.name')}</Label>
+                                <input
+                                    id="bitmap-name"
+                                    type="text"
+                                    value={selected.name}
+                                    onChange={e => updateSelected({ ...selected, name: e.target.value })}
+                                    className="bg-[var(--bg-secondary)] text-[var(--text-primary)] rounded px-2 py-1 w-full border border-[var(--border-secondary)] focus:ring-2 focus:ring-[var(--accent-primary)] focus:outline-none"
+                                />
+                            </InputWrapper>
+                            <InputWrapper>
+                                <Label htmlFor="bitmap-width">{t('bitmaps.width')}</Label>
+                                <NumberInput id="bitmap-width" value={selected.width} min={1} max={MAX_BITMAP_SIZE} step={1} onChange={v => updateSelected(resizeBitmap(selected, Math.round(v), selected.height))} />
+                            </InputWrapper>
+                            <InputWrapper>
+                                <Label htmlFor="bitmap-height">{t('bitmaps.height')}</Label>
+                                <NumberInput id="bitmap-height" value={selected.height} min={1} max={MAX_BITMAP_SIZE} step={1} onChange={v => updateSelected(resizeBitmap(selected, selected.width, Math.round(v)))} />
+                            </InputWrapper>
+
+                            <div className="overflow-auto">
+                                <svg
+                                    width={selected.width * cellSize}
+                                    height={selected.height * cellSize}
+                                    shapeRendering="crispEdges"
+                                    className="touch-none cursor-crosshair border border-[var(--border-secondary)]"
+                                    onPointerDown={handlePointerDown}
+                                    onPointerMove={paintAt}
+                                    onPointerUp={() => { paintValueRef.current = null; }}
+                                    onPointerCancel={() => { paintValueRef.current = null; }}
+                                >
+                                    <rect width={selected.width * cellSize} height={selected.height * cellSize} fill="white" />
+                                    <path d={getBitmapPixelPath(selected)} fill="black" transform={`scale(${cellSize})`} />
+                                    {gridLines && <path d={gridLines} stroke="#c0c0c0" strokeWidth={1} fill="none" />}
+                                </svg>
+                            </div>
+                            <p className="text-xs text-[var(--text-tertiary)]">{t('bitmaps.drawHint')}</p>
+
+                            <div className="flex gap-2">
+                                <button onClick={() => updateSelected({ ...selected, rows: selected.rows.map(row => '0'.repeat(row.length)) })} className="px-3 py-1 text-sm bg-[var(--bg-tertiary)] hover:bg-[var(--bg-hover)] rounded-md">{t('bitmaps.clear')}</button>
+                                <button onClick={() => updateSelected({ ...selected, rows: selected.rows.map(row => row.replace(/[01]/g, c => c === '1' ? '0' : '1')) })} className="px-3 py-1 text-sm bg-[var(--bg-tertiary)] hover:bg-[var(--bg-hover)] rounded-md">{t('bitmaps.invert')}</button>
+                                <button
+                                    onClick={handleDelete}
+                                    disabled={usedBitmapIds.has(selected.id)}
+                                    title={usedBitmapIds.has(selected.id) ? t('bitmaps.inUse') : undefined}
+                                    className="ml-auto px-3 py-1 text-sm bg-[var(--bg-tertiary)] hover:bg-red-600 hover:text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-[var(--bg-tertiary)] disabled:hover:text-inherit"
+                                >
+                                    {t('bitmaps.delete')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="flex-grow text-sm text-[var(--text-secondary)]">{t('bitmaps.empty')}</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BitmapEditorModal;
@@ -2,11 +2,13 @@
 import React, {useContext} from 'react';
 import { useLanguage } from './LanguageContext';
 import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
-import { type Shape, type Tool, type CanvasAction, type RotatableShape, type RectangleShape, type EllipseShape, type PathShape, type LineShape, PolylineShape, PolygonShape, DrawMode, IsoscelesTriangleShape, RhombusShape, ParallelogramShape, TrapezoidShape, BezierCurveShape, ViewTransform, JoinStyle, ArcShape, RightTriangleShape, TransformHandle, TextShape, ImageShape, BitmapShape } from '../types';
+import { type Shape, type Tool, type CanvasAction, type RotatableShape, type RectangleShape, type EllipseShape, type PathShape, type LineShape, PolylineShape, PolygonShape, DrawMode, IsoscelesTriangleShape, RhombusShape, ParallelogramShape, TrapezoidShape, BezierCurveShape, ViewTransform, JoinStyle, ArcShape, RightTriangleShape, TransformHandle, TextShape, ImageShape, BitmapShape, WidgetShape, CustomBitmap, ScrollViewport } from '../types';
 import { SelectionControls } from './SelectionControls';
-import { getShapeCenter, rotatePoint, getBoundingBox, getIsoscelesTrianglePoints, getPolylinePointsAsPath, getPolygonPointsAsArray, getRhombusPoints, getTrapezoidPoints, getParallelogramPoints, getSmoothedPathData, getFinalPoints, getArcPathData, getRightTrianglePoints, getTextBoundingBox, processTextLines, getVisualBoundingBox, isShapeClosed, getClosestPointOnShapeContour, evaluateShapeContourPointAndTangent, isShapeIntersectingRect } from '../lib/geometry';
+import { getShapeCenter, rotatePoint, getBoundingBox, getIsoscelesTrianglePoints, getPolylinePointsAsPath, getPolygonPointsAsArray, getRhombusPoints, getTrapezoidPoints, getParallelogramPoints, getSmoothedPathData, getFinalPoints, getArcPathData, getRightTrianglePoints, getTextBoundingBox, processTextLines, getVisualBoundingBox, isShapeClosed, getClosestPointOnShapeContour, evaluateShapeContourPointAndTangent, isShapeIntersectingRect, translateShape } from '../lib/geometry';
 import { CheckSquareIcon, ClosePathIcon, XSquareIcon } from './icons';
-import { TOOL_TYPE_TO_NAME, ROTATE_CURSOR_STYLE, ADJUST_CURSOR_STYLE, getDefaultNameForShape, getVisualFontFamily, isDefaultName, DUPLICATE_CURSOR_STYLE } from '../lib/constants';
+import { TOOL_TYPE_TO_NAME, ROTATE_CURSOR_STYLE, ADJUST_CURSOR_STYLE, getDefaultNameForShape, getShapeInState, getVisualFontFamily, isDefaultName, DUPLICATE_CURSOR_STYLE } from '../lib/constants';
+import { WIDGET_DEFAULTS, getWidgetLookalike } from '../lib/widgets';
+import { findCustomBitmap, getBitmapMaskId, getBitmapPixelPath, getCustomBitmapOrigin, getStippleMask, isCustomBitmapRef, toCustomBitmapRef } from '../lib/bitmaps';
 
 interface CanvasProps {
   onDrawingAttempt?: () => boolean;
@@ -59,6 +61,10 @@ interface CanvasProps {
   keyboardSnapLines?: {x: number | null, y: number | null};
   showCenterGuides: boolean;
   enableSnapping: boolean;
+  /** The project's own bitmaps, for bitmap shapes and stipples that refer to them. */
+  customBitmaps: CustomBitmap[];
+  /** Window of a scrollable canvas, outlined at the top-left corner of the drawing area. */
+  viewport?: ScrollViewport | null;
   distributePathState?: import('../types').DistributePathState | null;
   onDistributePathChange?: (state: import('../types').DistributePathState) => void;
   onDistributePathChangeEnd?: () => void;
@@ -66,19 +72,6 @@ interface CanvasProps {
   onSelectPathShape?: (shape: Shape) => void;
 }
 
-function translateShape(shape: Shape, dx: number, dy: number): Shape {
-    const s = JSON.parse(JSON.stringify(shape)) as any;
-    if (typeof s.x === 'number') s.x += dx;
-    if (typeof s.y === 'number') s.y += dy;
-    if (typeof s.cx === 'number') s.cx += dx;
-    if (typeof s.cy === 'number') s.cy += dy;
-    if (typeof s.x1 === 'number') { s.x1 += dx; s.y1 += dy; s.x2 += dx; s.y2 += dy; }
-    if (Array.isArray(s.points)) {
-        s.points = s.points.map((p: any) => p ? { x: p.x + dx, y: p.y + dy } : p);
-    }
-    return s as Shape;
-}
-
 function updateShapeNode(shape: Shape, nodeIdx: number, startPt: {x: number, y: number}, currentPt: {x: number, y: number}): Shape {
     let s = JSON.parse(JSON.stringify(shape)) as any;
     const dx = currentPt.x - startPt.x;
@@ -262,6 +255,8 @@ const Canvas: React.FC<CanvasProps> = (props) => {
         keyboardSnapLines,
         showCenterGuides,
         enableSnapping,
+        customBitmaps,
+        viewport,
     } = props;
     
   const [action, setAction] = useState<CanvasAction>(null);
@@ -280,6 +275,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
   }, []);
   const [previewMousePos, setPreviewMousePos] = useState<{x: number, y: number} | null>(null);
   const [rawMousePos, setRawMousePos] = useState<{x: number; y: number } | null>(null);
+  const [hoveredShapeId, setHoveredShapeId] = useState<string | null>(null);
   const [snapLines, setSnapLines] = useState<{x: number | null, y: number | null}>({x: null, y: null});
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -590,8 +586,34 @@ const Canvas: React.FC<CanvasProps> = (props) => {
             };
             break;
         }
+        case 'widget': {
+            const defaults = WIDGET_DEFAULTS.button;
+            newShape = {
+                id,
+                name: t('widget.button'),
+                type: 'widget',
+                widgetType: 'button',
+                x: pos.x,
+                y: pos.y,
+                width: defaults.width,
+                height: defaults.height,
+                text: t('widget.button'),
+                font: 'Arial',
+                fontSize: 10,
+                weight: 'normal',
+                slant: 'roman',
+                foreground: '#000000',
+                background: defaults.background,
+                stroke: 'none',
+                strokeWidth: 0,
+                rotation: 0,
+                state: 'normal',
+                isAspectRatioLocked: false,
+            };
+            break;
+        }
     }
-    if (newShape && !['text', 'image', 'bitmap'].includes(newShape.type)) {
+    if (newShape && !['text', 'image', 'bitmap', 'widget'].includes(newShape.type)) {
         setAction({ type: 'drawing', shape: newShape, startPos: pos });
     } else if (newShape) {
         addShape(newShape);
@@ -1353,7 +1375,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
             const { initialShape } = action;
 
             switch (initialShape.type) {
-                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                   updatedShape = { ...initialShape, x: initialShape.x + dx, y: initialShape.y + dy };
                   break;
                 case 'ellipse': case 'polygon': case 'star':
@@ -1610,7 +1632,8 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                 case 'parallelogram':
                 case 'arc':
                 case 'image':
-                case 'bitmap': {
+                case 'bitmap':
+                case 'widget': {
                     const newX = newGlobalCenter.x - newWidth / 2;
                     const newY = newGlobalCenter.y - newHeight / 2;
                     let extraProps: any = {
@@ -1775,7 +1798,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                         newS.rotation = ((newS.rotation || 0) + deltaRot) % 360;
                     }
                     switch (newS.type) {
-                        case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                        case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                             newS.x += dx; newS.y += dy; break;
                         case 'ellipse': case 'polygon': case 'star':
                             (newS as any).cx += dx; (newS as any).cy += dy; break;
@@ -1857,7 +1880,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                                 }
                             }
                             
-                            if (['rectangle', 'image', 'bitmap', 'arc', 'triangle', 'right-triangle', 'rhombus', 'trapezoid', 'parallelogram', 'text'].includes(s.type)) {
+                            if (['rectangle', 'image', 'bitmap', 'widget', 'arc', 'triangle', 'right-triangle', 'rhombus', 'trapezoid', 'parallelogram', 'text'].includes(s.type)) {
                                  return { ...s, x: simulatedX, y: simulatedY, width: newW, height: newH } as Shape;
                             } else if (s.type === 'ellipse') {
                                  const eShape = s as EllipseShape;
@@ -1891,7 +1914,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                     const s = shapes.find(sh => sh.id === id);
                     if (!s) return null;
                     switch (s.type) {
-                        case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                        case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                             return { ...s, x: s.x + finalDx, y: s.y + finalDy };
                         case 'ellipse': case 'polygon': case 'star':
                             return { ...s, cx: s.cx + finalDx, cy: s.cy + finalDy };
@@ -2381,7 +2404,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
 
           if (activeTool === 'edit-points') return 'default';
           if (activeTool === 'image' && pendingImage) return 'copy';
-          if (['text', 'image', 'bitmap'].includes(activeTool) && activeTool !== 'image') return 'crosshair';
+          if (['text', 'image', 'bitmap', 'widget'].includes(activeTool) && activeTool !== 'image') return 'crosshair';
           if (activeTool === 'image' && !pendingImage) return 'default';
           return 'crosshair';
         }
@@ -2449,9 +2472,12 @@ const Canvas: React.FC<CanvasProps> = (props) => {
     return ((transformStr) || "").trim() || undefined;
   };
   
+    // Shapes as Tk shows them: disabled ones in their disabled look, the one under the pointer in its active look.
+    const styledItems = useMemo(() => itemsToRender.filter(Boolean).map(shape => getShapeInState(shape, !action && shape.id === hoveredShapeId)), [itemsToRender, hoveredShapeId, action]);
+
     const arrowMarkers = useMemo(() => {
         const markers = new Map<string, { color: string; shapeParams: [number, number, number] }>();
-        itemsToRender.forEach(shape => {
+        styledItems.forEach(shape => {
             if ((shape.type === 'line' || shape.type === 'bezier' || shape.type === 'pencil' || (shape.type === 'polyline' && !shape.isClosed)) && 'arrow' in shape && shape.arrow && shape.arrow !== 'none' && shape.stroke !== 'none' && shape.strokeWidth > 0 && shape.arrowshape) {
                 const [d1m, d2m, d3m] = shape.arrowshape;
                 const w = shape.strokeWidth > 0 ? shape.strokeWidth : 1;
@@ -2466,7 +2492,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
             }
         });
         return Array.from(markers.values());
-    }, [itemsToRender]);
+    }, [styledItems]);
 
     const joinStyleProps = (s: { joinstyle?: JoinStyle }) => {
         const joinstyle = s.joinstyle ?? 'miter';
@@ -2703,6 +2729,18 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                 <mask id="mask-bitmap-question"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-gray50)"/></mask>
                 <mask id="mask-bitmap-warning"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-gray50)"/></mask>
 
+                {customBitmaps.map(bitmap => (
+                    <React.Fragment key={bitmap.id}>
+                        <pattern id={`pattern-xbm-${bitmap.id}`} width={bitmap.width} height={bitmap.height} patternUnits="userSpaceOnUse">
+                            <rect width={bitmap.width} height={bitmap.height} fill="black"/>
+                            <path d={getBitmapPixelPath(bitmap)} fill="white"/>
+                        </pattern>
+                        <mask id={getBitmapMaskId(toCustomBitmapRef(bitmap))}>
+                            <rect x="0" y="0" width="100%" height="100%" fill={`url(#pattern-xbm-${bitmap.id})`}/>
+                        </mask>
+                    </React.Fragment>
+                ))}
+
                 {arrowMarkers.map(({ color, shapeParams }) => {
                     const [d1, d2, d3] = shapeParams; // tip_dist, wing_dist, width
                     if (d2 === 0 || d3 === 0) return null;
@@ -2758,7 +2796,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                     <rect x="0" y="0" width={width} height={height} fill="url(#fine-grid)" style={{ pointerEvents: 'none' }} />
                 )}
 
-            {itemsToRender.filter(Boolean).map(shape => {
+            {styledItems.map(shape => {
                 const isSelected = selectedShapeIds.includes(shape.id) || (!!shape.groupId && selectedShapeIds.includes(shape.groupId));
                 const isHidden = shape.state === 'hidden';
                 const isLayerHidden = (shape as any).layerHidden;
@@ -2837,7 +2875,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                         const rw = typeof shape.width === 'number' && !isNaN(shape.width) ? Math.max(0, shape.width) : 0;
                         const rh = typeof shape.height === 'number' && !isNaN(shape.height) ? Math.max(0, shape.height) : 0;
                         const rectProps: any = { ...finalStaticProps, x: rx, y: ry, width: rw, height: rh, fill: shape.fill, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.fill !== 'none') rectProps.mask = `url(#mask-${shape.stipple})`;
+                        rectProps.mask = getStippleMask(shape);
                         if (shape.dash) rectProps.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) rectProps.strokeDashoffset = shape.dashoffset;
                         return <rect key={shape.id} {...rectProps} />;
@@ -2849,7 +2887,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                         const erx = typeof ellipse.rx === 'number' && !isNaN(ellipse.rx) ? Math.max(0, ellipse.rx) : 0;
                         const ery = typeof ellipse.ry === 'number' && !isNaN(ellipse.ry) ? Math.max(0, ellipse.ry) : 0;
                         const ellipseProps: any = { ...finalStaticProps, cx: ecx, cy: ecy, rx: erx, ry: ery, fill: ellipse.fill };
-                        if (ellipse.stipple && ellipse.fill !== 'none') ellipseProps.mask = `url(#mask-${ellipse.stipple})`;
+                        ellipseProps.mask = getStippleMask(ellipse);
                         if (ellipse.dash) ellipseProps.strokeDasharray = ellipse.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (ellipse.dashoffset) ellipseProps.strokeDashoffset = ellipse.dashoffset;
                         return <ellipse key={ellipse.id} {...ellipseProps} />;
@@ -2857,7 +2895,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                     case 'arc': {
                         const arcShape = shape as ArcShape;
                         const arcProps: any = { ...finalStaticProps, d: getArcPathData(arcShape), fill: arcShape.style === 'arc' ? 'none' : arcShape.fill };
-                        if (arcShape.stipple && arcShape.fill !== 'none' && arcShape.style !== 'arc') arcProps.mask = `url(#mask-${arcShape.stipple})`;
+                        arcProps.mask = getStippleMask(arcShape);
                         if (arcShape.dash) arcProps.strokeDasharray = arcShape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (arcShape.dashoffset) arcProps.strokeDashoffset = arcShape.dashoffset;
                         return <path key={shape.id} {...arcProps} />;
@@ -2874,7 +2912,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                                     transform={finalStaticProps.transform}
                                     style={{ cursor: finalStaticProps.style.cursor, pointerEvents: finalStaticProps.pointerEvents === 'none' ? 'none' : 'stroke' }}
                                 />
-                                <line {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} x1={shape.points[0].x} y1={shape.points[0].y} x2={shape.points[1].x} y2={shape.points[1].y} {...lineLikeProps(shape)} style={{ ...finalStaticProps.style, pointerEvents: 'none' }} />
+                                <line {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} x1={shape.points[0].x} y1={shape.points[0].y} x2={shape.points[1].x} y2={shape.points[1].y} {...lineLikeProps(shape)} mask={getStippleMask(shape)} style={{ ...finalStaticProps.style, pointerEvents: 'none' }} />
                             </React.Fragment>
                         );
                     case 'bezier': {
@@ -2895,11 +2933,11 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                                         data-id={shape.id}
                                         style={{ cursor: finalStaticProps.style.cursor, pointerEvents: finalStaticProps.pointerEvents === 'none' ? 'none' : 'stroke' }}
                                     />
-                                    <path {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} d={pathData} fill={fill} {...lineLikeProps(shape)} {...joinStyleProps(shape)} style={{ ...finalStaticProps.style, pointerEvents: 'none' }} />
+                                    <path {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} d={pathData} fill={fill} {...lineLikeProps(shape)} {...joinStyleProps(shape)} mask={getStippleMask(shape)} style={{ ...finalStaticProps.style, pointerEvents: 'none' }} />
                                 </React.Fragment>
                              )
                         }
-                        return <path key={shape.id} {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} d={pathData} fill={fill} {...lineLikeProps(shape)} {...joinStyleProps(shape)} />;
+                        return <path key={shape.id} {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} d={pathData} fill={fill} {...lineLikeProps(shape)} {...joinStyleProps(shape)} mask={getStippleMask(shape)} />;
                     }
                     case 'pencil': {
                         const d = getPolylinePointsAsPath(shape.points);
@@ -2916,13 +2954,13 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                                     data-id={shape.id}
                                     style={{ cursor: finalStaticProps.style.cursor, pointerEvents: finalStaticProps.pointerEvents === 'none' ? 'none' : 'stroke' }}
                                  />
-                                 <path {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} d={d} fill="none" {...joinStyleProps(shape)} {...lineLikeProps(shape)} style={{ ...finalStaticProps.style, pointerEvents: 'none' }} />
+                                 <path {...finalStaticProps} stroke={shape.stroke} strokeWidth={safeStrokeWidth} d={d} fill="none" {...joinStyleProps(shape)} {...lineLikeProps(shape)} mask={getStippleMask(shape)} style={{ ...finalStaticProps.style, pointerEvents: 'none' }} />
                             </React.Fragment>
                         );
                     }
                     case 'polyline': {
                         const polyProps: React.SVGProps<any> = { ...finalStaticProps, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.isClosed && shape.fill !== 'none') polyProps.mask = `url(#mask-${shape.stipple})`;
+                        polyProps.mask = getStippleMask(shape);
                         if (shape.dash) polyProps.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) polyProps.strokeDashoffset = shape.dashoffset;
                         
@@ -2960,35 +2998,35 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                     }
                     case 'triangle': {
                         const props: any = { ...finalStaticProps, points: formatPointsForSvg(getIsoscelesTrianglePoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                        props.mask = getStippleMask(shape);
                         if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                         return <polygon key={shape.id} {...props} />;
                     }
                     case 'right-triangle': {
                         const props: any = { ...finalStaticProps, points: formatPointsForSvg(getRightTrianglePoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                        props.mask = getStippleMask(shape);
                         if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                         return <polygon key={shape.id} {...props} />;
                     }
                     case 'rhombus': {
                         const props: any = { ...finalStaticProps, points: formatPointsForSvg(getRhombusPoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                        props.mask = getStippleMask(shape);
                         if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                         return <polygon key={shape.id} {...props} />;
                     }
                     case 'trapezoid': {
                         const props: any = { ...finalStaticProps, points: formatPointsForSvg(getTrapezoidPoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                        props.mask = getStippleMask(shape);
                         if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                         return <polygon key={shape.id} {...props} />;
                     }
                     case 'parallelogram': {
                         const props: any = { ...finalStaticProps, points: formatPointsForSvg(getParallelogramPoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                        if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                        props.mask = getStippleMask(shape);
                         if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                         return <polygon key={shape.id} {...props} />;
@@ -2997,7 +3035,7 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                     case 'star': {
                         const polyShape = shape as PolygonShape;
                         const polyProps: any = { ...finalStaticProps, fill: polyShape.fill, ...joinStyleProps(polyShape) };
-                        if (polyShape.stipple && polyShape.fill !== 'none') polyProps.mask = `url(#mask-${polyShape.stipple})`;
+                        polyProps.mask = getStippleMask(polyShape);
                         if (polyShape.dash) polyProps.strokeDasharray = polyShape.dash.map(v => v * safeStrokeWidth).join(' ');
                         if (polyShape.dashoffset) polyProps.strokeDashoffset = polyShape.dashoffset;
 
@@ -3077,9 +3115,19 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                         const by = typeof y === 'number' && !isNaN(y) ? y : 0;
                         const bw = typeof bmpWidth === 'number' && !isNaN(bmpWidth) ? Math.max(0, bmpWidth) : 0;
                         const bh = typeof bmpHeight === 'number' && !isNaN(bmpHeight) ? Math.max(0, bmpHeight) : 0;
-                        const maskId = bitmapType.startsWith('gray')
-                            ? `url(#mask-${bitmapType})`
-                            : `url(#mask-bitmap-${bitmapType})`;
+                        // A project bitmap is drawn once at its own size, as create_bitmap shows it; the box stays clickable.
+                        const bitmap = findCustomBitmap(bitmapType, customBitmaps);
+                        if (bitmap) {
+                            const origin = getCustomBitmapOrigin(bitmapShape, bitmap);
+                            return (
+                                <g key={bitmapShape.id} {...staticProps} data-id={shape.id}>
+                                    <rect data-id={shape.id} x={bx} y={by} width={bw} height={bh} fill="transparent" />
+                                    <rect data-id={shape.id} x={origin.x} y={origin.y} width={bitmap.width} height={bitmap.height} fill={background || 'none'} />
+                                    <path data-id={shape.id} d={getBitmapPixelPath(bitmap, origin.x, origin.y)} fill={foreground} />
+                                </g>
+                            );
+                        }
+                        const maskId = `url(#${getBitmapMaskId(isCustomBitmapRef(bitmapType) ? 'error' : bitmapType)})`;
 
                         return (
                             <g key={bitmapShape.id} {...staticProps} data-id={shape.id}>
@@ -3088,6 +3136,16 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                             </g>
                         );
                     }
+                    case 'widget': {
+                        const widgetShape = shape as WidgetShape;
+                        return (
+                            <g key={widgetShape.id} {...staticProps} data-id={shape.id}>
+                                {getWidgetLookalike(widgetShape).map((part, index) =>
+                                    React.createElement(part.tag, { key: index, 'data-id': shape.id, ...part.attrs }, part.text)
+                                )}
+                            </g>
+                        );
+                    }
                     default: return null;
                 }
                 })();
@@ -3102,7 +3160,11 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                     );
                 }
 
-                return <g key={`g-${shape.id}`} id={`shape-render-${shape.id}`}>{renderedShape}</g>;
+                return (
+                    <g key={`g-${shape.id}`} id={`shape-render-${shape.id}`} onMouseEnter={() => setHoveredShapeId(shape.id)} onMouseLeave={() => setHoveredShapeId(null)}>
+                        {renderedShape}
+                    </g>
+                );
             })}
              {action?.type === 'selecting' && action.startPos && action.currentPos && !isNaN(action.startPos.x) && !isNaN(action.startPos.y) && !isNaN(action.currentPos.x) && !isNaN(action.currentPos.y) && (
                  <rect 
@@ -3500,6 +3562,22 @@ const Canvas: React.FC<CanvasProps> = (props) => {
                 </g>
             )}
             
+            {/* Viewport of a scrollable canvas */}
+            {viewport && (
+                <g pointerEvents="none">
+                    <rect
+                        x={0} y={0} width={viewport.width} height={viewport.height}
+                        fill="none"
+                        stroke="var(--accent-primary)"
+                        strokeWidth={2 / safeScale}
+                        strokeDasharray={`${8 / safeScale},${4 / safeScale}`}
+                    />
+                    <text x={viewport.width - 4 / safeScale} y={viewport.height - 4 / safeScale} textAnchor="end" fontSize={11 / safeScale} fill="var(--accent-primary)" style={{ userSelect: 'none' }}>
+                        {`${viewport.width} × ${viewport.height}`}
+                    </text>
+                </g>
+            )}
+
             {/* Center Guides */}
             {showCenterGuides && (
                 <>
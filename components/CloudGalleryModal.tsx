@@ -311,7 +311,7 @@ const ProjectCardPreview: React.FC<ProjectCardPreviewProps> = ({
       const bg = parsed.canvasSettings?.bgColor || '#ffffff';
 
       if (shapes && shapes.length > 0) {
-        const svgStr = generateSvg(shapes, w, h, bg);
+        const svgStr = generateSvg(shapes, w, h, bg, Array.isArray(parsed.customBitmaps) ? parsed.customBitmaps : []);
         const encoded = unescape(encodeURIComponent(svgStr));
         setThumbUrl(`data:image/svg+xml;base64,${btoa(encoded)}`);
       } else if (parsed.thumbnail) {
@@ -419,7 +419,7 @@ const ProjectLargePreviewModal: React.FC<{
 
       if (shapes && shapes.length > 0) {
         try {
-          const svgStr = generateSvg(shapes, w, h, bg);
+          const svgStr = generateSvg(shapes, w, h, bg, Array.isArray(parsed.customBitmaps) ? parsed.customBitmaps : []);
           setRawSvgContent(svgStr);
           const encoded = unescape(encodeURIComponent(svgStr));
           setLargeThumbUrl(`data:image/svg+xml;base64,${btoa(encoded)}`);
@@ -2,13 +2,22 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { CopyIcon, CheckIcon, RefreshIcon, PreviewIcon, WordWrapIcon, EllipsisIcon, SaveIcon, PlayIcon, CodeIcon, SettingsIcon } from './icons';
 import { useLanguage } from './LanguageContext';
-import { Shape } from '../types';
+import { Shape, type GeneratorType } from '../types';
+import { type TkinterParseFailure } from '../lib/tkinterParser';
 
 export interface CodeLine {
   content: string;
   shapeId: string | null;
+  /** Shapes drawn by a line written in terms of Python variables (a loop, a function and its calls); such lines aren't edited as a single shape. */
+  shapeIds?: string[];
 }
 
+/** Comment lines, which "show comments" hides: `#` in Python, `//` in the canvas JavaScript. */
+export const isCommentLine = (line: CodeLine): boolean => {
+  const content = (line?.content || '').trim();
+  return content.startsWith('#') || content.startsWith('//');
+};
+
 interface CodeDisplayProps {
   codeLines: CodeLine[];
   isLoading: boolean;
@@ -28,12 +37,20 @@ interface CodeDisplayProps {
   setShowLineNumbers: (show: boolean) => void;
   showComments: boolean;
   setShowComments: (show: boolean) => void;
-  generatorType: 'local' | 'gemini';
+  generatorType: GeneratorType;
   onSwitchToLocalGenerator: () => void;
   onOpenSettingsToGenerator: () => void;
   codeStringForExport: string;
+  onEditCodeLine?: (shapeId: string, content: string) => TkinterParseFailure | null;
+}
+
+interface LineDraft {
+  content: string;
+  error: TkinterParseFailure;
 }
 
+const isEditableLine = (line: CodeLine): boolean => !!line.shapeId && !line.shapeIds && /\.create_\w+\s*\(/.test(line.content || '') && !isCommentLine(line);
+
 // Custom hook to handle clicks outside a component
 const useClickOutside = (ref: React.RefObject<HTMLElement>, handler: (event: MouseEvent) => void) => {
   useEffect(() => {
@@ -50,12 +67,16 @@ const useClickOutside = (ref: React.RefObject<HTMLElement>, handler: (event: Mou
   }, [ref, handler]);
 };
 
-const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error, onUpdate, onPreview, onSaveCode, onOpenOrRunCodeOnline, hasUnsyncedChanges, selectedShapeIds, allShapes, highlightCodeOnSelection, setHighlightCodeOnSelection, showLineNumbers, setShowLineNumbers, showComments, setShowComments, generatorType, onSwitchToLocalGenerator, onOpenSettingsToGenerator, codeStringForExport }) => {
+const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error, onUpdate, onPreview, onSaveCode, onOpenOrRunCodeOnline, hasUnsyncedChanges, selectedShapeIds, allShapes, highlightCodeOnSelection, setHighlightCodeOnSelection, showLineNumbers, setShowLineNumbers, showComments, setShowComments, generatorType, onSwitchToLocalGenerator, onOpenSettingsToGenerator, codeStringForExport, onEditCodeLine }) => {
   const [isCopied, setIsCopied] = useState(false);
   const [isWordWrapEnabled, setIsWordWrapEnabled] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const highlightedLineRef = useRef<HTMLDivElement>(null);
+  const [editingShapeId, setEditingShapeId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  // Invalid edits are kept per shape and shown in place of the generated line until fixed or discarded.
+  const [lineDrafts, setLineDrafts] = useState<Record<string, LineDraft>>({});
   const { t } = useLanguage();
   
   useClickOutside(menuRef, () => setIsMenuOpen(false));
@@ -64,7 +85,7 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
     if (showComments) {
         return codeLines;
     }
-    return codeLines.filter(line => !(line?.content?.trim() || '').startsWith('#'));
+    return codeLines.filter(line => !isCommentLine(line));
   }, [codeLines, showComments]);
 
   const hasVisibleLines = visibleLines.length > 0;
@@ -169,14 +190,18 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
     return map;
   }, [selectedShapeIds, allShapes, highlightCodeOnSelection]);
 
+  // A line shared by several shapes takes the strongest highlight among them.
+  const getLineHighlightType = (line: CodeLine): 'direct' | 'group' | 'none' => {
+    const types = (line.shapeIds || (line.shapeId ? [line.shapeId] : [])).map(id => shapeHighlightMap.get(id) || 'none');
+    return types.includes('direct') ? 'direct' : types.includes('group') ? 'group' : 'none';
+  };
+
   const firstHighlightedIndex = useMemo(() => {
     if (!highlightCodeOnSelection) return -1;
     let firstDirect = -1;
     let firstGroup = -1;
     for (let i = 0; i < visibleLines.length; i++) {
-      const shapeId = visibleLines[i].shapeId;
-      if (!shapeId) continue;
-      const hType = shapeHighlightMap.get(shapeId);
+      const hType = getLineHighlightType(visibleLines[i]);
       if (hType === 'direct' && firstDirect === -1) {
         firstDirect = i;
       }
@@ -202,6 +227,37 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
     }
   }, [firstHighlightedIndex, highlightCodeOnSelection]);
 
+  const canEditLines = !!onEditCodeLine && generatorType === 'local';
+
+  const startEditing = (line: CodeLine) => {
+    if (!canEditLines || !line.shapeId || !isEditableLine(line)) return;
+    setEditingShapeId(line.shapeId);
+    setEditText(lineDrafts[line.shapeId]?.content ?? line.content);
+  };
+
+  const discardDraft = (shapeId: string) => {
+    setLineDrafts(prev => {
+      const { [shapeId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const commitEditing = (originalContent: string) => {
+    if (!editingShapeId || !onEditCodeLine) return;
+    const shapeId = editingShapeId;
+    setEditingShapeId(null);
+    if (editText.trim() === (originalContent || '').trim()) {
+      discardDraft(shapeId);
+      return;
+    }
+    const error = onEditCodeLine(shapeId, editText);
+    if (error) {
+      setLineDrafts(prev => ({ ...prev, [shapeId]: { content: editText, error } }));
+    } else {
+      discardDraft(shapeId);
+    }
+  };
+
   const handleCopy = () => {
     if (codeStringForExport) {
       navigator.clipboard.writeText(codeStringForExport);
@@ -256,8 +312,8 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
     return (
       <div className={`p-4 overflow-auto text-sm h-full font-mono allow-selection`}>
         {visibleLines.map((line, index) => {
-            const isComment = (line?.content?.trim() || '').startsWith('#');
-            const highlightType = line.shapeId ? (shapeHighlightMap.get(line.shapeId) || 'none') : 'none';
+            const isComment = isCommentLine(line);
+            const highlightType = getLineHighlightType(line);
 
             let highlightClass = '';
             if (highlightType === 'direct') {
@@ -267,10 +323,14 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
             }
 
             const isRefTarget = index === firstHighlightedIndex;
+            const isEditable = canEditLines && isEditableLine(line);
+            const isEditing = isEditable && editingShapeId === line.shapeId;
+            const draft = isEditable ? lineDrafts[line.shapeId!] : undefined;
+            const content = draft ? draft.content : line.content;
 
             return (
+                <React.Fragment key={index}>
                 <div
-                key={index}
                 ref={isRefTarget ? highlightedLineRef : null}
                 className={`flex items-start`}
                 >
@@ -285,12 +345,43 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
                     {index + 1}
                     </span>
                 )}
-                <span
-                    className={`code-line flex-grow ${isWordWrapEnabled ? 'whitespace-pre-wrap break-words' : 'whitespace-pre'} ${highlightClass ? `${highlightClass} rounded` : ''}`}
-                >
-                    {line.content || ' '}
-                </span>
+                {isEditing ? (
+                    <input
+                        type="text"
+                        autoFocus
+                        value={editText}
+                        onChange={e => setEditText(e.target.value)}
+                        onBlur={() => commitEditing(line.content)}
+                        onKeyDown={e => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                commitEditing(line.content);
+                            } else if (e.key === 'Escape') {
+                                e.preventDefault();
+                                discardDraft(line.shapeId!);
+                                setEditingShapeId(null);
+                            }
+                        }}
+                        spellCheck={false}
+                        className="code-line flex-grow min-w-0 font-mono text-sm bg-[var(--bg-secondary)] text-[var(--text-primary)] border border-[var(--accent-primary)] rounded px-1 outline-none"
+                    />
+                ) : (
+                    <span
+                        onDoubleClick={isEditable ? () => startEditing(line) : undefined}
+                        title={draft ? `${t(`code.edit.error.${draft.error}`)} ${t('code.edit.discardHint')}` : isEditable ? t('code.edit.hint') : undefined}
+                        className={`code-line flex-grow ${isWordWrapEnabled ? 'whitespace-pre-wrap break-words' : 'whitespace-pre'} ${highlightClass ? `${highlightClass} rounded` : ''} ${isEditable ? 'cursor-text' : ''} ${draft ? 'underline decoration-wavy decoration-red-500 text-red-400' : ''}`}
+                    >
+                        {content || ' '}
+                    </span>
+                )}
                 </div>
+                {draft && !isEditing && (
+                    <div className={`text-xs text-red-400 ${showLineNumbers ? 'pl-12' : ''}`}>
+                        ⚠ {t(`code.edit.error.${draft.error}`)} {t('code.edit.discardHint')}
+                    </div>
+                )}
+                </React.Fragment>
             );
         })}
       </div>
@@ -389,24 +480,29 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({ codeLines, isLoading, error,
                             <SaveIcon size={16} />
                             <span>{t('code.saveFile')}</span>
                         </button>
-                         <button
-                            onClick={() => { onOpenOrRunCodeOnline(false); setIsMenuOpen(false); }}
-                            disabled={codeLines.length === 0 || !!error}
-                            className="w-full flex items-center gap-3 px-3 py-1.5 text-left text-sm text-[var(--text-secondary)] hover:bg-[var(--accent-primary)] hover:text-[var(--accent-text)] disabled:text-[var(--text-disabled)] disabled:hover:bg-transparent disabled:cursor-not-allowed"
-                            title={t('code.openOnlineDesc')}
-                        >
-                            <CodeIcon size={16} />
-                            <span>{t('code.openOnline')}</span>
-                        </button>
-                        <button
-                            onClick={() => { onOpenOrRunCodeOnline(true); setIsMenuOpen(false); }}
-                            disabled={codeLines.length === 0 || !!error}
-                            className="w-full flex items-center gap-3 px-3 py-1.5 text-left text-sm text-[var(--text-secondary)] hover:bg-[var(--accent-primary)] hover:text-[var(--accent-text)] disabled:text-[var(--text-disabled)] disabled:hover:bg-transparent disabled:cursor-not-allowed"
-                            title={t('code.runOnlineDesc')}
-                        >
-                            <PlayIcon size={16} />
-                            <span>{t('code.runOnline')}</span>
-                        </button>
+                        {/* The online IDE runs Python only. */}
+                        {generatorType !== 'canvas' && (
+                            <>
+                                <button
+                                    onClick={() => { onOpenOrRunCodeOnline(false); setIsMenuOpen(false); }}
+                                    disabled={codeLines.length === 0 || !!error}
+                                    className="w-full flex items-center gap-3 px-3 py-1.5 text-left text-sm text-[var(--text-secondary)] hover:bg-[var(--accent-primary)] hover:text-[var(--accent-text)] disabled:text-[var(--text-disabled)] disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                                    title={t('code.openOnlineDesc')}
+                                >
+                                    <CodeIcon size={16} />
+                                    <span>{t('code.openOnline')}</span>
+                                </button>
+                                <button
+                                    onClick={() => { onOpenOrRunCodeOnline(true); setIsMenuOpen(false); }}
+                                    disabled={codeLines.length === 0 || !!error}
+                                    className="w-full flex items-center gap-3 px-3 py-1.5 text-left text-sm text-[var(--text-secondary)] hover:bg-[var(--accent-primary)] hover:text-[var(--accent-text)] disabled:text-[var(--text-disabled)] disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                                    title={t('code.runOnlineDesc')}
+                                >
+                                    <PlayIcon size={16} />
+                                    <span>{t('code.runOnline')}</span>
+                                </button>
+                            </>
+                        )}
                     </div>
                 )}
             </div>
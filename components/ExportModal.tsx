@@ -4,8 +4,11 @@ import { XIcon } from './icons';
 import { InputWrapper, Label, NumberInput } from './FormControls';
 import { useLanguage } from './LanguageContext';
 
+// 'zip' is the project bundle: the Python code, its images as PNG files and the .vec.json project.
+export type ExportFormat = 'svg' | 'png' | 'jpeg' | 'zip';
+
 export interface ExportSettings {
-  format: 'svg' | 'png' | 'jpeg';
+  format: ExportFormat;
   scale: number;
   quality: number; // 0-100 for JPEG
 }
@@ -15,7 +18,7 @@ interface ExportModalProps {
   onExport: (settings: ExportSettings) => void;
 }
 
-const FormatButton: React.FC<{ value: 'svg' | 'png' | 'jpeg'; label: string; currentFormat: string; onSelect: (val: 'svg' | 'png' | 'jpeg') => void }> = ({ value, label, currentFormat, onSelect }) => (
+const FormatButton: React.FC<{ value: ExportFormat; label: string; currentFormat: string; onSelect: (val: ExportFormat) => void }> = ({ value, label, currentFormat, onSelect }) => (
     <button
         onClick={() => onSelect(value)}
         className={`flex-1 px-3 py-2 text-sm font-semibold rounded-md transition ${currentFormat === value ? 'bg-[var(--accent-primary)] text-[var(--accent-text)]' : 'bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'}`}
@@ -26,7 +29,7 @@ const FormatButton: React.FC<{ value: 'svg' | 'png' | 'jpeg'; label: string; cur
 
 const ExportModal: React.FC<ExportModalProps> = ({ onClose, onExport }) => {
     const { t } = useLanguage();
-    const [format, setFormat] = useState<'svg' | 'png' | 'jpeg'>('png');
+    const [format, setFormat] = useState<ExportFormat>('png');
     const [scale, setScale] = useState(1);
     const [quality, setQuality] = useState(90);
 
@@ -57,13 +60,18 @@ const ExportModal: React.FC<ExportModalProps> = ({ onClose, onExport }) => {
                            <FormatButton value="svg" label="SVG" currentFormat={format} onSelect={setFormat} />
                            <FormatButton value="png" label="PNG" currentFormat={format} onSelect={setFormat} />
                            <FormatButton value="jpeg" label="JPEG" currentFormat={format} onSelect={setFormat} />
+                           <FormatButton value="zip" label="ZIP" currentFormat={format} onSelect={setFormat} />
                         </div>
                     </div>
 
-                    <InputWrapper>
-                        <Label htmlFor="export-scale" title={t('export.scaleDesc')}>{t('export.scale')}</Label>
-                        <NumberInput id="export-scale" value={scale} onChange={setScale} min={0.1} max={10} step={0.1} />
-                    </InputWrapper>
+                    {format === 'zip' ? (
+                        <p className="text-sm text-[var(--text-secondary)]">{t('export.bundleDesc')}</p>
+                    ) : (
+                        <InputWrapper>
+                            <Label htmlFor="export-scale" title={t('export.scaleDesc')}>{t('export.scale')}</Label>
+                            <NumberInput id="export-scale" value={scale} onChange={setScale} min={0.1} max={10} step={0.1} />
+                        </InputWrapper>
+                    )}
 
                     {format === 'jpeg' && (
                          <div className="space-y-2">
@@ -30,12 +30,15 @@ const SHORTCUTS_DATA: ShortcutItem[] = [
   // Tools & Selection
   { key: 'selectTool', category: 'tools', labelKey: 'shortcuts.item.selectTool', keys: [['V']] },
   { key: 'editPointsTool', category: 'tools', labelKey: 'shortcuts.item.editPointsTool', keys: [['A']] },
+  { key: 'copy', category: 'tools', labelKey: 'shortcuts.item.copy', keys: [['Ctrl', 'C']] },
+  { key: 'cut', category: 'tools', labelKey: 'shortcuts.item.cut', keys: [['Ctrl', 'X']] },
+  { key: 'paste', category: 'tools', labelKey: 'shortcuts.item.paste', keys: [['Ctrl', 'V']] },
   { key: 'duplicate', category: 'tools', labelKey: 'shortcuts.item.duplicate', keys: [['Ctrl', 'D']] },
   { key: 'delete', category: 'tools', labelKey: 'shortcuts.item.delete', keys: [['Del'], ['Backspace']] },
   { key: 'group', category: 'tools', labelKey: 'shortcuts.item.group', keys: [['Ctrl', 'G']] },
   { key: 'ungroup', category: 'tools', labelKey: 'shortcuts.item.ungroup', keys: [['Ctrl', 'Shift', 'G']] },
   { key: 'flipH', category: 'tools', labelKey: 'shortcuts.item.flipH', keys: [['Ctrl', 'H']] },
-  { key: 'flipV', category: 'tools', labelKey: 'shortcuts.item.flipV', keys: [['Ctrl', 'V']] },
+  { key: 'flipV', category: 'tools', labelKey: 'shortcuts.item.flipV', keys: [['Ctrl', 'Shift', 'H']] },
   { key: 'cancel', category: 'tools', labelKey: 'shortcuts.item.cancel', keys: [['Esc']] },
 
   // Nudging & Movement
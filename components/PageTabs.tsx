@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { type ProjectPage } from '../types';
+import { XIcon } from './icons';
+import ConfirmationModal from './ConfirmationModal';
+import { useLanguage } from './LanguageContext';
+
+interface PageTabsProps {
+  /** The project's pages; empty for a single-page project, which only shows the add button. */
+  pages: ProjectPage[];
+  currentPageId: string | null;
+  onSwitchPage: (pageId: string) => void;
+  onAddPage: () => void;
+  onRenamePage: (pageId: string, name: string) => void;
+  onDeletePage: (pageId: string) => void;
+}
+
+/** Tabs along the bottom of the canvas for moving between the project's pages. */
+const PageTabs: React.FC<PageTabsProps> = ({ pages, currentPageId, onSwitchPage, onAddPage, onRenamePage, onDeletePage }) => {
+    const { t } = useLanguage();
+    const [editingPageId, setEditingPageId] = useState<string | null>(null);
+    const [editName, setEditName] = useState<string>('');
+    const [pageToDelete, setPageToDelete] = useState<ProjectPage | null>(null);
+
+    const finishEditing = () => {
+        const trimmedName = editName.trim();
+        if (editingPageId && trimmedName) {
+            onRenamePage(editingPageId, trimmedName);
+        }
+        setEditingPageId(null);
+    };
+
+    return (
+        <div className="absolute bottom-4 left-4 z-10 flex items-center gap-1 max-w-[calc(100%-6rem)] p-1 bg-[var(--bg-primary)] rounded-lg shadow-lg overflow-x-auto">
+            {pages.map(page => (
+                <div
+                    key={page.id}
+                    onClick={() => onSwitchPage(page.id)}
+                    className={`flex items-center gap-1 pl-2 pr-1 py-1 rounded-md text-sm cursor-pointer flex-shrink-0 ${page.id === currentPageId ? 'bg-[var(--accent-primary)] text-[var(--accent-text)]' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'}`}
+                    title={`${page.width}×${page.height}`}
+                >
+                    {editingPageId === page.id ? (
+                        <input
+                            autoFocus
+                            type="text"
+                            value={editName}
+                            onChange={e => setEditName(e.target.value)}
+                            onBlur={finishEditing}
+                            onKeyDown={e => e.key === 'Enter' && finishEditing()}
+                            onClick={e => e.stopPropagation()}
+                            className="w-24 bg-[var(--bg-primary)] text-[var(--text-primary)] border border-[var(--border-color)] rounded px-1 text-sm"
+                        />
+                    ) : (
+                        <span
+                            className="max-w-[8rem] truncate"
+                            onDoubleClick={e => { e.stopPropagation(); setEditingPageId(page.id); setEditName(page.name); }}
+                        >
+                            {page.name}
+                        </span>
+                    )}
+                    <button
+                        onClick={e => { e.stopPropagation(); setPageToDelete(page); }}
+                        className="p-0.5 rounded hover:bg-black/10"
+                        title={t('pages.delete')}
+                    >
+                        <XIcon size={12} />
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={onAddPage}
+                className="px-2 py-1 rounded-md text-sm text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--text-primary)] flex-shrink-0"
+                title={t('pages.add')}
+            >
+                {pages.length === 0 ? `+ ${t('pages.addShort')}` : '+'}
+            </button>
+
+            {pageToDelete && (
+                <ConfirmationModal
+                    isOpen={!!pageToDelete}
+                    onClose={() => setPageToDelete(null)}
+                    onConfirm={() => {
+                        onDeletePage(pageToDelete.id);
+                        setPageToDelete(null);
+                    }}
+                    title={t('pages.deleteConfirmTitle')}
+                    message={t('pages.deleteConfirmText').replace('{name}', pageToDelete.name)}
+                    confirmText={t('pages.delete')}
+                    cancelText={t('action.cancel')}
+                    variant="destructive"
+                />
+            )}
+        </div>
+    );
+};
+
+export default PageTabs;
@@ -1,10 +1,13 @@
 import React, {useContext} from 'react';
 import { useLanguage } from './LanguageContext';
-import { useMemo } from 'react';
-import { Shape, LineShape, BezierCurveShape, PolylineShape, JoinStyle, PolygonShape, IsoscelesTriangleShape, RhombusShape, ParallelogramShape, TrapezoidShape, EllipseShape, ArcShape, PathShape, TextShape, ImageShape, BitmapShape, RightTriangleShape } from '../types';
+import { useMemo, useState, useEffect, useRef } from 'react';
+import { AnimationSettings, ResizeMode, Shape, LineShape, BezierCurveShape, PolylineShape, JoinStyle, PolygonShape, IsoscelesTriangleShape, RhombusShape, ParallelogramShape, TrapezoidShape, EllipseShape, ArcShape, PathShape, TextShape, ImageShape, BitmapShape, RightTriangleShape, WidgetShape, CustomBitmap, ScrollViewport } from '../types';
 import { getIsoscelesTrianglePoints, getPolylinePointsAsPath, getPolygonPointsAsArray, getRhombusPoints, getTrapezoidPoints, getParallelogramPoints, getSmoothedPathData, getFinalPoints, getArcPathData, getShapeCenter, getTextBoundingBox, processTextLines, getRightTrianglePoints } from '../lib/geometry';
-import { XIcon } from './icons';
-import { getVisualFontFamily } from '../lib/constants';
+import { XIcon, RefreshIcon } from './icons';
+import { getShapeInState, getVisualFontFamily } from '../lib/constants';
+import { getWidgetLookalike } from '../lib/widgets';
+import { findCustomBitmap, getBitmapMaskId, getBitmapPixelPath, getCustomBitmapOrigin, getStippleMask, isCustomBitmapRef, toCustomBitmapRef } from '../lib/bitmaps';
+import { getAnimatedShapes, DEFAULT_ANIMATION_SETTINGS } from '../lib/animation';
 
 const formatPointsForSvg = (points: { x: number; y: number }[]): string => {
     return points.map(p => `${p.x},${p.y}`).join(' ');
@@ -16,11 +19,70 @@ interface PreviewModalProps {
   width: number;
   height: number;
   backgroundColor: string;
+  animation?: AnimationSettings;
+  resizeMode?: ResizeMode;
+  scaleFonts?: boolean;
+  customBitmaps?: CustomBitmap[];
+  viewport?: ScrollViewport | null;
   onClose: () => void;
 }
 
-const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width, height, backgroundColor, onClose }) => {
+const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes: sourceShapes, width, height, backgroundColor, animation = DEFAULT_ANIMATION_SETTINGS, resizeMode = 'fixed', scaleFonts = false, customBitmaps = [], viewport, onClose }) => {
     const { t } = useLanguage();
+    const isAnimated = useMemo(() => sourceShapes.some(s => s && s.keyframes && s.keyframes.length > 0), [sourceShapes]);
+    const [animationTime, setAnimationTime] = useState(0);
+    const [playbackRun, setPlaybackRun] = useState(0);
+
+    // Plays the keyframe timeline once (or forever when looping) while the preview is open.
+    useEffect(() => {
+        if (!isAnimated) return;
+        let frameId = 0;
+        const startedAt = performance.now();
+        const tick = (now: number) => {
+            const elapsed = now - startedAt;
+            if (!animation.loop && elapsed >= animation.duration) {
+                setAnimationTime(animation.duration);
+                return;
+            }
+            setAnimationTime(animation.duration > 0 ? elapsed % animation.duration : 0);
+            frameId = requestAnimationFrame(tick);
+        };
+        frameId = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frameId);
+    }, [isAnimated, animation.duration, animation.loop, playbackRun]);
+
+    // Like the running program, items switch to their active look under the pointer and show their disabled look.
+    const [hoveredShapeId, setHoveredShapeId] = useState<string | null>(null);
+    const shapes = useMemo(() => (isAnimated ? getAnimatedShapes(sourceShapes, animationTime) : sourceShapes)
+        .map(shape => shape && getShapeInState(shape, shape.id === hoveredShapeId)), [isAnimated, sourceShapes, animationTime, hoveredShapeId]);
+
+    // A resizable window mimics the generated <Configure> handler: the canvas fills it and `scale("all")` moves the items.
+    // A scrollable canvas shows its viewport with scrollbars instead, and never rescales.
+    const isResizable = resizeMode !== 'fixed' && !viewport;
+    const frameRef = useRef<HTMLDivElement>(null);
+    const [frameSize, setFrameSize] = useState({ width, height });
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!isResizable || !frame) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setFrameSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(frame);
+        return () => observer.disconnect();
+    }, [isResizable]);
+
+    const viewWidth = isResizable ? frameSize.width : width;
+    const viewHeight = isResizable ? frameSize.height : height;
+    let scaleX = viewWidth / width;
+    let scaleY = viewHeight / height;
+    if (resizeMode === 'keepAspect') scaleX = scaleY = Math.min(scaleX, scaleY);
+    const isScaled = isResizable && (scaleX !== 1 || scaleY !== 1);
+
+    // Tk scales coordinates only: images and bitmaps keep their size, text too unless fonts are rescaled.
+    const keepItemSize = (x: number, y: number, factor = 1): string | undefined => {
+        if (!isScaled) return undefined;
+        return `translate(${x} ${y}) scale(${factor / scaleX} ${factor / scaleY}) translate(${-x} ${-y})`;
+    };
     
     const getTransform = (shape: Shape) => {
         let transformStr = "";
@@ -93,18 +155,30 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
             >
                 <header className="flex justify-between items-center p-2 px-4 border-b border-[var(--border-primary)] bg-[var(--bg-app)] rounded-t-lg flex-shrink-0">
                     <h2 className="text-sm font-bold text-[var(--text-primary)] truncate" title={`${t('preview.title')}: ${projectName}`}>{t('preview.title')}: {projectName}</h2>
+                    {isAnimated && (
+                        <button onClick={() => setPlaybackRun(run => run + 1)} title={t('animation.replay')} className="ml-auto mr-2 p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] rounded-full">
+                            <RefreshIcon size={18} />
+                        </button>
+                    )}
                     <button onClick={onClose} className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] rounded-full">
                         <XIcon />
                     </button>
                 </header>
                 <div className="p-4 bg-[var(--bg-secondary)]/50 overflow-auto">
+                    <div
+                        ref={frameRef}
+                        style={isResizable ? { width, height, resize: 'both', overflow: 'hidden', minWidth: 40, minHeight: 40 } : viewport ? { width: viewport.width, height: viewport.height, overflow: 'scroll' } : undefined}
+                        title={isResizable ? t('preview.resizeHint') : undefined}
+                    >
                     <svg
-                        width={width}
-                        height={height}
+                        width={viewWidth}
+                        height={viewHeight}
                         style={{ backgroundColor, boxShadow: '0 4px 6px rgba(0,0,0,0.3)' }}
-                        className="rounded-md flex-shrink-0"
+                        className="rounded-md flex-shrink-0 block"
                     >
                         <defs>
+                            {/* Line widths don't change with canvas.scale() */}
+                            <style>{'.preview-scaled * { vector-effect: non-scaling-stroke; }'}</style>
                             <pattern id="pattern-gray12" width="3" height="3" patternUnits="userSpaceOnUse"><rect width="3" height="3" fill="black"/><rect x="1" y="1" width="1" height="1" fill="white"/></pattern>
                             <mask id="mask-gray12"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-gray12)"/></mask>
                             <pattern id="pattern-gray25" width="2" height="2" patternUnits="userSpaceOnUse"><rect width="2" height="2" fill="black"/><rect x="0" y="0" width="1" height="1" fill="white"/></pattern>
@@ -122,6 +196,12 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                             <mask id="mask-bitmap-questhead"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-gray50)"/></mask>
                             <mask id="mask-bitmap-question"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-gray50)"/></mask>
                             <mask id="mask-bitmap-warning"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-gray50)"/></mask>
+                            {customBitmaps.map(bitmap => (
+                                <React.Fragment key={bitmap.id}>
+                                    <pattern id={`pattern-xbm-${bitmap.id}`} width={bitmap.width} height={bitmap.height} patternUnits="userSpaceOnUse"><rect width={bitmap.width} height={bitmap.height} fill="black"/><path d={getBitmapPixelPath(bitmap)} fill="white"/></pattern>
+                                    <mask id={getBitmapMaskId(toCustomBitmapRef(bitmap))}><rect x="0" y="0" width="100%" height="100%" fill={`url(#pattern-xbm-${bitmap.id})`}/></mask>
+                                </React.Fragment>
+                            ))}
                             {arrowMarkers.map(({ color, shapeParams }) => {
                                 const [d1, d2, d3] = shapeParams;
                                 if (d2 === 0 || d3 === 0) return null;
@@ -159,13 +239,20 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                 )
                             })}
                         </defs>
-                        <rect x="0" y="0" width={width} height={height} fill={backgroundColor} />
+                        <rect x="0" y="0" width={viewWidth} height={viewHeight} fill={backgroundColor} />
+                        <g
+                            transform={isScaled ? `scale(${scaleX} ${scaleY})` : undefined}
+                            className={isScaled ? 'preview-scaled' : undefined}
+                            onMouseOver={e => setHoveredShapeId((e.target as Element).closest('[data-id]')?.getAttribute('data-id') ?? null)}
+                            onMouseLeave={() => setHoveredShapeId(null)}
+                        >
                         {shapes.map(shape => {
                             if (!shape) return null;
                             if (shape.state === 'hidden') return null;
 
                             const safeStrokeWidth = isNaN((shape as any).strokeWidth) || typeof (shape as any).strokeWidth !== 'number' ? 0 : (shape as any).strokeWidth;
-                            const staticProps: React.SVGProps<any> = {
+                            const staticProps: React.SVGProps<any> & { 'data-id': string } = {
+                                'data-id': shape.id,
                                 stroke: shape.stroke,
                                 strokeWidth: safeStrokeWidth,
                                 style: { opacity: shape.state === 'disabled' ? 0.5 : 1 },
@@ -215,7 +302,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                     const rw = typeof shape.width === 'number' && !isNaN(shape.width) ? Math.max(0, shape.width) : 0;
                                     const rh = typeof shape.height === 'number' && !isNaN(shape.height) ? Math.max(0, shape.height) : 0;
                                     const rectProps: any = { ...staticProps, x: rx, y: ry, width: rw, height: rh, fill: shape.fill, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.fill !== 'none') rectProps.mask = `url(#mask-${shape.stipple})`;
+                                    rectProps.mask = getStippleMask(shape);
                                     if (shape.dash) rectProps.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) rectProps.strokeDashoffset = shape.dashoffset;
                                     return <rect key={shape.id} {...rectProps} />;
@@ -227,7 +314,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                     const erx = typeof ellipse.rx === 'number' && !isNaN(ellipse.rx) ? Math.max(0, ellipse.rx) : 0;
                                     const ery = typeof ellipse.ry === 'number' && !isNaN(ellipse.ry) ? Math.max(0, ellipse.ry) : 0;
                                     const ellipseProps: any = { ...staticProps, cx: ecx, cy: ecy, rx: erx, ry: ery, fill: ellipse.fill };
-                                    if (ellipse.stipple && ellipse.fill !== 'none') ellipseProps.mask = `url(#mask-${ellipse.stipple})`;
+                                    ellipseProps.mask = getStippleMask(ellipse);
                                     if (ellipse.dash) ellipseProps.strokeDasharray = ellipse.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (ellipse.dashoffset) ellipseProps.strokeDashoffset = ellipse.dashoffset;
                                     return <ellipse key={ellipse.id} {...ellipseProps} />;
@@ -235,22 +322,22 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                 case 'arc': {
                                     const arcShape = shape as ArcShape;
                                     const arcProps: any = { ...staticProps, d: getArcPathData(arcShape), fill: arcShape.style === 'arc' ? 'none' : arcShape.fill };
-                                    if (arcShape.stipple && arcShape.fill !== 'none' && arcShape.style !== 'arc') arcProps.mask = `url(#mask-${arcShape.stipple})`;
+                                    arcProps.mask = getStippleMask(arcShape);
                                     if (arcShape.dash) arcProps.strokeDasharray = arcShape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (arcShape.dashoffset) arcProps.strokeDashoffset = arcShape.dashoffset;
                                     return <path key={shape.id} {...arcProps} />;
                                 }
                                 case 'line':
                                     if (!shape.points || !shape.points[0] || !shape.points[1]) return null;
-                                    return <line key={shape.id} {...staticProps} strokeWidth={safeStrokeWidth} x1={shape.points[0].x} y1={shape.points[0].y} x2={shape.points[1].x} y2={shape.points[1].y} {...lineLikeProps(shape)} />;
+                                    return <line key={shape.id} {...staticProps} strokeWidth={safeStrokeWidth} x1={shape.points[0].x} y1={shape.points[0].y} x2={shape.points[1].x} y2={shape.points[1].y} {...lineLikeProps(shape)} mask={getStippleMask(shape)} />;
                                 case 'bezier':
                                     const fill = shape.isClosed ? shape.fill : 'none';
-                                    return <path key={shape.id} {...staticProps} strokeWidth={safeStrokeWidth} d={getSmoothedPathData(shape.points, shape.smooth, shape.isClosed)} fill={fill} {...lineLikeProps(shape)} {...joinStyleProps(shape)} />;
+                                    return <path key={shape.id} {...staticProps} strokeWidth={safeStrokeWidth} d={getSmoothedPathData(shape.points, shape.smooth, shape.isClosed)} fill={fill} {...lineLikeProps(shape)} {...joinStyleProps(shape)} mask={getStippleMask(shape)} />;
                                 case 'pencil':
-                                    return <path key={shape.id} {...staticProps} strokeWidth={safeStrokeWidth} d={getPolylinePointsAsPath(shape.points)} fill="none" {...joinStyleProps(shape)} {...lineLikeProps(shape)} />;
+                                    return <path key={shape.id} {...staticProps} strokeWidth={safeStrokeWidth} d={getPolylinePointsAsPath(shape.points)} fill="none" {...joinStyleProps(shape)} {...lineLikeProps(shape)} mask={getStippleMask(shape)} />;
                                 case 'polyline': {
                                     const polyProps: React.SVGProps<any> = { ...staticProps, strokeWidth: safeStrokeWidth, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.isClosed && shape.fill !== 'none') polyProps.mask = `url(#mask-${shape.stipple})`;
+                                    polyProps.mask = getStippleMask(shape);
                                     if (shape.dash) polyProps.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) polyProps.strokeDashoffset = shape.dashoffset;
                                     
@@ -267,35 +354,35 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                 }
                                 case 'triangle': {
                                     const props: any = { ...staticProps, points: formatPointsForSvg(getIsoscelesTrianglePoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                                    props.mask = getStippleMask(shape);
                                     if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                                     return <polygon key={shape.id} {...props} />;
                                 }
                                 case 'right-triangle': {
                                     const props: any = { ...staticProps, points: formatPointsForSvg(getRightTrianglePoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                                    props.mask = getStippleMask(shape);
                                     if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                                     return <polygon key={shape.id} {...props} />;
                                 }
                                 case 'rhombus': {
                                     const props: any = { ...staticProps, points: formatPointsForSvg(getRhombusPoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                                    props.mask = getStippleMask(shape);
                                     if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                                     return <polygon key={shape.id} {...props} />;
                                 }
                                 case 'trapezoid': {
                                     const props: any = { ...staticProps, points: formatPointsForSvg(getTrapezoidPoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                                    props.mask = getStippleMask(shape);
                                     if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                                     return <polygon key={shape.id} {...props} />;
                                 }
                                 case 'parallelogram': {
                                     const props: any = { ...staticProps, points: formatPointsForSvg(getParallelogramPoints(shape)), fill: shape.fill, ...joinStyleProps(shape) };
-                                    if (shape.stipple && shape.fill !== 'none') props.mask = `url(#mask-${shape.stipple})`;
+                                    props.mask = getStippleMask(shape);
                                     if (shape.dash) props.strokeDasharray = shape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (shape.dashoffset) props.strokeDashoffset = shape.dashoffset;
                                     return <polygon key={shape.id} {...props} />;
@@ -304,7 +391,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                 case 'star': {
                                     const polyShape = shape as PolygonShape;
                                     const polyProps: any = { ...staticProps, fill: polyShape.fill, ...joinStyleProps(polyShape) };
-                                    if (polyShape.stipple && polyShape.fill !== 'none') polyProps.mask = `url(#mask-${polyShape.stipple})`;
+                                    polyProps.mask = getStippleMask(polyShape);
                                     if (polyShape.dash) polyProps.strokeDasharray = polyShape.dash.map(v => v * safeStrokeWidth).join(' ');
                                     if (polyShape.dashoffset) polyProps.strokeDashoffset = polyShape.dashoffset;
 
@@ -341,8 +428,8 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                     };
 
                                     return (
+                                        <g key={textShape.id} transform={keepItemSize(textShape.x, textShape.y, scaleFonts ? Math.min(scaleX, scaleY) : 1)}>
                                         <text
-                                            key={textShape.id}
                                             {...staticProps}
                                             x={textBlockX}
                                             y={bbox.y}
@@ -357,6 +444,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                                 </tspan>
                                             ))}
                                         </text>
+                                        </g>
                                     );
                                 }
                                 case 'image': {
@@ -366,8 +454,8 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                     const iw = typeof imageShape.width === 'number' && !isNaN(imageShape.width) ? Math.max(0, imageShape.width) : 0;
                                     const ih = typeof imageShape.height === 'number' && !isNaN(imageShape.height) ? Math.max(0, imageShape.height) : 0;
                                     return (
+                                        <g key={imageShape.id} transform={keepItemSize(ix + iw / 2, iy + ih / 2)}>
                                         <image
-                                            key={imageShape.id}
                                             href={imageShape.src}
                                             x={ix}
                                             y={iy}
@@ -375,6 +463,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                             height={ih}
                                             {...staticProps}
                                         />
+                                        </g>
                                     );
                                 }
                                 case 'bitmap': {
@@ -384,21 +473,48 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ projectName, shapes, width,
                                     const by = typeof y === 'number' && !isNaN(y) ? y : 0;
                                     const bw = typeof bmpWidth === 'number' && !isNaN(bmpWidth) ? Math.max(0, bmpWidth) : 0;
                                     const bh = typeof bmpHeight === 'number' && !isNaN(bmpHeight) ? Math.max(0, bmpHeight) : 0;
-                                    const maskId = bitmapType.startsWith('gray')
-                                        ? `url(#mask-${bitmapType})`
-                                        : `url(#mask-bitmap-${bitmapType})`;
+                                    const bitmap = findCustomBitmap(bitmapType, customBitmaps);
+                                    if (bitmap) {
+                                        const origin = getCustomBitmapOrigin(bitmapShape, bitmap);
+                                        return (
+                                            <g key={bitmapShape.id} transform={keepItemSize(bx + bw / 2, by + bh / 2)}>
+                                            <g {...staticProps}>
+                                                <rect x={origin.x} y={origin.y} width={bitmap.width} height={bitmap.height} fill={background || 'none'} />
+                                                <path d={getBitmapPixelPath(bitmap, origin.x, origin.y)} fill={foreground} />
+                                            </g>
+                                            </g>
+                                        );
+                                    }
+                                    const maskId = `url(#${getBitmapMaskId(isCustomBitmapRef(bitmapType) ? 'error' : bitmapType)})`;
 
                                     return (
-                                        <g key={bitmapShape.id} {...staticProps}>
+                                        <g key={bitmapShape.id} transform={keepItemSize(bx + bw / 2, by + bh / 2)}>
+                                        <g {...staticProps}>
                                             <rect x={bx} y={by} width={bw} height={bh} fill={background} />
                                             <rect x={bx} y={by} width={bw} height={bh} fill={foreground} mask={maskId} />
                                         </g>
+                                        </g>
+                                    );
+                                }
+                                case 'widget': {
+                                    const widgetShape = shape as WidgetShape;
+                                    const { x, y, width: ww, height: wh } = widgetShape;
+                                    return (
+                                        <g key={widgetShape.id} transform={keepItemSize(x + ww / 2, y + wh / 2)}>
+                                        <g {...staticProps}>
+                                            {getWidgetLookalike(widgetShape).map((part, index) =>
+                                                React.createElement(part.tag, { key: index, ...part.attrs }, part.text)
+                                            )}
+                                        </g>
+                                        </g>
                                     );
                                 }
                                 default: return null;
                             }
                         })}
+                        </g>
                     </svg>
+                    </div>
                 </div>
             </div>
         </div>
@@ -1,10 +1,13 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Shape, LineShape, BezierCurveShape, PathShape, JoinStyle, PolygonShape, IsoscelesTriangleShape, RhombusShape, ParallelogramShape, TrapezoidShape, PolylineShape, RectangleShape, EllipseShape, Tool, ArcShape, RightTriangleShape, TextShape, ImageShape, BitmapShape, BuiltInBitmap } from '../types';
+import React, { useState, useEffect, useRef, useMemo, useContext } from 'react';
+import { Shape, ShapeEventBinding, ShapeEventAction, LineShape, BezierCurveShape, PathShape, JoinStyle, PolygonShape, IsoscelesTriangleShape, RhombusShape, ParallelogramShape, TrapezoidShape, PolylineShape, RectangleShape, EllipseShape, Tool, ArcShape, RightTriangleShape, TextShape, ImageShape, BitmapShape, BuiltInBitmap, WidgetShape, WidgetType } from '../types';
 import { getVisualBoundingBox, getFinalPoints, getPolygonSideLength, getBoundingBox, getPolygonRadiusFromSideLength, getEditablePoints, getShapeCenter, getTextBoundingBox, rotatePoint, isShapeClosed } from '../lib/geometry';
-import { InputWrapper, Label, NumberInput, ColorInput, Checkbox, Select, TextArea, DashSelect } from './FormControls';
+import { InputWrapper, Label, NumberInput, ColorInput, Checkbox, Select, TextArea, DashSelect, VariableScopeContext, CustomBitmapsContext } from './FormControls';
+import { getBoundExpression, setShapeExpression, setShapeValue } from '../lib/expressions';
 import { DuplicateIcon, FlipHorizontalIcon, FlipVerticalIcon, TrashIcon, LockIcon, UngroupIcon, UnlockIcon, ConvertToPathIcon, BoldIcon, ItalicIcon, UnderlineIcon, StrikethroughIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon } from './icons';
-import { getDefaultNameForShape, TOOL_TYPE_TO_NAME, DASH_STYLES } from '../lib/constants';
+import { getDefaultNameForShape, TOOL_TYPE_TO_NAME, DASH_STYLES, TK_EVENT_SEQUENCES, STATE_STYLE_KEYS } from '../lib/constants';
+import { WIDGET_DEFAULTS, WIDGET_TYPES, hasWidgetCommand } from '../lib/widgets';
+import { isCustomBitmapRef, toCustomBitmapRef } from '../lib/bitmaps';
 import { useLanguage } from './LanguageContext';
 
 interface PropertyEditorProps {
@@ -168,11 +171,134 @@ const DashControls: React.FC<{
     );
 };
 
+const EVENT_ACTIONS: ShapeEventAction[] = ['fill', 'move', 'toggleState', 'showText', 'custom'];
+
+const EventBindingsEditor: React.FC<{
+    shape: Shape;
+    allShapes: Shape[];
+    updateShape: (shape: Shape, isTransient?: boolean) => void;
+    showNotification: (message: string, type?: 'info' | 'error', duration?: number) => void;
+}> = ({ shape, allShapes, updateShape, showNotification }) => {
+    const { t } = useLanguage();
+    const events = shape.events ?? [];
+
+    const updateBinding = (id: string, changes: Partial<ShapeEventBinding>, isTransient?: boolean) => {
+        updateShape({ ...shape, events: events.map(b => b.id === id ? { ...b, ...changes } : b) }, isTransient);
+    };
+
+    const addBinding = () => {
+        const binding: ShapeEventBinding = { id: `event-${Date.now()}`, sequence: '<Button-1>', action: 'fill', fill: '#ff0000' };
+        updateShape({ ...shape, events: [...events, binding] });
+    };
+
+    const removeBinding = (id: string) => {
+        const remaining = events.filter(b => b.id !== id);
+        updateShape({ ...shape, events: remaining.length > 0 ? remaining : undefined });
+    };
+
+    return (
+        <div className="space-y-2">
+            {events.map(binding => (
+                <div key={binding.id} className="space-y-2 p-2 rounded bg-[var(--bg-tertiary)]">
+                    <InputWrapper>
+                        <Label htmlFor={`${binding.id}-sequence`} title={t('events.sequenceDesc')}>{t('events.sequence')}</Label>
+                        <Select id={`${binding.id}-sequence`} value={binding.sequence} onChange={v => updateBinding(binding.id, { sequence: v })}>
+                            {TK_EVENT_SEQUENCES.map(({ sequence, nameKey }) => <option key={sequence} value={sequence}>{t(nameKey)} {sequence}</option>)}
+                        </Select>
+                        <button onClick={() => removeBinding(binding.id)} title={t('events.remove')} className="p-1.5 rounded hover:bg-[var(--destructive-bg)] text-[var(--destructive-text)] hover:text-[var(--accent-text)] flex-shrink-0"><TrashIcon size={16}/></button>
+                    </InputWrapper>
+                    <InputWrapper>
+                        <Label htmlFor={`${binding.id}-action`}>{t('events.action')}</Label>
+                        <Select id={`${binding.id}-action`} value={binding.action} onChange={v => updateBinding(binding.id, { action: v as ShapeEventAction })}>
+                            {EVENT_ACTIONS.map(action => <option key={action} value={action}>{t(`events.action.${action}`)}</option>)}
+                        </Select>
+                    </InputWrapper>
+                    {binding.action !== 'custom' && (
+                        <InputWrapper>
+                            <Label htmlFor={`${binding.id}-target`} title={t('events.targetDesc')}>{t('events.target')}</Label>
+                            <Select id={`${binding.id}-target`} value={binding.targetId ?? ''} onChange={v => updateBinding(binding.id, { targetId: v || undefined })}>
+                                <option value="">{t('events.target.self')}</option>
+                                {allShapes.filter(s => s.id !== shape.id).map(s => <option key={s.id} value={s.id}>{s.name || getDefaultNameForShape(s, t)}</option>)}
+                            </Select>
+                        </InputWrapper>
+                    )}
+                    {binding.action === 'fill' && (
+                        <InputWrapper>
+                            <Label htmlFor={`${binding.id}-fill`}>{t('events.fill')}</Label>
+                            <ColorInput id={`${binding.id}-fill`} value={binding.fill || '#ff0000'} onChange={v => updateBinding(binding.id, { fill: v })} showNotification={showNotification} />
+                        </InputWrapper>
+                    )}
+                    {binding.action === 'move' && (
+                        <>
+                            <InputWrapper>
+                                <Label htmlFor={`${binding.id}-dx`}>dx</Label>
+                                <NumberInput id={`${binding.id}-dx`} value={binding.dx ?? 0} onChange={(v, isFinal) => updateBinding(binding.id, { dx: v }, isFinal === false)} unit="px" />
+                            </InputWrapper>
+                            <InputWrapper>
+                                <Label htmlFor={`${binding.id}-dy`}>dy</Label>
+                                <NumberInput id={`${binding.id}-dy`} value={binding.dy ?? 0} onChange={(v, isFinal) => updateBinding(binding.id, { dy: v }, isFinal === false)} unit="px" />
+                            </InputWrapper>
+                        </>
+                    )}
+                    {binding.action === 'showText' && (
+                        <InputWrapper>
+                            <Label htmlFor={`${binding.id}-text`}>{t('events.text')}</Label>
+                            <TextArea id={`${binding.id}-text`} value={binding.text ?? ''} onChange={v => updateBinding(binding.id, { text: v })} rows={1} />
+                        </InputWrapper>
+                    )}
+                    {binding.action === 'custom' && (
+                        <TextArea id={`${binding.id}-code`} value={binding.code ?? ''} onChange={v => updateBinding(binding.id, { code: v })} rows={4} placeholder={t('events.codePlaceholder')} title={t('events.codeDesc')} />
+                    )}
+                </div>
+            ))}
+            <button onClick={addBinding} className="w-full px-2 py-1 text-sm bg-[var(--bg-tertiary)] hover:bg-[var(--accent-primary)] rounded-md">+ {t('events.add')}</button>
+        </div>
+    );
+};
+
+/** The project's own bitmaps as options, listed after Tk's built-in ones. */
+const CustomBitmapOptions: React.FC = () => {
+    const { bitmaps } = useContext(CustomBitmapsContext);
+    const { t } = useLanguage();
+    if (bitmaps.length === 0) return null;
+    return (
+        <optgroup label={t('props.bitmaps.custom')}>
+            {bitmaps.map(bitmap => <option key={bitmap.id} value={toCustomBitmapRef(bitmap)}>{bitmap.name}</option>)}
+        </optgroup>
+    );
+};
+
+const StippleOptions: React.FC = () => {
+    const { t } = useLanguage();
+    return (
+        <>
+            <option value="none">{t('props.stipple.none')}</option>
+            <option value="gray12">Gray 12%</option>
+            <option value="gray25">Gray 25%</option>
+            <option value="gray50">Gray 50%</option>
+            <option value="gray75">Gray 75%</option>
+            <CustomBitmapOptions />
+        </>
+    );
+};
+
+/** Opens the bitmap editor, on the given bitmap when it is one of the project's. */
+const EditBitmapsButton: React.FC<{ value?: string }> = ({ value }) => {
+    const { onEdit } = useContext(CustomBitmapsContext);
+    const { t } = useLanguage();
+    return (
+        <button type="button" onClick={() => onEdit(isCustomBitmapRef(value) ? value.slice(1) : undefined)} title={t('prop.title.editBitmaps')} className="block text-xs text-[var(--accent-primary)] hover:underline ml-32 -mt-2 mb-2">
+            {t('props.bitmaps.edit')}
+        </button>
+    );
+};
+
 const StippleControls: React.FC<{
     shape: StippleableShape;
     updateShape: (shape: Shape, isTransient?: boolean) => void;
 }> = ({ shape, updateShape }) => {
     const hasFill = 'fill' in shape && shape.fill !== 'none';
+    const hasStroke = shape.stroke !== 'none' && shape.strokeWidth > 0;
     const { t } = useLanguage();
 
     return (
@@ -180,13 +306,18 @@ const StippleControls: React.FC<{
             <InputWrapper>
                 <Label htmlFor={`${shape.id}-stipple`} title={t('props.stipple')}>{t('props.stipple')}:</Label>
                 <Select id={`${shape.id}-stipple`} value={shape.stipple ?? 'none'} onChange={v => updateShape({ ...shape, stipple: v === 'none' ? undefined : v as any })} disabled={!hasFill} title={t('prop.title.stipple')}>
-                    <option value="none">{t('props.stipple.none')}</option>
-                    <option value="gray12">Gray 12%</option>
-                    <option value="gray25">Gray 25%</option>
-                    <option value="gray50">Gray 50%</option>
-                    <option value="gray75">Gray 75%</option>
+                    <StippleOptions />
                 </Select>
             </InputWrapper>
+            {shape.type !== 'text' && (
+                <InputWrapper>
+                    <Label htmlFor={`${shape.id}-outline-stipple`} title={t('props.outlineStipple')}>{t('props.outlineStipple')}:</Label>
+                    <Select id={`${shape.id}-outline-stipple`} value={shape.outlineStipple ?? 'none'} onChange={v => updateShape({ ...shape, outlineStipple: v === 'none' ? undefined : v as any })} disabled={!hasStroke} title={t('prop.title.outlineStipple')}>
+                        <StippleOptions />
+                    </Select>
+                </InputWrapper>
+            )}
+            <EditBitmapsButton value={[shape.stipple, shape.type !== 'text' ? shape.outlineStipple : undefined].find(isCustomBitmapRef)} />
             <div className="text-xs text-[var(--text-tertiary)] ml-32 -mt-2 mb-2">{t('props.stippleNote')}</div>
         </>
     );
@@ -238,6 +369,10 @@ const FillControls: React.FC<{
     );
 };
 
+// Records (or clears) the expression a committed value was typed as; plain edits leave it alone.
+const withExpression = (shape: Shape, key: string, expression: string | null | undefined): Shape =>
+    expression === undefined ? shape : setShapeExpression(shape, key, expression);
+
 const StrokeControls: React.FC<{
     shape: Shape;
     updateShape: (shape: Shape, isTransient?: boolean) => void;
@@ -250,6 +385,7 @@ const StrokeControls: React.FC<{
     const isStrokeNone = shape.stroke === 'none';
     const showDashControls = shape.type !== 'text';
     const { t } = useLanguage();
+    const variableScope = useContext(VariableScopeContext);
 
     return (
         <>
@@ -287,7 +423,8 @@ const StrokeControls: React.FC<{
                 <NumberInput 
                     id={`${shape.id}-stroke-width`} 
                     value={isNaN(shape.strokeWidth) ? 1 : roundFn(shape.strokeWidth)} 
-                    onChange={(v, isFinal) => updateShape({ ...shape, strokeWidth: v }, isFinal === false)} 
+                    expression={getBoundExpression(shape, 'width', variableScope)}
+                    onChange={(v, isFinal, expression) => updateShape(withExpression({ ...shape, strokeWidth: v }, 'width', expression), isFinal === false)} 
                     min={0} 
                     max={50}
                     unit="px"
@@ -302,6 +439,88 @@ const StrokeControls: React.FC<{
     );
 };
 
+// Values of their own for Tk's active (under the pointer) and disabled states; unticked ones keep the normal look.
+const StateStyleControls: React.FC<{
+    shape: Shape;
+    updateShape: (shape: Shape, isTransient?: boolean) => void;
+    roundFn: (num: number) => number;
+    showNotification: PropertyEditorProps['showNotification'];
+}> = ({ shape, updateShape, roundFn, showNotification }) => {
+    const { t } = useLanguage();
+    const styled = shape as any;
+    const isUnclosed = shape.type === 'line' || shape.type === 'pencil' ||
+        ((shape.type === 'polyline' || shape.type === 'bezier') && !shape.isClosed) ||
+        (shape.type === 'arc' && shape.style === 'arc');
+    const hasFill = 'fill' in shape && !isUnclosed;
+    const hasStroke = shape.type !== 'text';
+    const setValue = (key: string, value: any, isTransient?: boolean) => updateShape({ ...shape, [key]: value } as Shape, isTransient);
+
+    const toggle = (key: string, fallback: any, label: string) => (
+        <input
+            id={`${shape.id}-${key}-toggle`}
+            type="checkbox"
+            checked={styled[key] !== undefined}
+            onChange={e => setValue(key, e.target.checked ? fallback : undefined)}
+            title={t('prop.title.stateStyleToggle').replace('{property}', label)}
+            className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]"
+        />
+    );
+    const colorRow = (key: string, label: string, fallback: string) => (
+        <InputWrapper key={key}>
+            <Label htmlFor={`${shape.id}-${key}`}>{label}</Label>
+            <div className="flex-1 flex items-center gap-2">
+                {toggle(key, fallback, label)}
+                <ColorInput id={`${shape.id}-${key}`} value={styled[key] ?? fallback} onChange={v => setValue(key, v)} disabled={styled[key] === undefined} showNotification={showNotification} />
+            </div>
+        </InputWrapper>
+    );
+
+    return (
+        <div className="space-y-2">
+            {(['active', 'disabled'] as const).map(state => {
+                const keys = STATE_STYLE_KEYS[state];
+                const strokeWidth = !isNaN(shape.strokeWidth) && shape.strokeWidth > 0 ? shape.strokeWidth : 1;
+                return (
+                    <div key={state} className="space-y-2">
+                        <h4 className="text-xs font-semibold text-[var(--text-tertiary)]">{t(`props.stateStyles.${state}`)}</h4>
+                        {hasFill && colorRow(keys.fill, t('prop.fill'), styled.fill !== 'none' ? styled.fill : '#ffffff')}
+                        {hasStroke && colorRow(keys.stroke, t('prop.stroke'), shape.stroke !== 'none' ? shape.stroke : '#000000')}
+                        {hasStroke && (
+                            <InputWrapper>
+                                <Label htmlFor={`${shape.id}-${keys.strokeWidth}`}>{t('prop.width')}</Label>
+                                <div className="flex-1 flex items-center gap-2">
+                                    {toggle(keys.strokeWidth, strokeWidth, t('prop.width'))}
+                                    <NumberInput
+                                        id={`${shape.id}-${keys.strokeWidth}`}
+                                        value={roundFn(styled[keys.strokeWidth] ?? strokeWidth)}
+                                        onChange={(v, isFinal) => setValue(keys.strokeWidth, v, isFinal === false)}
+                                        min={0}
+                                        max={50}
+                                        unit="px"
+                                        disabled={styled[keys.strokeWidth] === undefined}
+                                        smartRound={false}
+                                    />
+                                </div>
+                            </InputWrapper>
+                        )}
+                        {hasStroke && (
+                            <InputWrapper>
+                                <Label htmlFor={`${shape.id}-${keys.dash}`}>{t('prop.dash')}:</Label>
+                                <DashSelect
+                                    id={`${shape.id}-${keys.dash}`}
+                                    value={styled[keys.dash]}
+                                    onChange={v => setValue(keys.dash, v)}
+                                    isCustom={!!styled[keys.dash] && !DASH_STYLES.some(style => JSON.stringify(style.pattern) === JSON.stringify(styled[keys.dash]))}
+                                />
+                            </InputWrapper>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
 
 const PointsEditor: React.FC<{
     points: { x: number; y: number }[];
@@ -454,49 +673,12 @@ const TkinterBboxEditor: React.FC<{
         y2 = shape.cy + shape.ry;
     }
 
-    const handleTkinterCoordChange = (coord: 'x1' | 'y1' | 'x2' | 'y2', value: number, isFinal?: boolean) => {
-        if (shape.type === 'rectangle' || shape.type === 'arc') {
-            let { x, y, width, height } = shape;
-            switch(coord) {
-                case 'x1':
-                    width = (x + width) - value;
-                    x = value;
-                    break;
-                case 'y1':
-                    height = (y + height) - value;
-                    y = value;
-                    break;
-                case 'x2':
-                    width = value - x;
-                    break;
-                case 'y2':
-                    height = value - y;
-                    break;
-            }
-            if (width >= 0 && height >= 0) {
-                 updateShape({ ...shape, x, y, width, height }, isFinal === false);
-            }
-        } else if (shape.type === 'ellipse') {
-            let currentX1 = shape.cx - shape.rx;
-            let currentY1 = shape.cy - shape.ry;
-            let currentX2 = shape.cx + shape.rx;
-            let currentY2 = shape.cy + shape.ry;
-
-            switch(coord) {
-                case 'x1': currentX1 = value; break;
-                case 'y1': currentY1 = value; break;
-                case 'x2': currentX2 = value; break;
-                case 'y2': currentY2 = value; break;
-            }
+    const variableScope = useContext(VariableScopeContext);
 
-            const newCx = (currentX1 + currentX2) / 2;
-            const newCy = (currentY1 + currentY2) / 2;
-            const newRx = (currentX2 - currentX1) / 2;
-            const newRy = (currentY2 - currentY1) / 2;
-            
-            if (newRx >= 0 && newRy >= 0) {
-                updateShape({ ...shape, cx: newCx, cy: newCy, rx: newRx, ry: newRy }, isFinal === false);
-            }
+    const handleTkinterCoordChange = (coord: 'x1' | 'y1' | 'x2' | 'y2', value: number, isFinal?: boolean, expression?: string | null) => {
+        const updated = setShapeValue(shape, coord, value);
+        if (updated) {
+            updateShape(withExpression(updated, coord, expression), isFinal === false);
         }
     };
 
@@ -504,19 +686,19 @@ const TkinterBboxEditor: React.FC<{
         <div className="space-y-2">
              <InputWrapper>
                 <Label htmlFor={`${shape.id}-tk-x1`} title={t('prop.title.tkX1')}>x1:</Label>
-                <NumberInput id={`${shape.id}-tk-x1`} value={roundFn(x1)} onChange={(v, isFinal) => handleTkinterCoordChange('x1', v, isFinal)} smartRound={false} />
+                <NumberInput id={`${shape.id}-tk-x1`} value={roundFn(x1)} expression={getBoundExpression(shape, 'x1', variableScope)} onChange={(v, isFinal, expression) => handleTkinterCoordChange('x1', v, isFinal, expression)} smartRound={false} />
             </InputWrapper>
              <InputWrapper>
                 <Label htmlFor={`${shape.id}-tk-y1`} title={t('prop.title.tkY1')}>y1:</Label>
-                <NumberInput id={`${shape.id}-tk-y1`} value={roundFn(y1)} onChange={(v, isFinal) => handleTkinterCoordChange('y1', v, isFinal)} smartRound={false} />
+                <NumberInput id={`${shape.id}-tk-y1`} value={roundFn(y1)} expression={getBoundExpression(shape, 'y1', variableScope)} onChange={(v, isFinal, expression) => handleTkinterCoordChange('y1', v, isFinal, expression)} smartRound={false} />
             </InputWrapper>
              <InputWrapper>
                 <Label htmlFor={`${shape.id}-tk-x2`} title={t('prop.title.tkX2')}>x2:</Label>
-                <NumberInput id={`${shape.id}-tk-x2`} value={roundFn(x2)} onChange={(v, isFinal) => handleTkinterCoordChange('x2', v, isFinal)} smartRound={false} />
+                <NumberInput id={`${shape.id}-tk-x2`} value={roundFn(x2)} expression={getBoundExpression(shape, 'x2', variableScope)} onChange={(v, isFinal, expression) => handleTkinterCoordChange('x2', v, isFinal, expression)} smartRound={false} />
             </InputWrapper>
              <InputWrapper>
                 <Label htmlFor={`${shape.id}-tk-y2`} title={t('prop.title.tkY2')}>y2:</Label>
-                <NumberInput id={`${shape.id}-tk-y2`} value={roundFn(y2)} onChange={(v, isFinal) => handleTkinterCoordChange('y2', v, isFinal)} smartRound={false} />
+                <NumberInput id={`${shape.id}-tk-y2`} value={roundFn(y2)} expression={getBoundExpression(shape, 'y2', variableScope)} onChange={(v, isFinal, expression) => handleTkinterCoordChange('y2', v, isFinal, expression)} smartRound={false} />
             </InputWrapper>
         </div>
     );
@@ -534,6 +716,8 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
   const [isLoadingFonts, setIsLoadingFonts] = useState(false);
   const [editingName, setEditingName] = useState<string | null>(null);
   const { t } = useLanguage();
+  const variableScope = useContext(VariableScopeContext);
+  const { bitmaps: customBitmaps } = useContext(CustomBitmapsContext);
   
   const tkFonts = ["TkDefaultFont", "TkTextFont", "TkFixedFont", "TkMenuFont", "TkHeadingFont", "TkCaptionFont", "TkSmallCaptionFont", "TkIconFont", "TkTooltipFont"];
   const standardWebFonts = {
@@ -577,6 +761,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
             case 'text':
             case 'image':
             case 'bitmap':
+            case 'widget':
                 (newShape as any).x += deltaX;
                 (newShape as any).y += deltaY;
                 break;
@@ -627,7 +812,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
 
         if (oldValue === 0 && value > 0) {
             switch (newShape.type) {
-                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'image': case 'bitmap': {
+                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'image': case 'bitmap': case 'widget': {
                     const currentWidth = (newShape as any).width;
                     const currentHeight = (newShape as any).height;
                     const newWidth = (axis === 'width') ? value : (isAspectRatioLocked ? value : currentWidth);
@@ -666,7 +851,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
             }
 
             switch (newShape.type) {
-                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'image': case 'bitmap': {
+                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'image': case 'bitmap': case 'widget': {
                     const newWidth = newShape.width * scaleX;
                     const newHeight = newShape.height * scaleY;
                     newShape.x = center.x - newWidth / 2;
@@ -789,7 +974,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
   };
 
     const handleFontChange = async (value: string) => {
-        if (!selectedShape || selectedShape.type !== 'text') return;
+        if (!selectedShape || (selectedShape.type !== 'text' && selectedShape.type !== 'widget')) return;
         
         if (value === 'load-system-fonts') {
             await handleLoadSystemFonts();
@@ -820,6 +1005,27 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
       </>
     );
     
+    const fontOptions = (
+      <>
+        {Object.entries(standardWebFonts).map(([group, fonts]) => (
+            <optgroup label={group} key={group}>
+                {fonts.map(f => <option key={f} value={f}>{f}</option>)}
+            </optgroup>
+        ))}
+        {systemFonts && systemFonts.length > 0 && (
+             <optgroup label={t('props.fonts.system')}>
+                {systemFonts.map(f => <option key={f} value={f}>{f}</option>)}
+            </optgroup>
+        )}
+        <optgroup label={t('props.fonts.tk')}>
+            {tkFonts.map(f => <option key={f} value={f}>{f}</option>)}
+        </optgroup>
+         <optgroup label={t('props.actions')}>
+            <option value="load-system-fonts" disabled={isLoadingFonts}>{isLoadingFonts ? t('props.fonts.loading') : t('props.fonts.load')}</option>
+        </optgroup>
+      </>
+    );
+    
     const joinStyleControls = (shape: JoinableShape) => {
       // Don't show joinstyle for closed polylines that are axis-aligned rectangles.
       if (shape.type === 'polyline' && shape.isClosed && isCollapsible(shape)) return null;
@@ -1198,22 +1404,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                 <InputWrapper>
                     <Label htmlFor={`${text.id}-font`} title={t('prop.title.font')}>{t('prop.font')}:</Label>
                     <Select id={`${text.id}-font`} value={text.font} onChange={handleFontChange}>
-                        {Object.entries(standardWebFonts).map(([group, fonts]) => (
-                            <optgroup label={group} key={group}>
-                                {fonts.map(f => <option key={f} value={f}>{f}</option>)}
-                            </optgroup>
-                        ))}
-                        {systemFonts && systemFonts.length > 0 && (
-                             <optgroup label={t('props.fonts.system')}>
-                                {systemFonts.map(f => <option key={f} value={f}>{f}</option>)}
-                            </optgroup>
-                        )}
-                        <optgroup label={t('props.fonts.tk')}>
-                            {tkFonts.map(f => <option key={f} value={f}>{f}</option>)}
-                        </optgroup>
-                         <optgroup label={t('props.actions')}>
-                            <option value="load-system-fonts" disabled={isLoadingFonts}>{isLoadingFonts ? t('props.fonts.loading') : t('props.fonts.load')}</option>
-                        </optgroup>
+                        {fontOptions}
                     </Select>
                 </InputWrapper>
                 <InputWrapper><Label htmlFor={`${text.id}-fontSize`} title={t('prop.title.fontSize')}>{t('prop.size')}:</Label><NumberInput id={`${text.id}-fontSize`} value={roundToHundredths(text.fontSize)} onChange={(v, isFinal) => updateShape({ ...text, fontSize: v }, isFinal === false)} min={1} max={144} unit="pt" presets={[8, 10, 12, 14, 16, 18, 24, 32, 48, 72]} smartRound={false} /></InputWrapper>
@@ -1260,11 +1451,11 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                 </InputWrapper>
                 <InputWrapper>
                     <Label htmlFor={`${text.id}-anchor-x`} title={t('prop.title.anchorX')}>{t('props.anchorX')}</Label>
-                    <NumberInput id={`${text.id}-anchor-x`} value={roundToHundredths(text.x)} onChange={(v, isFinal) => updateShape({ ...text, x: v }, isFinal === false)} unit="px" smartRound={false} />
+                    <NumberInput id={`${text.id}-anchor-x`} value={roundToHundredths(text.x)} expression={getBoundExpression(text, 'x1', variableScope)} onChange={(v, isFinal, expression) => updateShape(withExpression({ ...text, x: v }, 'x1', expression), isFinal === false)} unit="px" smartRound={false} />
                 </InputWrapper>
                 <InputWrapper>
                     <Label htmlFor={`${text.id}-anchor-y`} title={t('prop.title.anchorY')}>{t('props.anchorY')}</Label>
-                    <NumberInput id={`${text.id}-anchor-y`} value={roundToHundredths(text.y)} onChange={(v, isFinal) => updateShape({ ...text, y: v }, isFinal === false)} unit="px" smartRound={false} />
+                    <NumberInput id={`${text.id}-anchor-y`} value={roundToHundredths(text.y)} expression={getBoundExpression(text, 'y1', variableScope)} onChange={(v, isFinal, expression) => updateShape(withExpression({ ...text, y: v }, 'y1', expression), isFinal === false)} unit="px" smartRound={false} />
                 </InputWrapper>
                 <InputWrapper><Label htmlFor={`${text.id}-justify`} title={t('prop.title.justify')}>{t('props.justify')}</Label>
                     <Select id={`${text.id}-justify`} value={text.justify} onChange={v => updateShape({ ...text, justify: v as any })}>
@@ -1284,10 +1475,16 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
             return <>
                 {commonProperties}
                 <InputWrapper><Label htmlFor={`${bitmap.id}-type`} title={t('prop.title.bitmapType')}>{t('props.bitmapType')}</Label>
-                    <Select id={`${bitmap.id}-type`} value={bitmap.bitmapType} onChange={v => updateShape({ ...bitmap, bitmapType: v as any })}>
+                    <Select id={`${bitmap.id}-type`} value={bitmap.bitmapType} onChange={v => {
+                        // Tk draws a bitmap of its own once, at its size, so the box takes that size.
+                        const custom = customBitmaps.find(b => toCustomBitmapRef(b) === v);
+                        updateShape({ ...bitmap, bitmapType: v as BitmapShape['bitmapType'], ...(custom ? { width: custom.width, height: custom.height } : {}) });
+                    }}>
                         {bitmapTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                        <CustomBitmapOptions />
                     </Select>
                 </InputWrapper>
+                <EditBitmapsButton value={bitmap.bitmapType} />
                 <div>
                     <Label htmlFor={`${bitmap.id}-fg`} title={t('prop.title.fgColor')}>{t('props.fgColor')}</Label>
                     <div className="mt-1">
@@ -1316,6 +1513,97 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                 </div>
             </>;
         }
+        case 'widget': {
+            const widget = selectedShape as WidgetShape;
+            const changeWidgetType = (widgetType: WidgetType) => {
+                const oldDefaults = WIDGET_DEFAULTS[widget.widgetType];
+                const newDefaults = WIDGET_DEFAULTS[widgetType];
+                const keepsDefaultSize = widget.width === oldDefaults.width && widget.height === oldDefaults.height;
+                updateShape({
+                    ...widget,
+                    widgetType,
+                    width: keepsDefaultSize ? newDefaults.width : widget.width,
+                    height: keepsDefaultSize ? newDefaults.height : widget.height,
+                    background: widget.background === oldDefaults.background ? newDefaults.background : widget.background,
+                    text: widget.text === t(`widget.${widget.widgetType}`) ? t(`widget.${widgetType}`) : widget.text,
+                    command: hasWidgetCommand(widgetType) ? widget.command : undefined,
+                });
+            };
+            return <>
+                {commonProperties}
+                <InputWrapper><Label htmlFor={`${widget.id}-type`} title={t('prop.title.widgetType')}>{t('props.widgetType')}</Label>
+                    <Select id={`${widget.id}-type`} value={widget.widgetType} onChange={v => changeWidgetType(v as WidgetType)}>
+                        {WIDGET_TYPES.map(type => <option key={type} value={type}>{t(`widget.${type}`)}</option>)}
+                    </Select>
+                </InputWrapper>
+                <InputWrapper>
+                    <Label htmlFor={`${widget.id}-themed`} />
+                    <Checkbox id={`${widget.id}-themed`} checked={!!widget.themed} onChange={c => updateShape({ ...widget, themed: c || undefined })} label={t('props.widgetThemed')} title={t('prop.title.widgetThemed')} />
+                </InputWrapper>
+                <InputWrapper>
+                    <Label htmlFor={`${widget.id}-text`} title={t(widget.widgetType === 'entry' ? 'prop.title.widgetInitialText' : 'prop.title.widgetText')}>{t('tool.text')}:</Label>
+                    <TextArea id={`${widget.id}-text`} value={widget.text} onChange={v => updateShape({ ...widget, text: v })} />
+                </InputWrapper>
+                {hasWidgetCommand(widget.widgetType) && (
+                    <InputWrapper>
+                        <Label htmlFor={`${widget.id}-command`} title={t('prop.title.widgetCommand')}>{t('props.widgetCommand')}</Label>
+                        <input
+                            id={`${widget.id}-command`}
+                            type="text"
+                            value={widget.command ?? ''}
+                            placeholder="on_click"
+                            onChange={e => updateShape({ ...widget, command: e.target.value || undefined })}
+                            className="bg-[var(--bg-secondary)] text-[var(--text-primary)] rounded px-2 py-1 w-full border border-[var(--border-secondary)] focus:ring-2 focus:ring-[var(--accent-primary)] focus:outline-none"
+                        />
+                    </InputWrapper>
+                )}
+                {widget.widgetType === 'scale' && <>
+                    <InputWrapper><Label htmlFor={`${widget.id}-from`} title={t('prop.title.scaleFrom')}>{t('props.scaleFrom')}</Label><NumberInput id={`${widget.id}-from`} value={widget.from ?? 0} onChange={(v, isFinal) => updateShape({ ...widget, from: v }, isFinal === false)} smartRound={false} /></InputWrapper>
+                    <InputWrapper><Label htmlFor={`${widget.id}-to`} title={t('prop.title.scaleTo')}>{t('props.scaleTo')}</Label><NumberInput id={`${widget.id}-to`} value={widget.to ?? 100} onChange={(v, isFinal) => updateShape({ ...widget, to: v }, isFinal === false)} smartRound={false} /></InputWrapper>
+                </>}
+                <hr className="border-[var(--border-secondary)] my-2" />
+                <InputWrapper>
+                    <Label htmlFor={`${widget.id}-font`} title={t('prop.title.font')}>{t('prop.font')}:</Label>
+                    <Select id={`${widget.id}-font`} value={widget.font} onChange={handleFontChange}>
+                        {fontOptions}
+                    </Select>
+                </InputWrapper>
+                <InputWrapper><Label htmlFor={`${widget.id}-fontSize`} title={t('prop.title.fontSize')}>{t('prop.size')}:</Label><NumberInput id={`${widget.id}-fontSize`} value={roundToHundredths(widget.fontSize)} onChange={(v, isFinal) => updateShape({ ...widget, fontSize: v }, isFinal === false)} min={1} max={144} unit="pt" presets={[8, 9, 10, 11, 12, 14, 16, 18, 24]} smartRound={false} /></InputWrapper>
+                <InputWrapper>
+                    <Label htmlFor={`${widget.id}-style`} title={t('prop.title.textStyle')}>{t('props.style')}</Label>
+                    <div className="flex-1 flex flex-col gap-2">
+                        <Checkbox id={`${widget.id}-bold`} checked={widget.weight === 'bold'} onChange={c => updateShape({ ...widget, weight: c ? 'bold' : 'normal' })} label={t('style.bold')} />
+                        <Checkbox id={`${widget.id}-italic`} checked={widget.slant === 'italic'} onChange={c => updateShape({ ...widget, slant: c ? 'italic' : 'roman' })} label={t('style.italic')} />
+                    </div>
+                </InputWrapper>
+                <div>
+                    <Label htmlFor={`${widget.id}-fg`} title={t('prop.title.fgColor')}>{t('props.fgColor')}</Label>
+                    <div className="mt-1">
+                        <ColorInput 
+                            id={`${widget.id}-fg`} 
+                            value={widget.foreground} 
+                            onChange={v => updateShape({ ...widget, foreground: v })} 
+                            onPreview={v => setShapePreview(widget.id, { foreground: v ?? undefined })}
+                            onCancel={cancelShapePreview}
+                            showNotification={showNotification}
+                        />
+                    </div>
+                </div>
+                <div>
+                    <Label htmlFor={`${widget.id}-bg`} title={t('prop.title.bgColor')}>{t('props.bgColor')}</Label>
+                    <div className="mt-1">
+                        <ColorInput 
+                            id={`${widget.id}-bg`} 
+                            value={widget.background} 
+                            onChange={v => updateShape({ ...widget, background: v })}
+                            onPreview={v => setShapePreview(widget.id, { background: v ?? undefined })}
+                            onCancel={cancelShapePreview}
+                            showNotification={showNotification}
+                        />
+                    </div>
+                </div>
+            </>;
+        }
         default:
             return <>
                 {commonProperties}
@@ -1611,7 +1899,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
     const commonDashArray = isDashMixed ? undefined : (validShapes[0] as any).dash;
     const isCustomDashMulti = isDashMixed ? false : (commonDashArray && commonDashArray.length > 0 ? !DASH_STYLES.some(style => JSON.stringify(style.pattern) === JSON.stringify(commonDashArray)) : false);
     
-    const hasRotationShapes = validShapes.filter(s => 'rotation' in s);
+    const hasRotationShapes = validShapes.filter(s => 'rotation' in s && s.type !== 'widget');
     const showRotation = hasRotationShapes.length > 0 && hasRotationShapes.length === validShapes.length;
     const commonRotation = showRotation && hasRotationShapes.every(s => (s as any).rotation === (hasRotationShapes[0] as any).rotation) ? (hasRotationShapes[0] as any).rotation : '';
 
@@ -1649,7 +1937,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
         
         if (dx !== 0 || dy !== 0) {
             switch (newShape.type) {
-                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap':
+                case 'rectangle': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'arc': case 'text': case 'image': case 'bitmap': case 'widget':
                     (newShape as any).x += dx; (newShape as any).y += dy; break;
                 case 'ellipse': case 'polygon': case 'star':
                     (newShape as any).cx += dx; (newShape as any).cy += dy; break;
@@ -1668,7 +1956,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
         
         if (scaleX !== 1 || scaleY !== 1) {
             switch (newShape.type) {
-                case 'rectangle': case 'image': case 'bitmap': case 'arc': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'text':
+                case 'rectangle': case 'image': case 'bitmap': case 'widget': case 'arc': case 'triangle': case 'right-triangle': case 'rhombus': case 'trapezoid': case 'parallelogram': case 'text':
                     (newShape as any).x = refBbox.x + ((newShape as any).x - refBbox.x) * scaleX;
                     (newShape as any).y = refBbox.y + ((newShape as any).y - refBbox.y) * scaleY;
                     (newShape as any).width *= scaleX; 
@@ -1767,7 +2055,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                  {handleFlip && (
                      <>
                          <button onClick={() => handleFlip('horizontal')} title={t('menu.edit.flipH') || 'Віддзеркалити по горизонталі (Ctrl+H)'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><FlipHorizontalIcon size={18}/></button>
-                         <button onClick={() => handleFlip('vertical')} title={t('menu.edit.flipV') || 'Віддзеркалити по вертикалі (Ctrl+V)'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><FlipVerticalIcon size={18}/></button>
+                         <button onClick={() => handleFlip('vertical')} title={t('menu.edit.flipV') || 'Віддзеркалити по вертикалі (Ctrl+Shift+H)'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><FlipVerticalIcon size={18}/></button>
                      </>
                  )}
                  {selectedShapes.some(s => s.groupId) && onExtractFromGroup && (<button onClick={onExtractFromGroup} title={t('menu.edit.extractFromGroup') || 'Вилучити із групи'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><UngroupIcon size={18}/></button>)}
@@ -1877,13 +2165,9 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                         </div>
                         <InputWrapper>
                             <Label htmlFor="multi-stipple" title={t('prop.title.stipple')}>{t('props.stipple')}</Label>
-                            <Select id="multi-stipple" value={commonStipple} onChange={(val) => handleMultiUpdate({ stipple: val } as any)}>
+                            <Select id="multi-stipple" value={commonStipple} onChange={(val) => handleMultiUpdate({ stipple: val === 'none' ? undefined : val } as any)}>
                                 <option value="" disabled hidden>{t('props.mixed') || 'Різні'}</option>
-                                <option value="none">{t('props.none') || 'Немає'}</option>
-                                <option value="gray12">Gray 12%</option>
-                                <option value="gray25">Gray 25%</option>
-                                <option value="gray50">Gray 50%</option>
-                                <option value="gray75">Gray 75%</option>
+                                <StippleOptions />
                             </Select>
                         </InputWrapper>
                     </div>
@@ -2093,7 +2377,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                 {handleFlip && (
                     <>
                         <button onClick={() => handleFlip('horizontal')} title={t('menu.edit.flipH') || 'Віддзеркалити по горизонталі (Ctrl+H)'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><FlipHorizontalIcon size={18}/></button>
-                        <button onClick={() => handleFlip('vertical')} title={t('menu.edit.flipV') || 'Віддзеркалити по вертикалі (Ctrl+V)'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><FlipVerticalIcon size={18}/></button>
+                        <button onClick={() => handleFlip('vertical')} title={t('menu.edit.flipV') || 'Віддзеркалити по вертикалі (Ctrl+Shift+H)'} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><FlipVerticalIcon size={18}/></button>
                     </>
                 )}
                 {canConvertToPath && <button onClick={() => convertToPath(selectedShape.id)} title={t('menu.object.toPath')} className="p-1.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]"><ConvertToPathIcon size={18}/></button>}
@@ -2203,7 +2487,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                                 </button>
                             </InputWrapper>
                         )}
-                        {'rotation' in selectedShape && (
+                        {'rotation' in selectedShape && selectedShape.type !== 'widget' && (
                              <InputWrapper>
                                 <Label htmlFor={`${selectedShape.id}-rotation`} title={t('props.rotationDesc')}>{t('props.rotation')}</Label>
                                 <NumberInput id={`${selectedShape.id}-rotation`} value={roundToHundredths(selectedShape.rotation)} onChange={(v, isFinal) => updateShape({ ...selectedShape, rotation: v }, isFinal === false)} unit="°" min={-360} max={360} presets={[0, 45, 90, 135, 180, 225, 270, 315, 360]} smartRound={false} />
@@ -2239,6 +2523,18 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ selectedShapes, allShap
                     roundFn={roundToHundredths}
                 />
             )}
+
+            {!['image', 'bitmap', 'widget', 'group'].includes(selectedShape.type) && (
+                <>
+                    <hr className="border-[var(--border-secondary)] my-2" />
+                    <h3 className="font-semibold text-sm text-[var(--text-tertiary)] pt-1" title={t('props.stateStylesDesc')}>{t('props.stateStyles')}</h3>
+                    <StateStyleControls shape={selectedShape} updateShape={updateShape} roundFn={roundToHundredths} showNotification={showNotification} />
+                </>
+            )}
+
+            <hr className="border-[var(--border-secondary)] my-2" />
+            <h3 className="font-semibold text-sm text-[var(--text-tertiary)] pt-1" title={t('events.titleDesc')}>{t('events.title')}</h3>
+            <EventBindingsEditor shape={selectedShape} allShapes={allShapes} updateShape={updateShape} showNotification={showNotification} />
         </div>
     </div>
   );
@@ -3,18 +3,21 @@ import { useLanguage } from './LanguageContext';
 import { useState } from 'react';
 import { XIcon } from './icons';
 import { InputWrapper, Label, Checkbox } from './FormControls';
+import { type CodeFileExtension } from '../types';
 
 interface SaveCodeModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (newName: string, extension: '.py' | '.txt', includeLineNumbers: boolean) => void;
+  onSave: (newName: string, extension: CodeFileExtension, includeLineNumbers: boolean) => void;
   currentProjectName: string;
+  /** The extension matching the generated language; plain .txt is always offered too. */
+  codeExtension: Exclude<CodeFileExtension, '.txt'>;
 }
 
-const SaveCodeModal: React.FC<SaveCodeModalProps> = ({ isOpen, onClose, onSave, currentProjectName }) => {
+const SaveCodeModal: React.FC<SaveCodeModalProps> = ({ isOpen, onClose, onSave, currentProjectName, codeExtension }) => {
     const { t } = useLanguage();
     const [name, setName] = useState(currentProjectName);
-    const [extension, setExtension] = useState<'.py' | '.txt'>('.py');
+    const [extension, setExtension] = useState<CodeFileExtension>(codeExtension);
     const [includeLineNumbers, setIncludeLineNumbers] = useState(false);
 
     const handleSave = () => {
@@ -59,11 +62,11 @@ const SaveCodeModal: React.FC<SaveCodeModalProps> = ({ isOpen, onClose, onSave,
                             />
                             <select
                                 value={extension}
-                                onChange={e => setExtension(e.target.value as '.py' | '.txt')}
+                                onChange={e => setExtension(e.target.value as CodeFileExtension)}
                                 className="bg-[var(--bg-tertiary)] text-[var(--text-secondary)] h-[38px] px-3 py-1 rounded-r border border-[var(--border-secondary)] focus:ring-2 focus:ring-[var(--accent-primary)] focus:outline-none appearance-none cursor-pointer"
                                 title={t('code.selectExt')}
                             >
-                                <option value=".py">.py</option>
+                                <option value={codeExtension}>{codeExtension}</option>
                                 <option value=".txt">.txt</option>
                             </select>
                         </div>
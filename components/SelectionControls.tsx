@@ -680,7 +680,7 @@ export const SelectionControls: React.FC<SelectionControlsProps> = ({ shape, all
                     )
                 })}
             
-                {('rotation' in shape) && shape.rotation !== undefined && !isNaN(rotationHandlePos.x) && !isNaN(rotationHandlePos.y) && (
+                {('rotation' in shape) && shape.type !== 'widget' && shape.rotation !== undefined && !isNaN(rotationHandlePos.x) && !isNaN(rotationHandlePos.y) && (
                     <g onMouseDown={handleRotateDown} onTouchStart={handleRotateDown} data-handle="true" style={{ cursor: ROTATE_CURSOR_STYLE }}>
                         <line x1={center.x} y1={center.y} x2={rotationHandlePos.x} y2={rotationHandlePos.y} stroke="var(--selection-stroke)" strokeWidth={scaledStrokeWidth} />
                         <circle cx={rotationHandlePos.x} cy={rotationHandlePos.y} r={scaledHandleSize / 2} fill="var(--bg-primary)" stroke="var(--selection-stroke)" strokeWidth={scaledStrokeWidth}  transform={`rotate(${rotation} ${rotationHandlePos.x} ${rotationHandlePos.y})`} />
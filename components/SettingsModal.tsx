@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { XIcon } from './icons';
+import { XIcon, TrashIcon } from './icons';
 import { InputWrapper, Label, NumberInput, ColorInput } from './FormControls';
-import { type ProjectTemplate } from '../types';
+import { type ProjectTemplate, type CodeStyleProfile, type ResizeMode, type ColorNameMode, type GeneratorType, type ProjectVariable, type ScrollViewport, type PageLayout } from '../types';
+import { getVariableNameError, getVariableScope } from '../lib/expressions';
 import { useLanguage } from './LanguageContext';
 
 interface SettingsModalProps {
@@ -14,6 +15,8 @@ interface SettingsModalProps {
   setCanvasWidth: (w: number) => void;
   canvasHeight: number;
   setCanvasHeight: (h: number) => void;
+  scrollViewport: ScrollViewport | null;
+  setScrollViewport: (viewport: ScrollViewport | null) => void;
   canvasBgColor: string;
   setCanvasBgColor: (c: string) => void;
   setPreviewCanvasBgColor: (c: string | null) => void;
@@ -39,8 +42,8 @@ interface SettingsModalProps {
   setOpenAsWebApp: (open: boolean) => void;
   showLineNumbers: boolean;
   setShowLineNumbers: (show: boolean) => void;
-  generatorType: 'local' | 'gemini';
-  setGeneratorType: (type: 'local' | 'gemini') => void;
+  generatorType: GeneratorType;
+  setGeneratorType: (type: GeneratorType) => void;
   highlightCodeOnSelection: boolean;
   setHighlightCodeOnSelection: (show: boolean) => void;
   autoGenerateComments: boolean;
@@ -53,6 +56,29 @@ interface SettingsModalProps {
   setShowSystemTags: (show: boolean) => void;
   outlineWithFill: boolean;
   setOutlineWithFill: (show: boolean) => void;
+  codeStyle: CodeStyleProfile;
+  setCodeStyle: (style: CodeStyleProfile) => void;
+  shapeVariables: boolean;
+  setShapeVariables: (enabled: boolean) => void;
+  compressLoops: boolean;
+  setCompressLoops: (enabled: boolean) => void;
+  groupFunctions: boolean;
+  setGroupFunctions: (enabled: boolean) => void;
+  resizeMode: ResizeMode;
+  setResizeMode: (mode: ResizeMode) => void;
+  scaleFonts: boolean;
+  setScaleFonts: (enabled: boolean) => void;
+  canvasHtmlPage: boolean;
+  setCanvasHtmlPage: (enabled: boolean) => void;
+  nativeImages: boolean;
+  setNativeImages: (enabled: boolean) => void;
+  colorNames: ColorNameMode;
+  setColorNames: (mode: ColorNameMode) => void;
+  pageCount: number;
+  pageLayout: PageLayout;
+  setPageLayout: (layout: PageLayout) => void;
+  projectVariables: ProjectVariable[];
+  setProjectVariables: (variables: ProjectVariable[]) => void;
   maxRecentProjects: number;
   setMaxRecentProjects: (count: number) => void;
   initialTab?: 'canvas' | 'grid' | 'appearance' | 'code' | 'templates';
@@ -60,6 +86,69 @@ interface SettingsModalProps {
 
 type Tab = 'canvas' | 'grid' | 'appearance' | 'code' | 'templates';
 
+const CODE_STYLE_PROFILES: CodeStyleProfile[] = ['classic', 'module', 'function', 'class'];
+const RESIZE_MODES: ResizeMode[] = ['fixed', 'stretch', 'keepAspect'];
+const COLOR_NAME_MODES: ColorNameMode[] = ['hex', 'exact', 'nearest'];
+const PAGE_LAYOUTS: PageLayout[] = ['frames', 'grid'];
+
+const VariablesEditor: React.FC<{
+    variables: ProjectVariable[];
+    onChange: (variables: ProjectVariable[]) => void;
+    canvasWidth: number;
+    canvasHeight: number;
+}> = ({ variables, onChange, canvasWidth, canvasHeight }) => {
+    const { t } = useLanguage();
+    const scope = getVariableScope(variables, canvasWidth, canvasHeight);
+    const inputClass = "w-full bg-[var(--bg-app)] border border-[var(--border-secondary)] text-[var(--text-primary)] text-sm rounded-md px-2 py-1 font-mono focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+
+    const update = (index: number, changes: Partial<ProjectVariable>) => {
+        onChange(variables.map((variable, i) => i === index ? { ...variable, ...changes } : variable));
+    };
+    const addVariable = () => {
+        let n = variables.length + 1;
+        while (variables.some(v => v.name === `var${n}`)) n++;
+        onChange([...variables, { name: `var${n}`, value: '0' }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            {[['W', canvasWidth], ['H', canvasHeight]].map(([name, value]) => (
+                <div key={name} className="grid grid-cols-[7rem_1fr_2rem] gap-2 items-center opacity-70">
+                    <span className="font-mono text-sm px-2">{name}</span>
+                    <span className="font-mono text-sm px-2" title={t('variables.builtInDesc')}>{value}</span>
+                </div>
+            ))}
+            {variables.map((variable, index) => {
+                const error = getVariableNameError(variable.name, variables, t);
+                const value = scope[variable.name];
+                return (
+                    <div key={index}>
+                        <div className="grid grid-cols-[7rem_1fr_2rem] gap-2 items-center">
+                            <input type="text" value={variable.name} onChange={e => update(index, { name: e.target.value.trim() })} aria-label={t('variables.name')} className={inputClass} />
+                            <div className="flex items-center gap-2">
+                                <input type="text" value={variable.value} onChange={e => update(index, { value: e.target.value })} aria-label={t('variables.value')} className={inputClass} />
+                                {!error && typeof value === 'number' && variable.value.trim() !== String(value) && (
+                                    <span className="text-xs text-[var(--text-tertiary)] whitespace-nowrap">= {Math.round(value * 100) / 100}</span>
+                                )}
+                                {!error && typeof value === 'string' && (
+                                    <span className="w-4 h-4 rounded border border-[var(--border-primary)] flex-shrink-0" style={{ background: value }} title={t('variables.colorDesc')} />
+                                )}
+                            </div>
+                            <button onClick={() => onChange(variables.filter((_, i) => i !== index))} title={t('variables.delete')} className="p-1.5 rounded hover:bg-[var(--destructive-bg)] text-[var(--destructive-text)] hover:text-[var(--accent-text)]">
+                                <TrashIcon size={16} />
+                            </button>
+                        </div>
+                        {error && <p className="text-xs text-[var(--destructive-text)] mt-1">{error}</p>}
+                    </div>
+                );
+            })}
+            <button onClick={addVariable} className="px-3 py-1.5 rounded-md text-sm font-semibold bg-[var(--bg-tertiary)] text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors">
+                {t('variables.add')}
+            </button>
+        </div>
+    );
+};
+
 const TabButton: React.FC<{ tab: Tab; label: string; activeTab: Tab; onSelect: (tab: Tab) => void }> = ({ tab, label, activeTab, onSelect }) => (
     <button
         onClick={() => onSelect(tab)}
@@ -130,6 +219,7 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
     const { t, language, setLanguage } = useLanguage();
     const [isLanguageOpen, setIsLanguageOpen] = useState(false);
     const [activeTab, setActiveTab] = useState<Tab>(props.initialTab || 'canvas');
+    const viewport = props.scrollViewport;
     
     const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
     const [editingTemplateName, setEditingTemplateName] = useState('');
@@ -161,7 +251,7 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
         }
     }, [editingTemplateId]);
 
-    const handleGeneratorChange = (type: 'local' | 'gemini') => {
+    const handleGeneratorChange = (type: GeneratorType) => {
         props.setGeneratorType(type);
     };
 
@@ -206,6 +296,36 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
                                         <NumberInput id="canvasHeight" value={props.canvasHeight} onChange={props.setCanvasHeight} min={100} max={5000} unit="px" presets={[480, 600, 720, 1080]} />
                                     </InputWrapper>
                                 </div>
+                                <div className="flex items-start">
+                                    <input id="scrollViewport" type="checkbox" checked={!!viewport} onChange={e => props.setScrollViewport(e.target.checked ? { width: Math.min(640, props.canvasWidth), height: Math.min(480, props.canvasHeight), mouseWheel: true } : null)} className="w-4 h-4 rounded text-[var(--accent-primary)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                    <label htmlFor="scrollViewport" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                        {t('settings.canvas.scrollable')}
+                                        <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.canvas.scrollableDesc')}</p>
+                                    </label>
+                                </div>
+                                {viewport && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pl-7">
+                                        <InputWrapper>
+                                            <Label htmlFor="viewportWidth">{t('settings.canvas.viewportWidth')}</Label>
+                                            <NumberInput id="viewportWidth" value={viewport.width} onChange={width => props.setScrollViewport({ ...viewport, width })} min={100} max={props.canvasWidth} unit="px" />
+                                        </InputWrapper>
+                                        <InputWrapper>
+                                            <Label htmlFor="viewportHeight">{t('settings.canvas.viewportHeight')}</Label>
+                                            <NumberInput id="viewportHeight" value={viewport.height} onChange={height => props.setScrollViewport({ ...viewport, height })} min={100} max={props.canvasHeight} unit="px" />
+                                        </InputWrapper>
+                                        <div className="flex items-start md:col-span-2">
+                                            <input id="viewportMouseWheel" type="checkbox" checked={viewport.mouseWheel} onChange={e => props.setScrollViewport({ ...viewport, mouseWheel: e.target.checked })} className="w-4 h-4 rounded text-[var(--accent-primary)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                            <label htmlFor="viewportMouseWheel" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                                {t('settings.canvas.mouseWheel')}
+                                                <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.canvas.mouseWheelDesc')}</p>
+                                            </label>
+                                        </div>
+                                    </div>
+                                )}
+
+                                <h3 className="text-lg font-semibold text-[var(--text-secondary)] pt-2">{t('variables.title')}</h3>
+                                <p className="text-xs text-[var(--text-tertiary)] -mt-2">{t('variables.desc')}</p>
+                                <VariablesEditor variables={props.projectVariables} onChange={props.setProjectVariables} canvasWidth={props.canvasWidth} canvasHeight={props.canvasHeight} />
 
                                 <h3 className="text-lg font-semibold text-[var(--text-secondary)] pt-2">{t('settings.canvas.background')}</h3>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -374,6 +494,34 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
                                             <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.geminiDesc')}</p>
                                         </div>
                                     </label>
+                                    <label className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                        <input type="radio" name="generatorType" value="turtle" checked={props.generatorType === 'turtle'} onChange={() => handleGeneratorChange('turtle')} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                        <div className="ml-3">
+                                            <span className="font-semibold text-sm text-[var(--text-primary)]">{t('settings.code.turtle')}</span>
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.turtleDesc')}</p>
+                                        </div>
+                                    </label>
+                                    <label className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                        <input type="radio" name="generatorType" value="pygame" checked={props.generatorType === 'pygame'} onChange={() => handleGeneratorChange('pygame')} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                        <div className="ml-3">
+                                            <span className="font-semibold text-sm text-[var(--text-primary)]">{t('settings.code.pygame')}</span>
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.pygameDesc')}</p>
+                                        </div>
+                                    </label>
+                                    <label className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                        <input type="radio" name="generatorType" value="canvas" checked={props.generatorType === 'canvas'} onChange={() => handleGeneratorChange('canvas')} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                        <div className="ml-3">
+                                            <span className="font-semibold text-sm text-[var(--text-primary)]">{t('settings.code.canvas')}</span>
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.canvasDesc')}</p>
+                                        </div>
+                                    </label>
+                                    <label className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                        <input type="radio" name="generatorType" value="pillow" checked={props.generatorType === 'pillow'} onChange={() => handleGeneratorChange('pillow')} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                        <div className="ml-3">
+                                            <span className="font-semibold text-sm text-[var(--text-primary)]">{t('settings.code.pillow')}</span>
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.pillowDesc')}</p>
+                                        </div>
+                                    </label>
                                 </div>
 
                                 {props.generatorType === 'gemini' && (
@@ -382,6 +530,85 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
                                     </button>
                                 )}
 
+                                {props.generatorType === 'canvas' && (
+                                    <div className="flex items-start">
+                                        <input id="canvasHtmlPage" type="checkbox" checked={props.canvasHtmlPage} onChange={e => props.setCanvasHtmlPage(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                        <label htmlFor="canvasHtmlPage" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                            {t('settings.code.canvasHtmlPage')}
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.canvasHtmlPageDesc')}</p>
+                                        </label>
+                                    </div>
+                                )}
+
+                                <hr className="border-[var(--border-secondary)] my-4" />
+                                <h3 className="text-lg font-semibold text-[var(--text-secondary)]">{t('settings.code.style')}</h3>
+                                <p className="text-xs text-[var(--text-tertiary)] -mt-2">{t('settings.code.styleDesc')}</p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    {CODE_STYLE_PROFILES.map(profile => (
+                                        <label key={profile} className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                            <input type="radio" name="codeStyle" value={profile} checked={props.codeStyle === profile} onChange={() => props.setCodeStyle(profile)} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                            <div className="ml-3">
+                                                <span className="font-semibold text-sm text-[var(--text-primary)]">{t(`settings.code.style.${profile}`)}</span>
+                                                <p className="text-xs text-[var(--text-tertiary)] mt-1 font-mono">{t(`settings.code.style.${profile}Desc`)}</p>
+                                            </div>
+                                        </label>
+                                    ))}
+                                </div>
+
+                                <hr className="border-[var(--border-secondary)] my-4" />
+                                <h3 className="text-lg font-semibold text-[var(--text-secondary)]">{t('settings.code.resize')}</h3>
+                                <p className="text-xs text-[var(--text-tertiary)] -mt-2">{t('settings.code.resizeDesc')}</p>
+                                {viewport && <p className="text-xs text-[var(--text-tertiary)]">{t('settings.code.resizeScrollable')}</p>}
+                                {props.pageCount > 1 && <p className="text-xs text-[var(--text-tertiary)]">{t('settings.code.resizePages')}</p>}
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                                    {RESIZE_MODES.map(mode => (
+                                        <label key={mode} className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                            <input type="radio" name="resizeMode" value={mode} checked={props.resizeMode === mode} onChange={() => props.setResizeMode(mode)} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                            <div className="ml-3">
+                                                <span className="font-semibold text-sm text-[var(--text-primary)]">{t(`settings.code.resize.${mode}`)}</span>
+                                                <p className="text-xs text-[var(--text-tertiary)] mt-1">{t(`settings.code.resize.${mode}Desc`)}</p>
+                                            </div>
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="flex items-start pt-1">
+                                    <input id="scaleFonts" type="checkbox" checked={props.scaleFonts} disabled={props.resizeMode === 'fixed'} onChange={e => props.setScaleFonts(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5 disabled:opacity-50" />
+                                    <label htmlFor="scaleFonts" className={`ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer ${props.resizeMode === 'fixed' ? 'opacity-50' : ''}`}>
+                                        {t('settings.code.scaleFonts')}
+                                        <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.scaleFontsDesc')}</p>
+                                    </label>
+                                </div>
+
+                                <hr className="border-[var(--border-secondary)] my-4" />
+                                <h3 className="text-lg font-semibold text-[var(--text-secondary)]">{t('settings.code.pageLayout')}</h3>
+                                <p className="text-xs text-[var(--text-tertiary)] -mt-2">{t('settings.code.pageLayoutDesc')}</p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    {PAGE_LAYOUTS.map(layout => (
+                                        <label key={layout} className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                            <input type="radio" name="pageLayout" value={layout} checked={props.pageLayout === layout} onChange={() => props.setPageLayout(layout)} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                            <div className="ml-3">
+                                                <span className="font-semibold text-sm text-[var(--text-primary)]">{t(`settings.code.pageLayout.${layout}`)}</span>
+                                                <p className="text-xs text-[var(--text-tertiary)] mt-1">{t(`settings.code.pageLayout.${layout}Desc`)}</p>
+                                            </div>
+                                        </label>
+                                    ))}
+                                </div>
+
+                                <hr className="border-[var(--border-secondary)] my-4" />
+                                <h3 className="text-lg font-semibold text-[var(--text-secondary)]">{t('settings.code.colorNames')}</h3>
+                                <p className="text-xs text-[var(--text-tertiary)] -mt-2">{t('settings.code.colorNamesDesc')}</p>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                                    {COLOR_NAME_MODES.map(mode => (
+                                        <label key={mode} className="flex items-start p-3 rounded-lg border-2 border-transparent has-[:checked]:border-[var(--accent-primary)] has-[:checked]:bg-[var(--accent-primary)]/10 transition-colors cursor-pointer">
+                                            <input type="radio" name="colorNames" value={mode} checked={props.colorNames === mode} onChange={() => props.setColorNames(mode)} className="w-4 h-4 mt-1 text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)]" />
+                                            <div className="ml-3">
+                                                <span className="font-semibold text-sm text-[var(--text-primary)]">{t(`settings.code.colorNames.${mode}`)}</span>
+                                                <p className="text-xs text-[var(--text-tertiary)] mt-1">{t(`settings.code.colorNames.${mode}Desc`)}</p>
+                                            </div>
+                                        </label>
+                                    ))}
+                                </div>
+
                                 <hr className="border-[var(--border-secondary)] my-4" />
                                 <h3 className="text-lg font-semibold text-[var(--text-secondary)]">{t('settings.code.settings')}</h3>
                                 
@@ -421,6 +648,34 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
                                             <p className="text-xs text-[var(--text-tertiary)] mt-1">Додавати автоматичні ідентифікатори фігур і груп у теги.</p>
                                         </label>
                                     </div>
+                                    <div className="flex items-start pt-1">
+                                        <input id="shapeVariables" type="checkbox" checked={props.shapeVariables} onChange={e => props.setShapeVariables(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                        <label htmlFor="shapeVariables" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                            {t('settings.code.shapeVariables')}
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.shapeVariablesDesc')}</p>
+                                        </label>
+                                    </div>
+                                    <div className="flex items-start pt-1">
+                                        <input id="compressLoops" type="checkbox" checked={props.compressLoops} onChange={e => props.setCompressLoops(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                        <label htmlFor="compressLoops" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                            {t('settings.code.compressLoops')}
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.compressLoopsDesc')}</p>
+                                        </label>
+                                    </div>
+                                    <div className="flex items-start pt-1">
+                                        <input id="groupFunctions" type="checkbox" checked={props.groupFunctions} onChange={e => props.setGroupFunctions(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                        <label htmlFor="groupFunctions" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                            {t('settings.code.groupFunctions')}
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.groupFunctionsDesc')}</p>
+                                        </label>
+                                    </div>
+                                    <div className="flex items-start pt-1">
+                                        <input id="nativeImages" type="checkbox" checked={props.nativeImages} onChange={e => props.setNativeImages(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
+                                        <label htmlFor="nativeImages" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
+                                            {t('settings.code.nativeImages')}
+                                            <p className="text-xs text-[var(--text-tertiary)] mt-1">{t('settings.code.nativeImagesDesc')}</p>
+                                        </label>
+                                    </div>
                                     <div className="flex items-start pt-1">
                                         <input id="showLineNumbers" type="checkbox" checked={props.showLineNumbers} onChange={e => props.setShowLineNumbers(e.target.checked)} className="w-4 h-4 rounded text-[var(--accent-primary)] focus:ring-[var(--accent-primary-hover)] bg-[var(--bg-secondary)] border-[var(--border-primary)] mt-0.5" />
                                         <label htmlFor="showLineNumbers" className="ml-3 text-sm font-medium text-[var(--text-secondary)] cursor-pointer">
@@ -68,9 +68,12 @@ export const HelpContentDE: React.FC<HelpComponents> = ({ SectionTitle, SubTitle
                     <ListItem><Key>A</Key> — "Knoten bearbeiten"-Werkzeug aktivieren.</ListItem>
                     <ListItem><Key>Strg+G</Key> — Ausgewählte Objekte gruppieren.</ListItem>
                     <ListItem><Key>Strg+Umschalt+G</Key> — Gruppierung aufheben.</ListItem>
+                    <ListItem><Key>Strg+C</Key> — Auswahl kopieren (mit Gruppen), auch in ein anderes Projekt.</ListItem>
+                    <ListItem><Key>Strg+X</Key> — Auswahl ausschneiden.</ListItem>
+                    <ListItem><Key>Strg+V</Key> — Kopierte Objekte an der Mausposition einfügen.</ListItem>
                     <ListItem><Key>Strg+D</Key> — Ausgewähltes Objekt duplizieren.</ListItem>
                     <ListItem><Key>Strg+H</Key> — Horizontal spiegeln.</ListItem>
-                    <ListItem><Key>Strg+V</Key> — Vertikal spiegeln.</ListItem>
+                    <ListItem><Key>Strg+Umschalt+H</Key> — Vertikal spiegeln.</ListItem>
                     <ListItem><Key>Entf</Key> / <Key>Rücktaste</Key> — Ausgewähltes Objekt/Knoten löschen.</ListItem>
                 </ul>
                 
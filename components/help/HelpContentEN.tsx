@@ -301,9 +301,12 @@ export const HelpContentEN: React.FC<HelpComponents> = ({ SectionTitle, SubTitle
                     <ListItem><Key>A</Key> — Activate "Edit Nodes" tool.</ListItem>
                     <ListItem><Key>Ctrl+G</Key> — Group selected objects.</ListItem>
                     <ListItem><Key>Ctrl+Shift+G</Key> — Ungroup.</ListItem>
+                    <ListItem><Key>Ctrl+C</Key> — Copy the selection (with its groups), also into another project.</ListItem>
+                    <ListItem><Key>Ctrl+X</Key> — Cut the selection.</ListItem>
+                    <ListItem><Key>Ctrl+V</Key> — Paste copied objects at the mouse pointer.</ListItem>
                     <ListItem><Key>Ctrl+D</Key> — Duplicate selected object.</ListItem>
                     <ListItem><Key>Ctrl+H</Key> — Flip Horizontal.</ListItem>
-                    <ListItem><Key>Ctrl+V</Key> — Flip Vertical.</ListItem>
+                    <ListItem><Key>Ctrl+Shift+H</Key> — Flip Vertical.</ListItem>
                     <ListItem><Key>Delete</Key> / <Key>Backspace</Key> — Delete selected object or node.</ListItem>
                 </ul>
                 
@@ -249,9 +249,12 @@ export const HelpContentES: React.FC<HelpComponents> = ({ SectionTitle, SubTitle
                     <ListItem><Key>A</Key> — Activar herramienta "Editar Nodos".</ListItem>
                     <ListItem><Key>Ctrl+G</Key> — Agrupar objetos seleccionados.</ListItem>
                     <ListItem><Key>Ctrl+Shift+G</Key> — Desagrupar.</ListItem>
+                    <ListItem><Key>Ctrl+C</Key> — Copiar la selección (con sus grupos), también a otro proyecto.</ListItem>
+                    <ListItem><Key>Ctrl+X</Key> — Cortar la selección.</ListItem>
+                    <ListItem><Key>Ctrl+V</Key> — Pegar los objetos copiados en la posición del ratón.</ListItem>
                     <ListItem><Key>Ctrl+D</Key> — Duplicar objeto seleccionado.</ListItem>
                     <ListItem><Key>Ctrl+H</Key> — Voltear Horizontalmente.</ListItem>
-                    <ListItem><Key>Ctrl+V</Key> — Voltear Verticalmente.</ListItem>
+                    <ListItem><Key>Ctrl+Shift+H</Key> — Voltear Verticalmente.</ListItem>
                     <ListItem><Key>Delete</Key> / <Key>Backspace</Key> — Eliminar objeto o nodo seleccionado.</ListItem>
                 </ul>
                 
@@ -68,9 +68,12 @@ export const HelpContentFR: React.FC<HelpComponents> = ({ SectionTitle, SubTitle
                     <ListItem><Key>A</Key> — Activer l'outil "Modifier les Noeuds".</ListItem>
                     <ListItem><Key>Ctrl+G</Key> — Grouper les objets sélectionnés.</ListItem>
                     <ListItem><Key>Ctrl+Maj+G</Key> — Dégrouper.</ListItem>
+                    <ListItem><Key>Ctrl+C</Key> — Copier la sélection (avec ses groupes), y compris vers un autre projet.</ListItem>
+                    <ListItem><Key>Ctrl+X</Key> — Couper la sélection.</ListItem>
+                    <ListItem><Key>Ctrl+V</Key> — Coller les objets copiés à la position de la souris.</ListItem>
                     <ListItem><Key>Ctrl+D</Key> — Dupliquer l'objet sélectionné.</ListItem>
                     <ListItem><Key>Ctrl+H</Key> — Retourner Horizontalement.</ListItem>
-                    <ListItem><Key>Ctrl+V</Key> — Retourner Verticalement.</ListItem>
+                    <ListItem><Key>Ctrl+Maj+H</Key> — Retourner Verticalement.</ListItem>
                     <ListItem><Key>Suppr</Key> / <Key>Retour Arrière</Key> — Supprimer l'objet/noeud sélectionné.</ListItem>
                 </ul>
                 
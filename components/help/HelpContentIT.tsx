@@ -252,9 +252,12 @@ export const HelpContentIT: React.FC<HelpComponents> = ({ SectionTitle, SubTitle
                     <ListItem><Key>A</Key> — Attiva strumento "Modifica Nodi".</ListItem>
                     <ListItem><Key>Ctrl+G</Key> — Raggruppa oggetti selezionati.</ListItem>
                     <ListItem><Key>Ctrl+Shift+G</Key> — Separa.</ListItem>
+                    <ListItem><Key>Ctrl+C</Key> — Copia la selezione (con i suoi gruppi), anche in un altro progetto.</ListItem>
+                    <ListItem><Key>Ctrl+X</Key> — Taglia la selezione.</ListItem>
+                    <ListItem><Key>Ctrl+V</Key> — Incolla gli oggetti copiati nella posizione del mouse.</ListItem>
                     <ListItem><Key>Ctrl+D</Key> — Duplica oggetto selezionato.</ListItem>
                     <ListItem><Key>Ctrl+H</Key> — Capovolgi Orizzontalmente.</ListItem>
-                    <ListItem><Key>Ctrl+V</Key> — Capovolgi Verticalmente.</ListItem>
+                    <ListItem><Key>Ctrl+Shift+H</Key> — Capovolgi Verticalmente.</ListItem>
                     <ListItem><Key>Delete</Key> / <Key>Backspace</Key> — Elimina oggetto o nodo selezionato.</ListItem>
                 </ul>
                 
@@ -433,9 +433,12 @@ export const HelpContentUK: React.FC<HelpComponents> = ({ SectionTitle, SubTitle
                                 <ListItem><Key>A</Key> — Активувати інструмент "Редагувати вузли".</ListItem>
                                 <ListItem><Key>Ctrl+G</Key> — Згрупувати виділені об'єкти.</ListItem>
                                 <ListItem><Key>Ctrl+Shift+G</Key> — Розгрупувати.</ListItem>
+                                <ListItem><Key>Ctrl+C</Key> — Копіювати виділення (разом із групами), зокрема в інший проєкт.</ListItem>
+                                <ListItem><Key>Ctrl+X</Key> — Вирізати виділення.</ListItem>
+                                <ListItem><Key>Ctrl+V</Key> — Вставити скопійовані об'єкти в позицію курсора миші.</ListItem>
                                 <ListItem><Key>Ctrl+D</Key> — Дублювати виділений об'єкт.</ListItem>
                                 <ListItem><Key>Ctrl+H</Key> — Віддзеркалити по горизонталі.</ListItem>
-                                <ListItem><Key>Ctrl+V</Key> — Віддзеркалити по вертикалі.</ListItem>
+                                <ListItem><Key>Ctrl+Shift+H</Key> — Віддзеркалити по вертикалі.</ListItem>
                                 <ListItem><Key>Delete</Key> / <Key>Backspace</Key> — Видалити виділений об'єкт або вузол.</ListItem>
                             </ul>
                             
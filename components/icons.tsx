@@ -227,6 +227,13 @@ export const BitmapIcon: React.FC<IconProps> = ({ size = 20 }) => (
     </svg>
 );
 
+export const WidgetIcon: React.FC<IconProps> = ({ size = 20 }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="2" y="7" width="20" height="10" rx="2" ry="2"/>
+        <path d="M7 12h10"/>
+    </svg>
+);
+
 export const UndoIcon: React.FC<IconProps> = ({ size = 20 }) => (
     <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
         <path d="M14 17a5 5 0 1 0 0-10H5.5" />
@@ -0,0 +1,130 @@
+import { type Shape, type ShapeKeyframe, type AnimatableProperty, type AnimatableValue, type AnimationEasing, type AnimationSettings } from '../types';
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = ['x', 'y', 'cx', 'cy', 'rx', 'ry', 'width', 'height', 'rotation', 'fill', 'points'];
+export const ANIMATION_EASINGS: AnimationEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = { duration: 3000, fps: 30, loop: true };
+
+// Keyframes closer than this (ms) are treated as the same point of the timeline.
+const KEYFRAME_TIME_EPSILON = 1;
+
+/** Maps linear progress (0..1) of a segment onto eased progress. Mirrored by the generated Python `ease()`. */
+export const applyEasing = (easing: AnimationEasing, t: number): number => {
+    switch (easing) {
+        case 'easeIn': return t * t;
+        case 'easeOut': return 1 - (1 - t) * (1 - t);
+        case 'easeInOut': return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+        default: return t;
+    }
+};
+
+/** Expands `#rgb` to `#rrggbb`; returns null for anything that is not a hex colour (e.g. Tk colour names). */
+export const normalizeHexColor = (color: string): string | null => {
+    const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec((color || '').trim());
+    if (!match) return null;
+    const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+    return `#${hex.toLowerCase()}`;
+};
+
+/** Blends two hex colours; other colours switch at the end of the segment. Mirrored by the generated Python `lerp()`. */
+export const mixColors = (a: string, b: string, p: number): string => {
+    const ha = normalizeHexColor(a);
+    const hb = normalizeHexColor(b);
+    // Named colours and 'none' can't be blended; they switch when the segment ends.
+    if (!ha || !hb) return p >= 1 ? b : a;
+    const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+    return '#' + [0, 1, 2].map(i => Math.round(channel(ha, i) + (channel(hb, i) - channel(ha, i)) * p).toString(16).padStart(2, '0')).join('');
+};
+
+const interpolateValue = (a: AnimatableValue, b: AnimatableValue, p: number): AnimatableValue => {
+    if (typeof a === 'number' && typeof b === 'number') return a + (b - a) * p;
+    if (typeof a === 'string' && typeof b === 'string') return mixColors(a, b, p);
+    if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+        return a.map((pa, i) => ({ x: pa.x + (b[i].x - pa.x) * p, y: pa.y + (b[i].y - pa.y) * p }));
+    }
+    return p >= 1 ? b : a;
+};
+
+const sortedKeyframes = (shape: Shape): ShapeKeyframe[] => [...(shape.keyframes || [])].sort((a, b) => a.time - b.time);
+
+/** Value of a single property at the given time, or undefined when no keyframe defines it. */
+export const getAnimatedValue = (keyframes: ShapeKeyframe[], property: AnimatableProperty, time: number): AnimatableValue | undefined => {
+    const keys = keyframes.filter(k => k.values[property] !== undefined);
+    if (keys.length === 0) return undefined;
+    if (time <= keys[0].time) return keys[0].values[property];
+    for (let i = 1; i < keys.length; i++) {
+        const prev = keys[i - 1];
+        const next = keys[i];
+        if (time <= next.time) {
+            const span = next.time - prev.time;
+            const progress = span > 0 ? applyEasing(next.easing, (time - prev.time) / span) : 1;
+            return interpolateValue(prev.values[property]!, next.values[property]!, progress);
+        }
+    }
+    return keys[keys.length - 1].values[property];
+};
+
+/** Returns the shape as it looks at the given time. Shapes without keyframes are returned unchanged. */
+export const getAnimatedShape = (shape: Shape, time: number): Shape => {
+    if (!shape.keyframes || shape.keyframes.length === 0) return shape;
+    const keyframes = sortedKeyframes(shape);
+    const animated: any = { ...shape };
+    ANIMATABLE_PROPERTIES.forEach(property => {
+        if (!(property in shape)) return;
+        const value = getAnimatedValue(keyframes, property, time);
+        if (value !== undefined) animated[property] = value;
+    });
+    return animated as Shape;
+};
+
+export const getAnimatedShapes = (shapes: Shape[], time: number): Shape[] => {
+    if (!shapes.some(s => s.keyframes && s.keyframes.length > 0)) return shapes;
+    return shapes.map(s => getAnimatedShape(s, time));
+};
+
+/** The animatable properties the shape actually has, with their current values. */
+export const captureKeyframeValues = (shape: Shape): ShapeKeyframe['values'] => {
+    const values: ShapeKeyframe['values'] = {};
+    ANIMATABLE_PROPERTIES.forEach(property => {
+        const value = (shape as any)[property];
+        if (value === undefined) return;
+        values[property] = Array.isArray(value) ? value.map((p: { x: number; y: number }) => ({ x: p.x, y: p.y })) : value;
+    });
+    return values;
+};
+
+/** Adds a keyframe at the given time, or merges the values into the keyframe already there. */
+export const setKeyframe = (shape: Shape, time: number, values: ShapeKeyframe['values'], easing: AnimationEasing = 'linear'): Shape => {
+    const keyframes = shape.keyframes || [];
+    const existing = keyframes.find(k => Math.abs(k.time - time) < KEYFRAME_TIME_EPSILON);
+    const updated = existing
+        ? keyframes.map(k => k === existing ? { ...k, values: { ...k.values, ...values } } : k)
+        : [...keyframes, { id: `key-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, time: Math.round(time), easing, values }];
+    return { ...shape, keyframes: updated.sort((a, b) => a.time - b.time) };
+};
+
+const valuesEqual = (a: AnimatableValue | undefined, b: AnimatableValue | undefined): boolean =>
+    Array.isArray(a) || Array.isArray(b) ? JSON.stringify(a) === JSON.stringify(b) : a === b;
+
+/**
+ * Records an edit made while the timeline is at `time`: animatable properties changed by the
+ * edit are keyed there. A property counts as changed when it matches neither the shape's own
+ * value nor the value its keyframes produce at that time, so edits made on either version of
+ * the shape are recognised. Shapes without keyframes and edits of the keyframes themselves
+ * pass through unchanged.
+ */
+export const recordAnimatedEdit = (original: Shape, edited: Shape, time: number): Shape => {
+    if (!original.keyframes || original.keyframes.length === 0 || edited.keyframes !== original.keyframes) return edited;
+    const before = getAnimatedShape(original, time);
+    const changed: ShapeKeyframe['values'] = {};
+    ANIMATABLE_PROPERTIES.forEach(property => {
+        const value = (edited as any)[property];
+        if (value === undefined) return;
+        if (!valuesEqual(value, (before as any)[property]) && !valuesEqual(value, (original as any)[property])) changed[property] = value;
+    });
+    if (Object.keys(changed).length === 0) return edited;
+    return setKeyframe(edited, time, changed);
+};
+
+/** Time of the last keyframe across all shapes. */
+export const getLastKeyframeTime = (shapes: Shape[]): number =>
+    shapes.reduce((max, s) => Math.max(max, ...(s.keyframes || []).map(k => k.time)), 0);
@@ -0,0 +1,145 @@
+import { type BitmapShape, type CustomBitmap, type CustomBitmapRef, type Shape } from '../types';
+import { toPythonIdentifier } from './pythonNames';
+
+/** Largest width or height the bitmap editor accepts, for drawing and for imported files. */
+export const MAX_BITMAP_SIZE = 128;
+
+/** A bitmap's pixels without its name: one string of '1' and '0' per row. */
+export type BitmapPixels = Pick<CustomBitmap, 'width' | 'height' | 'rows'>;
+
+// One tile of each built-in bitmap, as the editor draws it. The grey stipples match what the SVG
+// masks show; Tk's icon bitmaps (error, info, …) are only hinted at with a cross or a grey tile.
+const BUILT_IN_TILES: Record<string, string[]> = {
+    gray12: ['000', '010', '000'],
+    gray25: ['10', '00'],
+    gray50: ['10', '01'],
+    gray75: ['11', '10'],
+    error: Array.from({ length: 8 }, (_, y) => Array.from({ length: 8 }, (_, x) => (x === y || x === 7 - y ? '1' : '0')).join('')),
+};
+
+export const isCustomBitmapRef = (name: string | undefined): name is CustomBitmapRef => !!name && name.startsWith('@');
+
+export const toCustomBitmapRef = (bitmap: CustomBitmap): CustomBitmapRef => `@${bitmap.id}`;
+
+/** The project bitmap behind an `@<id>` reference; undefined for built-in names and bitmaps that were deleted. */
+export function findCustomBitmap(name: string | undefined, bitmaps: CustomBitmap[]): CustomBitmap | undefined {
+    return isCustomBitmapRef(name) ? bitmaps.find(bitmap => bitmap.id === name.slice(1)) : undefined;
+}
+
+/** The pixels a bitmap name stands for: the project's own bitmap, or the tile of a built-in one. */
+export function getBitmapPixels(name: string, bitmaps: CustomBitmap[]): BitmapPixels {
+    const custom = findCustomBitmap(name, bitmaps);
+    if (custom) return custom;
+    const rows = BUILT_IN_TILES[name] ?? BUILT_IN_TILES[isCustomBitmapRef(name) ? 'error' : 'gray50'];
+    return { width: rows[0].length, height: rows.length, rows };
+}
+
+/** Project bitmaps used by the shapes, as a bitmap item or as a fill or outline stipple. */
+export function getUsedCustomBitmaps(shapes: Shape[], bitmaps: CustomBitmap[]): CustomBitmap[] {
+    const used = new Set<string>();
+    shapes.forEach(shape => {
+        if (shape.type === 'bitmap') used.add(shape.bitmapType);
+        if ('stipple' in shape && shape.stipple) used.add(shape.stipple);
+        if ('outlineStipple' in shape && shape.outlineStipple) used.add(shape.outlineStipple);
+    });
+    return bitmaps.filter(bitmap => used.has(toCustomBitmapRef(bitmap)));
+}
+
+export function createBitmap(id: string, name: string, width = 16, height = 16): CustomBitmap {
+    return { id, name, width, height, rows: Array.from({ length: height }, () => '0'.repeat(width)) };
+}
+
+/** The bitmap at a new size, keeping the pixels of its top-left corner. */
+export function resizeBitmap(bitmap: CustomBitmap, width: number, height: number): CustomBitmap {
+    const rows = Array.from({ length: height }, (_, y) => (bitmap.rows[y] ?? '').slice(0, width).padEnd(width, '0'));
+    return { ...bitmap, width, height, rows };
+}
+
+export function setBitmapPixel(bitmap: CustomBitmap, x: number, y: number, on: boolean): CustomBitmap {
+    const row = bitmap.rows[y];
+    if (row === undefined || x < 0 || x >= bitmap.width || (row[x] === '1') === on) return bitmap;
+    const rows = [...bitmap.rows];
+    rows[y] = row.slice(0, x) + (on ? '1' : '0') + row.slice(x + 1);
+    return { ...bitmap, rows };
+}
+
+/** Name of the bitmap in XBM `#define`s and file names: a C identifier made from its name. */
+export const getXbmName = (bitmap: CustomBitmap): string => toPythonIdentifier(bitmap.name) || 'bitmap';
+
+/**
+ * Reads an X11 bitmap file. Both the usual `unsigned char` (X11) layout and the older `short` (X10)
+ * one are accepted. Returns null when the text isn't a bitmap or is larger than MAX_BITMAP_SIZE.
+ */
+export function parseXbm(text: string): BitmapPixels | null {
+    const width = Number(/#define\s+\S*width\s+(\d+)/.exec(text)?.[1]);
+    const height = Number(/#define\s+\S*height\s+(\d+)/.exec(text)?.[1]);
+    const start = text.indexOf('{');
+    if (!width || !height || width > MAX_BITMAP_SIZE || height > MAX_BITMAP_SIZE || start < 0) return null;
+
+    const isX10 = /\bshort\b/.test(text.slice(0, start));
+    const values = (text.slice(start).match(/0x[0-9a-f]+|\b\d+\b/gi) || []).map(value => Number(value));
+    // X10 files store 16 pixels per value; split them into bytes, low byte first like X11.
+    const bytes = isX10 ? values.flatMap(value => [value & 0xFF, (value >> 8) & 0xFF]) : values;
+    const bytesPerRow = isX10 ? Math.ceil(width / 16) * 2 : Math.ceil(width / 8);
+    if (bytes.length < bytesPerRow * height) return null;
+
+    const rows = Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) =>
+        (bytes[y * bytesPerRow + (x >> 3)] >> (x & 7)) & 1 ? '1' : '0'
+    ).join(''));
+    return { width, height, rows };
+}
+
+/** The bitmap as the text of an X11 `.xbm` file, which Tk reads with `@file` or `BitmapImage(data=...)`. */
+export function toXbm(bitmap: CustomBitmap): string {
+    const name = getXbmName(bitmap);
+    const bytes: string[] = [];
+    bitmap.rows.forEach(row => {
+        for (let x = 0; x < bitmap.width; x += 8) {
+            let byte = 0;
+            for (let bit = 0; bit < 8 && x + bit < bitmap.width; bit++) {
+                if (row[x + bit] === '1') byte |= 1 << bit;
+            }
+            bytes.push(`0x${byte.toString(16).padStart(2, '0')}`);
+        }
+    });
+    const lines: string[] = [];
+    for (let i = 0; i < bytes.length; i += 12) lines.push(`   ${bytes.slice(i, i + 12).join(', ')}`);
+    return `#define ${name}_width ${bitmap.width}\n#define ${name}_height ${bitmap.height}\nstatic unsigned char ${name}_bits[] = {\n${lines.join(',\n')}};\n`;
+}
+
+/** SVG path covering the set pixels of the bitmap, with its top-left corner at (x, y). */
+export function getBitmapPixelPath(bitmap: BitmapPixels, x = 0, y = 0): string {
+    const parts: string[] = [];
+    bitmap.rows.forEach((row, rowIndex) => {
+        for (const run of row.matchAll(/1+/g)) {
+            parts.push(`M${x + run.index!},${y + rowIndex}h${run[0].length}v1h-${run[0].length}z`);
+        }
+    });
+    return parts.join('');
+}
+
+/** Where `create_bitmap` puts a project bitmap: once, at its own size, centred in the shape's box. */
+export function getCustomBitmapOrigin(shape: BitmapShape, bitmap: CustomBitmap): { x: number; y: number } {
+    return { x: shape.x + (shape.width - bitmap.width) / 2, y: shape.y + (shape.height - bitmap.height) / 2 };
+}
+
+/** Id of the SVG mask that lets through the set pixels of a bitmap, tiled from the canvas origin. */
+export function getBitmapMaskId(name: string): string {
+    if (isCustomBitmapRef(name)) return `mask-xbm-${name.slice(1)}`;
+    return name.startsWith('gray') ? `mask-${name}` : `mask-bitmap-${name}`;
+}
+
+/**
+ * The mask a stippled shape is drawn through, as a `url(#…)` reference. An SVG mask covers the fill
+ * and the outline alike, so the fill stipple is shown when the shape is filled and the outline one otherwise.
+ */
+export function getStippleMask(shape: Shape): string | undefined {
+    const isFilled = 'fill' in shape && shape.fill !== 'none'
+        && !(shape.type === 'arc' && shape.style === 'arc')
+        && !((shape.type === 'polyline' || shape.type === 'bezier') && !shape.isClosed);
+    if (isFilled && 'stipple' in shape && shape.stipple) return `url(#${getBitmapMaskId(shape.stipple)})`;
+    if ('outlineStipple' in shape && shape.outlineStipple && shape.stroke !== 'none' && shape.strokeWidth > 0) {
+        return `url(#${getBitmapMaskId(shape.outlineStipple)})`;
+    }
+    return undefined;
+}
@@ -0,0 +1,146 @@
+import { type CustomBitmap, type Shape } from '../types';
+import { getUsedCustomBitmaps } from './bitmaps';
+import { generateSvg } from './exportUtils';
+import { getVisualBoundingBox, translateShape } from './geometry';
+
+/** Marks clipboard text as shapes copied from the editor rather than any other JSON. */
+export const SHAPE_CLIPBOARD_FORMAT = 'veretka-shapes';
+
+/** What the editor puts on the clipboard: the shapes, and the project bitmaps they refer to. */
+export interface ShapeClipboardData {
+    format: typeof SHAPE_CLIPBOARD_FORMAT;
+    version: 1;
+    shapes: Shape[];
+    customBitmaps: CustomBitmap[];
+}
+
+const newPastedId = () => `paste-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+const getShapesBoundingBox = (shapes: Shape[]) => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const ids = new Set(shapes.map(shape => shape.id));
+    shapes.filter(shape => !shape.groupId || !ids.has(shape.groupId)).forEach(shape => {
+        const box = getVisualBoundingBox(shape, undefined, shapes);
+        if (!box) return;
+        minX = Math.min(minX, box.x);
+        minY = Math.min(minY, box.y);
+        maxX = Math.max(maxX, box.x + box.width);
+        maxY = Math.max(maxY, box.y + box.height);
+    });
+    return minX === Infinity ? null : { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * The selected shapes with everything inside the selected groups, in drawing order. A shape copied
+ * without its group loses the groupId, so it pastes as a shape of its own.
+ */
+export function collectClipboardShapes(selectedIds: string[], orderedShapes: Shape[]): Shape[] {
+    const byId = new Map(orderedShapes.map(shape => [shape.id, shape]));
+    const ids = new Set<string>();
+    const addWithChildren = (id: string) => {
+        const shape = byId.get(id);
+        if (!shape || ids.has(id)) return;
+        ids.add(id);
+        if (shape.type === 'group') shape.shapeIds.forEach(addWithChildren);
+    };
+    selectedIds.forEach(addWithChildren);
+
+    return orderedShapes.filter(shape => ids.has(shape.id)).map(shape => {
+        const { layerHidden: _layerHidden, ...copy } = shape as Shape & { layerHidden?: boolean };
+        if (copy.groupId && !ids.has(copy.groupId)) delete copy.groupId;
+        return copy as Shape;
+    });
+}
+
+export function serializeShapeClipboard(shapes: Shape[], bitmaps: CustomBitmap[]): string {
+    const data: ShapeClipboardData = {
+        format: SHAPE_CLIPBOARD_FORMAT,
+        version: 1,
+        shapes,
+        customBitmaps: getUsedCustomBitmaps(shapes, bitmaps),
+    };
+    return JSON.stringify(data);
+}
+
+/** The copied shapes as a standalone SVG picture, cropped to them, for apps that can't read the JSON. */
+export function toClipboardSvg(shapes: Shape[], bitmaps: CustomBitmap[]): string {
+    const box = getShapesBoundingBox(shapes);
+    if (!box) return generateSvg(shapes, 1, 1, 'none', bitmaps);
+    const moved = shapes.map(shape => translateShape(shape, -box.x, -box.y));
+    return generateSvg(moved, Math.ceil(box.width) || 1, Math.ceil(box.height) || 1, 'none', bitmaps);
+}
+
+/**
+ * Puts the shapes on the system clipboard as JSON text, with the SVG picture alongside it. A copy or
+ * cut event's `dataTransfer` is written directly; without one the async Clipboard API is used, falling
+ * back to the JSON alone where the browser won't take several formats.
+ */
+export async function writeShapeClipboard(shapes: Shape[], bitmaps: CustomBitmap[], dataTransfer?: DataTransfer | null): Promise<void> {
+    const json = serializeShapeClipboard(shapes, bitmaps);
+    const svg = toClipboardSvg(shapes, bitmaps);
+    if (dataTransfer) {
+        dataTransfer.setData('text/plain', json);
+        dataTransfer.setData('text/html', svg);
+        dataTransfer.setData('image/svg+xml', svg);
+        return;
+    }
+    if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+        try {
+            await navigator.clipboard.write([new ClipboardItem({
+                'text/plain': new Blob([json], { type: 'text/plain' }),
+                'text/html': new Blob([svg], { type: 'text/html' }),
+            })]);
+            return;
+        } catch {
+            // Some browsers refuse the HTML part; the JSON alone is enough to paste back.
+        }
+    }
+    await navigator.clipboard.writeText(json);
+}
+
+/** Reads clipboard text written by serializeShapeClipboard; null for anything else. */
+export function parseShapeClipboard(text: string): ShapeClipboardData | null {
+    if (!text.includes(SHAPE_CLIPBOARD_FORMAT)) return null;
+    try {
+        const data = JSON.parse(text);
+        if (data?.format !== SHAPE_CLIPBOARD_FORMAT || !Array.isArray(data.shapes) || data.shapes.length === 0) return null;
+        return { ...data, customBitmaps: Array.isArray(data.customBitmaps) ? data.customBitmaps : [] };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Copies of the clipboard shapes ready to add to a project: every shape gets a new id, groups and
+ * event targets follow their copies, and the shapes move so their top-left corner is at `position`
+ * (or 10px down and right of where they were copied from).
+ */
+export function prepareShapesForPaste(shapes: Shape[], position: { x: number; y: number } | null): Shape[] {
+    const idMap = new Map(shapes.map(shape => [shape.id, newPastedId()]));
+    const box = getShapesBoundingBox(shapes);
+    const dx = position && box ? Math.round(position.x - box.x) : 10;
+    const dy = position && box ? Math.round(position.y - box.y) : 10;
+
+    return shapes.map(shape => {
+        const copy = translateShape(shape, dx, dy) as any;
+        copy.id = idMap.get(shape.id);
+        if (copy.groupId) copy.groupId = idMap.get(copy.groupId);
+        if (copy.type === 'group') copy.shapeIds = copy.shapeIds.map((id: string) => idMap.get(id)).filter(Boolean);
+        if (copy.events) {
+            copy.events = copy.events.map((binding: any) => binding.targetId && idMap.has(binding.targetId) ? { ...binding, targetId: idMap.get(binding.targetId) } : binding);
+        }
+        // Keyframes hold absolute positions, so they move with the shape.
+        if (copy.keyframes) {
+            copy.keyframes = copy.keyframes.map((keyframe: any) => {
+                const values = { ...keyframe.values };
+                if (typeof values.x === 'number') values.x += dx;
+                if (typeof values.y === 'number') values.y += dy;
+                if (typeof values.cx === 'number') values.cx += dx;
+                if (typeof values.cy === 'number') values.cy += dy;
+                if (Array.isArray(values.points)) values.points = values.points.map((p: { x: number; y: number }) => ({ x: p.x + dx, y: p.y + dy }));
+                return { ...keyframe, values };
+            });
+        }
+        return copy as Shape;
+    });
+}
@@ -25,6 +25,7 @@ export const TOOL_TYPE_TO_NAME: Record<Tool, string> = {
     'text': 'Текст',
     'image': 'Зображення',
     'bitmap': 'Bitmap',
+    'widget': 'Віджет',
     'group': 'Група',
 };
 
@@ -40,11 +41,23 @@ export const DASH_STYLES: { nameKey: string, pattern: number[], descKey: string
     { nameKey: "dash.longShort", pattern: [20, 5, 5, 5], descKey: "dash.longShort.desc" },
 ];
 
+// Event sequences offered in the Events section of the property editor.
+export const TK_EVENT_SEQUENCES: { sequence: string, nameKey: string }[] = [
+    { sequence: '<Button-1>', nameKey: 'events.seq.click' },
+    { sequence: '<Double-Button-1>', nameKey: 'events.seq.doubleClick' },
+    { sequence: '<ButtonRelease-1>', nameKey: 'events.seq.release' },
+    { sequence: '<Button-3>', nameKey: 'events.seq.rightClick' },
+    { sequence: '<Enter>', nameKey: 'events.seq.enter' },
+    { sequence: '<Leave>', nameKey: 'events.seq.leave' },
+    { sequence: '<B1-Motion>', nameKey: 'events.seq.drag' },
+];
+
 
 export const getTkinterType = (shape: Shape): string => {
     if (shape.type === 'text') return 'text';
     if (shape.type === 'image') return 'image';
     if (shape.type === 'bitmap') return 'bitmap';
+    if (shape.type === 'widget') return 'window';
 
     // A circle is always an oval, regardless of rotation
     if (shape.type === 'ellipse' && shape.isAspectRatioLocked) {
@@ -85,6 +98,36 @@ export const getTkinterType = (shape: Shape): string => {
     return 'polygon';
 };
 
+/** Shape properties holding the look of an item while it is active (under the pointer) or disabled, by the property they replace. */
+export const STATE_STYLE_KEYS = {
+    active: { fill: 'activeFill', stroke: 'activeStroke', strokeWidth: 'activeStrokeWidth', dash: 'activeDash' },
+    disabled: { fill: 'disabledFill', stroke: 'disabledStroke', strokeWidth: 'disabledStrokeWidth', dash: 'disabledDash' },
+} as const;
+
+/** The active and disabled values set on the shape. */
+export const getStateStyles = (shape: Shape): Record<string, any> => {
+    const styles: Record<string, any> = {};
+    [STATE_STYLE_KEYS.active, STATE_STYLE_KEYS.disabled].forEach(keys => Object.values(keys).forEach(key => {
+        if ((shape as any)[key] !== undefined) styles[key] = (shape as any)[key];
+    }));
+    return styles;
+};
+
+/**
+ * The shape as Tk draws it: a disabled one with its disabled values, a normal one under the pointer
+ * with its active values. Returns the same object when nothing changes.
+ */
+export const getShapeInState = (shape: Shape, isHovered: boolean): Shape => {
+    const keys = shape.state === 'disabled' ? STATE_STYLE_KEYS.disabled : (shape.state === 'normal' && isHovered ? STATE_STYLE_KEYS.active : null);
+    if (!keys) return shape;
+    const overrides: Record<string, any> = {};
+    (Object.keys(keys) as (keyof typeof keys)[]).forEach(prop => {
+        const value = (shape as any)[keys[prop]];
+        if (value !== undefined) overrides[prop] = value;
+    });
+    return Object.keys(overrides).length > 0 ? { ...shape, ...overrides } as Shape : shape;
+};
+
 
 export const getDefaultNameForShape = (s: Shape, t: (key: string) => string): string => {
     // Priority 1: An arc shape's name is ALWAYS determined by its style, regardless of rotation.
@@ -93,6 +136,10 @@ export const getDefaultNameForShape = (s: Shape, t: (key: string) => string): st
         return t(`tool.${style}`);
     }
     
+    if (s.type === 'widget') {
+        return t(`widget.${s.widgetType}`);
+    }
+
     if (s.name === 'Image [import]' || s.name === 'Зображення [імпорт]') {
         return t('tool.imageImport');
     }
@@ -161,7 +208,9 @@ const ALL_DEFAULT_NAMES = new Set([
     'Select', 'Edit Points', 'Rectangle', 'Square', 'Circle', 'Ellipse',
     'Line', 'Polyline', 'Bezier Curve', 'Arc', 'Pieslice', 'Chord', 'Polygon',
     'Star', 'Triangle', 'Right Triangle', 'Rhombus', 'Trapezoid', 'Parallelogram',
-    'Text', 'Pencil', 'Image', 'Image [import]'
+    'Text', 'Pencil', 'Image', 'Image [import]',
+    'Віджет', 'Кнопка', 'Напис', 'Поле вводу', 'Прапорець', 'Повзунок',
+    'Widget', 'Button', 'Label', 'Entry', 'Checkbutton', 'Scale'
 ]);
 
 export const isDefaultName = (name: string): boolean => {
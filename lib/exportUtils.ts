@@ -1,6 +1,8 @@
-import { Shape, JoinStyle, LineShape, BezierCurveShape, PolylineShape, PathShape, ArcShape, TextShape, Layer } from '../types';
+import { Shape, BitmapShape, JoinStyle, LineShape, BezierCurveShape, PolylineShape, PathShape, ArcShape, TextShape, Layer, CustomBitmap } from '../types';
 import { getFinalPoints, getShapeCenter, getArcPathData, getTextBoundingBox, processTextLines } from './geometry';
 import { getVisualFontFamily } from './constants';
+import { getWidgetLookalike } from './widgets';
+import { findCustomBitmap, getBitmapMaskId, getBitmapPixelPath, getBitmapPixels, getCustomBitmapOrigin, getStippleMask, getUsedCustomBitmaps, getXbmName, isCustomBitmapRef, toXbm } from './bitmaps';
 
 // Fallback for browsers that don't support the File System Access API
 function triggerDownloadFallback(content: Blob | string, filename: string, mimeType?: string) {
@@ -25,6 +27,9 @@ export async function openProjectFile(): Promise<{ handle: FileSystemFileHandle;
             types: [{
                 description: 'Векторний проєкт',
                 accept: { 'application/json': ['.vec.json', '.json'] },
+            }, {
+                description: 'Python (Tkinter)',
+                accept: { 'text/x-python': ['.py'] },
             }],
         });
         const file = await handle.getFile();
@@ -99,7 +104,7 @@ function escapeHtml(unsafe: string): string {
          .replace(/'/g, "&#039;");
 }
 
-function shapeToSvgString(shape: Shape): string {
+function shapeToSvgString(shape: Shape, customBitmaps: CustomBitmap[]): string {
     if (shape.state === 'hidden') return '';
 
     const getTransform = (s: Shape): string => {
@@ -139,14 +144,13 @@ function shapeToSvgString(shape: Shape): string {
     const commonProps = (s: Shape): string => {
         let props = `stroke="${s.stroke}" stroke-width="${s.strokeWidth}" ${getTransform(s)}`;
         if (s.state === 'disabled') props += ' opacity="0.5"';
+        const mask = getStippleMask(s);
+        if (mask) props += ` mask="${mask}"`;
         return props;
     };
 
     const fillProps = (s: Extract<Shape, { fill: string }>): string => {
         if (s.fill === 'none') return 'fill="none"';
-        if ('stipple' in s && s.stipple) {
-            return `fill="url(#pattern-${s.stipple}-fill)"`;
-        }
         return `fill="${s.fill}"`;
     };
     
@@ -180,8 +184,24 @@ function shapeToSvgString(shape: Shape): string {
             return `<ellipse cx="${shape.cx}" cy="${shape.cy}" rx="${shape.rx}" ry="${shape.ry}" ${commonProps(shape)} ${fillProps(shape)} />`;
         case 'image':
             return `<image href="${shape.src}" x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" ${getTransform(shape)} />`;
-        case 'bitmap':
-            return `<g ${getTransform(shape)}><rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${shape.background}" /><rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="url(#pattern-bitmap-${shape.bitmapType}-fill)" /></g>`;
+        case 'bitmap': {
+            const bitmap = findCustomBitmap(shape.bitmapType, customBitmaps);
+            if (bitmap) {
+                const origin = getCustomBitmapOrigin(shape, bitmap);
+                return `<g ${getTransform(shape)}><rect x="${origin.x}" y="${origin.y}" width="${bitmap.width}" height="${bitmap.height}" fill="${shape.background || 'none'}" /><path d="${getBitmapPixelPath(bitmap, origin.x, origin.y)}" fill="${shape.foreground}" /></g>`;
+            }
+            const maskId = getBitmapMaskId(isCustomBitmapRef(shape.bitmapType) ? 'error' : shape.bitmapType);
+            return `<g ${getTransform(shape)}><rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${shape.background}" /><rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${shape.foreground}" mask="url(#${maskId})" /></g>`;
+        }
+        case 'widget': {
+            const parts = getWidgetLookalike(shape).map(part => {
+                const attrs = Object.entries(part.attrs)
+                    .map(([name, value]) => `${name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}="${escapeHtml(String(value))}"`)
+                    .join(' ');
+                return part.text !== undefined ? `<${part.tag} ${attrs}>${escapeHtml(part.text)}</${part.tag}>` : `<${part.tag} ${attrs} />`;
+            });
+            return `<g ${getTransform(shape)}>${parts.join('')}</g>`;
+        }
         case 'text': {
             const bbox = getTextBoundingBox(shape);
             if (!bbox) return '';
@@ -196,6 +216,7 @@ function shapeToSvgString(shape: Shape): string {
             const fontStyle = `font-family='${getVisualFontFamily(shape.font)}' font-size='${shape.fontSize}px' font-weight='${shape.weight}' font-style='${shape.slant === 'italic' ? 'italic' : 'normal'}'`;
             const textDecoration = `text-decoration='${shape.underline ? 'underline' : ''} ${shape.overstrike ? 'line-through' : ''}'`;
             const lines = processTextLines(shape);
+            const mask = getStippleMask(shape);
             
             const tspans = lines.map((line, index) => {
                 let dx = 0;
@@ -204,7 +225,7 @@ function shapeToSvgString(shape: Shape): string {
                 return `<tspan x="${shape.x + dx}" dy="${index === 0 ? '0' : `${shape.fontSize * 1.2}px`}">${escapeHtml(line)}</tspan>`;
             }).join('');
             
-            return `<text x="${shape.x}" y="${shape.y}" ${getTransform(shape)} dominant-baseline="${getDominantBaseline()}" text-anchor="${textAnchor}" fill="${shape.fill}" ${fontStyle} ${textDecoration} style="white-space: pre">${tspans}</text>`;
+            return `<text x="${shape.x}" y="${shape.y}" ${getTransform(shape)} dominant-baseline="${getDominantBaseline()}" text-anchor="${textAnchor}" fill="${shape.fill}"${mask ? ` mask="${mask}"` : ''} ${fontStyle} ${textDecoration} style="white-space: pre">${tspans}</text>`;
         }
         case 'arc': {
              const fill = shape.style === 'arc' ? 'none' : shape.fill;
@@ -232,15 +253,19 @@ function shapeToSvgString(shape: Shape): string {
     }
 }
 
-export function generateSvg(shapes: Shape[], width: number, height: number, backgroundColor: string): string {
-    const usedStipples = new Set<string>();
-    const usedBitmaps = new Set<string>();
+export function generateSvg(shapes: Shape[], width: number, height: number, backgroundColor: string, customBitmaps: CustomBitmap[] = []): string {
+    // Bitmaps drawn through a mask: stipples, and the built-in bitmaps of bitmap shapes. Project bitmaps
+    // of bitmap shapes are drawn once as a path instead (see shapeToSvgString).
+    const usedMasks = new Set<string>();
     const usedMarkers = new Map<string, { color: string; shapeParams: [number, number, number] }>();
 
     shapes.forEach(shape => {
         if (!shape) return;
-        if ('stipple' in shape && shape.stipple) usedStipples.add(shape.stipple);
-        if (shape.type === 'bitmap') usedBitmaps.add(shape.bitmapType);
+        if ('stipple' in shape && shape.stipple) usedMasks.add(shape.stipple);
+        if ('outlineStipple' in shape && shape.outlineStipple) usedMasks.add(shape.outlineStipple);
+        if (shape.type === 'bitmap' && !findCustomBitmap(shape.bitmapType, customBitmaps)) {
+            usedMasks.add(isCustomBitmapRef(shape.bitmapType) ? 'error' : shape.bitmapType);
+        }
         if ((shape.type === 'line' || shape.type === 'bezier' || shape.type === 'pencil' || (shape.type === 'polyline' && !shape.isClosed)) && shape.arrow && shape.arrow !== 'none' && shape.stroke !== 'none' && shape.strokeWidth > 0 && shape.arrowshape) {
              const [d1m, d2m, d3m] = shape.arrowshape;
              const w = shape.strokeWidth > 0 ? shape.strokeWidth : 1;
@@ -251,18 +276,13 @@ export function generateSvg(shapes: Shape[], width: number, height: number, back
         }
     });
 
-    const stippleDefs = Array.from(usedStipples).map(stipple => {
-        if (stipple === 'gray12') return `<pattern id="pattern-gray12-fill" width="3" height="3" patternUnits="userSpaceOnUse"><rect width="3" height="3" fill="${backgroundColor}"/><rect x="1" y="1" width="1" height="1" fill="${backgroundColor === '#000000' ? '#333' : '#000'}"/></pattern>`;
-        if (stipple === 'gray25') return `<pattern id="pattern-gray25-fill" width="2" height="2" patternUnits="userSpaceOnUse"><rect width="2" height="2" fill="${backgroundColor}"/><rect x="0" y="0" width="1" height="1" fill="${backgroundColor === '#000000' ? '#444' : '#000'}"/></pattern>`;
-        if (stipple === 'gray50') return `<pattern id="pattern-gray50-fill" width="2" height="2" patternUnits="userSpaceOnUse"><rect width="2" height="2" fill="${backgroundColor}"/><rect x="0" y="0" width="1" height="1" fill="${backgroundColor === '#000000' ? '#555' : '#000'}"/><rect x="1" y="1" width="1" height="1" fill="${backgroundColor === '#000000' ? '#555' : '#000'}"/></pattern>`;
-        if (stipple === 'gray75') return `<pattern id="pattern-gray75-fill" width="2" height="2" patternUnits="userSpaceOnUse"><rect width="2" height="2" fill="${backgroundColor === '#fff' ? '#000' : '#fff'}"/><rect x="1" y="1" width="1" height="1" fill="${backgroundColor}"/></pattern>`;
-        return '';
+    // The same white-on-black tiles the editor masks with, so the export shows the real pixels.
+    const bitmapDefs = Array.from(usedMasks).map(name => {
+        const maskId = getBitmapMaskId(name);
+        const tile = getBitmapPixels(name, customBitmaps);
+        return `<pattern id="pattern-${maskId}" width="${tile.width}" height="${tile.height}" patternUnits="userSpaceOnUse"><rect width="${tile.width}" height="${tile.height}" fill="black"/><path d="${getBitmapPixelPath(tile)}" fill="white"/></pattern><mask id="${maskId}"><rect x="0" y="0" width="100%" height="100%" fill="url(#pattern-${maskId})"/></mask>`;
     }).join('\n');
     
-    const bitmapDefs = Array.from(usedBitmaps).map(bitmap => 
-        `<pattern id="pattern-bitmap-${bitmap}-fill" width="8" height="8" patternUnits="userSpaceOnUse"><path d="M0,0 L8,8 M8,0 L0,8" stroke="currentColor" stroke-width="1" shape-rendering="crispEdges"/></pattern>`
-    ).join('\n');
-    
     const markerDefs = Array.from(usedMarkers.values()).map(({ color, shapeParams }) => {
         const [d1, d2, d3] = shapeParams;
         if (d2 === 0 || d3 === 0) return null;
@@ -283,8 +303,8 @@ export function generateSvg(shapes: Shape[], width: number, height: number, back
             </marker>`;
     }).join('\n');
 
-    const defs = `<defs>${stippleDefs}${bitmapDefs}${markerDefs}</defs>`;
-    const shapesSvg = shapes.map(shapeToSvgString).join('\n');
+    const defs = `<defs>${bitmapDefs}${markerDefs}</defs>`;
+    const shapesSvg = shapes.map(shape => shapeToSvgString(shape, customBitmaps)).join('\n');
 
     return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
         ${defs}
@@ -331,6 +351,230 @@ export async function exportToRaster(
     });
 }
 
+/** Re-encodes an image `src` (any format the browser can decode) as PNG bytes, optionally scaled to the given size. */
+function imageSrcToPng(src: string, width?: number, height?: number): Promise<Uint8Array> {
+    if (src.startsWith('data:image/png;base64,') && width === undefined) {
+        return Promise.resolve(Uint8Array.from(atob(src.split(',')[1]), c => c.charCodeAt(0)));
+    }
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(width ?? img.naturalWidth));
+            canvas.height = Math.max(1, Math.round(height ?? img.naturalHeight));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                return reject(new Error('Не вдалося отримати контекст canvas.'));
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            canvas.toBlob(blob => {
+                if (!blob) return reject(new Error('Не вдалося конвертувати зображення в PNG.'));
+                blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+            }, 'image/png');
+        };
+        img.onerror = () => reject(new Error('Не вдалося завантажити зображення для конвертації.'));
+        img.src = src;
+    });
+}
+
+const resizedPngCache = new Map<string, Promise<string>>();
+
+/** Identifies an image drawn at a given size; the key of the resize cache and of the bundle's image files. */
+export function getImageSizeKey(src: string, width: number, height: number): string {
+    return `${Math.round(width)}x${Math.round(height)}:${src}`;
+}
+
+/**
+ * The image scaled to `width`×`height` as base64 PNG, the form Tk 8.6 reads with `PhotoImage(data=...)`.
+ * Results are cached because the code is regenerated on every edit.
+ */
+export function getResizedPngBase64(src: string, width: number, height: number): Promise<string> {
+    const key = getImageSizeKey(src, width, height);
+    let result = resizedPngCache.get(key);
+    if (!result) {
+        result = imageSrcToPng(src, width, height).then(bytes => {
+            let binary = '';
+            for (let i = 0; i < bytes.length; i += 0x8000) {
+                binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+            }
+            return btoa(binary);
+        });
+        // A failed conversion shouldn't stick; the next generation tries again.
+        result.catch(() => resizedPngCache.delete(key));
+        resizedPngCache.set(key, result);
+    }
+    return result;
+}
+
+/**
+ * Draws a bitmap shape the way the editor shows it, rotated and mirrored, on a transparent
+ * background just big enough to hold it. Returns base64 PNG for `PhotoImage(data=...)`.
+ */
+export function renderBitmapToPngBase64(shape: BitmapShape, customBitmaps: CustomBitmap[] = []): string {
+    const angle = -(shape.rotation || 0) * Math.PI / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(shape.width * cos + shape.height * sin));
+    canvas.height = Math.max(1, Math.ceil(shape.width * sin + shape.height * cos));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Не вдалося отримати контекст canvas.');
+    }
+
+    const tile = getBitmapPixels(shape.bitmapType, customBitmaps);
+    const tileCanvas = document.createElement('canvas');
+    tileCanvas.width = tile.width;
+    tileCanvas.height = tile.height;
+    const tileCtx = tileCanvas.getContext('2d');
+    if (!tileCtx) {
+        throw new Error('Не вдалося отримати контекст canvas.');
+    }
+    tileCtx.fillStyle = shape.foreground;
+    tile.rows.forEach((row, y) => [...row].forEach((pixel, x) => pixel === '1' && tileCtx.fillRect(x, y, 1, 1)));
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(angle);
+    ctx.scale((shape as any).isFlippedHorizontally ? -1 : 1, (shape as any).isFlippedVertically ? -1 : 1);
+    ctx.translate(-shape.width / 2, -shape.height / 2);
+    // A project bitmap is drawn once in the middle, as create_bitmap would; built-in ones fill the box.
+    const bitmap = findCustomBitmap(shape.bitmapType, customBitmaps);
+    if (bitmap) {
+        const origin = getCustomBitmapOrigin(shape, bitmap);
+        ctx.translate(origin.x - shape.x, origin.y - shape.y);
+        if (shape.background && shape.background !== 'none') {
+            ctx.fillStyle = shape.background;
+            ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+        }
+        ctx.drawImage(tileCanvas, 0, 0);
+        return canvas.toDataURL('image/png').split(',')[1];
+    }
+    if (shape.background && shape.background !== 'none') {
+        ctx.fillStyle = shape.background;
+        ctx.fillRect(0, 0, shape.width, shape.height);
+    }
+    ctx.fillStyle = ctx.createPattern(tileCanvas, 'repeat') ?? shape.foreground;
+    ctx.fillRect(0, 0, shape.width, shape.height);
+
+    return canvas.toDataURL('image/png').split(',')[1];
+}
+
+/**
+ * Saves every distinct image of the project as `assets/image_N.png`, scaled to the size it is drawn at,
+ * since Tk's PhotoImage can't resize. Shapes showing the same picture at the same size share one file.
+ * Returns the files and the relative path for each image, keyed by getImageSizeKey.
+ */
+export async function collectImageAssets(shapes: Shape[]): Promise<{ files: ZipEntry[]; imageFiles: Record<string, string> }> {
+    const files: ZipEntry[] = [];
+    const imageFiles: Record<string, string> = {};
+    for (const shape of shapes) {
+        if (shape.type !== 'image') continue;
+        const key = getImageSizeKey(shape.src, shape.width, shape.height);
+        if (key in imageFiles) continue;
+        const path = `assets/image_${files.length + 1}.png`;
+        imageFiles[key] = path;
+        files.push({ name: path, data: await imageSrcToPng(shape.src, shape.width, shape.height) });
+    }
+    return { files, imageFiles };
+}
+
+/**
+ * Saves the project bitmaps the shapes use as `assets/<name>.xbm`, for Tk's `@file` bitmap names.
+ * Returns the files and the relative path for each bitmap id.
+ */
+export function collectBitmapAssets(shapes: Shape[], customBitmaps: CustomBitmap[]): { files: ZipEntry[]; bitmapFiles: Record<string, string> } {
+    const files: ZipEntry[] = [];
+    const bitmapFiles: Record<string, string> = {};
+    getUsedCustomBitmaps(shapes, customBitmaps).forEach(bitmap => {
+        const name = getXbmName(bitmap);
+        let path = `assets/${name}.xbm`;
+        for (let counter = 2; files.some(file => file.name === path); counter++) path = `assets/${name}_${counter}.xbm`;
+        bitmapFiles[bitmap.id] = path;
+        files.push({ name: path, data: toXbm(bitmap) });
+    });
+    return { files, bitmapFiles };
+}
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array | string;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Packs the entries into a ZIP archive. Files are stored uncompressed: PNGs are compressed
+ * already and the text files are small, so this avoids pulling in a deflate library.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+    const now = new Date();
+    const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true); // version needed to extract
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(10, dosTime, true);
+        local.setUint16(12, dosDate, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        parts.push(new Uint8Array(local.buffer), name, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014B50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(12, dosTime, true);
+        central.setUint16(14, dosDate, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+}
+
 /**
  * Extracts shapes from a parsed project object, ordering them by layer hierarchy
  * (bottom layer to top layer) and applying layer visibility.
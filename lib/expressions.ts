@@ -0,0 +1,224 @@
+import { type Shape, type ProjectVariable } from '../types';
+import { isUsablePythonName } from './pythonNames';
+
+/** Values of the project variables by name, including the canvas size as `W` and `H`. */
+export type VariableScope = Record<string, number | string>;
+
+// Values equal to within this are the same once written out rounded to hundredths.
+const VALUE_EPSILON = 0.006;
+
+const TOKEN_PATTERN = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|(\*\*|\/\/|[-+*/%()]))/y;
+
+/**
+ * Evaluates an arithmetic expression over the numeric variables of `scope`. Only a subset of Python
+ * is accepted (numbers, names, `+ - * / // % **` and parentheses), so the text can be copied into
+ * the generated code as is. Returns null for anything else or an unknown name.
+ */
+export function evaluateExpression(expression: string, scope: VariableScope = {}): number | null {
+    const tokens: string[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    const source = expression.trim();
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) return null;
+        tokens.push(match[1] ?? match[2] ?? match[3]);
+    }
+    if (tokens.length === 0) return null;
+
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const fail = () => { throw new Error('invalid expression'); };
+
+    const parseAtom = (): number => {
+        const token = tokens[pos++];
+        if (token === undefined) return fail();
+        if (token === '(') {
+            const value = parseSum();
+            if (tokens[pos++] !== ')') fail();
+            return value;
+        }
+        if (/^[\d.]/.test(token)) return Number(token);
+        if (/^[A-Za-z_]/.test(token)) {
+            const value = scope[token];
+            return typeof value === 'number' ? value : fail();
+        }
+        return fail();
+    };
+    const parseUnary = (): number => {
+        if (peek() === '-') { pos++; return -parseUnary(); }
+        if (peek() === '+') { pos++; return parseUnary(); }
+        return parsePower();
+    };
+    // `**` binds tighter than a unary minus on its left and is right-associative, as in Python.
+    const parsePower = (): number => {
+        const base = parseAtom();
+        if (peek() !== '**') return base;
+        pos++;
+        return base ** parseUnary();
+    };
+    const parseProduct = (): number => {
+        let value = parseUnary();
+        while (['*', '/', '//', '%'].includes(peek())) {
+            const op = tokens[pos++];
+            const right = parseUnary();
+            if (op === '*') value *= right;
+            else if (op === '/') value /= right;
+            else if (op === '//') value = Math.floor(value / right);
+            else value = ((value % right) + right) % right;
+        }
+        return value;
+    };
+    const parseSum = (): number => {
+        let value = parseProduct();
+        while (peek() === '+' || peek() === '-') {
+            const op = tokens[pos++];
+            const right = parseProduct();
+            value = op === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+
+    try {
+        const value = parseSum();
+        return pos === tokens.length && isFinite(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Whether the text is an expression of variables rather than a plain (or constant-folded) number. */
+export const usesVariables = (expression: string): boolean => /[A-Za-z_]/.test(expression.replace(/\d+\.?\d*e[+-]?\d+/gi, ''));
+
+/** Why a variable name can't be used, or null when it can. */
+export function getVariableNameError(name: string, variables: ProjectVariable[], t: (key: string) => string): string | null {
+    if (!isUsablePythonName(name)) return t('variables.error.invalidName');
+    if (name === 'W' || name === 'H') return t('variables.error.builtIn');
+    if (variables.filter(v => v.name === name).length > 1) return t('variables.error.duplicate');
+    return null;
+}
+
+/** Evaluates the variables in order, so each may refer to `W`, `H` and the ones above it. */
+export function getVariableScope(variables: ProjectVariable[] | undefined, canvasWidth: number, canvasHeight: number): VariableScope {
+    const scope: VariableScope = { W: canvasWidth, H: canvasHeight };
+    (variables || []).forEach(variable => {
+        if (!isUsablePythonName(variable.name) || variable.name in scope) return;
+        const value = evaluateExpression(variable.value, scope);
+        scope[variable.name] = value ?? variable.value.trim();
+    });
+    return scope;
+}
+
+/** The current value behind an expression key of the shape, or null if the shape has no such value. */
+export function getShapeValue(shape: Shape, key: string): number | null {
+    if (shape.type === 'rectangle' || shape.type === 'arc') {
+        switch (key) {
+            case 'x1': return shape.x;
+            case 'y1': return shape.y;
+            case 'x2': return shape.x + shape.width;
+            case 'y2': return shape.y + shape.height;
+        }
+    } else if (shape.type === 'ellipse') {
+        switch (key) {
+            case 'x1': return shape.cx - shape.rx;
+            case 'y1': return shape.cy - shape.ry;
+            case 'x2': return shape.cx + shape.rx;
+            case 'y2': return shape.cy + shape.ry;
+        }
+    } else if (shape.type === 'text') {
+        switch (key) {
+            case 'x1': return shape.x;
+            case 'y1': return shape.y;
+            case 'width': return shape.width;
+        }
+    }
+    return key === 'width' && shape.type !== 'text' ? shape.strokeWidth : null;
+}
+
+/**
+ * The shape with the value behind `key` set, keeping the opposite corner of a bounding box in place.
+ * Returns null when the value would turn the box inside out.
+ */
+export function setShapeValue(shape: Shape, key: string, value: number): Shape | null {
+    if (shape.type === 'rectangle' || shape.type === 'arc') {
+        let { x, y, width, height } = shape;
+        switch (key) {
+            case 'x1': width = (x + width) - value; x = value; break;
+            case 'y1': height = (y + height) - value; y = value; break;
+            case 'x2': width = value - x; break;
+            case 'y2': height = value - y; break;
+            case 'width': return { ...shape, strokeWidth: value };
+        }
+        return width >= 0 && height >= 0 ? { ...shape, x, y, width, height } : null;
+    }
+    if (shape.type === 'ellipse') {
+        let [x1, y1, x2, y2] = [shape.cx - shape.rx, shape.cy - shape.ry, shape.cx + shape.rx, shape.cy + shape.ry];
+        switch (key) {
+            case 'x1': x1 = value; break;
+            case 'y1': y1 = value; break;
+            case 'x2': x2 = value; break;
+            case 'y2': y2 = value; break;
+            case 'width': return { ...shape, strokeWidth: value };
+        }
+        const [rx, ry] = [(x2 - x1) / 2, (y2 - y1) / 2];
+        return rx >= 0 && ry >= 0 ? { ...shape, cx: (x1 + x2) / 2, cy: (y1 + y2) / 2, rx, ry } : null;
+    }
+    if (shape.type === 'text') {
+        switch (key) {
+            case 'x1': return { ...shape, x: value };
+            case 'y1': return { ...shape, y: value };
+            case 'width': return { ...shape, width: value };
+        }
+        return null;
+    }
+    return key === 'width' ? { ...shape, strokeWidth: value } as Shape : null;
+}
+
+/** The shape with `expression` recorded for `key` (or removed when null). */
+export function setShapeExpression(shape: Shape, key: string, expression: string | null): Shape {
+    const { [key]: _previous, ...others } = shape.expressions || {};
+    const expressions = expression ? { ...others, [key]: expression.trim() } : others;
+    return { ...shape, expressions: Object.keys(expressions).length > 0 ? expressions : undefined };
+}
+
+/**
+ * The expression bound to `key`, as long as it still gives the shape's value. Moving or resizing
+ * the shape on the canvas leaves the expression behind without having to clear it.
+ */
+export function getBoundExpression(shape: Shape, key: string, scope: VariableScope): string | undefined {
+    const expression = shape.expressions?.[key];
+    if (!expression) return undefined;
+    const current = getShapeValue(shape, key);
+    const value = evaluateExpression(expression, scope);
+    return current !== null && value !== null && Math.abs(current - value) < VALUE_EPSILON ? expression : undefined;
+}
+
+/**
+ * Updates a shape after the variables change: values that followed their expression under the old
+ * scope are recomputed, and colours equal to a colour variable's old value take its new one.
+ * Returns the same object when nothing changed.
+ */
+export function reapplyExpressions(shape: Shape, oldScope: VariableScope, newScope: VariableScope): Shape {
+    let next: Shape = shape;
+    Object.keys(shape.expressions || {}).forEach(key => {
+        const expression = getBoundExpression(next, key, oldScope);
+        const value = expression !== undefined ? evaluateExpression(expression, newScope) : null;
+        if (value === null || Math.abs(value - (getShapeValue(next, key) ?? value)) < VALUE_EPSILON) return;
+        next = setShapeValue(next, key, value) ?? next;
+    });
+
+    const renamedColors = new Map<string, string>();
+    Object.entries(oldScope).forEach(([name, oldValue]) => {
+        const newValue = newScope[name];
+        if (typeof oldValue === 'string' && typeof newValue === 'string' && oldValue !== newValue) {
+            renamedColors.set(oldValue.toLowerCase(), newValue);
+        }
+    });
+    if (renamedColors.size > 0) {
+        (['fill', 'stroke'] as const).forEach(prop => {
+            const color = (next as any)[prop];
+            const replacement = typeof color === 'string' ? renamedColors.get(color.toLowerCase()) : undefined;
+            if (replacement) next = { ...next, [prop]: replacement } as Shape;
+        });
+    }
+    return next;
+}
@@ -525,6 +525,7 @@ export const getBoundingBox = (shape: Shape, allShapes?: Shape[]): { x: number,
         }
         case 'image':
         case 'bitmap':
+        case 'widget':
             if (isNaN(shape.x) || isNaN(shape.y) || isNaN(shape.width) || isNaN(shape.height)) return null;
             return { x: shape.x ?? 0, y: shape.y ?? 0, width: Math.max(0, shape.width ?? 0), height: Math.max(0, shape.height ?? 0) };
         
@@ -614,6 +615,33 @@ export const rotatePoint = (point: { x: number; y: number }, center: { x: number
   };
 };
 
+/** A deep copy of the shape moved by (dx, dy). */
+export function translateShape(shape: Shape, dx: number, dy: number): Shape {
+    const s = JSON.parse(JSON.stringify(shape)) as any;
+    if (typeof s.x === 'number') s.x += dx;
+    if (typeof s.y === 'number') s.y += dy;
+    if (typeof s.cx === 'number') s.cx += dx;
+    if (typeof s.cy === 'number') s.cy += dy;
+    if (typeof s.x1 === 'number') { s.x1 += dx; s.y1 += dy; s.x2 += dx; s.y2 += dy; }
+    if (Array.isArray(s.points)) {
+        s.points = s.points.map((p: any) => p ? { x: p.x + dx, y: p.y + dy } : p);
+    }
+    return s as Shape;
+}
+
+/** The arrowhead polygon at `tip` for a line arriving from `from`, sized like Tkinter's `arrowshape` (already scaled by the line width). */
+export const getArrowheadPoints = (tip: { x: number; y: number }, from: { x: number; y: number }, [d1, d2, d3]: number[]): { x: number; y: number }[] => {
+    const length = Math.hypot(tip.x - from.x, tip.y - from.y) || 1;
+    const ux = (tip.x - from.x) / length;
+    const uy = (tip.y - from.y) / length;
+    return [
+        tip,
+        { x: tip.x - ux * d2 - uy * d3, y: tip.y - uy * d2 + ux * d3 },
+        { x: tip.x - ux * d1, y: tip.y - uy * d1 },
+        { x: tip.x - ux * d2 + uy * d3, y: tip.y - uy * d2 - ux * d3 },
+    ];
+};
+
 export function getFinalPoints(shape: Shape, overrideCenter?: { x: number; y: number }): { x: number; y: number }[] | null {
     let points: { x: number; y: number }[];
 
@@ -629,6 +657,7 @@ export function getFinalPoints(shape: Shape, overrideCenter?: { x: number; y: nu
         case 'rectangle':
         case 'image':
         case 'bitmap':
+        case 'widget':
             points = [
                 { x: shape.x, y: shape.y },
                 { x: shape.x + shape.width, y: shape.y },
@@ -836,7 +865,7 @@ export const getEditablePoints = (shape: Shape): {x: number, y:number}[] | null
     
     let isClosed = (
         (shape.type === 'arc' && (shape.style === 'pieslice' || shape.style === 'chord')) ||
-        ['rectangle', 'ellipse', 'polygon', 'star', 'triangle', 'right-triangle', 'rhombus', 'trapezoid', 'parallelogram', 'image', 'bitmap', 'text'].includes(shape.type)
+        ['rectangle', 'ellipse', 'polygon', 'star', 'triangle', 'right-triangle', 'rhombus', 'trapezoid', 'parallelogram', 'image', 'bitmap', 'widget', 'text'].includes(shape.type)
     );
 
     // Special case for open arcs, which are not closed.
@@ -892,6 +921,7 @@ export function isShapeClosed(shape: Shape): boolean {
     case 'parallelogram':
     case 'image':
     case 'bitmap':
+    case 'widget':
       return true;
     case 'arc':
       return (shape as ArcShape).style === 'pieslice' || (shape as ArcShape).style === 'chord';
@@ -0,0 +1,66 @@
+// Transliteration map for Ukrainian Cyrillic to Latin.
+const ua_map: { [key: string]: string } = {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'h', 'ґ': 'g', 'д': 'd', 'е': 'e', 'є': 'ie', 'ж': 'zh', 'з': 'z', 'и': 'y', 'і': 'i', 'ї': 'i',
+    'й': 'i', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh',
+    'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ь': '', 'ю': 'iu', 'я': 'ia',
+    'А': 'A', 'Б': 'B', 'В': 'V', 'Г': 'H', 'Ґ': 'G', 'Д': 'D', 'Е': 'E', 'Є': 'Ie', 'Ж': 'Zh', 'З': 'Z', 'И': 'Y', 'І': 'I', 'Ї': 'I',
+    'Й': 'I', 'К': 'K', 'Л': 'L', 'М': 'M', 'Н': 'N', 'О': 'O', 'П': 'P', 'Р': 'R', 'С': 'S', 'Т': 'T', 'У': 'U', 'Ф': 'F', 'Х': 'Kh',
+    'Ц': 'Ts', 'Ч': 'Ch', 'Ш': 'Sh', 'Щ': 'Shch', 'Ь': '', 'Ю': 'Iu', 'Я': 'Ia'
+};
+
+export function transliterate(text: string): string {
+    if (!text) return text;
+    return text.split('').map(char => ua_map[char] || char).join('');
+}
+
+const PYTHON_KEYWORDS = new Set([
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+    'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try',
+    'while', 'with', 'yield', 'match', 'case', 'type',
+]);
+
+// Built-ins and names of the generated script scaffolding that a shape variable must not shadow.
+const RESERVED_NAMES = new Set([
+    'abs', 'all', 'any', 'dict', 'dir', 'filter', 'float', 'format', 'id', 'input', 'int', 'len', 'list', 'map', 'max', 'min', 'object',
+    'open', 'print', 'range', 'round', 'set', 'str', 'sum', 'tuple', 'zip',
+    'root', 'tk', 'self', 'app', 'main', 'base64', 'io', 'math',
+]);
+
+/**
+ * Converts arbitrary text (e.g. a shape name in Ukrainian) into a valid snake_case Python identifier.
+ * Returns an empty string when nothing usable is left.
+ */
+export function toPythonIdentifier(text: string): string {
+    return transliterate(text || '')
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9_]+/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .replace(/^(\d)/, '_$1');
+}
+
+/**
+ * Creates a function that hands out unique identifiers derived from the given text,
+ * avoiding Python keywords, common built-ins and any extra names already in use.
+ */
+export function createIdentifierAllocator(usedNames: Iterable<string> = [], fallback = 'item'): (text: string) => string {
+    const used = new Set<string>(usedNames);
+    return (text: string) => {
+        let base = toPythonIdentifier(text) || fallback;
+        if (PYTHON_KEYWORDS.has(base) || RESERVED_NAMES.has(base)) base = `${base}_`;
+        let candidate = base;
+        let counter = 2;
+        while (used.has(candidate)) {
+            candidate = `${base}_${counter++}`;
+        }
+        used.add(candidate);
+        return candidate;
+    };
+}
+
+/** Whether `name` can be used as is for a variable of the generated script. */
+export function isUsablePythonName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !PYTHON_KEYWORDS.has(name) && !RESERVED_NAMES.has(name);
+}
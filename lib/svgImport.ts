@@ -0,0 +1,835 @@
+import { type Shape, type JoinStyle, RectangleShape, EllipseShape, LineShape, PolylineShape, BezierCurveShape, TextShape, GroupShape } from '../types';
+import { colorToHex } from './colors';
+import { getShapeCenter } from './geometry';
+
+export interface SvgImportResult {
+    /** The drawing as editor shapes, in SVG user units (one unit is one canvas pixel). */
+    shapes: Shape[];
+    /** Drawing elements with no editor counterpart (images, embedded HTML), left out of `shapes`. */
+    skippedCount: number;
+}
+
+type Point = { x: number; y: number };
+// An affine transform [a, b, c, d, e, f], as in SVG's matrix(): x' = a·x + c·y + e, y' = b·x + d·y + f.
+type Matrix = [number, number, number, number, number, number];
+
+type Segment =
+    | { kind: 'line'; to: Point }
+    | { kind: 'quad'; c: Point; to: Point }
+    | { kind: 'cubic'; c1: Point; c2: Point; to: Point };
+
+interface Subpath {
+    start: Point;
+    segments: Segment[];
+    closed: boolean;
+}
+
+interface CssRule {
+    tag?: string;
+    id?: string;
+    classes: string[];
+    specificity: number;
+    declarations: Record<string, string>;
+}
+
+interface WalkContext {
+    ids: Map<string, Element>;
+    rules: CssRule[];
+    // The size of the nearest viewport, which percentages refer to.
+    viewport: { width: number; height: number };
+    skippedCount: number;
+    // <use> elements being expanded, to stop one that (indirectly) refers to itself.
+    useStack: Element[];
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Properties that children inherit, read from presentation attributes, <style> rules and `style`.
+const INHERITED_PROPERTIES = [
+    'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'stroke-dashoffset',
+    'stroke-linejoin', 'stroke-linecap', 'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor',
+    'text-decoration', 'visibility', 'color',
+];
+const STYLE_PROPERTIES = [...INHERITED_PROPERTIES, 'opacity', 'display'];
+const DEFAULT_STYLE: Record<string, string> = { fill: 'black', stroke: 'none', 'stroke-width': '1', 'font-size': '16', color: 'black' };
+
+// Never drawn directly; <use> may still draw a <symbol>.
+const NON_RENDERING_TAGS = ['defs', 'clipPath', 'mask', 'symbol', 'pattern', 'marker', 'linearGradient', 'radialGradient', 'filter', 'style', 'title', 'desc', 'metadata', 'script'];
+const UNSUPPORTED_TAGS = ['image', 'foreignObject', 'video', 'audio', 'canvas', 'iframe'];
+const GENERIC_FONTS: Record<string, string> = { 'sans-serif': 'Arial', serif: 'Times', monospace: 'Courier' };
+const LENGTH_UNITS: Record<string, number> = { px: 1, pt: 4 / 3, pc: 16, mm: 96 / 25.4, cm: 96 / 2.54, in: 96 };
+
+let idCounter = 0;
+const newImportedId = () => `svg-${Date.now()}-${idCounter++}-${Math.random().toString(36).substring(2, 7)}`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const apply = (m: Matrix, p: Point): Point => ({ x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] });
+
+const roundPoint = (p: Point): Point => ({ x: round(p.x), y: round(p.y) });
+
+/** How much the transform scales lengths, on average; stroke widths and font sizes scale by this. */
+const getScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+/** Whether the transform keeps shapes' proportions (rotation, uniform scale, translation, mirroring). */
+const isSimilarity = (m: Matrix) => {
+    const scaleSq = Math.abs(m[0] * m[3] - m[1] * m[2]);
+    if (scaleSq === 0) return false;
+    const tolerance = 1e-6 * scaleSq;
+    return Math.abs(m[0] * m[2] + m[1] * m[3]) < tolerance && Math.abs(m[0] ** 2 + m[1] ** 2 - m[2] ** 2 - m[3] ** 2) < tolerance;
+};
+
+/** The editor rotation (clockwise from the export's point of view, hence the sign) of a transformed x axis. */
+const getRotation = (m: Matrix) => {
+    const degrees = round(-Math.atan2(m[1], m[0]) * 180 / Math.PI);
+    return degrees === -180 ? 180 : degrees === 0 ? 0 : degrees;
+};
+
+const parseNumberList = (value: string | null): number[] =>
+    (value?.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || []).map(Number);
+
+function parseSvgTransform(value: string | null): Matrix {
+    let matrix: Matrix = IDENTITY;
+    if (!value) return matrix;
+    const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(value))) {
+        const args = parseNumberList(match[2]);
+        let step: Matrix = IDENTITY;
+        switch (match[1]) {
+            case 'matrix':
+                if (args.length === 6) step = args as Matrix;
+                break;
+            case 'translate':
+                step = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+                break;
+            case 'scale':
+                step = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+                break;
+            case 'rotate': {
+                const angle = (args[0] ?? 0) * Math.PI / 180;
+                const cos = Math.cos(angle), sin = Math.sin(angle);
+                const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+                step = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+                break;
+            }
+            case 'skewX':
+                step = [1, 0, Math.tan((args[0] ?? 0) * Math.PI / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                step = [1, Math.tan((args[0] ?? 0) * Math.PI / 180), 0, 1, 0, 0];
+                break;
+        }
+        matrix = multiply(matrix, step);
+    }
+    return matrix;
+}
+
+/** A length in pixels; percentages are of `reference`, `em` of the font size. */
+const parseLength = (value: string | null | undefined, reference = 0, fontSize = 16): number | null => {
+    const match = value?.trim().match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(px|pt|pc|mm|cm|in|em|ex|%)?$/i);
+    if (!match) return null;
+    const number = Number(match[1]);
+    const unit = (match[2] || 'px').toLowerCase();
+    if (unit === '%') return number * reference / 100;
+    if (unit === 'em') return number * fontSize;
+    if (unit === 'ex') return number * fontSize / 2;
+    return number * LENGTH_UNITS[unit];
+};
+
+// --- Paths ---------------------------------------------------------------------------------------
+
+const reflect = (p: Point, about: Point): Point => ({ x: 2 * about.x - p.x, y: 2 * about.y - p.y });
+
+/** An elliptical arc (SVG's endpoint form) as cubic Béziers of at most a quarter turn each. */
+const arcToCubics = (from: Point, rx: number, ry: number, xAxisRotation: number, largeArc: boolean, sweep: boolean, to: Point): Segment[] => {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return [{ kind: 'line', to }];
+    const phi = xAxisRotation * Math.PI / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2, dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy, y1 = -sin * dx + cos * dy;
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+    const cx1 = factor * rx * y1 / ry, cy1 = -factor * ry * x1 / rx;
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let sweepAngle = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+    if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+    const pointAt = (t: number): Point => ({
+        x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+        y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+    });
+    const derivativeAt = (t: number): Point => ({
+        x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+        y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+    });
+    const pieces = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9);
+    const step = sweepAngle / pieces;
+    const k = 4 / 3 * Math.tan(step / 4);
+    const segments: Segment[] = [];
+    for (let i = 0; i < pieces; i++) {
+        const t1 = startAngle + i * step, t2 = t1 + step;
+        const p1 = pointAt(t1), p2 = i === pieces - 1 ? to : pointAt(t2);
+        const d1 = derivativeAt(t1), d2 = derivativeAt(t2);
+        segments.push({ kind: 'cubic', c1: { x: p1.x + k * d1.x, y: p1.y + k * d1.y }, c2: { x: p2.x - k * d2.x, y: p2.y - k * d2.y }, to: p2 });
+    }
+    return segments;
+};
+
+/** The subpaths of a path's `d`; parsing stops at the first error, keeping what came before, as browsers do. */
+function parsePathData(d: string): Subpath[] {
+    const subpaths: Subpath[] = [];
+    const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || [];
+    let index = 0;
+    let current: Subpath | null = null;
+    let point: Point = { x: 0, y: 0 };
+    let lastControl: Point | null = null;
+    let lastCommand = '';
+
+    const hasNumbers = (count: number) => tokens.length - index >= count && tokens.slice(index, index + count).every(token => !/^[A-Za-z]$/.test(token));
+    const next = () => Number(tokens[index++]);
+    // Arc flags may be written without separators ("a5 5 0 01 10 0"), which the tokenizer reads as one number.
+    const nextFlag = (): boolean | null => {
+        const token = tokens[index];
+        if (token === undefined || !/^[01]/.test(token)) return null;
+        if (token.length === 1) index++;
+        else tokens[index] = token.substring(1);
+        return token[0] === '1';
+    };
+    const begin = (at: Point) => {
+        current = { start: at, segments: [], closed: false };
+        subpaths.push(current);
+    };
+    const add = (segment: Segment) => {
+        if (!current) begin(point);
+        current!.segments.push(segment);
+        point = segment.to;
+    };
+
+    while (index < tokens.length) {
+        let command = tokens[index];
+        if (/^[A-Za-z]$/.test(command)) index++;
+        else if (lastCommand && lastCommand.toUpperCase() !== 'Z') command = lastCommand.toUpperCase() === 'M' ? (lastCommand === 'M' ? 'L' : 'l') : lastCommand;
+        else break;
+        const relative = command === command.toLowerCase();
+        const at = (x: number, y: number): Point => relative ? { x: point.x + x, y: point.y + y } : { x, y };
+        let control: Point | null = null;
+
+        switch (command.toUpperCase()) {
+            case 'M': {
+                if (!hasNumbers(2)) return subpaths;
+                const target = at(next(), next());
+                point = target;
+                begin(target);
+                break;
+            }
+            case 'L':
+                if (!hasNumbers(2)) return subpaths;
+                add({ kind: 'line', to: at(next(), next()) });
+                break;
+            case 'H':
+                if (!hasNumbers(1)) return subpaths;
+                add({ kind: 'line', to: { x: relative ? point.x + next() : next(), y: point.y } });
+                break;
+            case 'V':
+                if (!hasNumbers(1)) return subpaths;
+                add({ kind: 'line', to: { x: point.x, y: relative ? point.y + next() : next() } });
+                break;
+            case 'C': {
+                if (!hasNumbers(6)) return subpaths;
+                const c1 = at(next(), next()), c2 = at(next(), next()), to = at(next(), next());
+                add({ kind: 'cubic', c1, c2, to });
+                control = c2;
+                break;
+            }
+            case 'S': {
+                if (!hasNumbers(4)) return subpaths;
+                const c1 = lastControl && /[CcSs]/.test(lastCommand) ? reflect(lastControl, point) : point;
+                const c2 = at(next(), next()), to = at(next(), next());
+                add({ kind: 'cubic', c1, c2, to });
+                control = c2;
+                break;
+            }
+            case 'Q': {
+                if (!hasNumbers(4)) return subpaths;
+                const c = at(next(), next()), to = at(next(), next());
+                add({ kind: 'quad', c, to });
+                control = c;
+                break;
+            }
+            case 'T': {
+                if (!hasNumbers(2)) return subpaths;
+                const c = lastControl && /[QqTt]/.test(lastCommand) ? reflect(lastControl, point) : point;
+                add({ kind: 'quad', c, to: at(next(), next()) });
+                control = c;
+                break;
+            }
+            case 'A': {
+                if (!hasNumbers(3)) return subpaths;
+                const rx = next(), ry = next(), rotation = next();
+                const largeArc = nextFlag(), sweep = nextFlag();
+                if (largeArc === null || sweep === null || !hasNumbers(2)) return subpaths;
+                const to = at(next(), next());
+                arcToCubics(point, rx, ry, rotation, largeArc, sweep, to).forEach(add);
+                break;
+            }
+            case 'Z':
+                if (current) {
+                    const closedPath: Subpath = current;
+                    closedPath.closed = true;
+                    point = closedPath.start;
+                    // Drawing after a Z starts a new subpath at the same point.
+                    current = null;
+                }
+                break;
+            default:
+                return subpaths;
+        }
+        lastControl = control;
+        lastCommand = command;
+    }
+    return subpaths;
+}
+
+const transformSubpath = (subpath: Subpath, m: Matrix): Subpath => ({
+    start: apply(m, subpath.start),
+    closed: subpath.closed,
+    segments: subpath.segments.map(segment =>
+        segment.kind === 'line' ? { kind: 'line', to: apply(m, segment.to) }
+        : segment.kind === 'quad' ? { kind: 'quad', c: apply(m, segment.c), to: apply(m, segment.to) }
+        : { kind: 'cubic', c1: apply(m, segment.c1), c2: apply(m, segment.c2), to: apply(m, segment.to) }),
+});
+
+const distance = (p: Point, q: Point) => Math.hypot(q.x - p.x, q.y - p.y);
+
+/** Points along a curved segment, excluding its start and including its end. */
+const sampleSegment = (from: Point, segment: Segment): Point[] => {
+    if (segment.kind === 'line') return [segment.to];
+    const controls = segment.kind === 'quad' ? [from, segment.c, segment.to] : [from, segment.c1, segment.c2, segment.to];
+    const length = controls.slice(1).reduce((sum, p, i) => sum + distance(controls[i], p), 0);
+    const count = Math.min(24, Math.max(4, Math.round(length / 10)));
+    return Array.from({ length: count }, (_, i) => {
+        const t = (i + 1) / count, u = 1 - t;
+        if (segment.kind === 'quad') {
+            return { x: u * u * from.x + 2 * u * t * segment.c.x + t * t * segment.to.x, y: u * u * from.y + 2 * u * t * segment.c.y + t * t * segment.to.y };
+        }
+        return {
+            x: u * u * u * from.x + 3 * u * u * t * segment.c1.x + 3 * u * t * t * segment.c2.x + t * t * t * segment.to.x,
+            y: u * u * u * from.y + 3 * u * u * t * segment.c1.y + 3 * u * t * t * segment.c2.y + t * t * t * segment.to.y,
+        };
+    });
+};
+
+const ellipseSubpath = (cx: number, cy: number, rx: number, ry: number): Subpath => {
+    const start = { x: cx + rx, y: cy };
+    const quarter = (to: Point, sweepFrom: Point) => arcToCubics(sweepFrom, rx, ry, 0, false, true, to);
+    const bottom = { x: cx, y: cy + ry }, left = { x: cx - rx, y: cy }, top = { x: cx, y: cy - ry };
+    return { start, closed: true, segments: [...quarter(bottom, start), ...quarter(left, bottom), ...quarter(top, left), ...quarter(start, top)] };
+};
+
+const roundedRectSubpath = (x: number, y: number, width: number, height: number, rx: number, ry: number): Subpath => {
+    const corner = (from: Point, to: Point) => arcToCubics(from, rx, ry, 0, false, true, to);
+    const p = (px: number, py: number): Point => ({ x: px, y: py });
+    return {
+        start: p(x + rx, y),
+        closed: true,
+        segments: [
+            { kind: 'line', to: p(x + width - rx, y) }, ...corner(p(x + width - rx, y), p(x + width, y + ry)),
+            { kind: 'line', to: p(x + width, y + height - ry) }, ...corner(p(x + width, y + height - ry), p(x + width - rx, y + height)),
+            { kind: 'line', to: p(x + rx, y + height) }, ...corner(p(x + rx, y + height), p(x, y + height - ry)),
+            { kind: 'line', to: p(x, y + ry) }, ...corner(p(x, y + ry), p(x + rx, y)),
+        ],
+    };
+};
+
+// --- Styles --------------------------------------------------------------------------------------
+
+const parseDeclarations = (text: string): Record<string, string> => {
+    const declarations: Record<string, string> = {};
+    text.split(';').forEach(declaration => {
+        const colon = declaration.indexOf(':');
+        if (colon === -1) return;
+        const name = declaration.substring(0, colon).trim().toLowerCase();
+        const value = declaration.substring(colon + 1).replace(/!important/i, '').trim();
+        if (name && value) declarations[name] = value;
+    });
+    return declarations;
+};
+
+/** Rules of the document's <style> sheets; only type, class and id selectors, which is what drawing apps write. */
+const parseStyleSheets = (root: Element): CssRule[] => {
+    const rules: CssRule[] = [];
+    const css = Array.from(root.getElementsByTagName('style')).map(style => style.textContent || '').join('\n').replace(/\/\*[\s\S]*?\*\//g, '');
+    const re = /([^{}@]+)\{([^{}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(css))) {
+        const declarations = parseDeclarations(match[2]);
+        match[1].split(',').forEach(selector => {
+            const parts = selector.trim().match(/^(\*|[A-Za-z][\w-]*)?(#[\w-]+)?((?:\.[\w-]+)*)$/);
+            if (!parts || !selector.trim()) return;
+            const tag = parts[1] && parts[1] !== '*' ? parts[1] : undefined;
+            const id = parts[2]?.substring(1);
+            const classes = parts[3] ? parts[3].split('.').filter(Boolean) : [];
+            rules.push({ tag, id, classes, specificity: (id ? 100 : 0) + classes.length * 10 + (tag ? 1 : 0), declarations });
+        });
+    }
+    // Stable, so later rules of the same specificity still win.
+    return rules.sort((a, b) => a.specificity - b.specificity);
+};
+
+/** The element's own style: presentation attributes, then matching <style> rules, then its `style` attribute. */
+const getOwnStyle = (element: Element, rules: CssRule[]): Record<string, string> => {
+    const style: Record<string, string> = {};
+    STYLE_PROPERTIES.forEach(property => {
+        const value = element.getAttribute(property);
+        if (value !== null && value.trim() !== '') style[property] = value.trim();
+    });
+    const classes = (element.getAttribute('class') || '').split(/\s+/).filter(Boolean);
+    rules.forEach(rule => {
+        if (rule.tag && rule.tag !== element.localName) return;
+        if (rule.id && rule.id !== element.getAttribute('id')) return;
+        if (!rule.classes.every(c => classes.includes(c))) return;
+        Object.assign(style, rule.declarations);
+    });
+    Object.assign(style, parseDeclarations(element.getAttribute('style') || ''));
+    return style;
+};
+
+/** Colours with CSS meanings, which differ from Tk's for a few names (gray, green, maroon…). */
+const cssColorToHex = (value: string): string | null => {
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})([0-9a-f]{1,2})?$/i);
+    if (hex) return colorToHex(`#${hex[1]}`);
+    const rgb = value.match(/^rgba?\(\s*([\d.]+)(%?)[\s,]+([\d.]+)(%?)[\s,]+([\d.]+)(%?)/i);
+    if (rgb) {
+        const channel = (v: string, percent: string) => Math.max(0, Math.min(255, Math.round(percent ? Number(v) * 2.55 : Number(v))));
+        return '#' + [channel(rgb[1], rgb[2]), channel(rgb[3], rgb[4]), channel(rgb[5], rgb[6])].map(c => c.toString(16).padStart(2, '0')).join('');
+    }
+    if (typeof document === 'undefined') return colorToHex(value);
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) return colorToHex(value);
+    ctx.fillStyle = '#000001';
+    ctx.fillStyle = value;
+    const resolved = ctx.fillStyle;
+    return resolved === '#000001' ? null : colorToHex(resolved);
+};
+
+/** A fill or stroke as an editor colour. Gradients become their first stop's colour. */
+const resolvePaint = (value: string | undefined, style: Record<string, string>, ids: Map<string, Element>, rules: CssRule[]): string => {
+    if (!value || value === 'none' || value === 'transparent') return 'none';
+    const reference = value.match(/^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/);
+    if (reference) {
+        const found = ids.has(reference[1]);
+        let gradient = ids.get(reference[1]);
+        const visited = new Set<Element>();
+        while (gradient && !visited.has(gradient)) {
+            visited.add(gradient);
+            const stop = Array.from(gradient.children).find(child => child.localName === 'stop');
+            if (stop) {
+                const stopColor = getOwnStyle(stop, rules)['stop-color'] ?? stop.getAttribute('stop-color') ?? 'black';
+                return cssColorToHex(stopColor === 'currentColor' ? style.color : stopColor) ?? 'none';
+            }
+            const href = gradient.getAttribute('href') ?? gradient.getAttribute('xlink:href');
+            gradient = href?.startsWith('#') ? ids.get(href.substring(1)) : undefined;
+        }
+        // The fallback after the url(), if any; a pattern has no single colour, so it shows as black.
+        return reference[2] ? resolvePaint(reference[2], style, ids, rules) : (found ? '#000000' : 'none');
+    }
+    return cssColorToHex(value === 'currentColor' ? style.color : value) ?? 'none';
+};
+
+// --- Walking the document ------------------------------------------------------------------------
+
+/** The transform from a viewBox to the viewport of the given size, following `preserveAspectRatio`. */
+const getViewBoxMatrix = (element: Element, width: number, height: number): Matrix => {
+    const viewBox = parseNumberList(element.getAttribute('viewBox'));
+    if (viewBox.length !== 4 || viewBox[2] <= 0 || viewBox[3] <= 0) return IDENTITY;
+    const [minX, minY, vbWidth, vbHeight] = viewBox;
+    let sx = width / vbWidth, sy = height / vbHeight;
+    const aspect = (element.getAttribute('preserveAspectRatio') || 'xMidYMid meet').trim();
+    if (aspect.startsWith('none')) return [sx, 0, 0, sy, -minX * sx, -minY * sy];
+    sx = sy = aspect.includes('slice') ? Math.max(sx, sy) : Math.min(sx, sy);
+    const align = (axis: 'x' | 'y', free: number) => aspect.includes(`${axis === 'x' ? 'x' : 'Y'}Min`) ? 0 : aspect.includes(`${axis === 'x' ? 'x' : 'Y'}Max`) ? free : free / 2;
+    return [sx, 0, 0, sy, align('x', width - vbWidth * sx) - minX * sx, align('y', height - vbHeight * sy) - minY * sy];
+};
+
+/** An <svg> element's viewport size, from width/height or else the viewBox (300×150 without either, as in browsers). */
+const getViewportSize = (element: Element, parent: { width: number; height: number } | null) => {
+    const viewBox = parseNumberList(element.getAttribute('viewBox'));
+    const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+    let width = parseLength(element.getAttribute('width'), parent?.width ?? 0);
+    let height = parseLength(element.getAttribute('height'), parent?.height ?? 0);
+    if (width === null && height !== null && hasViewBox) width = height * viewBox[2] / viewBox[3];
+    if (height === null && width !== null && hasViewBox) height = width * viewBox[3] / viewBox[2];
+    return {
+        width: width ?? (hasViewBox ? viewBox[2] : parent?.width ?? 300),
+        height: height ?? (hasViewBox ? viewBox[3] : parent?.height ?? 150),
+    };
+};
+
+const JOIN_STYLES: Record<string, JoinStyle> = { miter: 'miter', 'miter-clip': 'miter', arcs: 'miter', round: 'round', bevel: 'bevel' };
+const CAP_STYLES: Record<string, 'butt' | 'round' | 'projecting'> = { butt: 'butt', round: 'round', square: 'projecting' };
+
+/** Stroke, fill, dash and join properties common to the shapes made from one element. */
+const getShapeStyle = (element: Element, style: Record<string, string>, m: Matrix, ctx: WalkContext) => {
+    const scale = getScale(m);
+    const fontSize = parseLength(style['font-size'], 16) ?? 16;
+    const diagonal = Math.hypot(ctx.viewport.width, ctx.viewport.height) / Math.SQRT2;
+    const isTransparent = (property: string) => parseFloat(style[property] ?? '1') <= 0;
+    const fill = isTransparent('fill-opacity') ? 'none' : resolvePaint(style.fill, style, ctx.ids, ctx.rules);
+    let stroke = isTransparent('stroke-opacity') ? 'none' : resolvePaint(style.stroke, style, ctx.ids, ctx.rules);
+    const strokeWidth = round((parseLength(style['stroke-width'], diagonal, fontSize) ?? 1) * scale);
+    if (strokeWidth <= 0) stroke = 'none';
+
+    let dash: number[] | undefined;
+    let dashoffset: number | undefined;
+    const dashValues = parseNumberList(style['stroke-dasharray'] === 'none' ? null : style['stroke-dasharray']);
+    if (stroke !== 'none' && dashValues.length > 0 && dashValues.some(v => v > 0) && dashValues.every(v => v >= 0)) {
+        // SVG repeats an odd list to make it even; the editor keeps dashes as multiples of the width.
+        const even = dashValues.length % 2 ? [...dashValues, ...dashValues] : dashValues;
+        dash = even.map(v => round(v * scale / strokeWidth));
+        const offset = parseLength(style['stroke-dashoffset'], diagonal, fontSize);
+        if (offset) dashoffset = round(offset * scale);
+    }
+    const id = element.getAttribute('id');
+    return {
+        fill,
+        stroke,
+        strokeWidth: stroke === 'none' ? 0 : strokeWidth,
+        dash,
+        dashoffset,
+        joinstyle: JOIN_STYLES[style['stroke-linejoin']],
+        capstyle: CAP_STYLES[style['stroke-linecap']],
+        name: id || undefined,
+    };
+};
+
+type ShapeStyle = ReturnType<typeof getShapeStyle>;
+
+// The base fields of every imported shape, leaving out style fields the SVG didn't set.
+const baseProps = (style: ShapeStyle) => ({
+    id: newImportedId(),
+    state: 'normal' as const,
+    rotation: 0,
+    ...(style.name ? { name: style.name } : {}),
+});
+
+const dashProps = (style: ShapeStyle) => ({
+    ...(style.dash ? { dash: style.dash } : {}),
+    ...(style.dash && style.dashoffset ? { dashoffset: style.dashoffset } : {}),
+});
+
+const closedStyleProps = (style: ShapeStyle) => ({
+    fill: style.fill,
+    stroke: style.stroke,
+    strokeWidth: style.strokeWidth,
+    ...dashProps(style),
+    ...(style.joinstyle && style.stroke !== 'none' ? { joinstyle: style.joinstyle } : {}),
+});
+
+const samePoint = (p: Point, q: Point) => Math.abs(p.x - q.x) < 0.01 && Math.abs(p.y - q.y) < 0.01;
+
+/** A polyline through the points, or a line when there are only two and nothing to fill. */
+const pointsToShape = (points: Point[], closed: boolean, style: ShapeStyle): Shape | null => {
+    const cleaned = points.map(roundPoint).filter((p, i, all) => i === 0 || !samePoint(p, all[i - 1]));
+    if (closed && cleaned.length > 2 && samePoint(cleaned[0], cleaned[cleaned.length - 1])) cleaned.pop();
+    if (cleaned.length < 2) return null;
+    // An open subpath is still filled in SVG; without an outline to keep open, close it so the fill shows.
+    const isClosed = closed || (style.fill !== 'none' && style.stroke === 'none' && cleaned.length > 2);
+    if (!isClosed && style.stroke === 'none') return null;
+    if (!isClosed && cleaned.length === 2) {
+        const line: LineShape = {
+            ...baseProps(style), type: 'line', points: [cleaned[0], cleaned[1]],
+            stroke: style.stroke, strokeWidth: style.strokeWidth, ...dashProps(style),
+            ...(style.capstyle ? { capstyle: style.capstyle } : {}),
+        };
+        return line;
+    }
+    if (isClosed && style.fill === 'none' && style.stroke === 'none') return null;
+    const polyline: PolylineShape = {
+        ...baseProps(style), type: 'polyline', points: cleaned, isClosed,
+        ...closedStyleProps(style),
+        fill: isClosed ? style.fill : 'none',
+        ...(!isClosed && style.capstyle ? { capstyle: style.capstyle } : {}),
+    };
+    return polyline;
+};
+
+/**
+ * A subpath in canvas coordinates as a shape. Curves become a smoothed Bézier shape through points
+ * sampled along them; every segment's end is doubled, which Tk's spline passes through exactly, so
+ * corners stay sharp and straight segments straight.
+ */
+const subpathToShape = (subpath: Subpath, style: ShapeStyle): Shape | null => {
+    if (subpath.segments.every(segment => segment.kind === 'line')) {
+        return pointsToShape([subpath.start, ...subpath.segments.map(segment => segment.to)], subpath.closed, style);
+    }
+    const segments = [...subpath.segments];
+    const last = segments[segments.length - 1].to;
+    if (subpath.closed && !samePoint(last, subpath.start)) segments.push({ kind: 'line', to: subpath.start });
+
+    const points: Point[] = [subpath.start, subpath.start];
+    let from = subpath.start;
+    segments.forEach(segment => {
+        const samples = sampleSegment(from, segment);
+        points.push(...samples, segment.to);
+        from = segment.to;
+    });
+    // A closed spline wraps round to the start, which is already there (twice).
+    if (subpath.closed) points.splice(-2, 2);
+
+    const rounded = points.map(roundPoint);
+    const isClosed = subpath.closed || (style.fill !== 'none' && style.stroke === 'none');
+    if (!isClosed && style.stroke === 'none') return null;
+    if (isClosed && style.fill === 'none' && style.stroke === 'none') return null;
+    const bezier: BezierCurveShape = {
+        ...baseProps(style), type: 'bezier', points: rounded, isClosed, smooth: true, splinesteps: 12,
+        ...closedStyleProps(style),
+        fill: isClosed ? style.fill : 'none',
+        ...(!isClosed && style.capstyle ? { capstyle: style.capstyle } : {}),
+    };
+    return bezier;
+};
+
+const makeGroup = (children: Shape[], name?: string): Shape[] => {
+    if (children.length < 2) return children;
+    const group: GroupShape = {
+        id: newImportedId(),
+        type: 'group',
+        state: 'normal',
+        stroke: 'none',
+        strokeWidth: 0,
+        rotation: 0,
+        shapeIds: children.filter(child => !child.groupId).map(child => child.id),
+        ...(name ? { name } : {}),
+    };
+    const grouped = children.map(child => child.groupId ? child : { ...child, groupId: group.id } as Shape);
+    group.rotationCenter = getShapeCenter(group, grouped) ?? undefined;
+    return [...grouped, group];
+};
+
+const subpathsToShapes = (subpaths: Subpath[], m: Matrix, style: ShapeStyle): Shape[] => {
+    const shapes = subpaths
+        .map(subpath => subpathToShape(transformSubpath(subpath, m), style))
+        .filter((shape): shape is Shape => shape !== null);
+    // Parts of one path select and move together.
+    if (shapes.length > 1) shapes.forEach(shape => { delete shape.name; });
+    return makeGroup(shapes, style.name);
+};
+
+const getText = (element: Element): string => {
+    const tspans = Array.from(element.children).filter(child => child.localName === 'tspan');
+    // Drawing apps write one positioned <tspan> per line.
+    const isMultiline = tspans.length > 1 && tspans.every(tspan => tspan.hasAttribute('y') || tspan.hasAttribute('dy'));
+    const lines = isMultiline ? tspans.map(tspan => tspan.textContent || '') : [element.textContent || ''];
+    return lines.map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+};
+
+const textToShape = (element: Element, style: Record<string, string>, m: Matrix, ctx: WalkContext): Shape | null => {
+    const text = getText(element);
+    if (!text) return null;
+    const shapeStyle = getShapeStyle(element, style, m, ctx);
+    if (shapeStyle.fill === 'none') return null;
+    const firstTspan = Array.from(element.children).find(child => child.localName === 'tspan');
+    const coordinate = (name: string) => parseNumberList(element.getAttribute(name))[0] ?? parseNumberList(firstTspan?.getAttribute(name) ?? null)[0] ?? 0;
+    const fontSize = parseLength(style['font-size'], 16) ?? 16;
+    const scaledSize = Math.max(1, Math.round(fontSize * getScale(m)));
+    const isMultiline = text.includes('\n');
+
+    const anchorSide = style['text-anchor'] === 'middle' ? 'center' : style['text-anchor'] === 'end' ? 'right' : 'left';
+    // The editor treats the bottom anchors as the baseline, like SVG; several lines hang from the first one's top.
+    const anchors = isMultiline ? { left: 'nw', center: 'n', right: 'ne' } as const : { left: 'sw', center: 's', right: 'se' } as const;
+    const position = apply(m, { x: coordinate('x') + coordinate('dx'), y: coordinate('y') + coordinate('dy') - (isMultiline ? fontSize * 0.8 : 0) });
+    const family = (style['font-family'] || 'Arial').split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    const weight = style['font-weight'];
+    const decoration = style['text-decoration'] || '';
+
+    const shape: TextShape = {
+        ...baseProps(shapeStyle),
+        type: 'text',
+        x: round(position.x),
+        y: round(position.y),
+        rotation: getRotation(m),
+        text,
+        font: GENERIC_FONTS[family] || family,
+        fontSize: scaledSize,
+        weight: weight === 'bold' || weight === 'bolder' || Number(weight) >= 600 ? 'bold' : 'normal',
+        slant: style['font-style'] === 'italic' || style['font-style'] === 'oblique' ? 'italic' : 'roman',
+        underline: decoration.includes('underline'),
+        overstrike: decoration.includes('line-through'),
+        anchor: anchors[anchorSide],
+        justify: anchorSide,
+        width: 0,
+        fill: shapeStyle.fill,
+        stroke: 'none',
+        strokeWidth: 0,
+    };
+    return shape;
+};
+
+/** One drawing element as shapes; rectangles, circles and ellipses stay editable as such unless skewed. */
+const elementToShapes = (element: Element, style: Record<string, string>, m: Matrix, ctx: WalkContext): Shape[] => {
+    const { width: vw, height: vh } = ctx.viewport;
+    const fontSize = parseLength(style['font-size'], 16) ?? 16;
+    const length = (name: string, reference: number) => parseLength(element.getAttribute(name), reference, fontSize);
+    const diagonal = Math.hypot(vw, vh) / Math.SQRT2;
+    const shapeStyle = getShapeStyle(element, style, m, ctx);
+    const single = (shape: Shape | null) => shape ? [shape] : [];
+
+    switch (element.localName) {
+        case 'rect': {
+            const x = length('x', vw) ?? 0, y = length('y', vh) ?? 0;
+            const width = length('width', vw) ?? 0, height = length('height', vh) ?? 0;
+            if (width <= 0 || height <= 0) return [];
+            let rx = length('rx', vw), ry = length('ry', vh);
+            rx = Math.min(Math.max(0, rx ?? ry ?? 0), width / 2);
+            ry = Math.min(Math.max(0, ry ?? rx), height / 2);
+            if (rx > 0 && ry > 0) return subpathsToShapes([roundedRectSubpath(x, y, width, height, rx, ry)], m, shapeStyle);
+            if (!isSimilarity(m)) {
+                return single(pointsToShape([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }].map(p => apply(m, p)), true, shapeStyle));
+            }
+            if (shapeStyle.fill === 'none' && shapeStyle.stroke === 'none') return [];
+            const scale = getScale(m);
+            const center = apply(m, { x: x + width / 2, y: y + height / 2 });
+            const rect: RectangleShape = {
+                ...baseProps(shapeStyle), type: 'rectangle',
+                x: round(center.x - width * scale / 2), y: round(center.y - height * scale / 2),
+                width: round(width * scale), height: round(height * scale),
+                rotation: getRotation(m),
+                ...closedStyleProps(shapeStyle),
+            };
+            return [rect];
+        }
+        case 'circle':
+        case 'ellipse': {
+            const cx = length('cx', vw) ?? 0, cy = length('cy', vh) ?? 0;
+            const rx = element.localName === 'circle' ? length('r', diagonal) ?? 0 : length('rx', vw) ?? length('ry', vh) ?? 0;
+            const ry = element.localName === 'circle' ? rx : length('ry', vh) ?? rx;
+            if (rx <= 0 || ry <= 0) return [];
+            if (!isSimilarity(m)) return subpathsToShapes([ellipseSubpath(cx, cy, rx, ry)], m, shapeStyle);
+            if (shapeStyle.fill === 'none' && shapeStyle.stroke === 'none') return [];
+            const scale = getScale(m);
+            const center = apply(m, { x: cx, y: cy });
+            const ellipse: EllipseShape = {
+                ...baseProps(shapeStyle), type: 'ellipse',
+                cx: round(center.x), cy: round(center.y), rx: round(rx * scale), ry: round(ry * scale),
+                rotation: getRotation(m),
+                ...closedStyleProps(shapeStyle),
+                ...(rx === ry ? { isAspectRatioLocked: true } : {}),
+            };
+            return [ellipse];
+        }
+        case 'line': {
+            const from = apply(m, { x: length('x1', vw) ?? 0, y: length('y1', vh) ?? 0 });
+            const to = apply(m, { x: length('x2', vw) ?? 0, y: length('y2', vh) ?? 0 });
+            return single(pointsToShape([from, to], false, { ...shapeStyle, fill: 'none' }));
+        }
+        case 'polyline':
+        case 'polygon': {
+            const numbers = parseNumberList(element.getAttribute('points'));
+            const points: Point[] = [];
+            for (let i = 0; i + 1 < numbers.length; i += 2) points.push(apply(m, { x: numbers[i], y: numbers[i + 1] }));
+            return single(pointsToShape(points, element.localName === 'polygon', shapeStyle));
+        }
+        case 'path':
+            return subpathsToShapes(parsePathData(element.getAttribute('d') || ''), m, shapeStyle);
+        case 'text':
+            return single(textToShape(element, style, m, ctx));
+        default:
+            return [];
+    }
+};
+
+const walk = (element: Element, parentStyle: Record<string, string>, parentMatrix: Matrix, ctx: WalkContext, isRoot = false): Shape[] => {
+    const tag = element.localName;
+    if (NON_RENDERING_TAGS.includes(tag) && !(tag === 'symbol' && ctx.useStack.length > 0)) return [];
+    if (UNSUPPORTED_TAGS.includes(tag)) {
+        ctx.skippedCount++;
+        return [];
+    }
+    const own = getOwnStyle(element, ctx.rules);
+    if (own.display === 'none' || parseFloat(own.opacity ?? '1') <= 0) return [];
+    const style = { ...parentStyle };
+    Object.entries(own).forEach(([property, value]) => {
+        if (value !== 'inherit' && INHERITED_PROPERTIES.includes(property)) style[property] = value;
+    });
+    let m = multiply(parentMatrix, parseSvgTransform(element.getAttribute('transform')));
+
+    if (tag === 'svg' || tag === 'symbol') {
+        const previousViewport = ctx.viewport;
+        if (tag === 'svg' && !isRoot) {
+            m = multiply(m, [1, 0, 0, 1, parseLength(element.getAttribute('x'), previousViewport.width) ?? 0, parseLength(element.getAttribute('y'), previousViewport.height) ?? 0]);
+        }
+        const size = getViewportSize(element, isRoot ? null : previousViewport);
+        ctx.viewport = size;
+        const children = walkChildren(element, style, multiply(m, getViewBoxMatrix(element, size.width, size.height)), ctx);
+        ctx.viewport = previousViewport;
+        return children;
+    }
+    if (tag === 'g' || tag === 'a' || tag === 'switch') {
+        const children = walkChildren(element, style, m, ctx);
+        // A named group stays a group, as a layer from a drawing app usually is.
+        const id = element.getAttribute('id');
+        return id ? makeGroup(children, id) : children;
+    }
+    if (tag === 'use') {
+        const href = element.getAttribute('href') ?? element.getAttribute('xlink:href');
+        const target = href?.startsWith('#') ? ctx.ids.get(href.substring(1)) : undefined;
+        if (!target || ctx.useStack.includes(element) || ctx.useStack.length > 16) return [];
+        const offset: Matrix = [1, 0, 0, 1, parseLength(element.getAttribute('x'), ctx.viewport.width) ?? 0, parseLength(element.getAttribute('y'), ctx.viewport.height) ?? 0];
+        ctx.useStack.push(element);
+        const shapes = walk(target, style, multiply(m, offset), ctx);
+        ctx.useStack.pop();
+        return shapes;
+    }
+    if (style.visibility === 'hidden' || style.visibility === 'collapse') return [];
+    return elementToShapes(element, style, m, ctx);
+};
+
+const walkChildren = (element: Element, style: Record<string, string>, m: Matrix, ctx: WalkContext): Shape[] =>
+    Array.from(element.children).flatMap(child => walk(child, style, m, ctx));
+
+export const isSvgFile = (file: File): boolean => file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+
+/** Whether the text looks like an SVG document, e.g. one pasted from a drawing app. */
+export const isSvgText = (text: string): boolean => /<svg[\s>]/i.test(text.substring(0, 4096));
+
+/**
+ * Converts an SVG document into editor shapes with the same look as far as Tk allows: transforms are
+ * flattened into positions, sizes and rotations, curves into smoothed point lists, and gradients into
+ * a plain colour. Returns null when the text isn't an SVG document.
+ */
+export function importSvg(svgText: string): SvgImportResult | null {
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (!root || root.localName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) return null;
+
+    const ids = new Map<string, Element>();
+    Array.from(root.getElementsByTagName('*')).forEach(element => {
+        const id = element.getAttribute('id');
+        if (id && !ids.has(id)) ids.set(id, element);
+    });
+    const ctx: WalkContext = { ids, rules: parseStyleSheets(root), viewport: { width: 300, height: 150 }, skippedCount: 0, useStack: [] };
+    const shapes = walk(root, DEFAULT_STYLE, IDENTITY, ctx, true);
+    return { shapes, skippedCount: ctx.skippedCount };
+}
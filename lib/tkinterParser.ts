@@ -0,0 +1,732 @@
+import { type Shape, type BuiltInBitmap, type JoinStyle, type ProjectVariable, RectangleShape, EllipseShape, LineShape, PolylineShape, BezierCurveShape, ArcShape, TextShape, BitmapShape, type ScrollViewport } from '../types';
+import { isUsablePythonName, toPythonIdentifier } from './pythonNames';
+import { STATE_STYLE_KEYS } from './constants';
+import { evaluateExpression, getBoundExpression, getShapeValue, setShapeExpression, usesVariables, type VariableScope } from './expressions';
+
+/** A literal Python value as it may appear in a Tkinter call. */
+export type PyValue = number | string | boolean | null | PyValue[];
+
+export interface PyCall {
+    positional: PyValue[];
+    options: Record<string, PyValue>;
+    /** Source of the numeric arguments written over project variables, keyed by position or option name. */
+    expressions: Record<string, string>;
+}
+
+export type TkinterParseFailure = 'syntax' | 'nonLiteral' | 'coords' | 'unsupported';
+
+export interface UnmappedLine {
+    lineNumber: number; // 1-based, first physical line of the statement
+    content: string;
+    reason: TkinterParseFailure;
+}
+
+export interface TkinterImportResult {
+    shapes: Shape[];
+    canvasSettings: { width?: number; height?: number; bgColor?: string; varName?: string; viewport?: ScrollViewport };
+    projectName?: string;
+    /** Module-level `NAME = value` assignments ahead of the canvas, without the built-in `W` and `H`. */
+    variables: ProjectVariable[];
+    unmappedLines: UnmappedLine[];
+}
+
+const SUPPORTED_ITEMS = ['rectangle', 'oval', 'line', 'polygon', 'arc', 'text', 'bitmap'];
+const BUILT_IN_BITMAPS: BuiltInBitmap[] = ['error', 'gray75', 'gray50', 'gray25', 'gray12', 'hourglass', 'info', 'questhead', 'question', 'warning'];
+// Tkinter constants that scripts using `from tkinter import *` may pass unquoted (e.g. arrow=LAST).
+const ANCHORS = ['nw', 'n', 'ne', 'w', 'center', 'e', 'sw', 's', 'se'];
+const TK_CONSTANTS = ['first', 'last', 'both', 'none', 'pieslice', 'chord', 'arc', 'miter', 'round', 'bevel', 'butt', 'projecting', 'normal', 'hidden', 'disabled', 'left', 'right', ...ANCHORS];
+
+class PyParseError extends Error {
+    constructor(public reason: TkinterParseFailure) {
+        super(reason);
+    }
+}
+
+/**
+ * Parses the argument list of a Python call (the text between the parentheses)
+ * into positional and keyword literals. Throws PyParseError on anything that is not a literal.
+ * With a `scope`, arithmetic over the project variables (as the generator writes for bound
+ * coordinates) is evaluated, and a colour variable's name reads as its colour.
+ */
+const parseCallArguments = (src: string, scope?: VariableScope): PyCall => {
+    let pos = 0;
+
+    const skipWs = () => { while (pos < src.length && /\s/.test(src[pos])) pos++; };
+
+    const parseString = (): string => {
+        const quote = src[pos];
+        const isTriple = src.startsWith(quote.repeat(3), pos);
+        const terminator = isTriple ? quote.repeat(3) : quote;
+        pos += terminator.length;
+        let out = '';
+        while (pos < src.length && !src.startsWith(terminator, pos)) {
+            const ch = src[pos];
+            if (ch === '\\' && pos + 1 < src.length) {
+                const next = src[pos + 1];
+                out += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+                pos += 2;
+            } else {
+                out += ch;
+                pos++;
+            }
+        }
+        if (pos >= src.length) throw new PyParseError('syntax');
+        pos += terminator.length;
+        return out;
+    };
+
+    // The expression from `start` up to the next argument, evaluated over the scope.
+    const parseExpression = (start: number): number => {
+        let depth = 0;
+        let end = start;
+        for (; end < src.length; end++) {
+            const ch = src[end];
+            if (ch === '(' || ch === '[') depth++;
+            else if ((ch === ')' || ch === ']') && depth-- === 0) break;
+            else if (ch === ',' && depth === 0) break;
+        }
+        const value = scope ? evaluateExpression(src.slice(start, end), scope) : null;
+        if (value === null) throw new PyParseError('nonLiteral');
+        pos = end;
+        return value;
+    };
+    const isOperatorNext = () => {
+        skipWs();
+        return pos < src.length && /[-+*/%]/.test(src[pos]);
+    };
+
+    const parseValue = (): PyValue => {
+        skipWs();
+        const start = pos;
+        const ch = src[pos];
+        if (ch === undefined) throw new PyParseError('syntax');
+        if (ch === '"' || ch === "'") {
+            let str = parseString();
+            // Implicit concatenation: "abc" "def"
+            skipWs();
+            while (src[pos] === '"' || src[pos] === "'") {
+                str += parseString();
+                skipWs();
+            }
+            return str;
+        }
+        if (ch === '(' || ch === '[') {
+            const close = ch === '(' ? ')' : ']';
+            pos++;
+            const items: PyValue[] = [];
+            skipWs();
+            while (src[pos] !== close) {
+                items.push(parseValue());
+                skipWs();
+                if (src[pos] === ',') { pos++; skipWs(); continue; }
+                if (src[pos] !== close) throw new PyParseError('syntax');
+            }
+            pos++;
+            // A bracketed term of a longer expression, e.g. `(W - 20) / 2`.
+            if (isOperatorNext()) return parseExpression(start);
+            return items;
+        }
+        const numMatch = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(src.slice(pos));
+        if (numMatch) {
+            pos += numMatch[0].length;
+            skipWs();
+            // Arithmetic such as `100 + x` is not a literal.
+            if (pos < src.length && /[-+*/%]/.test(src[pos])) return parseExpression(start);
+            return parseFloat(numMatch[0]);
+        }
+        const identMatch = /^[A-Za-z_][\w.]*/.exec(src.slice(pos));
+        if (identMatch) {
+            pos += identMatch[0].length;
+            const name = identMatch[0].replace(/^(tk|tkinter)\./, '');
+            if (name === 'True') return true;
+            if (name === 'False') return false;
+            if (name === 'None') return null;
+            // The canvas width `W` is also the anchor constant, so the script's own variables come first.
+            const variable = scope?.[identMatch[0]];
+            if (typeof variable === 'string' && !isOperatorNext()) return variable;
+            if (variable === undefined && TK_CONSTANTS.includes(name.toLowerCase()) && name === name.toUpperCase()) return name.toLowerCase();
+            return parseExpression(start);
+        }
+        if (ch === '-' || ch === '+') return parseExpression(start);
+        throw new PyParseError('syntax');
+    };
+
+    const call: PyCall = { positional: [], options: {}, expressions: {} };
+    const parseArgument = (key: string): PyValue => {
+        skipWs();
+        const start = pos;
+        const value = parseValue();
+        const source = src.slice(start, pos).trim();
+        if (typeof value === 'number' && usesVariables(source)) call.expressions[key] = source;
+        return value;
+    };
+    skipWs();
+    while (pos < src.length) {
+        const kwMatch = /^([A-Za-z_]\w*)\s*=(?!=)/.exec(src.slice(pos));
+        if (kwMatch) {
+            pos += kwMatch[0].length;
+            call.options[kwMatch[1]] = parseArgument(kwMatch[1]);
+        } else {
+            if (Object.keys(call.options).length > 0) throw new PyParseError('syntax');
+            call.positional.push(parseArgument(String(call.positional.length)));
+        }
+        skipWs();
+        if (src[pos] === ',') { pos++; skipWs(); continue; }
+        if (pos < src.length) throw new PyParseError('syntax');
+    }
+    return call;
+};
+
+/** Returns the index of the bracket closing the one at `openIndex`, skipping string literals. */
+const findClosingBracket = (src: string, openIndex: number): number => {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = openIndex; i < src.length; i++) {
+        const ch = src[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+};
+
+/** Removes a trailing `# comment`, ignoring `#` characters inside string literals. */
+const stripTrailingComment = (line: string): string => {
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#') {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+};
+
+/**
+ * Splits a script into logical statements, joining physical lines while brackets
+ * are open or a line ends with a backslash.
+ */
+const splitStatements = (code: string): { lineNumber: number; text: string; comment: string | null; isIndented: boolean }[] => {
+    const physical = code.replace(/\r\n?/g, '\n').split('\n');
+    const statements: { lineNumber: number; text: string; comment: string | null; isIndented: boolean }[] = [];
+    let buffer = '';
+    let startLine = 0;
+    let depth = 0;
+
+    physical.forEach((raw, index) => {
+        const trimmed = raw.trim();
+        if (!buffer && trimmed.startsWith('#')) {
+            statements.push({ lineNumber: index + 1, text: '', comment: trimmed.replace(/^#\s?/, ''), isIndented: /^\s/.test(raw) });
+            return;
+        }
+        const code = stripTrailingComment(raw);
+        if (!buffer) startLine = index + 1;
+        buffer += (buffer ? ' ' : '') + code.trim().replace(/\\$/, '');
+
+        let quote: string | null = null;
+        for (let i = 0; i < code.length; i++) {
+            const ch = code[i];
+            if (quote) {
+                if (ch === '\\') i++;
+                else if (ch === quote) quote = null;
+            } else if (ch === '"' || ch === "'") quote = ch;
+            else if ('([{'.includes(ch)) depth++;
+            else if (')]}'.includes(ch)) depth--;
+        }
+
+        if (depth <= 0 && !code.trimEnd().endsWith('\\')) {
+            statements.push({ lineNumber: startLine, text: buffer.trim(), comment: null, isIndented: /^\s/.test(physical[startLine - 1]) });
+            buffer = '';
+            depth = 0;
+        }
+    });
+    if (buffer.trim()) statements.push({ lineNumber: startLine, text: buffer.trim(), comment: null, isIndented: /^\s/.test(physical[startLine - 1]) });
+    return statements;
+};
+
+const flattenNumbers = (values: PyValue[]): number[] | null => {
+    const out: number[] = [];
+    const walk = (v: PyValue): boolean => {
+        if (typeof v === 'number') { out.push(v); return true; }
+        if (Array.isArray(v)) return v.every(walk);
+        return false;
+    };
+    return values.every(walk) ? out : null;
+};
+
+const toPoints = (coords: number[]): { x: number; y: number }[] => {
+    const points: { x: number; y: number }[] = [];
+    for (let i = 0; i + 1 < coords.length; i += 2) points.push({ x: coords[i], y: coords[i + 1] });
+    return points;
+};
+
+const str = (v: PyValue | undefined): string | undefined => (typeof v === 'string' ? v : undefined);
+const num = (v: PyValue | undefined): number | undefined => (typeof v === 'number' ? v : typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v)) ? Number(v) : undefined);
+// Tk reads booleans given as strings too, e.g. the generator's `smooth="True"`.
+const bool = (v: PyValue | undefined): boolean => v === true || v === 1 || (typeof v === 'string' && ['1', 'true', 'yes', 'on'].includes(v.trim().toLowerCase()));
+const colorOrNone = (v: PyValue | undefined, fallback: string): string => {
+    if (v === undefined || v === null) return fallback;
+    const s = String(v);
+    return s === '' ? 'none' : s;
+};
+
+const parseTags = (v: PyValue | undefined): string | undefined => {
+    if (v === undefined || v === null) return undefined;
+    const list = Array.isArray(v) ? v.map(String) : String(v).split(/\s+/);
+    const tags = list.map(s => s.trim()).filter(Boolean);
+    return tags.length > 0 ? tags.join('\n') : undefined;
+};
+
+const parseFont = (v: PyValue | undefined): { font: string; fontSize: number; weight: 'normal' | 'bold'; slant: 'roman' | 'italic'; underline: boolean; overstrike: boolean } => {
+    const result = { font: 'Arial', fontSize: 12, weight: 'normal' as 'normal' | 'bold', slant: 'roman' as 'roman' | 'italic', underline: false, overstrike: false };
+    if (v === undefined || v === null) return result;
+    const parts: string[] = Array.isArray(v) ? v.map(p => String(p)) : String(v).replace(/[{}]/g, '').split(/\s+/).filter(Boolean);
+    const sizeIndex = parts.findIndex(p => /^-?\d+$/.test(p));
+    const familyParts = sizeIndex === -1 ? parts.slice(0, 1) : parts.slice(0, sizeIndex);
+    if (familyParts.length > 0) result.font = familyParts.join(' ');
+    if (sizeIndex !== -1) result.fontSize = Math.abs(parseInt(parts[sizeIndex], 10)) || result.fontSize;
+    const modifiers = (sizeIndex === -1 ? parts.slice(1) : parts.slice(sizeIndex + 1)).flatMap(p => p.split(/\s+/));
+    if (modifiers.includes('bold')) result.weight = 'bold';
+    if (modifiers.includes('italic')) result.slant = 'italic';
+    if (modifiers.includes('underline')) result.underline = true;
+    if (modifiers.includes('overstrike')) result.overstrike = true;
+    return result;
+};
+
+const parseState = (v: PyValue | undefined): 'normal' | 'hidden' | 'disabled' => (v === 'hidden' || v === 'disabled' ? v : 'normal');
+
+/** Tkinter dash/arrow sizes are absolute; the editor stores them relative to the stroke width. */
+const scaledByWidth = (v: PyValue | undefined, strokeWidth: number): number[] | undefined => {
+    const values = Array.isArray(v) ? flattenNumbers(v) : typeof v === 'number' ? [v] : null;
+    if (!values || values.length === 0) return undefined;
+    const w = strokeWidth > 0 ? strokeWidth : 1;
+    return values.map(n => Math.round((n / w) * 100) / 100);
+};
+
+/**
+ * Converts a single parsed `create_*` call into an editor shape.
+ * @param item - The item kind, e.g. 'oval' for `create_oval`.
+ * @param call - The parsed arguments of the call.
+ * @param id - The id to assign to the new shape.
+ */
+export function tkinterCallToShape(item: string, call: PyCall, id: string): Shape | TkinterParseFailure {
+    if (!SUPPORTED_ITEMS.includes(item)) return 'unsupported';
+    const o = call.options;
+    const coords = flattenNumbers(call.positional);
+    if (!coords) return 'nonLiteral';
+
+    const state = parseState(o.state);
+    const tags = parseTags(o.tags);
+    const strokeWidth = num(o.width) ?? 1;
+    const dashProps = () => {
+        const dash = scaledByWidth(o.dash, strokeWidth);
+        const dashoffset = num(o.dashoffset);
+        return { ...(dash ? { dash } : {}), ...(dash && dashoffset !== undefined ? { dashoffset } : {}) };
+    };
+    const grayStipple = (value: PyValue) => ['gray12', 'gray25', 'gray50', 'gray75'].includes(str(value) || '') ? str(value) as 'gray12' | 'gray25' | 'gray50' | 'gray75' : undefined;
+    const stipple = grayStipple(o.stipple);
+    // A line's `stipple` covers the line itself, which is its outline here.
+    const outlineStipple = grayStipple(item === 'line' ? o.stipple : o.outlinestipple);
+    const joinstyle = ['miter', 'round', 'bevel'].includes(str(o.joinstyle) || '') ? str(o.joinstyle) as JoinStyle : undefined;
+    // `active*` and `disabled*` options; a line's `activefill` is the colour of the line, like its `fill`.
+    const stateStyleProps = (isLine: boolean) => {
+        const props: Record<string, any> = {};
+        (['active', 'disabled'] as const).forEach(state => {
+            const keys = STATE_STYLE_KEYS[state];
+            const fill = o[`${state}fill`];
+            const outline = o[`${state}outline`];
+            const width = num(o[`${state}width`]);
+            const dash = scaledByWidth(o[`${state}dash`], width ?? strokeWidth);
+            if (fill !== undefined) props[isLine ? keys.stroke : keys.fill] = colorOrNone(fill, 'none');
+            if (outline !== undefined && !isLine) props[keys.stroke] = colorOrNone(outline, 'none');
+            if (width !== undefined) props[keys.strokeWidth] = width;
+            if (dash) props[keys.dash] = dash;
+        });
+        return props;
+    };
+    const base = { id, state, rotation: 0, ...(tags ? { tags } : {}) };
+
+    // Closed items: `fill` is the interior, `outline` the border (black by default).
+    const closedStyle = () => {
+        const outline = colorOrNone(o.outline, '#000000');
+        return {
+            fill: colorOrNone(o.fill, 'none'),
+            stroke: outline,
+            strokeWidth: outline === 'none' ? 0 : strokeWidth,
+            ...(stipple ? { stipple } : {}),
+            ...(outlineStipple ? { outlineStipple } : {}),
+            ...dashProps(),
+            ...stateStyleProps(false),
+        };
+    };
+
+    switch (item) {
+        case 'rectangle':
+        case 'oval': {
+            if (coords.length !== 4) return 'coords';
+            const [x1, y1, x2, y2] = coords;
+            const x = Math.min(x1, x2), y = Math.min(y1, y2), width = Math.abs(x2 - x1), height = Math.abs(y2 - y1);
+            if (item === 'rectangle') {
+                return { ...base, type: 'rectangle', x, y, width, height, ...closedStyle() } as RectangleShape;
+            }
+            return { ...base, type: 'ellipse', cx: x + width / 2, cy: y + height / 2, rx: width / 2, ry: height / 2, isAspectRatioLocked: width === height, ...closedStyle() } as EllipseShape;
+        }
+        case 'arc': {
+            if (coords.length !== 4) return 'coords';
+            const [x1, y1, x2, y2] = coords;
+            const style = (['pieslice', 'chord', 'arc'].includes(str(o.style) || '') ? str(o.style) : 'pieslice') as ArcShape['style'];
+            const styled = closedStyle();
+            return {
+                ...base, type: 'arc',
+                x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1),
+                start: num(o.start) ?? 0, extent: num(o.extent) ?? 90, style,
+                ...styled,
+                fill: style === 'arc' ? 'none' : styled.fill,
+            } as ArcShape;
+        }
+        case 'line': {
+            if (coords.length < 4 || coords.length % 2 !== 0) return 'coords';
+            const points = toPoints(coords);
+            const stroke = colorOrNone(o.fill, '#000000');
+            const arrow = (['first', 'last', 'both'].includes(str(o.arrow) || '') ? str(o.arrow) : undefined) as LineShape['arrow'];
+            const arrowshape = (scaledByWidth(o.arrowshape, strokeWidth) || scaledByWidth([8, 10, 3], strokeWidth)) as [number, number, number];
+            const capstyle = (['butt', 'round', 'projecting'].includes(str(o.capstyle) || '') ? str(o.capstyle) : undefined) as LineShape['capstyle'];
+            const lineStyle = { stroke, strokeWidth: stroke === 'none' ? 0 : strokeWidth, arrowshape, ...(arrow ? { arrow } : {}), ...(capstyle ? { capstyle } : {}), ...(outlineStipple ? { outlineStipple } : {}), ...dashProps(), ...stateStyleProps(true) };
+            if (points.length === 2) {
+                return { ...base, type: 'line', points: [points[0], points[1]], ...lineStyle } as LineShape;
+            }
+            if (bool(o.smooth)) {
+                return { ...base, type: 'bezier', points, isClosed: false, smooth: true, splinesteps: num(o.splinesteps) ?? 12, fill: 'none', ...(joinstyle ? { joinstyle } : {}), ...lineStyle } as BezierCurveShape;
+            }
+            return { ...base, type: 'polyline', points, isClosed: false, fill: 'none', ...(joinstyle ? { joinstyle } : {}), ...lineStyle } as PolylineShape;
+        }
+        case 'polygon': {
+            if (coords.length < 6 || coords.length % 2 !== 0) return 'coords';
+            const points = toPoints(coords);
+            // Unlike other closed items, a polygon has no outline unless one is given.
+            const outline = colorOrNone(o.outline, 'none');
+            const polygonStyle = {
+                fill: colorOrNone(o.fill, '#000000'),
+                stroke: outline,
+                strokeWidth: outline === 'none' ? 0 : strokeWidth,
+                ...(stipple ? { stipple } : {}),
+                ...(outlineStipple ? { outlineStipple } : {}),
+                ...(joinstyle ? { joinstyle } : {}),
+                ...dashProps(),
+                ...stateStyleProps(false),
+            };
+            if (bool(o.smooth)) {
+                return { ...base, type: 'bezier', points, isClosed: true, smooth: true, splinesteps: num(o.splinesteps) ?? 12, ...polygonStyle } as BezierCurveShape;
+            }
+            return { ...base, type: 'polyline', points, isClosed: true, ...polygonStyle } as PolylineShape;
+        }
+        case 'text': {
+            if (coords.length !== 2) return 'coords';
+            const anchor = (ANCHORS.includes(str(o.anchor) || '') ? str(o.anchor) : 'center') as TextShape['anchor'];
+            const justify = (['left', 'center', 'right'].includes(str(o.justify) || '') ? str(o.justify) : 'left') as TextShape['justify'];
+            return {
+                ...base, type: 'text',
+                x: coords[0], y: coords[1],
+                text: o.text === undefined || o.text === null ? '' : String(o.text),
+                ...parseFont(o.font),
+                fill: colorOrNone(o.fill, '#000000'),
+                stroke: 'none', strokeWidth: 0,
+                anchor, justify,
+                width: num(o.width) ?? 0,
+                rotation: num(o.angle) ?? 0,
+                ...(stipple ? { stipple } : {}),
+                ...stateStyleProps(false),
+            } as TextShape;
+        }
+        case 'bitmap': {
+            if (coords.length !== 2) return 'coords';
+            const bitmapType = str(o.bitmap) as BuiltInBitmap;
+            if (!BUILT_IN_BITMAPS.includes(bitmapType)) return 'unsupported';
+            const size = 50;
+            return {
+                ...base, type: 'bitmap',
+                x: coords[0] - size / 2, y: coords[1] - size / 2, width: size, height: size,
+                bitmapType,
+                foreground: colorOrNone(o.foreground, '#000000'),
+                background: colorOrNone(o.background, '#ffffff'),
+                stroke: 'none', strokeWidth: 0,
+            } as BitmapShape;
+        }
+    }
+    return 'unsupported';
+}
+
+/**
+ * The shape with the expressions its call wrote for the bounding box and width, under the keys the
+ * generator writes them back for. Ones that don't give the shape's value (e.g. the points of a line) are left out.
+ */
+const bindCallExpressions = (shape: Shape, call: PyCall, scope: VariableScope): Shape => {
+    const coordKeys = call.positional.length === 4 ? ['x1', 'y1', 'x2', 'y2'] : call.positional.length === 2 ? ['x1', 'y1'] : [];
+    let bound = shape;
+    [...coordKeys.map((key, i) => [key, call.expressions[i]]), ['width', call.expressions.width]].forEach(([key, expression]) => {
+        if (!expression || getShapeValue(shape, key) === null) return;
+        const next = setShapeExpression(bound, key, expression);
+        if (getBoundExpression(next, key, scope) !== undefined) bound = next;
+    });
+    return bound;
+};
+
+const CREATE_CALL_RE = /^(?:(?:self\.)?([A-Za-z_]\w*)\s*=\s*)?([A-Za-z_][\w.]*)\.create_(\w+)\s*\(/;
+
+/**
+ * Parses a single `canvas.create_*(...)` statement. Used both by the script importer
+ * and by in-place code editing.
+ * @returns The shape, or the reason the statement could not be mapped. Returns null when the
+ * statement is not a `create_*` call at all.
+ */
+export function parseTkinterStatement(statement: string, id: string, scope?: VariableScope): { shape: Shape; variableName?: string } | TkinterParseFailure | null {
+    const text = stripTrailingComment(statement).trim();
+    const match = CREATE_CALL_RE.exec(text);
+    if (!match) return null;
+    if (!SUPPORTED_ITEMS.includes(match[3])) return 'unsupported';
+    const openIndex = match[0].length - 1;
+    const closeIndex = findClosingBracket(text, openIndex);
+    if (closeIndex === -1 || text.slice(closeIndex + 1).trim() !== '') return 'syntax';
+    try {
+        const call = parseCallArguments(text.slice(openIndex + 1, closeIndex), scope);
+        const shape = tkinterCallToShape(match[3], call, id);
+        if (typeof shape === 'string') return shape;
+        return { shape: bindCallExpressions(shape, call, scope || {}), variableName: match[1] };
+    } catch (e) {
+        if (e instanceof PyParseError) return e.reason;
+        throw e;
+    }
+}
+
+// Statements that only set up the window and carry no drawing information.
+const STRUCTURAL_RE = [
+    /^(from\s+\S+\s+)?import\s/,
+    /^[\w.]+\s*=\s*(?:[\w.]+\.)?Tk\(\s*\)$/,
+    /^[\w.]+\.(pack|grid|place|mainloop|resizable|update|rowconfigure|columnconfigure)\(.*\)$/,
+    // Wiring scrollbars to the canvas; any other config() changes how things look.
+    /^[\w.]+\.(config|configure)\(\s*[xy]scrollcommand\s*=\s*[\w.]+(\s*,\s*[xy]scrollcommand\s*=\s*[\w.]+)?\s*\)$/,
+    /^[\w.]+\s*=\s*(?:[\w.]+\.)?Scrollbar\(.*\)$/,
+    /^if\s+__name__\s*==\s*['"]__main__['"]\s*:$/,
+    /^(def|class)\s.*:$/,
+    // The empty body of a stub, such as the command of a widget.
+    /^pass$/,
+    /^(super\(\)\.__init__|[A-Za-z_]\w*)\(.*\)$/,
+    // Scaffolding of the `class App(tk.Tk)` code style.
+    /^self\.draw\(\)$/,
+    /^\w+\s*=\s*App\(\)$/,
+    // The window size written over the canvas variables; the Canvas line gives the same size.
+    /^[\w.]+\.geometry\(\s*f(['"])\{W\}x\{H\}\1\s*\)$/,
+];
+
+/**
+ * Parses a hand-written or generated Tkinter script into editor shapes.
+ * Literal `create_*` calls become shapes; window/canvas setup becomes canvas settings and the
+ * variables set ahead of the canvas become project variables, which the calls may use as the
+ * generator writes them; every other statement that cannot be represented is reported in `unmappedLines`.
+ */
+export function parseTkinterScript(code: string): TkinterImportResult {
+    const result: TkinterImportResult = { shapes: [], canvasSettings: {}, variables: [], unmappedLines: [] };
+    // The project variables the script defines, evaluated in order like getVariableScope does.
+    const scope: VariableScope = {};
+    const idPrefix = `import-${Date.now()}`;
+    let pendingComments: string[] = [];
+    let hasWheelScrolling = false;
+
+    splitStatements(code).forEach(({ lineNumber, text, comment, isIndented }) => {
+        if (comment !== null) {
+            // Section headers such as "# --- Shapes ---" describe the script, not the next shape.
+            if (!/^-{2,}/.test(comment.trim())) pendingComments.push(comment);
+            return;
+        }
+        const comments = pendingComments;
+        pendingComments = [];
+        if (!text) return;
+
+        const parsed = parseTkinterStatement(text, `${idPrefix}-${result.shapes.length}`, scope);
+        if (parsed && typeof parsed === 'object') {
+            const shape = parsed.shape;
+            if (comments.length === 1) shape.name = comments[0].trim();
+            else if (comments.length > 1) shape.comment = comments.join('\n');
+            if (!shape.name && parsed.variableName) shape.name = parsed.variableName;
+            result.shapes.push(shape);
+            return;
+        }
+        if (typeof parsed === 'string') {
+            result.unmappedLines.push({ lineNumber, content: text, reason: parsed });
+            return;
+        }
+
+        const canvasMatch = /^([A-Za-z_][\w.]*)\s*=\s*(?:[\w.]+\.)?Canvas\s*\(/.exec(text);
+        if (canvasMatch) {
+            const closeIndex = findClosingBracket(text, canvasMatch[0].length - 1);
+            try {
+                const call = parseCallArguments(text.slice(canvasMatch[0].length, closeIndex).replace(/^\s*[A-Za-z_][\w.]*\s*(,|$)/, ''), scope);
+                const o = call.options;
+                result.canvasSettings.varName = canvasMatch[1].replace(/^self\./, '');
+                // With a scroll region the canvas is that big, and width/height are only its window.
+                const region = Array.isArray(o.scrollregion) ? o.scrollregion.map(num) : [];
+                if (region.length === 4 && region.every(value => value !== undefined)) {
+                    const [x1, y1, x2, y2] = region as number[];
+                    result.canvasSettings.width = x2 - x1;
+                    result.canvasSettings.height = y2 - y1;
+                    result.canvasSettings.viewport = { width: num(o.width) ?? x2 - x1, height: num(o.height) ?? y2 - y1, mouseWheel: false };
+                } else {
+                    if (num(o.width) !== undefined) result.canvasSettings.width = num(o.width);
+                    if (num(o.height) !== undefined) result.canvasSettings.height = num(o.height);
+                }
+                const bg = str(o.bg) ?? str(o.background);
+                if (bg) result.canvasSettings.bgColor = bg;
+            } catch (e) {
+                result.unmappedLines.push({ lineNumber, content: text, reason: e instanceof PyParseError ? e.reason : 'syntax' });
+            }
+            return;
+        }
+
+        // Variables are set at module level ahead of the canvas, as the generator writes them.
+        const assignmentMatch = /^([A-Za-z_]\w*)\s*=(?!=)\s*(.+)$/.exec(text);
+        if (assignmentMatch && !isIndented && result.canvasSettings.varName === undefined && isUsablePythonName(assignmentMatch[1]) && !(assignmentMatch[1] in scope)) {
+            const [, name, source] = assignmentMatch;
+            let value: PyValue | undefined;
+            try {
+                const call = parseCallArguments(source, scope);
+                if (call.positional.length === 1 && Object.keys(call.options).length === 0) value = call.positional[0];
+            } catch (e) {
+                if (!(e instanceof PyParseError)) throw e;
+            }
+            if (typeof value === 'number' || typeof value === 'string') {
+                scope[name] = value;
+                if (name !== 'W' && name !== 'H') result.variables.push({ name, value: typeof value === 'number' ? source.trim() : value });
+                return;
+            }
+        }
+
+        const titleMatch = /^[\w.]+\.title\(\s*(['"])(.*)\1\s*\)$/.exec(text);
+        if (titleMatch) {
+            result.projectName = titleMatch[2];
+            return;
+        }
+        const geometryMatch = /^[\w.]+\.geometry\(\s*['"](\d+)x(\d+)/.exec(text);
+        if (geometryMatch) {
+            if (result.canvasSettings.width === undefined) result.canvasSettings.width = parseInt(geometryMatch[1], 10);
+            if (result.canvasSettings.height === undefined) result.canvasSettings.height = parseInt(geometryMatch[2], 10);
+            return;
+        }
+        if (/^[\w.]+\.bind_all\(\s*['"]<(Shift-)?(MouseWheel|Button-[45])>/.test(text)) {
+            hasWheelScrolling = true;
+            return;
+        }
+        // A bare create_* call looks like any function call, but it is a shape with no canvas to place it on.
+        if (!/^create_\w+\s*\(/.test(text) && STRUCTURAL_RE.some(re => re.test(text))) return;
+
+        result.unmappedLines.push({ lineNumber, content: text, reason: 'unsupported' });
+    });
+
+    if (result.canvasSettings.viewport) result.canvasSettings.viewport.mouseWheel = hasWheelScrolling;
+    return result;
+}
+
+// Shape properties a `create_*` call sets. An edited line replaces them (an option taken out of the
+// line goes back to Tk's default); every other property belongs to the editor and is kept.
+const TK_OPTION_KEYS = new Set<string>([
+    'type', 'state', 'tags', 'rotation', 'expressions',
+    'x', 'y', 'width', 'height', 'cx', 'cy', 'rx', 'ry', 'points', 'isClosed', 'smooth', 'splinesteps', 'start', 'extent', 'style',
+    'fill', 'stroke', 'strokeWidth', 'dash', 'dashoffset', 'stipple', 'outlineStipple', 'joinstyle', 'capstyle', 'arrow', 'arrowshape',
+    ...Object.values(STATE_STYLE_KEYS.active), ...Object.values(STATE_STYLE_KEYS.disabled),
+    'text', 'font', 'fontSize', 'weight', 'slant', 'underline', 'overstrike', 'anchor', 'justify',
+    'bitmapType', 'foreground', 'background',
+]);
+// What a shape keeps when its line now makes another kind of shape, with flips and rotation baked into the points.
+const SHAPE_IDENTITY_KEYS = ['name', 'comment', 'events', 'groupId', 'isImport', '_previousStroke', '_previousFill'];
+
+/**
+ * The original's variable expressions that still hold after an edit, plus those the edited line writes.
+ * One the original followed is dropped once the edited value differs from it, so typing a number
+ * over it unbinds only that value.
+ */
+const keepExpressions = (original: Shape, edited: Shape, scope: VariableScope): Shape => {
+    if (!original.expressions) return edited;
+    let next = { ...edited, expressions: { ...original.expressions, ...edited.expressions } } as Shape;
+    Object.keys(original.expressions).forEach(key => {
+        if (getBoundExpression(original, key, scope) !== undefined && getBoundExpression(next, key, scope) === undefined) {
+            next = setShapeExpression(next, key, null);
+        }
+    });
+    return next;
+};
+
+/**
+ * Applies an edited `create_*` line from the code panel to the shape it was generated from.
+ * When the line still produces the same shape type, only the properties the line sets change;
+ * otherwise (e.g. a rotated rectangle emitted as `create_polygon`) the shape is replaced
+ * by the parsed one under the same id. `scope` holds the project variables the line may use.
+ * @returns The updated shape, or the reason the line is invalid.
+ */
+export function applyTkinterEditToShape(original: Shape, statement: string, allShapes: Shape[], scope: VariableScope = {}): Shape | TkinterParseFailure {
+    const parsed = parseTkinterStatement(statement, original.id, scope);
+    if (parsed === null) return 'syntax';
+    if (typeof parsed === 'string') return parsed;
+    const edited: any = parsed.shape;
+
+    // Tags inherited from parent groups and the system id tags are added by the generator, not owned by the shape.
+    const inheritedTags = new Set<string>([original.id]);
+    let currentGroupId = original.groupId;
+    while (currentGroupId) {
+        inheritedTags.add(currentGroupId);
+        const parentGroup = allShapes.find(s => s.id === currentGroupId);
+        (parentGroup?.tags || '').split('\n').map(t => t.trim()).filter(Boolean).forEach(t => inheritedTags.add(t));
+        currentGroupId = parentGroup?.groupId;
+    }
+    // Event binding tags are derived from the names of the shape and its groups (see generateTkinterCodeLocally).
+    const hasEvents = allShapes.some(s => s.events && s.events.length > 0);
+    const eventTagRes = hasEvents
+        ? [original, ...allShapes.filter(s => s.type === 'group')].filter(s => s === original || inheritedTags.has(s.id))
+            .map(s => toPythonIdentifier(s.name || ''))
+            .filter(Boolean)
+            .map(base => new RegExp(`^${base}_?(_\\d+)?$`))
+        : [];
+    const ownTags = (edited.tags || '').split('\n').filter((t: string) => t && !inheritedTags.has(t) && !eventTagRes.some(re => re.test(t)));
+    edited.tags = ownTags.length > 0 ? ownTags.join('\n') : undefined;
+
+    if (edited.type !== original.type) {
+        SHAPE_IDENTITY_KEYS.forEach(key => {
+            if ((original as any)[key] !== undefined && edited[key] === undefined) edited[key] = (original as any)[key];
+        });
+        // The timeline keeps what the new shape can still animate; its rotation is now in the points.
+        const keyframes = (original.keyframes || [])
+            .map(keyframe => ({ ...keyframe, values: Object.fromEntries(Object.entries(keyframe.values).filter(([property]) => property !== 'rotation' && property in edited)) }))
+            .filter(keyframe => Object.keys(keyframe.values).length > 0);
+        if (keyframes.length > 0) edited.keyframes = keyframes;
+        return keepExpressions(original, edited, scope);
+    }
+
+    const shape: any = Object.fromEntries(Object.entries(original).filter(([key]) => !TK_OPTION_KEYS.has(key)));
+    Object.entries(edited).forEach(([key, value]) => {
+        if (TK_OPTION_KEYS.has(key) || !(key in shape)) shape[key] = value;
+    });
+    if (original.type === 'bitmap') {
+        // create_bitmap only carries the centre; keep the drawn size.
+        shape.x += shape.width / 2 - original.width / 2;
+        shape.y += shape.height / 2 - original.height / 2;
+        shape.width = original.width;
+        shape.height = original.height;
+    }
+    if (original.type === 'ellipse' || original.type === 'rectangle') {
+        // A rotated circle is emitted as a plain oval; rectangles keep their (unused by Tk) joinstyle.
+        if (original.type === 'ellipse') shape.rotation = original.rotation;
+        if ('joinstyle' in original) shape.joinstyle = original.joinstyle;
+    }
+    return keepExpressions(original, shape as Shape, scope);
+}
@@ -1417,7 +1417,238 @@ export const translations = {
     "share.testUrlLabel": "Тестове посилання (поточний превʼю)",
     "share.ghPagesWhyTitle": "💡 Чому сайт на GitHub Pages відкрив стартову сторінку?",
     "share.ghPagesWhyDesc": "На GitHub Pages зараз завантажена раніша версія редактора. Вона ще не містить оновленого коду зчитування посилань.",
-    "share.ghPagesWhyHint": "Опублікуйте/оновіть збірку проекту на GitHub Pages, і посилання відкриватиме проєкт там бездоганно."
+    "share.ghPagesWhyHint": "Опублікуйте/оновіть збірку проекту на GitHub Pages, і посилання відкриватиме проєкт там бездоганно.",
+    "import.tkinter.noShapes": "У Python-скрипті не знайдено жодного виклику create_*, який можна перетворити на фігури.",
+    "import.tkinter.success": "Tkinter-скрипт імпортовано: {count} фігур.",
+    "import.tkinter.partial": "Імпортовано {count} фігур. Не вдалося перетворити рядків: {skipped} — {lines}",
+    "code.edit.hint": "Двічі клацніть, щоб редагувати рядок. Enter — застосувати, Esc — скасувати.",
+    "code.edit.discardHint": "(Esc під час редагування — відкинути зміни)",
+    "code.edit.error.syntax": "Синтаксична помилка у виклику.",
+    "code.edit.error.nonLiteral": "Підтримуються лише числа, рядки та кортежі (без змінних і виразів).",
+    "code.edit.error.coords": "Неправильна кількість координат для цього елемента.",
+    "code.edit.error.unsupported": "Цей виклик або параметр не підтримується редактором.",
+    "settings.code.style": "Стиль коду",
+    "settings.code.styleDesc": "Структура згенерованої програми. Зберігається разом із проєктом.",
+    "settings.code.style.classic": "Класичний",
+    "settings.code.style.classicDesc": "from tkinter import *",
+    "settings.code.style.module": "Модуль tk",
+    "settings.code.style.moduleDesc": "import tkinter as tk",
+    "settings.code.style.function": "Функція main()",
+    "settings.code.style.functionDesc": "def main() + if __name__ == \"__main__\"",
+    "settings.code.style.class": "Клас App",
+    "settings.code.style.classDesc": "class App(tk.Tk) + draw()",
+    "settings.code.shapeVariables": "Змінні для фігур",
+    "settings.code.shapeVariablesDesc": "Присвоювати кожен елемент змінній з назвою фігури, напр. sun = c.create_oval(...).",
+    "code.comment.events": "# --- Події ---",
+    "events.title": "Події",
+    "events.titleDesc": "Обробники подій Tkinter, що генеруються як canvas.tag_bind(...)",
+    "events.sequence": "Подія",
+    "events.sequenceDesc": "Послідовність подій Tkinter",
+    "events.remove": "Видалити обробник",
+    "events.add": "Додати подію",
+    "events.action": "Дія",
+    "events.action.fill": "Змінити заливку",
+    "events.action.move": "Зсунути на dx/dy",
+    "events.action.toggleState": "Показати/сховати",
+    "events.action.showText": "Показати текст",
+    "events.action.custom": "Власний код Python",
+    "events.target": "Застосувати до",
+    "events.targetDesc": "Фігура або група, яку змінює дія",
+    "events.target.self": "Ця фігура",
+    "events.fill": "Колір",
+    "events.text": "Текст",
+    "events.codePlaceholder": "print(event.x, event.y)",
+    "events.codeDesc": "Тіло функції-обробника. Доступні змінні: event і полотно.",
+    "events.seq.click": "Клік",
+    "events.seq.doubleClick": "Подвійний клік",
+    "events.seq.release": "Відпускання кнопки",
+    "events.seq.rightClick": "Правий клік",
+    "events.seq.enter": "Наведення",
+    "events.seq.leave": "Вихід курсора",
+    "events.seq.drag": "Перетягування",
+    "code.comment.animation": "# --- Анімація ---",
+    "code.comment.animationUnsupported": "# {name}: під час анімації змінюється тип елемента Tkinter, тому її пропущено",
+    "menu.view.timeline": "Часова шкала анімації",
+    "animation.title": "Анімація",
+    "animation.play": "Відтворити",
+    "animation.pause": "Пауза",
+    "animation.replay": "Відтворити анімацію знову",
+    "animation.duration": "Тривалість",
+    "animation.durationDesc": "Тривалість анімації в секундах",
+    "animation.fpsDesc": "Кадрів за секунду у згенерованому циклі root.after",
+    "animation.loop": "Повторювати",
+    "animation.addKeyframe": "Ключовий кадр",
+    "animation.addKeyframeDesc": "Зберегти поточний стан виділеної фігури в позиції повзунка",
+    "animation.keyframeTime": "Час ключового кадру",
+    "animation.easingDesc": "Згладжування руху до цього ключового кадру",
+    "animation.easing.linear": "Лінійно",
+    "animation.easing.easeIn": "Розгін",
+    "animation.easing.easeOut": "Гальмування",
+    "animation.easing.easeInOut": "Плавно",
+    "animation.deleteKeyframe": "Видалити ключовий кадр",
+    "animation.close": "Закрити часову шкалу",
+    "animation.empty": "Виділіть фігуру та додайте ключовий кадр, щоб почати анімацію.",
+    "settings.code.compressLoops": "Згортати повтори в цикли",
+    "settings.code.compressLoopsDesc": "Малювати послідовні фігури, що відрізняються лише рівномірним кроком координат, розміру чи кольору, одним циклом for i in range(n).",
+    "settings.code.groupFunctions": "Групи як функції",
+    "settings.code.groupFunctionsDesc": "Створювати для кожної групи верхнього рівня функцію draw_<назва>(canvas, x, y, scale=1) і малювати групу її викликом.",
+    "code.comment.groupFunctions": "# --- Функції для малювання груп ---",
+    "code.comment.resize": "# --- Масштабування під розмір вікна ---",
+    "settings.code.resize": "Зміна розміру вікна",
+    "settings.code.resizeDesc": "Як згенероване полотно реагує, коли користувач змінює розмір вікна.",
+    "settings.code.resize.fixed": "Фіксований розмір",
+    "settings.code.resize.fixedDesc": "Полотно завжди має розмір проєкту.",
+    "settings.code.resize.stretch": "Розтягувати",
+    "settings.code.resize.stretchDesc": "Фігури масштабуються окремо по ширині та висоті.",
+    "settings.code.resize.keepAspect": "Зберігати пропорції",
+    "settings.code.resize.keepAspectDesc": "Фігури масштабуються однаково за меншим із коефіцієнтів.",
+    "settings.code.scaleFonts": "Масштабувати шрифти",
+    "settings.code.scaleFontsDesc": "Змінювати розмір шрифту текстів разом із фігурами.",
+    "preview.resizeHint": "Потягніть за нижній правий кут, щоб змінити розмір вікна",
+    "settings.code.turtle": "Python turtle (локально)",
+    "settings.code.turtleDesc": "Генерує програму з модулем turtle: penup/goto/pendown, begin_fill, circle і write. Те, чого turtle не вміє, наближується та позначається в коментарях.",
+    "turtle.warn.unsupported": "Увага: turtle не вміє малювати {type}, тому фігуру пропущено",
+    "turtle.warn.ellipse": "Увага: у turtle немає еліпсів, тому його намальовано багатокутником",
+    "turtle.warn.ellipticalArc": "Увага: turtle малює дуги лише кіл, тому цю дугу наближено відрізками",
+    "turtle.warn.smooth": "Увага: згладжену криву наближено короткими прямими відрізками",
+    "turtle.warn.dash": "Увага: turtle не малює пунктир, тому лінія суцільна",
+    "turtle.warn.arrow": "Увага: turtle не малює стрілки на кінцях ліній",
+    "turtle.warn.stipple": "Увага: turtle не підтримує штрихування, тому заливка суцільна",
+    "turtle.warn.textRotation": "Увага: turtle не обертає текст",
+    "settings.code.pygame": "pygame (локально)",
+    "settings.code.pygameDesc": "Генерує програму pygame з циклом подій, яка малює фігури через pygame.draw і pygame.font. Пунктир і стрілки малюються вручну, решта обмежень позначається в коментарях.",
+    "pygame.warn.unsupported": "Увага: pygame не вміє малювати {type}, тому фігуру пропущено",
+    "pygame.warn.stipple": "Увага: pygame не підтримує штрихування, тому заливка суцільна",
+    "pygame.warn.textRotation": "Увага: текст намальовано без повороту",
+    "settings.code.canvas": "HTML5 Canvas / JavaScript (локально)",
+    "settings.code.canvasDesc": "Генерує JavaScript для Canvas 2D: beginPath, ellipse, arc, quadraticCurveTo, setLineDash і fillText.",
+    "settings.code.canvasHtmlPage": "Повна HTML-сторінка",
+    "settings.code.canvasHtmlPageDesc": "Вбудовує функцію draw(ctx) у сторінку з елементом <canvas>, яка її викликає. Якщо вимкнено, генерується лише функція.",
+    "code.htmlFile": "HTML файл",
+    "code.jsFile": "JavaScript файл",
+    "canvas.comment.images": "Зображення, вбудовані як data URL",
+    "canvas.comment.waitForImages": "Викликайте draw(ctx), коли зображення завантажаться:",
+    "canvas.warn.unsupported": "Увага: у Canvas немає аналога {type}, тому фігуру пропущено",
+    "canvas.warn.stipple": "Увага: у Canvas немає штрихування, тому заливка суцільна",
+    "canvas.warn.textDecoration": "Увага: fillText не підкреслює й не закреслює текст",
+    "settings.code.pillow": "Pillow — зображення PNG (локально)",
+    "settings.code.pillowDesc": "Генерує скрипт без графічного інтерфейсу: Image.new і ImageDraw малюють фігури та зберігають малюнок у PNG.",
+    "pillow.warn.unsupported": "Увага: Pillow не вміє малювати {type}, тому фігуру пропущено",
+    "pillow.warn.stipple": "Увага: Pillow не підтримує штрихування, тому заливка суцільна",
+    "pillow.warn.textRotation": "Увага: текст намальовано без повороту",
+    "pillow.warn.textDecoration": "Увага: ImageDraw не підкреслює й не закреслює текст",
+    "export.bundle": "Пакет проєкту (ZIP)",
+    "export.bundleDesc": "Архів із кодом Python, папкою assets/ з усіма зображеннями у форматі PNG і файлом проєкту .vec.json. Код завантажує зображення з файлів за відносними шляхами.",
+    "settings.code.nativeImages": "Зображення без Pillow",
+    "settings.code.nativeImagesDesc": "Вбудовувати зображення через PhotoImage(data=...) з Tkinter, заздалегідь змінивши їхній розмір до розміру фігури. Pillow потрібен лише для повернутих або віддзеркалених зображень.",
+    "code.comment.variables": "# --- Змінні ---",
+    "variables.title": "Змінні",
+    "variables.desc": "Змінні можна вживати у полях координат і товщини (напр. W - margin). Вони з'являються на початку згенерованого коду, а фігури стежать за ними, коли значення змінюються.",
+    "variables.name": "Назва змінної",
+    "variables.value": "Значення змінної",
+    "variables.delete": "Видалити змінну",
+    "variables.add": "Додати змінну",
+    "variables.builtInDesc": "Розмір полотна, завжди доступний",
+    "variables.colorDesc": "Кольорова змінна: фігури з цим кольором використовуватимуть її в коді",
+    "variables.error.invalidName": "Назва має бути ідентифікатором Python, що не збігається з ключовим словом чи іменем у коді.",
+    "variables.error.builtIn": "W і H вже означають розмір полотна.",
+    "variables.error.duplicate": "Змінна з такою назвою вже існує.",
+    "settings.code.colorNames": "Назви кольорів",
+    "settings.code.colorNamesDesc": "Як записувати кольори в коді Tkinter. Tk знає понад 700 назв, напр. \"sky blue\" чи \"gray75\".",
+    "settings.code.colorNames.hex": "Як у проєкті",
+    "settings.code.colorNames.hexDesc": "HEX-коди та назви лишаються такими, як їх задано.",
+    "settings.code.colorNames.exact": "Точні назви",
+    "settings.code.colorNames.exactDesc": "HEX-код замінюється назвою, якщо Tk має колір саме з цим значенням.",
+    "settings.code.colorNames.nearest": "Найближчі назви",
+    "settings.code.colorNames.nearestDesc": "Кожен HEX-код замінюється найближчою назвою Tk. Кольори можуть трохи змінитися.",
+    "color.invalidTk": "Tk не знає цього кольору: у коді його буде перетворено на HEX або пропущено.",
+    "color.invalidLoaded": "Кольорів, яких не знає Tk: {count} ({colors}). Їх позначено у властивостях; у коді їх буде перетворено на HEX або пропущено.",
+    "code.note.invalidColor": "колір, невідомий Tk, пропущено:",
+    "tool.widget": "Віджет",
+    "widget.button": "Кнопка",
+    "widget.label": "Напис",
+    "widget.entry": "Поле вводу",
+    "widget.checkbutton": "Прапорець",
+    "widget.scale": "Повзунок",
+    "props.widgetType": "Віджет:",
+    "prop.title.widgetType": "Клас віджета Tkinter, який розміщується на полотні.",
+    "props.widgetThemed": "Тематичний (ttk)",
+    "prop.title.widgetThemed": "Створити віджет з tkinter.ttk. Кольори й шрифт задаються окремим стилем; вигляд залежить від теми системи.",
+    "prop.title.widgetText": "Текст на віджеті (для повзунка — його підпис).",
+    "prop.title.widgetInitialText": "Початковий вміст поля вводу.",
+    "props.widgetCommand": "Команда:",
+    "prop.title.widgetCommand": "Ім'я функції, яку викликає віджет. У коді для неї створюється заготовка.",
+    "props.scaleFrom": "Від:",
+    "prop.title.scaleFrom": "Значення повзунка на лівому краю.",
+    "props.scaleTo": "До:",
+    "prop.title.scaleTo": "Значення повзунка на правому краю.",
+    "code.comment.widgetCommands": "# --- Команди віджетів ---",
+    "props.stateStyles": "Наведення і вимкнений стан",
+    "props.stateStylesDesc": "Як Tk малює елемент, коли над ним вказівник (active…), і коли він вимкнений (disabled…). Значення без позначки лишають звичайний вигляд.",
+    "props.stateStyles.active": "Під вказівником",
+    "props.stateStyles.disabled": "Вимкнений",
+    "prop.title.stateStyleToggle": "Задати окреме значення «{property}» для цього стану.",
+    "bitmaps.title": "Бітмапи проєкту",
+    "bitmaps.new": "Новий",
+    "bitmaps.defaultName": "bitmap",
+    "bitmaps.import": "Імпорт XBM…",
+    "bitmaps.importError": "Файл не є бітмапом XBM або більший за {size}×{size}.",
+    "bitmaps.name": "Назва",
+    "bitmaps.nameDesc": "З назви утворюється ім'я файлу .xbm у згенерованому коді.",
+    "bitmaps.width": "Ширина",
+    "bitmaps.height": "Висота",
+    "bitmaps.clear": "Очистити",
+    "bitmaps.invert": "Інвертувати",
+    "bitmaps.delete": "Видалити",
+    "bitmaps.inUse": "Бітмап використовують фігури, тож його не можна видалити.",
+    "bitmaps.empty": "У проєкті ще немає бітмапів. Створіть новий або імпортуйте файл XBM.",
+    "bitmaps.drawHint": "Клацніть або проведіть, щоб малювати; почавши з увімкненого пікселя, ви стираєте.",
+    "props.bitmaps.custom": "Бітмапи проєкту",
+    "props.bitmaps.edit": "Бітмапи…",
+    "prop.title.editBitmaps": "Намалювати або імпортувати власні бітмапи XBM.",
+    "props.outlineStipple": "Патерн контуру",
+    "prop.title.outlineStipple": "Бітмап, крізь який малюється контур (outlinestipple).",
+    "code.note.missingBitmap": "бітмап проєкту видалено",
+    "settings.canvas.scrollable": "Прокручуване полотно",
+    "settings.canvas.scrollableDesc": "Вікно програми менше за полотно: воно показує лише видиму область, а решту можна прокрутити смугами прокрутки. Розмір полотна стає scrollregion.",
+    "settings.canvas.viewportWidth": "Ширина вікна:",
+    "settings.canvas.viewportHeight": "Висота вікна:",
+    "settings.canvas.mouseWheel": "Прокручування коліщатком миші",
+    "settings.canvas.mouseWheelDesc": "Коліщатко прокручує вертикально, а з Shift — горизонтально.",
+    "settings.code.resizeScrollable": "Полотно прокручується, тож воно не масштабується разом із вікном.",
+    "code.comment.mouseWheel": "# Прокручування коліщатком миші (з Shift — убік)",
+    "pages.defaultName": "Сторінка",
+    "pages.add": "Додати сторінку з власним полотном",
+    "pages.addShort": "Сторінка",
+    "pages.delete": "Видалити сторінку",
+    "pages.deleteConfirmTitle": "Видалення сторінки",
+    "pages.deleteConfirmText": "Видалити сторінку \"{name}\" разом з усіма її фігурами?",
+    "settings.code.resizePages": "У проєкті кілька сторінок, тож полотна не масштабуються разом із вікном.",
+    "settings.code.pageLayout": "Сторінки в коді",
+    "settings.code.pageLayoutDesc": "Як програма показує полотна проєкту з кількома сторінками.",
+    "settings.code.pageLayout.frames": "Перемикання сторінок",
+    "settings.code.pageLayout.framesDesc": "Кожна сторінка — окремий Frame; видно одну, а show_page() і клавіші PageUp/PageDown перемикають їх.",
+    "settings.code.pageLayout.grid": "Усі полотна поруч",
+    "settings.code.pageLayout.gridDesc": "Кожна сторінка — власний Canvas, розміщений у рядок через grid().",
+    "code.comment.pages": "# Полотна сторінок проєкту",
+    "code.comment.showPage": "# Показує сторінку за номером (PageUp/PageDown гортають їх)",
+    "code.comment.page": "# Сторінка \"{name}\"",
+    "menu.edit.copy": "Копіювати",
+    "menu.edit.cut": "Вирізати",
+    "menu.edit.paste": "Вставити",
+    "shortcuts.item.copy": "Копіювати виділення в буфер обміну",
+    "shortcuts.item.cut": "Вирізати виділення",
+    "shortcuts.item.paste": "Вставити фігури в позицію курсора",
+    "clipboard.copied": "Скопійовано фігур: {count}",
+    "clipboard.cut": "Вирізано фігур: {count}",
+    "clipboard.pasted": "Вставлено фігур: {count}",
+    "clipboard.empty": "У буфері обміну немає скопійованих фігур",
+    "clipboard.writeError": "Не вдалося записати в буфер обміну",
+    "clipboard.readError": "Браузер не дозволив прочитати буфер обміну; спробуйте Ctrl+V",
+    "svgImport.imported": "Імпортовано фігур з SVG: {count}",
+    "svgImport.skipped": "Пропущено елементів без відповідника (зображення тощо): {count}.",
+    "svgImport.empty": "У SVG немає фігур, які можна імпортувати",
+    "svgImport.invalid": "Файл не є коректним SVG-документом"
   },
   "en": {
     "toolbar.drawMode.corner": "From corner",
@@ -2837,7 +3068,238 @@ export const translations = {
     "share.testUrlLabel": "Test link (current preview)",
     "share.ghPagesWhyTitle": "💡 Why did GitHub Pages open the home page?",
     "share.ghPagesWhyDesc": "GitHub Pages currently hosts an earlier version of the editor that does not yet include updated link parsing code.",
-    "share.ghPagesWhyHint": "Publish/update your build on GitHub Pages and the link will open seamlessly there."
+    "share.ghPagesWhyHint": "Publish/update your build on GitHub Pages and the link will open seamlessly there.",
+    "import.tkinter.noShapes": "No create_* calls that can be converted into shapes were found in the Python script.",
+    "import.tkinter.success": "Tkinter script imported: {count} shapes.",
+    "import.tkinter.partial": "Imported {count} shapes. {skipped} lines could not be mapped — {lines}",
+    "code.edit.hint": "Double-click to edit this line. Enter applies, Esc cancels.",
+    "code.edit.discardHint": "(press Esc while editing to discard)",
+    "code.edit.error.syntax": "Syntax error in the call.",
+    "code.edit.error.nonLiteral": "Only numbers, strings and tuples are supported (no variables or expressions).",
+    "code.edit.error.coords": "Wrong number of coordinates for this item.",
+    "code.edit.error.unsupported": "This call or option is not supported by the editor.",
+    "settings.code.style": "Code Style",
+    "settings.code.styleDesc": "Structure of the generated program. Saved with the project.",
+    "settings.code.style.classic": "Classic",
+    "settings.code.style.classicDesc": "from tkinter import *",
+    "settings.code.style.module": "tk module",
+    "settings.code.style.moduleDesc": "import tkinter as tk",
+    "settings.code.style.function": "main() function",
+    "settings.code.style.functionDesc": "def main() + if __name__ == \"__main__\"",
+    "settings.code.style.class": "App class",
+    "settings.code.style.classDesc": "class App(tk.Tk) + draw()",
+    "settings.code.shapeVariables": "Shape variables",
+    "settings.code.shapeVariablesDesc": "Assign each item to a variable named after its shape, e.g. sun = c.create_oval(...).",
+    "code.comment.events": "# --- Events ---",
+    "events.title": "Events",
+    "events.titleDesc": "Tkinter event handlers generated as canvas.tag_bind(...)",
+    "events.sequence": "Event",
+    "events.sequenceDesc": "Tkinter event sequence",
+    "events.remove": "Remove handler",
+    "events.add": "Add event",
+    "events.action": "Action",
+    "events.action.fill": "Change fill",
+    "events.action.move": "Move by dx/dy",
+    "events.action.toggleState": "Toggle visibility",
+    "events.action.showText": "Show text",
+    "events.action.custom": "Custom Python code",
+    "events.target": "Apply to",
+    "events.targetDesc": "Shape or group changed by the action",
+    "events.target.self": "This shape",
+    "events.fill": "Color",
+    "events.text": "Text",
+    "events.codePlaceholder": "print(event.x, event.y)",
+    "events.codeDesc": "Body of the handler function. The event and the canvas variables are available.",
+    "events.seq.click": "Click",
+    "events.seq.doubleClick": "Double click",
+    "events.seq.release": "Button release",
+    "events.seq.rightClick": "Right click",
+    "events.seq.enter": "Mouse enter",
+    "events.seq.leave": "Mouse leave",
+    "events.seq.drag": "Drag",
+    "code.comment.animation": "# --- Animation ---",
+    "code.comment.animationUnsupported": "# {name}: the animation changes the kind of Tkinter item, so it was skipped",
+    "menu.view.timeline": "Animation timeline",
+    "animation.title": "Animation",
+    "animation.play": "Play",
+    "animation.pause": "Pause",
+    "animation.replay": "Replay animation",
+    "animation.duration": "Duration",
+    "animation.durationDesc": "Length of the animation in seconds",
+    "animation.fpsDesc": "Frames per second of the generated root.after loop",
+    "animation.loop": "Loop",
+    "animation.addKeyframe": "Keyframe",
+    "animation.addKeyframeDesc": "Store the selected shape's current state at the playhead",
+    "animation.keyframeTime": "Keyframe time",
+    "animation.easingDesc": "Easing of the motion leading to this keyframe",
+    "animation.easing.linear": "Linear",
+    "animation.easing.easeIn": "Ease in",
+    "animation.easing.easeOut": "Ease out",
+    "animation.easing.easeInOut": "Ease in-out",
+    "animation.deleteKeyframe": "Delete keyframe",
+    "animation.close": "Close timeline",
+    "animation.empty": "Select a shape and add a keyframe to start animating.",
+    "settings.code.compressLoops": "Compress repeats into loops",
+    "settings.code.compressLoopsDesc": "Draw consecutive shapes that differ only by evenly spaced coordinates, sizes or colours with a single for i in range(n) loop.",
+    "settings.code.groupFunctions": "Groups as functions",
+    "settings.code.groupFunctionsDesc": "Emit each top-level group as a draw_<name>(canvas, x, y, scale=1) function and draw the group with a call to it.",
+    "code.comment.groupFunctions": "# --- Group drawing functions ---",
+    "code.comment.resize": "# --- Scaling with the window size ---",
+    "settings.code.resize": "Window resizing",
+    "settings.code.resizeDesc": "How the generated canvas reacts when the window is resized.",
+    "settings.code.resize.fixed": "Fixed size",
+    "settings.code.resize.fixedDesc": "The canvas always keeps the project size.",
+    "settings.code.resize.stretch": "Stretch",
+    "settings.code.resize.stretchDesc": "Shapes scale separately with the width and the height.",
+    "settings.code.resize.keepAspect": "Keep aspect ratio",
+    "settings.code.resize.keepAspectDesc": "Shapes scale uniformly by the smaller factor.",
+    "settings.code.scaleFonts": "Rescale fonts",
+    "settings.code.scaleFontsDesc": "Change the font size of text items along with the shapes.",
+    "preview.resizeHint": "Drag the bottom-right corner to resize the window",
+    "settings.code.turtle": "Python turtle (local)",
+    "settings.code.turtleDesc": "Generates a turtle program: penup/goto/pendown, begin_fill, circle and write. Anything turtle can't draw is approximated and flagged in comments.",
+    "turtle.warn.unsupported": "Warning: turtle can't draw {type} shapes, so this one is skipped",
+    "turtle.warn.ellipse": "Warning: turtle has no ellipses, so this one is drawn as a polygon",
+    "turtle.warn.ellipticalArc": "Warning: turtle only draws arcs of circles, so this arc is approximated with segments",
+    "turtle.warn.smooth": "Warning: the smooth curve is approximated with short straight segments",
+    "turtle.warn.dash": "Warning: turtle can't draw dashes, so the line is solid",
+    "turtle.warn.arrow": "Warning: turtle doesn't draw arrowheads on lines",
+    "turtle.warn.stipple": "Warning: turtle has no stipple patterns, so the fill is solid",
+    "turtle.warn.textRotation": "Warning: turtle can't rotate text",
+    "settings.code.pygame": "pygame (local)",
+    "settings.code.pygameDesc": "Generates a pygame program with an event loop that draws the shapes with pygame.draw and pygame.font. Dashes and arrowheads are drawn by hand; other limits are flagged in comments.",
+    "pygame.warn.unsupported": "Warning: pygame can't draw {type} shapes, so this one is skipped",
+    "pygame.warn.stipple": "Warning: pygame has no stipple patterns, so the fill is solid",
+    "pygame.warn.textRotation": "Warning: the text is drawn unrotated",
+    "settings.code.canvas": "HTML5 Canvas / JavaScript (local)",
+    "settings.code.canvasDesc": "Generates Canvas 2D JavaScript: beginPath, ellipse, arc, quadraticCurveTo, setLineDash and fillText.",
+    "settings.code.canvasHtmlPage": "Complete HTML page",
+    "settings.code.canvasHtmlPageDesc": "Wraps the draw(ctx) function in a page with a <canvas> element that calls it. When off, only the function is generated.",
+    "code.htmlFile": "HTML file",
+    "code.jsFile": "JavaScript file",
+    "canvas.comment.images": "Images, embedded as data URLs",
+    "canvas.comment.waitForImages": "Call draw(ctx) once the images have loaded:",
+    "canvas.warn.unsupported": "Warning: the canvas has no equivalent of {type} shapes, so this one is skipped",
+    "canvas.warn.stipple": "Warning: the canvas has no stipple patterns, so the fill is solid",
+    "canvas.warn.textDecoration": "Warning: fillText doesn't underline or strike through text",
+    "settings.code.pillow": "Pillow PNG image (local)",
+    "settings.code.pillowDesc": "Generates a script without a GUI: Image.new and ImageDraw draw the shapes and save the drawing as a PNG.",
+    "pillow.warn.unsupported": "Warning: Pillow can't draw {type} shapes, so this one is skipped",
+    "pillow.warn.stipple": "Warning: Pillow has no stipple patterns, so the fill is solid",
+    "pillow.warn.textRotation": "Warning: the text is drawn unrotated",
+    "pillow.warn.textDecoration": "Warning: ImageDraw doesn't underline or strike through text",
+    "export.bundle": "Project bundle (ZIP)",
+    "export.bundleDesc": "An archive with the Python code, an assets/ folder holding every image as a PNG file, and the .vec.json project. The code loads the images from those files by relative path.",
+    "settings.code.nativeImages": "Images without Pillow",
+    "settings.code.nativeImagesDesc": "Embed images with Tkinter's own PhotoImage(data=...), resized to the shape beforehand. Pillow is only needed for rotated or flipped images.",
+    "code.comment.variables": "# --- Variables ---",
+    "variables.title": "Variables",
+    "variables.desc": "Variables can be used in coordinate and width fields (e.g. W - margin). They are declared at the top of the generated code, and shapes follow them when their values change.",
+    "variables.name": "Variable name",
+    "variables.value": "Variable value",
+    "variables.delete": "Delete variable",
+    "variables.add": "Add variable",
+    "variables.builtInDesc": "Canvas size, always available",
+    "variables.colorDesc": "Colour variable: shapes with this colour use it in the code",
+    "variables.error.invalidName": "The name must be a Python identifier that isn't a keyword or a name used by the code.",
+    "variables.error.builtIn": "W and H already stand for the canvas size.",
+    "variables.error.duplicate": "A variable with this name already exists.",
+    "settings.code.colorNames": "Colour names",
+    "settings.code.colorNamesDesc": "How colours are written in the Tkinter code. Tk knows over 700 names, e.g. \"sky blue\" or \"gray75\".",
+    "settings.code.colorNames.hex": "As in the project",
+    "settings.code.colorNames.hexDesc": "Hex codes and names stay as they were entered.",
+    "settings.code.colorNames.exact": "Exact names",
+    "settings.code.colorNames.exactDesc": "A hex code is replaced by a name when Tk has a colour of exactly that value.",
+    "settings.code.colorNames.nearest": "Nearest names",
+    "settings.code.colorNames.nearestDesc": "Every hex code is replaced by the nearest Tk name. Colours may shift slightly.",
+    "color.invalidTk": "Tk doesn't know this colour: the code converts it to hex or leaves it out.",
+    "color.invalidLoaded": "{count} colours aren't known to Tk ({colors}). They are flagged in the properties, and the code converts them to hex or leaves them out.",
+    "code.note.invalidColor": "colour unknown to Tk left out:",
+    "tool.widget": "Widget",
+    "widget.button": "Button",
+    "widget.label": "Label",
+    "widget.entry": "Entry",
+    "widget.checkbutton": "Checkbutton",
+    "widget.scale": "Scale",
+    "props.widgetType": "Widget:",
+    "prop.title.widgetType": "The Tkinter widget class placed on the canvas.",
+    "props.widgetThemed": "Themed (ttk)",
+    "prop.title.widgetThemed": "Create the widget from tkinter.ttk. Colours and font go into a style of its own; the look depends on the system theme.",
+    "prop.title.widgetText": "Text shown on the widget (the label of a scale).",
+    "prop.title.widgetInitialText": "Initial contents of the entry.",
+    "props.widgetCommand": "Command:",
+    "prop.title.widgetCommand": "Name of the function the widget calls. A stub for it is added to the code.",
+    "props.scaleFrom": "From:",
+    "prop.title.scaleFrom": "Value of the scale at its left end.",
+    "props.scaleTo": "To:",
+    "prop.title.scaleTo": "Value of the scale at its right end.",
+    "code.comment.widgetCommands": "# --- Widget commands ---",
+    "props.stateStyles": "Hover and disabled",
+    "props.stateStylesDesc": "How Tk draws the item while the pointer is over it (active…) and while it is disabled (disabled…). Unticked values keep the normal look.",
+    "props.stateStyles.active": "Under the pointer",
+    "props.stateStyles.disabled": "Disabled",
+    "prop.title.stateStyleToggle": "Give \"{property}\" a value of its own in this state.",
+    "bitmaps.title": "Project bitmaps",
+    "bitmaps.new": "New",
+    "bitmaps.defaultName": "bitmap",
+    "bitmaps.import": "Import XBM…",
+    "bitmaps.importError": "The file isn't an XBM bitmap or is larger than {size}×{size}.",
+    "bitmaps.name": "Name",
+    "bitmaps.nameDesc": "The name gives the .xbm file name in the generated code.",
+    "bitmaps.width": "Width",
+    "bitmaps.height": "Height",
+    "bitmaps.clear": "Clear",
+    "bitmaps.invert": "Invert",
+    "bitmaps.delete": "Delete",
+    "bitmaps.inUse": "Shapes use this bitmap, so it can't be deleted.",
+    "bitmaps.empty": "The project has no bitmaps yet. Create a new one or import an XBM file.",
+    "bitmaps.drawHint": "Click or drag to draw; starting on a set pixel erases instead.",
+    "props.bitmaps.custom": "Project bitmaps",
+    "props.bitmaps.edit": "Bitmaps…",
+    "prop.title.editBitmaps": "Draw or import your own XBM bitmaps.",
+    "props.outlineStipple": "Outline Pattern",
+    "prop.title.outlineStipple": "Bitmap the outline is drawn through (outlinestipple).",
+    "code.note.missingBitmap": "project bitmap was deleted",
+    "settings.canvas.scrollable": "Scrollable canvas",
+    "settings.canvas.scrollableDesc": "The program window is smaller than the canvas: it shows only the viewport and scrollbars reach the rest. The canvas size becomes the scrollregion.",
+    "settings.canvas.viewportWidth": "Window width:",
+    "settings.canvas.viewportHeight": "Window height:",
+    "settings.canvas.mouseWheel": "Mouse-wheel scrolling",
+    "settings.canvas.mouseWheelDesc": "The wheel scrolls vertically, and horizontally with Shift held.",
+    "settings.code.resizeScrollable": "The canvas scrolls, so it isn't scaled with the window.",
+    "code.comment.mouseWheel": "# Mouse-wheel scrolling (sideways with Shift)",
+    "pages.defaultName": "Page",
+    "pages.add": "Add a page with its own canvas",
+    "pages.addShort": "Page",
+    "pages.delete": "Delete page",
+    "pages.deleteConfirmTitle": "Delete page",
+    "pages.deleteConfirmText": "Delete the page \"{name}\" and all of its shapes?",
+    "settings.code.resizePages": "The project has several pages, so the canvases aren't scaled with the window.",
+    "settings.code.pageLayout": "Pages in the code",
+    "settings.code.pageLayoutDesc": "How the program shows the canvases of a project with several pages.",
+    "settings.code.pageLayout.frames": "Switch between pages",
+    "settings.code.pageLayout.framesDesc": "Each page is its own Frame; one shows at a time, and show_page() or PageUp/PageDown switch between them.",
+    "settings.code.pageLayout.grid": "All canvases side by side",
+    "settings.code.pageLayout.gridDesc": "Each page is its own Canvas, laid out in a row with grid().",
+    "code.comment.pages": "# Canvases of the project's pages",
+    "code.comment.showPage": "# Shows a page by number (PageUp/PageDown flip through them)",
+    "code.comment.page": "# Page \"{name}\"",
+    "menu.edit.copy": "Copy",
+    "menu.edit.cut": "Cut",
+    "menu.edit.paste": "Paste",
+    "shortcuts.item.copy": "Copy the selection to the clipboard",
+    "shortcuts.item.cut": "Cut the selection",
+    "shortcuts.item.paste": "Paste shapes at the cursor",
+    "clipboard.copied": "Copied {count} shape(s)",
+    "clipboard.cut": "Cut {count} shape(s)",
+    "clipboard.pasted": "Pasted {count} shape(s)",
+    "clipboard.empty": "The clipboard holds no copied shapes",
+    "clipboard.writeError": "Couldn't write to the clipboard",
+    "clipboard.readError": "The browser didn't allow reading the clipboard; try Ctrl+V",
+    "svgImport.imported": "Imported {count} shape(s) from the SVG",
+    "svgImport.skipped": "{count} element(s) with no shape counterpart (images and the like) were left out.",
+    "svgImport.empty": "The SVG has no shapes that can be imported",
+    "svgImport.invalid": "The file isn't a valid SVG document"
   },
   "it": {
     "toolbar.drawMode.corner": "Dall'angolo",
@@ -4257,7 +4719,238 @@ export const translations = {
     "share.testUrlLabel": "Link di test (anteprima corrente)",
     "share.ghPagesWhyTitle": "💡 Perché il sito su GitHub Pages ha aperto la pagina iniziale?",
     "share.ghPagesWhyDesc": "Su GitHub Pages è attualmente caricata una versione precedente dell’editor che non include ancora il codice aggiornato per la lettura dei link.",
-    "share.ghPagesWhyHint": "Aggiorna la build su GitHub Pages e il collegamento aprirà il progetto perfettamente."
+    "share.ghPagesWhyHint": "Aggiorna la build su GitHub Pages e il collegamento aprirà il progetto perfettamente.",
+    "import.tkinter.noShapes": "Nessuna chiamata create_* convertibile in forme trovata nello script Python.",
+    "import.tkinter.success": "Script Tkinter importato: {count} forme.",
+    "import.tkinter.partial": "Importate {count} forme. {skipped} righe non convertite — {lines}",
+    "code.edit.hint": "Doppio clic per modificare la riga. Invio applica, Esc annulla.",
+    "code.edit.discardHint": "(premi Esc durante la modifica per scartare)",
+    "code.edit.error.syntax": "Errore di sintassi nella chiamata.",
+    "code.edit.error.nonLiteral": "Sono supportati solo numeri, stringhe e tuple (niente variabili o espressioni).",
+    "code.edit.error.coords": "Numero di coordinate errato per questo elemento.",
+    "code.edit.error.unsupported": "Questa chiamata o opzione non è supportata dall’editor.",
+    "settings.code.style": "Stile del codice",
+    "settings.code.styleDesc": "Struttura del programma generato. Salvata con il progetto.",
+    "settings.code.style.classic": "Classico",
+    "settings.code.style.classicDesc": "from tkinter import *",
+    "settings.code.style.module": "Modulo tk",
+    "settings.code.style.moduleDesc": "import tkinter as tk",
+    "settings.code.style.function": "Funzione main()",
+    "settings.code.style.functionDesc": "def main() + if __name__ == \"__main__\"",
+    "settings.code.style.class": "Classe App",
+    "settings.code.style.classDesc": "class App(tk.Tk) + draw()",
+    "settings.code.shapeVariables": "Variabili per le forme",
+    "settings.code.shapeVariablesDesc": "Assegna ogni elemento a una variabile con il nome della forma, ad es. sun = c.create_oval(...).",
+    "code.comment.events": "# --- Eventi ---",
+    "events.title": "Eventi",
+    "events.titleDesc": "Gestori di eventi Tkinter generati come canvas.tag_bind(...)",
+    "events.sequence": "Evento",
+    "events.sequenceDesc": "Sequenza di eventi Tkinter",
+    "events.remove": "Rimuovi gestore",
+    "events.add": "Aggiungi evento",
+    "events.action": "Azione",
+    "events.action.fill": "Cambia riempimento",
+    "events.action.move": "Sposta di dx/dy",
+    "events.action.toggleState": "Mostra/nascondi",
+    "events.action.showText": "Mostra testo",
+    "events.action.custom": "Codice Python personalizzato",
+    "events.target": "Applica a",
+    "events.targetDesc": "Forma o gruppo modificato dall'azione",
+    "events.target.self": "Questa forma",
+    "events.fill": "Colore",
+    "events.text": "Testo",
+    "events.codePlaceholder": "print(event.x, event.y)",
+    "events.codeDesc": "Corpo della funzione gestore. Sono disponibili le variabili event e canvas.",
+    "events.seq.click": "Clic",
+    "events.seq.doubleClick": "Doppio clic",
+    "events.seq.release": "Rilascio pulsante",
+    "events.seq.rightClick": "Clic destro",
+    "events.seq.enter": "Ingresso del mouse",
+    "events.seq.leave": "Uscita del mouse",
+    "events.seq.drag": "Trascinamento",
+    "code.comment.animation": "# --- Animazione ---",
+    "code.comment.animationUnsupported": "# {name}: l'animazione cambia il tipo di elemento Tkinter, quindi è stata saltata",
+    "menu.view.timeline": "Timeline dell'animazione",
+    "animation.title": "Animazione",
+    "animation.play": "Riproduci",
+    "animation.pause": "Pausa",
+    "animation.replay": "Riproduci di nuovo l'animazione",
+    "animation.duration": "Durata",
+    "animation.durationDesc": "Durata dell'animazione in secondi",
+    "animation.fpsDesc": "Fotogrammi al secondo del ciclo root.after generato",
+    "animation.loop": "Ripeti",
+    "animation.addKeyframe": "Fotogramma chiave",
+    "animation.addKeyframeDesc": "Salva lo stato attuale della forma selezionata alla posizione dell'indicatore",
+    "animation.keyframeTime": "Tempo del fotogramma chiave",
+    "animation.easingDesc": "Andamento del movimento verso questo fotogramma chiave",
+    "animation.easing.linear": "Lineare",
+    "animation.easing.easeIn": "Accelera",
+    "animation.easing.easeOut": "Rallenta",
+    "animation.easing.easeInOut": "Morbido",
+    "animation.deleteKeyframe": "Elimina fotogramma chiave",
+    "animation.close": "Chiudi timeline",
+    "animation.empty": "Seleziona una forma e aggiungi un fotogramma chiave per iniziare.",
+    "settings.code.compressLoops": "Comprimi le ripetizioni in cicli",
+    "settings.code.compressLoopsDesc": "Disegna le forme consecutive che differiscono solo per coordinate, dimensioni o colori a passo costante con un unico ciclo for i in range(n).",
+    "settings.code.groupFunctions": "Gruppi come funzioni",
+    "settings.code.groupFunctionsDesc": "Genera per ogni gruppo di primo livello una funzione draw_<nome>(canvas, x, y, scale=1) e disegna il gruppo chiamandola.",
+    "code.comment.groupFunctions": "# --- Funzioni di disegno dei gruppi ---",
+    "code.comment.resize": "# --- Ridimensionamento con la finestra ---",
+    "settings.code.resize": "Ridimensionamento della finestra",
+    "settings.code.resizeDesc": "Come reagisce la tela generata quando la finestra viene ridimensionata.",
+    "settings.code.resize.fixed": "Dimensione fissa",
+    "settings.code.resize.fixedDesc": "La tela mantiene sempre la dimensione del progetto.",
+    "settings.code.resize.stretch": "Allunga",
+    "settings.code.resize.stretchDesc": "Le forme si ridimensionano separatamente in larghezza e altezza.",
+    "settings.code.resize.keepAspect": "Mantieni le proporzioni",
+    "settings.code.resize.keepAspectDesc": "Le forme si ridimensionano uniformemente secondo il fattore minore.",
+    "settings.code.scaleFonts": "Ridimensiona i caratteri",
+    "settings.code.scaleFontsDesc": "Cambia la dimensione del carattere dei testi insieme alle forme.",
+    "preview.resizeHint": "Trascina l'angolo in basso a destra per ridimensionare la finestra",
+    "settings.code.turtle": "Python turtle (locale)",
+    "settings.code.turtleDesc": "Genera un programma turtle: penup/goto/pendown, begin_fill, circle e write. Ciò che turtle non sa disegnare viene approssimato e segnalato nei commenti.",
+    "turtle.warn.unsupported": "Attenzione: turtle non sa disegnare forme {type}, quindi questa viene saltata",
+    "turtle.warn.ellipse": "Attenzione: turtle non ha ellissi, quindi questa è disegnata come poligono",
+    "turtle.warn.ellipticalArc": "Attenzione: turtle disegna solo archi di cerchio, quindi questo arco è approssimato con segmenti",
+    "turtle.warn.smooth": "Attenzione: la curva smussata è approssimata con brevi segmenti",
+    "turtle.warn.dash": "Attenzione: turtle non disegna tratteggi, quindi la linea è continua",
+    "turtle.warn.arrow": "Attenzione: turtle non disegna le punte di freccia",
+    "turtle.warn.stipple": "Attenzione: turtle non ha retinature, quindi il riempimento è pieno",
+    "turtle.warn.textRotation": "Attenzione: turtle non può ruotare il testo",
+    "settings.code.pygame": "pygame (locale)",
+    "settings.code.pygameDesc": "Genera un programma pygame con un ciclo di eventi che disegna le forme con pygame.draw e pygame.font. Tratteggi e punte di freccia sono disegnati a mano; gli altri limiti sono segnalati nei commenti.",
+    "pygame.warn.unsupported": "Attenzione: pygame non sa disegnare forme {type}, quindi questa viene saltata",
+    "pygame.warn.stipple": "Attenzione: pygame non ha retinature, quindi il riempimento è pieno",
+    "pygame.warn.textRotation": "Attenzione: il testo è disegnato senza rotazione",
+    "settings.code.canvas": "HTML5 Canvas / JavaScript (locale)",
+    "settings.code.canvasDesc": "Genera JavaScript per Canvas 2D: beginPath, ellipse, arc, quadraticCurveTo, setLineDash e fillText.",
+    "settings.code.canvasHtmlPage": "Pagina HTML completa",
+    "settings.code.canvasHtmlPageDesc": "Inserisce la funzione draw(ctx) in una pagina con un elemento <canvas> che la chiama. Se disattivato, viene generata solo la funzione.",
+    "code.htmlFile": "File HTML",
+    "code.jsFile": "File JavaScript",
+    "canvas.comment.images": "Immagini, incorporate come data URL",
+    "canvas.comment.waitForImages": "Chiama draw(ctx) quando le immagini sono caricate:",
+    "canvas.warn.unsupported": "Attenzione: il canvas non ha un equivalente delle forme {type}, quindi questa viene saltata",
+    "canvas.warn.stipple": "Attenzione: il canvas non ha retinature, quindi il riempimento è pieno",
+    "canvas.warn.textDecoration": "Attenzione: fillText non sottolinea né barra il testo",
+    "settings.code.pillow": "Immagine PNG con Pillow (locale)",
+    "settings.code.pillowDesc": "Genera uno script senza interfaccia grafica: Image.new e ImageDraw disegnano le forme e salvano il disegno come PNG.",
+    "pillow.warn.unsupported": "Attenzione: Pillow non sa disegnare forme {type}, quindi questa viene saltata",
+    "pillow.warn.stipple": "Attenzione: Pillow non ha retinature, quindi il riempimento è pieno",
+    "pillow.warn.textRotation": "Attenzione: il testo è disegnato senza rotazione",
+    "pillow.warn.textDecoration": "Attenzione: ImageDraw non sottolinea né barra il testo",
+    "export.bundle": "Pacchetto del progetto (ZIP)",
+    "export.bundleDesc": "Un archivio con il codice Python, una cartella assets/ con ogni immagine come file PNG e il progetto .vec.json. Il codice carica le immagini da quei file tramite percorsi relativi.",
+    "settings.code.nativeImages": "Immagini senza Pillow",
+    "settings.code.nativeImagesDesc": "Incorpora le immagini con PhotoImage(data=...) di Tkinter, ridimensionate in anticipo alla forma. Pillow serve solo per le immagini ruotate o capovolte.",
+    "code.comment.variables": "# --- Variabili ---",
+    "variables.title": "Variabili",
+    "variables.desc": "Le variabili si possono usare nei campi di coordinate e spessore (es. W - margin). Sono dichiarate all'inizio del codice generato e le forme le seguono quando i valori cambiano.",
+    "variables.name": "Nome della variabile",
+    "variables.value": "Valore della variabile",
+    "variables.delete": "Elimina variabile",
+    "variables.add": "Aggiungi variabile",
+    "variables.builtInDesc": "Dimensione della tela, sempre disponibile",
+    "variables.colorDesc": "Variabile colore: le forme con questo colore la usano nel codice",
+    "variables.error.invalidName": "Il nome deve essere un identificatore Python che non sia una parola chiave o un nome usato dal codice.",
+    "variables.error.builtIn": "W e H indicano già la dimensione della tela.",
+    "variables.error.duplicate": "Esiste già una variabile con questo nome.",
+    "settings.code.colorNames": "Nomi dei colori",
+    "settings.code.colorNamesDesc": "Come scrivere i colori nel codice Tkinter. Tk conosce oltre 700 nomi, es. \"sky blue\" o \"gray75\".",
+    "settings.code.colorNames.hex": "Come nel progetto",
+    "settings.code.colorNames.hexDesc": "Codici HEX e nomi restano come inseriti.",
+    "settings.code.colorNames.exact": "Nomi esatti",
+    "settings.code.colorNames.exactDesc": "Un codice HEX è sostituito da un nome quando Tk ha un colore esattamente con quel valore.",
+    "settings.code.colorNames.nearest": "Nomi più vicini",
+    "settings.code.colorNames.nearestDesc": "Ogni codice HEX è sostituito dal nome Tk più vicino. I colori possono cambiare leggermente.",
+    "color.invalidTk": "Tk non conosce questo colore: il codice lo converte in HEX o lo omette.",
+    "color.invalidLoaded": "{count} colori non sono noti a Tk ({colors}). Sono segnalati nelle proprietà e il codice li converte in HEX o li omette.",
+    "code.note.invalidColor": "colore sconosciuto a Tk omesso:",
+    "tool.widget": "Widget",
+    "widget.button": "Pulsante",
+    "widget.label": "Etichetta",
+    "widget.entry": "Campo di testo",
+    "widget.checkbutton": "Casella di controllo",
+    "widget.scale": "Cursore",
+    "props.widgetType": "Widget:",
+    "prop.title.widgetType": "La classe di widget Tkinter posizionata sulla tela.",
+    "props.widgetThemed": "Con tema (ttk)",
+    "prop.title.widgetThemed": "Crea il widget da tkinter.ttk. Colori e carattere vanno in uno stile dedicato; l'aspetto dipende dal tema di sistema.",
+    "prop.title.widgetText": "Testo mostrato sul widget (l'etichetta di un cursore).",
+    "prop.title.widgetInitialText": "Contenuto iniziale del campo.",
+    "props.widgetCommand": "Comando:",
+    "prop.title.widgetCommand": "Nome della funzione chiamata dal widget. Nel codice ne viene aggiunto uno scheletro.",
+    "props.scaleFrom": "Da:",
+    "prop.title.scaleFrom": "Valore del cursore all'estremità sinistra.",
+    "props.scaleTo": "A:",
+    "prop.title.scaleTo": "Valore del cursore all'estremità destra.",
+    "code.comment.widgetCommands": "# --- Comandi dei widget ---",
+    "props.stateStyles": "Passaggio del mouse e disattivato",
+    "props.stateStylesDesc": "Come Tk disegna l'elemento quando il puntatore è sopra (active…) e quando è disattivato (disabled…). I valori non spuntati mantengono l'aspetto normale.",
+    "props.stateStyles.active": "Sotto il puntatore",
+    "props.stateStyles.disabled": "Disattivato",
+    "prop.title.stateStyleToggle": "Assegna a \"{property}\" un valore proprio in questo stato.",
+    "bitmaps.title": "Bitmap del progetto",
+    "bitmaps.new": "Nuova",
+    "bitmaps.defaultName": "bitmap",
+    "bitmaps.import": "Importa XBM…",
+    "bitmaps.importError": "Il file non è una bitmap XBM o è più grande di {size}×{size}.",
+    "bitmaps.name": "Nome",
+    "bitmaps.nameDesc": "Dal nome deriva il nome del file .xbm nel codice generato.",
+    "bitmaps.width": "Larghezza",
+    "bitmaps.height": "Altezza",
+    "bitmaps.clear": "Svuota",
+    "bitmaps.invert": "Inverti",
+    "bitmaps.delete": "Elimina",
+    "bitmaps.inUse": "Alcune forme usano questa bitmap, quindi non si può eliminare.",
+    "bitmaps.empty": "Il progetto non ha ancora bitmap. Creane una nuova o importa un file XBM.",
+    "bitmaps.drawHint": "Fai clic o trascina per disegnare; partendo da un pixel acceso si cancella.",
+    "props.bitmaps.custom": "Bitmap del progetto",
+    "props.bitmaps.edit": "Bitmap…",
+    "prop.title.editBitmaps": "Disegna o importa le tue bitmap XBM.",
+    "props.outlineStipple": "Motivo del contorno",
+    "prop.title.outlineStipple": "Bitmap attraverso cui si disegna il contorno (outlinestipple).",
+    "code.note.missingBitmap": "la bitmap del progetto è stata eliminata",
+    "settings.canvas.scrollable": "Tela scorrevole",
+    "settings.canvas.scrollableDesc": "La finestra del programma è più piccola della tela: mostra solo l'area visibile e le barre di scorrimento raggiungono il resto. La dimensione della tela diventa lo scrollregion.",
+    "settings.canvas.viewportWidth": "Larghezza finestra:",
+    "settings.canvas.viewportHeight": "Altezza finestra:",
+    "settings.canvas.mouseWheel": "Scorrimento con la rotellina",
+    "settings.canvas.mouseWheelDesc": "La rotellina scorre in verticale e, tenendo premuto Shift, in orizzontale.",
+    "settings.code.resizeScrollable": "La tela scorre, quindi non viene ridimensionata con la finestra.",
+    "code.comment.mouseWheel": "# Scorrimento con la rotellina (in orizzontale con Shift)",
+    "pages.defaultName": "Pagina",
+    "pages.add": "Aggiungi una pagina con la propria tela",
+    "pages.addShort": "Pagina",
+    "pages.delete": "Elimina pagina",
+    "pages.deleteConfirmTitle": "Eliminazione della pagina",
+    "pages.deleteConfirmText": "Eliminare la pagina \"{name}\" con tutte le sue forme?",
+    "settings.code.resizePages": "Il progetto ha più pagine, quindi le tele non vengono ridimensionate con la finestra.",
+    "settings.code.pageLayout": "Pagine nel codice",
+    "settings.code.pageLayoutDesc": "Come il programma mostra le tele di un progetto con più pagine.",
+    "settings.code.pageLayout.frames": "Cambio di pagina",
+    "settings.code.pageLayout.framesDesc": "Ogni pagina è un Frame; se ne vede una alla volta e show_page() o PagSu/PagGiù passano da una all'altra.",
+    "settings.code.pageLayout.grid": "Tutte le tele affiancate",
+    "settings.code.pageLayout.gridDesc": "Ogni pagina è una propria Canvas, disposta in fila con grid().",
+    "code.comment.pages": "# Tele delle pagine del progetto",
+    "code.comment.showPage": "# Mostra una pagina per numero (PagSu/PagGiù le sfogliano)",
+    "code.comment.page": "# Pagina \"{name}\"",
+    "menu.edit.copy": "Copia",
+    "menu.edit.cut": "Taglia",
+    "menu.edit.paste": "Incolla",
+    "shortcuts.item.copy": "Copia la selezione negli appunti",
+    "shortcuts.item.cut": "Taglia la selezione",
+    "shortcuts.item.paste": "Incolla le forme nella posizione del cursore",
+    "clipboard.copied": "Forme copiate: {count}",
+    "clipboard.cut": "Forme tagliate: {count}",
+    "clipboard.pasted": "Forme incollate: {count}",
+    "clipboard.empty": "Gli appunti non contengono forme copiate",
+    "clipboard.writeError": "Impossibile scrivere negli appunti",
+    "clipboard.readError": "Il browser non ha permesso di leggere gli appunti; prova Ctrl+V",
+    "svgImport.imported": "Forme importate dall'SVG: {count}",
+    "svgImport.skipped": "Elementi senza forma corrispondente (immagini e simili) tralasciati: {count}.",
+    "svgImport.empty": "L'SVG non contiene forme importabili",
+    "svgImport.invalid": "Il file non è un documento SVG valido"
   },
   "es": {
     "toolbar.drawMode.corner": "Desde la esquina",
@@ -5677,7 +6370,238 @@ export const translations = {
     "share.testUrlLabel": "Enlace de prueba (vista previa actual)",
     "share.ghPagesWhyTitle": "💡 ¿Por qué el sitio en GitHub Pages abrió la página de inicio?",
     "share.ghPagesWhyDesc": "En GitHub Pages actualmente hay una versión anterior del editor que aún no incluye el código actualizado para leer enlaces.",
-    "share.ghPagesWhyHint": "Publica la versión actualizada en GitHub Pages y el enlace abrirá el proyecto directamente."
+    "share.ghPagesWhyHint": "Publica la versión actualizada en GitHub Pages y el enlace abrirá el proyecto directamente.",
+    "import.tkinter.noShapes": "No se encontraron llamadas create_* que puedan convertirse en figuras en el script de Python.",
+    "import.tkinter.success": "Script de Tkinter importado: {count} figuras.",
+    "import.tkinter.partial": "Se importaron {count} figuras. {skipped} líneas no se pudieron convertir — {lines}",
+    "code.edit.hint": "Doble clic para editar la línea. Intro aplica, Esc cancela.",
+    "code.edit.discardHint": "(pulsa Esc al editar para descartar)",
+    "code.edit.error.syntax": "Error de sintaxis en la llamada.",
+    "code.edit.error.nonLiteral": "Solo se admiten números, cadenas y tuplas (sin variables ni expresiones).",
+    "code.edit.error.coords": "Número incorrecto de coordenadas para este elemento.",
+    "code.edit.error.unsupported": "El editor no admite esta llamada u opción.",
+    "settings.code.style": "Estilo de código",
+    "settings.code.styleDesc": "Estructura del programa generado. Se guarda con el proyecto.",
+    "settings.code.style.classic": "Clásico",
+    "settings.code.style.classicDesc": "from tkinter import *",
+    "settings.code.style.module": "Módulo tk",
+    "settings.code.style.moduleDesc": "import tkinter as tk",
+    "settings.code.style.function": "Función main()",
+    "settings.code.style.functionDesc": "def main() + if __name__ == \"__main__\"",
+    "settings.code.style.class": "Clase App",
+    "settings.code.style.classDesc": "class App(tk.Tk) + draw()",
+    "settings.code.shapeVariables": "Variables para las figuras",
+    "settings.code.shapeVariablesDesc": "Asigna cada elemento a una variable con el nombre de su figura, p. ej. sun = c.create_oval(...).",
+    "code.comment.events": "# --- Eventos ---",
+    "events.title": "Eventos",
+    "events.titleDesc": "Manejadores de eventos de Tkinter generados como canvas.tag_bind(...)",
+    "events.sequence": "Evento",
+    "events.sequenceDesc": "Secuencia de eventos de Tkinter",
+    "events.remove": "Eliminar manejador",
+    "events.add": "Añadir evento",
+    "events.action": "Acción",
+    "events.action.fill": "Cambiar relleno",
+    "events.action.move": "Mover dx/dy",
+    "events.action.toggleState": "Mostrar/ocultar",
+    "events.action.showText": "Mostrar texto",
+    "events.action.custom": "Código Python propio",
+    "events.target": "Aplicar a",
+    "events.targetDesc": "Figura o grupo que modifica la acción",
+    "events.target.self": "Esta figura",
+    "events.fill": "Color",
+    "events.text": "Texto",
+    "events.codePlaceholder": "print(event.x, event.y)",
+    "events.codeDesc": "Cuerpo de la función manejadora. Están disponibles las variables event y canvas.",
+    "events.seq.click": "Clic",
+    "events.seq.doubleClick": "Doble clic",
+    "events.seq.release": "Soltar botón",
+    "events.seq.rightClick": "Clic derecho",
+    "events.seq.enter": "Entrada del ratón",
+    "events.seq.leave": "Salida del ratón",
+    "events.seq.drag": "Arrastre",
+    "code.comment.animation": "# --- Animación ---",
+    "code.comment.animationUnsupported": "# {name}: la animación cambia el tipo de elemento de Tkinter, por lo que se omitió",
+    "menu.view.timeline": "Línea de tiempo de animación",
+    "animation.title": "Animación",
+    "animation.play": "Reproducir",
+    "animation.pause": "Pausa",
+    "animation.replay": "Repetir animación",
+    "animation.duration": "Duración",
+    "animation.durationDesc": "Duración de la animación en segundos",
+    "animation.fpsDesc": "Fotogramas por segundo del bucle root.after generado",
+    "animation.loop": "Repetir",
+    "animation.addKeyframe": "Fotograma clave",
+    "animation.addKeyframeDesc": "Guardar el estado actual de la figura seleccionada en el cabezal",
+    "animation.keyframeTime": "Tiempo del fotograma clave",
+    "animation.easingDesc": "Suavizado del movimiento hasta este fotograma clave",
+    "animation.easing.linear": "Lineal",
+    "animation.easing.easeIn": "Acelerar",
+    "animation.easing.easeOut": "Desacelerar",
+    "animation.easing.easeInOut": "Suave",
+    "animation.deleteKeyframe": "Eliminar fotograma clave",
+    "animation.close": "Cerrar línea de tiempo",
+    "animation.empty": "Selecciona una figura y añade un fotograma clave para empezar.",
+    "settings.code.compressLoops": "Comprimir repeticiones en bucles",
+    "settings.code.compressLoopsDesc": "Dibujar las figuras consecutivas que solo difieren en coordenadas, tamaños o colores espaciados uniformemente con un único bucle for i in range(n).",
+    "settings.code.groupFunctions": "Grupos como funciones",
+    "settings.code.groupFunctionsDesc": "Generar cada grupo de nivel superior como una función draw_<nombre>(canvas, x, y, scale=1) y dibujar el grupo llamándola.",
+    "code.comment.groupFunctions": "# --- Funciones de dibujo de grupos ---",
+    "code.comment.resize": "# --- Escalado con el tamaño de la ventana ---",
+    "settings.code.resize": "Cambio de tamaño de la ventana",
+    "settings.code.resizeDesc": "Cómo reacciona el lienzo generado cuando se cambia el tamaño de la ventana.",
+    "settings.code.resize.fixed": "Tamaño fijo",
+    "settings.code.resize.fixedDesc": "El lienzo conserva siempre el tamaño del proyecto.",
+    "settings.code.resize.stretch": "Estirar",
+    "settings.code.resize.stretchDesc": "Las figuras se escalan por separado en ancho y alto.",
+    "settings.code.resize.keepAspect": "Mantener proporciones",
+    "settings.code.resize.keepAspectDesc": "Las figuras se escalan uniformemente según el factor menor.",
+    "settings.code.scaleFonts": "Escalar fuentes",
+    "settings.code.scaleFontsDesc": "Cambiar el tamaño de fuente de los textos junto con las figuras.",
+    "preview.resizeHint": "Arrastra la esquina inferior derecha para cambiar el tamaño de la ventana",
+    "settings.code.turtle": "Python turtle (local)",
+    "settings.code.turtleDesc": "Genera un programa turtle: penup/goto/pendown, begin_fill, circle y write. Lo que turtle no puede dibujar se aproxima y se señala en comentarios.",
+    "turtle.warn.unsupported": "Aviso: turtle no puede dibujar figuras {type}, así que esta se omite",
+    "turtle.warn.ellipse": "Aviso: turtle no tiene elipses, así que se dibuja como un polígono",
+    "turtle.warn.ellipticalArc": "Aviso: turtle solo dibuja arcos de circunferencia, así que este arco se aproxima con segmentos",
+    "turtle.warn.smooth": "Aviso: la curva suavizada se aproxima con segmentos rectos cortos",
+    "turtle.warn.dash": "Aviso: turtle no dibuja discontinuas, así que la línea es continua",
+    "turtle.warn.arrow": "Aviso: turtle no dibuja puntas de flecha en las líneas",
+    "turtle.warn.stipple": "Aviso: turtle no tiene tramas, así que el relleno es sólido",
+    "turtle.warn.textRotation": "Aviso: turtle no puede girar el texto",
+    "settings.code.pygame": "pygame (local)",
+    "settings.code.pygameDesc": "Genera un programa pygame con un bucle de eventos que dibuja las figuras con pygame.draw y pygame.font. Las discontinuas y las puntas de flecha se dibujan a mano; las demás limitaciones se señalan en comentarios.",
+    "pygame.warn.unsupported": "Aviso: pygame no puede dibujar figuras {type}, así que esta se omite",
+    "pygame.warn.stipple": "Aviso: pygame no tiene tramas, así que el relleno es sólido",
+    "pygame.warn.textRotation": "Aviso: el texto se dibuja sin girar",
+    "settings.code.canvas": "HTML5 Canvas / JavaScript (local)",
+    "settings.code.canvasDesc": "Genera JavaScript para Canvas 2D: beginPath, ellipse, arc, quadraticCurveTo, setLineDash y fillText.",
+    "settings.code.canvasHtmlPage": "Página HTML completa",
+    "settings.code.canvasHtmlPageDesc": "Incluye la función draw(ctx) en una página con un elemento <canvas> que la llama. Si está desactivado, solo se genera la función.",
+    "code.htmlFile": "Archivo HTML",
+    "code.jsFile": "Archivo JavaScript",
+    "canvas.comment.images": "Imágenes, incrustadas como data URL",
+    "canvas.comment.waitForImages": "Llama a draw(ctx) cuando las imágenes se hayan cargado:",
+    "canvas.warn.unsupported": "Aviso: el canvas no tiene equivalente para figuras {type}, así que esta se omite",
+    "canvas.warn.stipple": "Aviso: el canvas no tiene tramas, así que el relleno es sólido",
+    "canvas.warn.textDecoration": "Aviso: fillText no subraya ni tacha el texto",
+    "settings.code.pillow": "Imagen PNG con Pillow (local)",
+    "settings.code.pillowDesc": "Genera un script sin interfaz gráfica: Image.new e ImageDraw dibujan las figuras y guardan el dibujo como PNG.",
+    "pillow.warn.unsupported": "Aviso: Pillow no puede dibujar figuras {type}, así que esta se omite",
+    "pillow.warn.stipple": "Aviso: Pillow no tiene tramas, así que el relleno es sólido",
+    "pillow.warn.textRotation": "Aviso: el texto se dibuja sin girar",
+    "pillow.warn.textDecoration": "Aviso: ImageDraw no subraya ni tacha el texto",
+    "export.bundle": "Paquete del proyecto (ZIP)",
+    "export.bundleDesc": "Un archivo con el código Python, una carpeta assets/ con cada imagen como archivo PNG y el proyecto .vec.json. El código carga las imágenes desde esos archivos mediante rutas relativas.",
+    "settings.code.nativeImages": "Imágenes sin Pillow",
+    "settings.code.nativeImagesDesc": "Inserta las imágenes con PhotoImage(data=...) de Tkinter, redimensionadas de antemano al tamaño de la figura. Pillow solo hace falta para imágenes giradas o volteadas.",
+    "code.comment.variables": "# --- Variables ---",
+    "variables.title": "Variables",
+    "variables.desc": "Las variables se pueden usar en los campos de coordenadas y grosor (p. ej. W - margin). Se declaran al principio del código generado y las figuras las siguen cuando cambian sus valores.",
+    "variables.name": "Nombre de la variable",
+    "variables.value": "Valor de la variable",
+    "variables.delete": "Eliminar variable",
+    "variables.add": "Añadir variable",
+    "variables.builtInDesc": "Tamaño del lienzo, siempre disponible",
+    "variables.colorDesc": "Variable de color: las figuras con este color la usan en el código",
+    "variables.error.invalidName": "El nombre debe ser un identificador de Python que no sea una palabra clave ni un nombre usado por el código.",
+    "variables.error.builtIn": "W y H ya representan el tamaño del lienzo.",
+    "variables.error.duplicate": "Ya existe una variable con este nombre.",
+    "settings.code.colorNames": "Nombres de colores",
+    "settings.code.colorNamesDesc": "Cómo se escriben los colores en el código Tkinter. Tk conoce más de 700 nombres, p. ej. \"sky blue\" o \"gray75\".",
+    "settings.code.colorNames.hex": "Como en el proyecto",
+    "settings.code.colorNames.hexDesc": "Los códigos HEX y los nombres se mantienen tal como se introdujeron.",
+    "settings.code.colorNames.exact": "Nombres exactos",
+    "settings.code.colorNames.exactDesc": "Un código HEX se sustituye por un nombre cuando Tk tiene un color exactamente con ese valor.",
+    "settings.code.colorNames.nearest": "Nombres más cercanos",
+    "settings.code.colorNames.nearestDesc": "Cada código HEX se sustituye por el nombre de Tk más cercano. Los colores pueden variar ligeramente.",
+    "color.invalidTk": "Tk no conoce este color: el código lo convierte a HEX o lo omite.",
+    "color.invalidLoaded": "{count} colores no son conocidos por Tk ({colors}). Se marcan en las propiedades y el código los convierte a HEX o los omite.",
+    "code.note.invalidColor": "color desconocido para Tk omitido:",
+    "tool.widget": "Widget",
+    "widget.button": "Botón",
+    "widget.label": "Etiqueta",
+    "widget.entry": "Campo de entrada",
+    "widget.checkbutton": "Casilla",
+    "widget.scale": "Deslizador",
+    "props.widgetType": "Widget:",
+    "prop.title.widgetType": "La clase de widget de Tkinter colocada en el lienzo.",
+    "props.widgetThemed": "Con tema (ttk)",
+    "prop.title.widgetThemed": "Crea el widget desde tkinter.ttk. Los colores y la fuente van en un estilo propio; el aspecto depende del tema del sistema.",
+    "prop.title.widgetText": "Texto mostrado en el widget (la etiqueta de un deslizador).",
+    "prop.title.widgetInitialText": "Contenido inicial del campo.",
+    "props.widgetCommand": "Comando:",
+    "prop.title.widgetCommand": "Nombre de la función que llama el widget. Se añade un esqueleto en el código.",
+    "props.scaleFrom": "Desde:",
+    "prop.title.scaleFrom": "Valor del deslizador en su extremo izquierdo.",
+    "props.scaleTo": "Hasta:",
+    "prop.title.scaleTo": "Valor del deslizador en su extremo derecho.",
+    "code.comment.widgetCommands": "# --- Comandos de los widgets ---",
+    "props.stateStyles": "Al pasar el ratón y desactivado",
+    "props.stateStylesDesc": "Cómo dibuja Tk el elemento con el puntero encima (active…) y cuando está desactivado (disabled…). Los valores sin marcar conservan el aspecto normal.",
+    "props.stateStyles.active": "Bajo el puntero",
+    "props.stateStyles.disabled": "Desactivado",
+    "prop.title.stateStyleToggle": "Dar a \"{property}\" un valor propio en este estado.",
+    "bitmaps.title": "Mapas de bits del proyecto",
+    "bitmaps.new": "Nuevo",
+    "bitmaps.defaultName": "bitmap",
+    "bitmaps.import": "Importar XBM…",
+    "bitmaps.importError": "El archivo no es un mapa de bits XBM o es mayor que {size}×{size}.",
+    "bitmaps.name": "Nombre",
+    "bitmaps.nameDesc": "El nombre da el nombre del archivo .xbm en el código generado.",
+    "bitmaps.width": "Ancho",
+    "bitmaps.height": "Alto",
+    "bitmaps.clear": "Borrar",
+    "bitmaps.invert": "Invertir",
+    "bitmaps.delete": "Eliminar",
+    "bitmaps.inUse": "Hay figuras que usan este mapa de bits, así que no se puede eliminar.",
+    "bitmaps.empty": "El proyecto aún no tiene mapas de bits. Crea uno nuevo o importa un archivo XBM.",
+    "bitmaps.drawHint": "Haz clic o arrastra para dibujar; si empiezas en un píxel activo, borras.",
+    "props.bitmaps.custom": "Mapas de bits del proyecto",
+    "props.bitmaps.edit": "Mapas de bits…",
+    "prop.title.editBitmaps": "Dibuja o importa tus propios mapas de bits XBM.",
+    "props.outlineStipple": "Patrón del contorno",
+    "prop.title.outlineStipple": "Mapa de bits a través del cual se dibuja el contorno (outlinestipple).",
+    "code.note.missingBitmap": "se eliminó el mapa de bits del proyecto",
+    "settings.canvas.scrollable": "Lienzo desplazable",
+    "settings.canvas.scrollableDesc": "La ventana del programa es más pequeña que el lienzo: muestra solo el área visible y las barras de desplazamiento alcanzan el resto. El tamaño del lienzo pasa a ser el scrollregion.",
+    "settings.canvas.viewportWidth": "Ancho de la ventana:",
+    "settings.canvas.viewportHeight": "Alto de la ventana:",
+    "settings.canvas.mouseWheel": "Desplazamiento con la rueda del ratón",
+    "settings.canvas.mouseWheelDesc": "La rueda desplaza en vertical y, con Shift pulsado, en horizontal.",
+    "settings.code.resizeScrollable": "El lienzo se desplaza, así que no se escala con la ventana.",
+    "code.comment.mouseWheel": "# Desplazamiento con la rueda del ratón (en horizontal con Shift)",
+    "pages.defaultName": "Página",
+    "pages.add": "Añadir una página con su propio lienzo",
+    "pages.addShort": "Página",
+    "pages.delete": "Eliminar página",
+    "pages.deleteConfirmTitle": "Eliminar página",
+    "pages.deleteConfirmText": "¿Eliminar la página \"{name}\" con todas sus figuras?",
+    "settings.code.resizePages": "El proyecto tiene varias páginas, así que los lienzos no se escalan con la ventana.",
+    "settings.code.pageLayout": "Páginas en el código",
+    "settings.code.pageLayoutDesc": "Cómo muestra el programa los lienzos de un proyecto con varias páginas.",
+    "settings.code.pageLayout.frames": "Cambiar de página",
+    "settings.code.pageLayout.framesDesc": "Cada página es un Frame propio; se ve una cada vez y show_page() o RePág/AvPág cambian entre ellas.",
+    "settings.code.pageLayout.grid": "Todos los lienzos en fila",
+    "settings.code.pageLayout.gridDesc": "Cada página es su propio Canvas, colocado en fila con grid().",
+    "code.comment.pages": "# Lienzos de las páginas del proyecto",
+    "code.comment.showPage": "# Muestra una página por número (RePág/AvPág las recorren)",
+    "code.comment.page": "# Página \"{name}\"",
+    "menu.edit.copy": "Copiar",
+    "menu.edit.cut": "Cortar",
+    "menu.edit.paste": "Pegar",
+    "shortcuts.item.copy": "Copiar la selección al portapapeles",
+    "shortcuts.item.cut": "Cortar la selección",
+    "shortcuts.item.paste": "Pegar las figuras en la posición del cursor",
+    "clipboard.copied": "Figuras copiadas: {count}",
+    "clipboard.cut": "Figuras cortadas: {count}",
+    "clipboard.pasted": "Figuras pegadas: {count}",
+    "clipboard.empty": "El portapapeles no contiene figuras copiadas",
+    "clipboard.writeError": "No se pudo escribir en el portapapeles",
+    "clipboard.readError": "El navegador no permitió leer el portapapeles; prueba Ctrl+V",
+    "svgImport.imported": "Figuras importadas del SVG: {count}",
+    "svgImport.skipped": "Elementos sin figura equivalente (imágenes y similares) omitidos: {count}.",
+    "svgImport.empty": "El SVG no contiene figuras que se puedan importar",
+    "svgImport.invalid": "El archivo no es un documento SVG válido"
   },
   "de": {
     "toolbar.drawMode.corner": "Ecke bis Ecke",
@@ -7097,7 +8021,238 @@ export const translations = {
     "share.testUrlLabel": "Testlink (aktuelle Vorschau)",
     "share.ghPagesWhyTitle": "💡 Warum hat die GitHub Pages-Website die Startseite geöffnet?",
     "share.ghPagesWhyDesc": "Auf GitHub Pages ist derzeit eine frühere Version des Editors geladen, die den aktualisierten Link-Parsing-Code noch nicht enthält.",
-    "share.ghPagesWhyHint": "Aktualisieren Sie den Build auf GitHub Pages, um den Projektlink direkt zu öffnen."
+    "share.ghPagesWhyHint": "Aktualisieren Sie den Build auf GitHub Pages, um den Projektlink direkt zu öffnen.",
+    "import.tkinter.noShapes": "Im Python-Skript wurden keine create_*-Aufrufe gefunden, die in Formen umgewandelt werden können.",
+    "import.tkinter.success": "Tkinter-Skript importiert: {count} Formen.",
+    "import.tkinter.partial": "{count} Formen importiert. {skipped} Zeilen konnten nicht übernommen werden — {lines}",
+    "code.edit.hint": "Doppelklick zum Bearbeiten der Zeile. Enter übernimmt, Esc bricht ab.",
+    "code.edit.discardHint": "(Esc beim Bearbeiten verwirft die Änderung)",
+    "code.edit.error.syntax": "Syntaxfehler im Aufruf.",
+    "code.edit.error.nonLiteral": "Nur Zahlen, Zeichenketten und Tupel sind erlaubt (keine Variablen oder Ausdrücke).",
+    "code.edit.error.coords": "Falsche Anzahl von Koordinaten für dieses Element.",
+    "code.edit.error.unsupported": "Dieser Aufruf oder diese Option wird vom Editor nicht unterstützt.",
+    "settings.code.style": "Codestil",
+    "settings.code.styleDesc": "Aufbau des erzeugten Programms. Wird mit dem Projekt gespeichert.",
+    "settings.code.style.classic": "Klassisch",
+    "settings.code.style.classicDesc": "from tkinter import *",
+    "settings.code.style.module": "tk-Modul",
+    "settings.code.style.moduleDesc": "import tkinter as tk",
+    "settings.code.style.function": "Funktion main()",
+    "settings.code.style.functionDesc": "def main() + if __name__ == \"__main__\"",
+    "settings.code.style.class": "Klasse App",
+    "settings.code.style.classDesc": "class App(tk.Tk) + draw()",
+    "settings.code.shapeVariables": "Variablen für Formen",
+    "settings.code.shapeVariablesDesc": "Jedes Element einer nach der Form benannten Variable zuweisen, z. B. sun = c.create_oval(...).",
+    "code.comment.events": "# --- Ereignisse ---",
+    "events.title": "Ereignisse",
+    "events.titleDesc": "Tkinter-Ereignishandler, erzeugt als canvas.tag_bind(...)",
+    "events.sequence": "Ereignis",
+    "events.sequenceDesc": "Tkinter-Ereignissequenz",
+    "events.remove": "Handler entfernen",
+    "events.add": "Ereignis hinzufügen",
+    "events.action": "Aktion",
+    "events.action.fill": "Füllung ändern",
+    "events.action.move": "Um dx/dy verschieben",
+    "events.action.toggleState": "Ein-/ausblenden",
+    "events.action.showText": "Text anzeigen",
+    "events.action.custom": "Eigener Python-Code",
+    "events.target": "Anwenden auf",
+    "events.targetDesc": "Form oder Gruppe, die die Aktion ändert",
+    "events.target.self": "Diese Form",
+    "events.fill": "Farbe",
+    "events.text": "Text",
+    "events.codePlaceholder": "print(event.x, event.y)",
+    "events.codeDesc": "Rumpf der Handler-Funktion. Die Variablen event und Canvas sind verfügbar.",
+    "events.seq.click": "Klick",
+    "events.seq.doubleClick": "Doppelklick",
+    "events.seq.release": "Taste loslassen",
+    "events.seq.rightClick": "Rechtsklick",
+    "events.seq.enter": "Maus hinein",
+    "events.seq.leave": "Maus hinaus",
+    "events.seq.drag": "Ziehen",
+    "code.comment.animation": "# --- Animation ---",
+    "code.comment.animationUnsupported": "# {name}: Die Animation ändert die Art des Tkinter-Elements und wurde übersprungen",
+    "menu.view.timeline": "Animations-Zeitleiste",
+    "animation.title": "Animation",
+    "animation.play": "Abspielen",
+    "animation.pause": "Pause",
+    "animation.replay": "Animation erneut abspielen",
+    "animation.duration": "Dauer",
+    "animation.durationDesc": "Länge der Animation in Sekunden",
+    "animation.fpsDesc": "Bilder pro Sekunde der erzeugten root.after-Schleife",
+    "animation.loop": "Wiederholen",
+    "animation.addKeyframe": "Schlüsselbild",
+    "animation.addKeyframeDesc": "Aktuellen Zustand der ausgewählten Form an der Abspielposition speichern",
+    "animation.keyframeTime": "Zeitpunkt des Schlüsselbilds",
+    "animation.easingDesc": "Beschleunigung der Bewegung bis zu diesem Schlüsselbild",
+    "animation.easing.linear": "Linear",
+    "animation.easing.easeIn": "Beschleunigen",
+    "animation.easing.easeOut": "Abbremsen",
+    "animation.easing.easeInOut": "Weich",
+    "animation.deleteKeyframe": "Schlüsselbild löschen",
+    "animation.close": "Zeitleiste schließen",
+    "animation.empty": "Wähle eine Form aus und füge ein Schlüsselbild hinzu, um zu beginnen.",
+    "settings.code.compressLoops": "Wiederholungen zu Schleifen zusammenfassen",
+    "settings.code.compressLoopsDesc": "Aufeinanderfolgende Formen, die sich nur durch gleichmäßig verteilte Koordinaten, Größen oder Farben unterscheiden, mit einer einzigen for i in range(n)-Schleife zeichnen.",
+    "settings.code.groupFunctions": "Gruppen als Funktionen",
+    "settings.code.groupFunctionsDesc": "Jede Gruppe der obersten Ebene als Funktion draw_<name>(canvas, x, y, scale=1) ausgeben und die Gruppe mit einem Aufruf zeichnen.",
+    "code.comment.groupFunctions": "# --- Zeichenfunktionen für Gruppen ---",
+    "code.comment.resize": "# --- Skalierung mit der Fenstergröße ---",
+    "settings.code.resize": "Größenänderung des Fensters",
+    "settings.code.resizeDesc": "Wie die erzeugte Zeichenfläche reagiert, wenn das Fenster vergrößert oder verkleinert wird.",
+    "settings.code.resize.fixed": "Feste Größe",
+    "settings.code.resize.fixedDesc": "Die Zeichenfläche behält immer die Projektgröße.",
+    "settings.code.resize.stretch": "Strecken",
+    "settings.code.resize.stretchDesc": "Formen skalieren getrennt mit Breite und Höhe.",
+    "settings.code.resize.keepAspect": "Seitenverhältnis beibehalten",
+    "settings.code.resize.keepAspectDesc": "Formen skalieren gleichmäßig mit dem kleineren Faktor.",
+    "settings.code.scaleFonts": "Schriften skalieren",
+    "settings.code.scaleFontsDesc": "Schriftgröße von Texten zusammen mit den Formen ändern.",
+    "preview.resizeHint": "Ziehe an der unteren rechten Ecke, um die Fenstergröße zu ändern",
+    "settings.code.turtle": "Python turtle (lokal)",
+    "settings.code.turtleDesc": "Erzeugt ein turtle-Programm: penup/goto/pendown, begin_fill, circle und write. Was turtle nicht zeichnen kann, wird angenähert und in Kommentaren markiert.",
+    "turtle.warn.unsupported": "Achtung: turtle kann keine {type}-Formen zeichnen, diese wird übersprungen",
+    "turtle.warn.ellipse": "Achtung: turtle kennt keine Ellipsen, diese wird als Vieleck gezeichnet",
+    "turtle.warn.ellipticalArc": "Achtung: turtle zeichnet nur Kreisbögen, dieser Bogen wird durch Strecken angenähert",
+    "turtle.warn.smooth": "Achtung: die geglättete Kurve wird durch kurze gerade Strecken angenähert",
+    "turtle.warn.dash": "Achtung: turtle kann nicht strichlieren, die Linie ist durchgezogen",
+    "turtle.warn.arrow": "Achtung: turtle zeichnet keine Pfeilspitzen",
+    "turtle.warn.stipple": "Achtung: turtle kennt keine Punktraster, die Füllung ist vollflächig",
+    "turtle.warn.textRotation": "Achtung: turtle kann Text nicht drehen",
+    "settings.code.pygame": "pygame (lokal)",
+    "settings.code.pygameDesc": "Erzeugt ein pygame-Programm mit Ereignisschleife, das die Formen mit pygame.draw und pygame.font zeichnet. Strichlierungen und Pfeilspitzen werden von Hand gezeichnet; andere Grenzen werden in Kommentaren markiert.",
+    "pygame.warn.unsupported": "Achtung: pygame kann keine {type}-Formen zeichnen, diese wird übersprungen",
+    "pygame.warn.stipple": "Achtung: pygame kennt keine Punktraster, die Füllung ist vollflächig",
+    "pygame.warn.textRotation": "Achtung: der Text wird ungedreht gezeichnet",
+    "settings.code.canvas": "HTML5 Canvas / JavaScript (lokal)",
+    "settings.code.canvasDesc": "Erzeugt Canvas-2D-JavaScript: beginPath, ellipse, arc, quadraticCurveTo, setLineDash und fillText.",
+    "settings.code.canvasHtmlPage": "Vollständige HTML-Seite",
+    "settings.code.canvasHtmlPageDesc": "Bettet die Funktion draw(ctx) in eine Seite mit einem <canvas>-Element ein, die sie aufruft. Ausgeschaltet wird nur die Funktion erzeugt.",
+    "code.htmlFile": "HTML-Datei",
+    "code.jsFile": "JavaScript-Datei",
+    "canvas.comment.images": "Bilder, als Data-URLs eingebettet",
+    "canvas.comment.waitForImages": "draw(ctx) erst aufrufen, wenn die Bilder geladen sind:",
+    "canvas.warn.unsupported": "Achtung: das Canvas kennt keine {type}-Formen, diese wird übersprungen",
+    "canvas.warn.stipple": "Achtung: das Canvas kennt keine Punktraster, die Füllung ist vollflächig",
+    "canvas.warn.textDecoration": "Achtung: fillText kann Text weder unter- noch durchstreichen",
+    "settings.code.pillow": "PNG-Bild mit Pillow (lokal)",
+    "settings.code.pillowDesc": "Erzeugt ein Skript ohne grafische Oberfläche: Image.new und ImageDraw zeichnen die Formen und speichern die Zeichnung als PNG.",
+    "pillow.warn.unsupported": "Achtung: Pillow kann keine {type}-Formen zeichnen, diese wird übersprungen",
+    "pillow.warn.stipple": "Achtung: Pillow kennt keine Punktraster, die Füllung ist vollflächig",
+    "pillow.warn.textRotation": "Achtung: der Text wird ungedreht gezeichnet",
+    "pillow.warn.textDecoration": "Achtung: ImageDraw kann Text weder unter- noch durchstreichen",
+    "export.bundle": "Projektpaket (ZIP)",
+    "export.bundleDesc": "Ein Archiv mit dem Python-Code, einem Ordner assets/ mit jedem Bild als PNG-Datei und dem .vec.json-Projekt. Der Code lädt die Bilder über relative Pfade aus diesen Dateien.",
+    "settings.code.nativeImages": "Bilder ohne Pillow",
+    "settings.code.nativeImagesDesc": "Bilder mit Tkinters eigenem PhotoImage(data=...) einbetten, vorab auf die Größe der Form skaliert. Pillow wird nur für gedrehte oder gespiegelte Bilder benötigt.",
+    "code.comment.variables": "# --- Variablen ---",
+    "variables.title": "Variablen",
+    "variables.desc": "Variablen können in Koordinaten- und Breitenfeldern verwendet werden (z. B. W - margin). Sie werden am Anfang des generierten Codes deklariert, und Formen folgen ihnen, wenn sich ihre Werte ändern.",
+    "variables.name": "Variablenname",
+    "variables.value": "Variablenwert",
+    "variables.delete": "Variable löschen",
+    "variables.add": "Variable hinzufügen",
+    "variables.builtInDesc": "Leinwandgröße, immer verfügbar",
+    "variables.colorDesc": "Farbvariable: Formen mit dieser Farbe verwenden sie im Code",
+    "variables.error.invalidName": "Der Name muss ein Python-Bezeichner sein, der kein Schlüsselwort und kein im Code verwendeter Name ist.",
+    "variables.error.builtIn": "W und H stehen bereits für die Leinwandgröße.",
+    "variables.error.duplicate": "Eine Variable mit diesem Namen existiert bereits.",
+    "settings.code.colorNames": "Farbnamen",
+    "settings.code.colorNamesDesc": "Wie Farben im Tkinter-Code geschrieben werden. Tk kennt über 700 Namen, z. B. \"sky blue\" oder \"gray75\".",
+    "settings.code.colorNames.hex": "Wie im Projekt",
+    "settings.code.colorNames.hexDesc": "HEX-Codes und Namen bleiben wie eingegeben.",
+    "settings.code.colorNames.exact": "Exakte Namen",
+    "settings.code.colorNames.exactDesc": "Ein HEX-Code wird durch einen Namen ersetzt, wenn Tk eine Farbe mit genau diesem Wert kennt.",
+    "settings.code.colorNames.nearest": "Nächste Namen",
+    "settings.code.colorNames.nearestDesc": "Jeder HEX-Code wird durch den nächsten Tk-Namen ersetzt. Farben können sich leicht verschieben.",
+    "color.invalidTk": "Tk kennt diese Farbe nicht: Der Code wandelt sie in HEX um oder lässt sie weg.",
+    "color.invalidLoaded": "{count} Farben sind Tk unbekannt ({colors}). Sie sind in den Eigenschaften markiert, und der Code wandelt sie in HEX um oder lässt sie weg.",
+    "code.note.invalidColor": "Tk unbekannte Farbe weggelassen:",
+    "tool.widget": "Widget",
+    "widget.button": "Schaltfläche",
+    "widget.label": "Beschriftung",
+    "widget.entry": "Eingabefeld",
+    "widget.checkbutton": "Kontrollkästchen",
+    "widget.scale": "Schieberegler",
+    "props.widgetType": "Widget:",
+    "prop.title.widgetType": "Die Tkinter-Widgetklasse, die auf der Leinwand platziert wird.",
+    "props.widgetThemed": "Mit Theme (ttk)",
+    "prop.title.widgetThemed": "Das Widget aus tkinter.ttk erzeugen. Farben und Schrift kommen in einen eigenen Stil; das Aussehen hängt vom Systemthema ab.",
+    "prop.title.widgetText": "Text auf dem Widget (bei einem Schieberegler seine Beschriftung).",
+    "prop.title.widgetInitialText": "Anfangsinhalt des Eingabefelds.",
+    "props.widgetCommand": "Befehl:",
+    "prop.title.widgetCommand": "Name der Funktion, die das Widget aufruft. Im Code wird ein Gerüst dafür angelegt.",
+    "props.scaleFrom": "Von:",
+    "prop.title.scaleFrom": "Wert des Schiebereglers am linken Ende.",
+    "props.scaleTo": "Bis:",
+    "prop.title.scaleTo": "Wert des Schiebereglers am rechten Ende.",
+    "code.comment.widgetCommands": "# --- Widget-Befehle ---",
+    "props.stateStyles": "Hover und deaktiviert",
+    "props.stateStylesDesc": "Wie Tk das Element zeichnet, während der Zeiger darüber ist (active…) und während es deaktiviert ist (disabled…). Nicht angehakte Werte behalten das normale Aussehen.",
+    "props.stateStyles.active": "Unter dem Zeiger",
+    "props.stateStyles.disabled": "Deaktiviert",
+    "prop.title.stateStyleToggle": "\"{property}\" in diesem Zustand einen eigenen Wert geben.",
+    "bitmaps.title": "Projekt-Bitmaps",
+    "bitmaps.new": "Neu",
+    "bitmaps.defaultName": "bitmap",
+    "bitmaps.import": "XBM importieren…",
+    "bitmaps.importError": "Die Datei ist keine XBM-Bitmap oder größer als {size}×{size}.",
+    "bitmaps.name": "Name",
+    "bitmaps.nameDesc": "Aus dem Namen entsteht der Name der .xbm-Datei im erzeugten Code.",
+    "bitmaps.width": "Breite",
+    "bitmaps.height": "Höhe",
+    "bitmaps.clear": "Leeren",
+    "bitmaps.invert": "Invertieren",
+    "bitmaps.delete": "Löschen",
+    "bitmaps.inUse": "Formen verwenden diese Bitmap, daher kann sie nicht gelöscht werden.",
+    "bitmaps.empty": "Das Projekt hat noch keine Bitmaps. Erstellen Sie eine neue oder importieren Sie eine XBM-Datei.",
+    "bitmaps.drawHint": "Klicken oder ziehen zum Zeichnen; beginnt man auf einem gesetzten Pixel, wird radiert.",
+    "props.bitmaps.custom": "Projekt-Bitmaps",
+    "props.bitmaps.edit": "Bitmaps…",
+    "prop.title.editBitmaps": "Eigene XBM-Bitmaps zeichnen oder importieren.",
+    "props.outlineStipple": "Umrissmuster",
+    "prop.title.outlineStipple": "Bitmap, durch die der Umriss gezeichnet wird (outlinestipple).",
+    "code.note.missingBitmap": "Projekt-Bitmap wurde gelöscht",
+    "settings.canvas.scrollable": "Scrollbare Leinwand",
+    "settings.canvas.scrollableDesc": "Das Programmfenster ist kleiner als die Leinwand: Es zeigt nur den sichtbaren Ausschnitt, den Rest erreichen Bildlaufleisten. Die Leinwandgröße wird zur scrollregion.",
+    "settings.canvas.viewportWidth": "Fensterbreite:",
+    "settings.canvas.viewportHeight": "Fensterhöhe:",
+    "settings.canvas.mouseWheel": "Scrollen mit dem Mausrad",
+    "settings.canvas.mouseWheelDesc": "Das Rad scrollt senkrecht, mit gedrückter Umschalttaste waagerecht.",
+    "settings.code.resizeScrollable": "Die Leinwand scrollt und wird daher nicht mit dem Fenster skaliert.",
+    "code.comment.mouseWheel": "# Scrollen mit dem Mausrad (waagerecht mit Umschalt)",
+    "pages.defaultName": "Seite",
+    "pages.add": "Seite mit eigener Leinwand hinzufügen",
+    "pages.addShort": "Seite",
+    "pages.delete": "Seite löschen",
+    "pages.deleteConfirmTitle": "Seite löschen",
+    "pages.deleteConfirmText": "Seite \"{name}\" mit allen ihren Formen löschen?",
+    "settings.code.resizePages": "Das Projekt hat mehrere Seiten, daher werden die Leinwände nicht mit dem Fenster skaliert.",
+    "settings.code.pageLayout": "Seiten im Code",
+    "settings.code.pageLayoutDesc": "Wie das Programm die Leinwände eines Projekts mit mehreren Seiten zeigt.",
+    "settings.code.pageLayout.frames": "Seiten umschalten",
+    "settings.code.pageLayout.framesDesc": "Jede Seite ist ein eigener Frame; eine ist sichtbar, show_page() oder Bild auf/Bild ab wechseln zwischen ihnen.",
+    "settings.code.pageLayout.grid": "Alle Leinwände nebeneinander",
+    "settings.code.pageLayout.gridDesc": "Jede Seite ist ein eigenes Canvas, mit grid() in einer Reihe angeordnet.",
+    "code.comment.pages": "# Leinwände der Projektseiten",
+    "code.comment.showPage": "# Zeigt eine Seite nach Nummer (Bild auf/Bild ab blättern)",
+    "code.comment.page": "# Seite \"{name}\"",
+    "menu.edit.copy": "Kopieren",
+    "menu.edit.cut": "Ausschneiden",
+    "menu.edit.paste": "Einfügen",
+    "shortcuts.item.copy": "Auswahl in die Zwischenablage kopieren",
+    "shortcuts.item.cut": "Auswahl ausschneiden",
+    "shortcuts.item.paste": "Formen am Mauszeiger einfügen",
+    "clipboard.copied": "{count} Form(en) kopiert",
+    "clipboard.cut": "{count} Form(en) ausgeschnitten",
+    "clipboard.pasted": "{count} Form(en) eingefügt",
+    "clipboard.empty": "Die Zwischenablage enthält keine kopierten Formen",
+    "clipboard.writeError": "Die Zwischenablage konnte nicht beschrieben werden",
+    "clipboard.readError": "Der Browser hat das Lesen der Zwischenablage nicht erlaubt; versuchen Sie Strg+V",
+    "svgImport.imported": "{count} Form(en) aus der SVG importiert",
+    "svgImport.skipped": "{count} Element(e) ohne passende Form (Bilder u. Ä.) wurden ausgelassen.",
+    "svgImport.empty": "Die SVG enthält keine importierbaren Formen",
+    "svgImport.invalid": "Die Datei ist kein gültiges SVG-Dokument"
   },
   "fr": {
     "toolbar.drawMode.corner": "Depuis le coin",
@@ -8517,7 +9672,238 @@ export const translations = {
     "share.testUrlLabel": "Lien de test (aperçu actuel)",
     "share.ghPagesWhyTitle": "💡 Pourquoi le site sur GitHub Pages a-t-il ouvert la page d’accueil ?",
     "share.ghPagesWhyDesc": "GitHub Pages héberge actuellement une version antérieure de l’éditeur qui n’inclut pas encore le code mis à jour de lecture des liens.",
-    "share.ghPagesWhyHint": "Publiez la version mise à jour sur GitHub Pages et le lien ouvrira directement votre projet."
+    "share.ghPagesWhyHint": "Publiez la version mise à jour sur GitHub Pages et le lien ouvrira directement votre projet.",
+    "import.tkinter.noShapes": "Aucun appel create_* convertible en formes n’a été trouvé dans le script Python.",
+    "import.tkinter.success": "Script Tkinter importé : {count} formes.",
+    "import.tkinter.partial": "{count} formes importées. {skipped} lignes n’ont pas pu être converties — {lines}",
+    "code.edit.hint": "Double-cliquez pour modifier la ligne. Entrée applique, Échap annule.",
+    "code.edit.discardHint": "(Échap pendant l’édition pour annuler)",
+    "code.edit.error.syntax": "Erreur de syntaxe dans l’appel.",
+    "code.edit.error.nonLiteral": "Seuls les nombres, chaînes et tuples sont acceptés (pas de variables ni d’expressions).",
+    "code.edit.error.coords": "Nombre de coordonnées incorrect pour cet élément.",
+    "code.edit.error.unsupported": "Cet appel ou cette option n’est pas pris en charge par l’éditeur.",
+    "settings.code.style": "Style de code",
+    "settings.code.styleDesc": "Structure du programme généré. Enregistrée avec le projet.",
+    "settings.code.style.classic": "Classique",
+    "settings.code.style.classicDesc": "from tkinter import *",
+    "settings.code.style.module": "Module tk",
+    "settings.code.style.moduleDesc": "import tkinter as tk",
+    "settings.code.style.function": "Fonction main()",
+    "settings.code.style.functionDesc": "def main() + if __name__ == \"__main__\"",
+    "settings.code.style.class": "Classe App",
+    "settings.code.style.classDesc": "class App(tk.Tk) + draw()",
+    "settings.code.shapeVariables": "Variables pour les formes",
+    "settings.code.shapeVariablesDesc": "Affecte chaque élément à une variable nommée d'après sa forme, p. ex. sun = c.create_oval(...).",
+    "code.comment.events": "# --- Événements ---",
+    "events.title": "Événements",
+    "events.titleDesc": "Gestionnaires d'événements Tkinter générés avec canvas.tag_bind(...)",
+    "events.sequence": "Événement",
+    "events.sequenceDesc": "Séquence d'événements Tkinter",
+    "events.remove": "Supprimer le gestionnaire",
+    "events.add": "Ajouter un événement",
+    "events.action": "Action",
+    "events.action.fill": "Changer le remplissage",
+    "events.action.move": "Déplacer de dx/dy",
+    "events.action.toggleState": "Afficher/masquer",
+    "events.action.showText": "Afficher un texte",
+    "events.action.custom": "Code Python personnalisé",
+    "events.target": "Appliquer à",
+    "events.targetDesc": "Forme ou groupe modifié par l'action",
+    "events.target.self": "Cette forme",
+    "events.fill": "Couleur",
+    "events.text": "Texte",
+    "events.codePlaceholder": "print(event.x, event.y)",
+    "events.codeDesc": "Corps de la fonction gestionnaire. Les variables event et canvas sont disponibles.",
+    "events.seq.click": "Clic",
+    "events.seq.doubleClick": "Double clic",
+    "events.seq.release": "Relâchement du bouton",
+    "events.seq.rightClick": "Clic droit",
+    "events.seq.enter": "Entrée de la souris",
+    "events.seq.leave": "Sortie de la souris",
+    "events.seq.drag": "Glisser",
+    "code.comment.animation": "# --- Animation ---",
+    "code.comment.animationUnsupported": "# {name} : l'animation change le type d'élément Tkinter, elle a donc été ignorée",
+    "menu.view.timeline": "Timeline d'animation",
+    "animation.title": "Animation",
+    "animation.play": "Lire",
+    "animation.pause": "Pause",
+    "animation.replay": "Rejouer l'animation",
+    "animation.duration": "Durée",
+    "animation.durationDesc": "Durée de l'animation en secondes",
+    "animation.fpsDesc": "Images par seconde de la boucle root.after générée",
+    "animation.loop": "En boucle",
+    "animation.addKeyframe": "Image clé",
+    "animation.addKeyframeDesc": "Enregistrer l'état actuel de la forme sélectionnée à la tête de lecture",
+    "animation.keyframeTime": "Temps de l'image clé",
+    "animation.easingDesc": "Accélération du mouvement jusqu'à cette image clé",
+    "animation.easing.linear": "Linéaire",
+    "animation.easing.easeIn": "Accélérer",
+    "animation.easing.easeOut": "Ralentir",
+    "animation.easing.easeInOut": "Doux",
+    "animation.deleteKeyframe": "Supprimer l'image clé",
+    "animation.close": "Fermer la timeline",
+    "animation.empty": "Sélectionnez une forme et ajoutez une image clé pour commencer.",
+    "settings.code.compressLoops": "Regrouper les répétitions en boucles",
+    "settings.code.compressLoopsDesc": "Dessiner les formes consécutives qui ne diffèrent que par des coordonnées, tailles ou couleurs régulièrement espacées avec une seule boucle for i in range(n).",
+    "settings.code.groupFunctions": "Groupes en fonctions",
+    "settings.code.groupFunctionsDesc": "Générer chaque groupe de premier niveau comme une fonction draw_<nom>(canvas, x, y, scale=1) et dessiner le groupe en l'appelant.",
+    "code.comment.groupFunctions": "# --- Fonctions de dessin des groupes ---",
+    "code.comment.resize": "# --- Mise à l'échelle avec la fenêtre ---",
+    "settings.code.resize": "Redimensionnement de la fenêtre",
+    "settings.code.resizeDesc": "Comment le canevas généré réagit au redimensionnement de la fenêtre.",
+    "settings.code.resize.fixed": "Taille fixe",
+    "settings.code.resize.fixedDesc": "Le canevas garde toujours la taille du projet.",
+    "settings.code.resize.stretch": "Étirer",
+    "settings.code.resize.stretchDesc": "Les formes suivent séparément la largeur et la hauteur.",
+    "settings.code.resize.keepAspect": "Conserver les proportions",
+    "settings.code.resize.keepAspectDesc": "Les formes sont mises à l'échelle uniformément selon le plus petit facteur.",
+    "settings.code.scaleFonts": "Redimensionner les polices",
+    "settings.code.scaleFontsDesc": "Modifier la taille de police des textes avec les formes.",
+    "preview.resizeHint": "Faites glisser le coin inférieur droit pour redimensionner la fenêtre",
+    "settings.code.turtle": "Python turtle (local)",
+    "settings.code.turtleDesc": "Génère un programme turtle : penup/goto/pendown, begin_fill, circle et write. Ce que turtle ne sait pas dessiner est approché et signalé en commentaire.",
+    "turtle.warn.unsupported": "Attention : turtle ne sait pas dessiner les formes {type}, celle-ci est ignorée",
+    "turtle.warn.ellipse": "Attention : turtle n'a pas d'ellipses, celle-ci est dessinée comme un polygone",
+    "turtle.warn.ellipticalArc": "Attention : turtle ne dessine que des arcs de cercle, cet arc est approché par des segments",
+    "turtle.warn.smooth": "Attention : la courbe lissée est approchée par de courts segments",
+    "turtle.warn.dash": "Attention : turtle ne dessine pas de pointillés, la ligne est continue",
+    "turtle.warn.arrow": "Attention : turtle ne dessine pas de pointes de flèche",
+    "turtle.warn.stipple": "Attention : turtle n'a pas de trames, le remplissage est uni",
+    "turtle.warn.textRotation": "Attention : turtle ne peut pas faire pivoter le texte",
+    "settings.code.pygame": "pygame (local)",
+    "settings.code.pygameDesc": "Génère un programme pygame avec une boucle d'événements qui dessine les formes avec pygame.draw et pygame.font. Pointillés et pointes de flèche sont dessinés à la main ; les autres limites sont signalées en commentaire.",
+    "pygame.warn.unsupported": "Attention : pygame ne sait pas dessiner les formes {type}, celle-ci est ignorée",
+    "pygame.warn.stipple": "Attention : pygame n'a pas de trames, le remplissage est uni",
+    "pygame.warn.textRotation": "Attention : le texte est dessiné sans rotation",
+    "settings.code.canvas": "HTML5 Canvas / JavaScript (local)",
+    "settings.code.canvasDesc": "Génère du JavaScript Canvas 2D : beginPath, ellipse, arc, quadraticCurveTo, setLineDash et fillText.",
+    "settings.code.canvasHtmlPage": "Page HTML complète",
+    "settings.code.canvasHtmlPageDesc": "Place la fonction draw(ctx) dans une page avec un élément <canvas> qui l'appelle. Désactivé, seule la fonction est générée.",
+    "code.htmlFile": "Fichier HTML",
+    "code.jsFile": "Fichier JavaScript",
+    "canvas.comment.images": "Images, intégrées en data URL",
+    "canvas.comment.waitForImages": "Appelez draw(ctx) une fois les images chargées :",
+    "canvas.warn.unsupported": "Attention : le canvas n'a pas d'équivalent aux formes {type}, celle-ci est ignorée",
+    "canvas.warn.stipple": "Attention : le canvas n'a pas de trames, le remplissage est uni",
+    "canvas.warn.textDecoration": "Attention : fillText ne souligne ni ne barre le texte",
+    "settings.code.pillow": "Image PNG avec Pillow (local)",
+    "settings.code.pillowDesc": "Génère un script sans interface graphique : Image.new et ImageDraw dessinent les formes et enregistrent le dessin en PNG.",
+    "pillow.warn.unsupported": "Attention : Pillow ne sait pas dessiner les formes {type}, celle-ci est ignorée",
+    "pillow.warn.stipple": "Attention : Pillow n'a pas de trames, le remplissage est uni",
+    "pillow.warn.textRotation": "Attention : le texte est dessiné sans rotation",
+    "pillow.warn.textDecoration": "Attention : ImageDraw ne souligne ni ne barre le texte",
+    "export.bundle": "Archive du projet (ZIP)",
+    "export.bundleDesc": "Une archive contenant le code Python, un dossier assets/ avec chaque image au format PNG et le projet .vec.json. Le code charge les images depuis ces fichiers par chemin relatif.",
+    "settings.code.nativeImages": "Images sans Pillow",
+    "settings.code.nativeImagesDesc": "Intègre les images avec PhotoImage(data=...) de Tkinter, redimensionnées au préalable à la taille de la forme. Pillow n'est nécessaire que pour les images pivotées ou retournées.",
+    "code.comment.variables": "# --- Variables ---",
+    "variables.title": "Variables",
+    "variables.desc": "Les variables peuvent être utilisées dans les champs de coordonnées et d'épaisseur (ex. W - margin). Elles sont déclarées en tête du code généré et les formes les suivent quand leurs valeurs changent.",
+    "variables.name": "Nom de la variable",
+    "variables.value": "Valeur de la variable",
+    "variables.delete": "Supprimer la variable",
+    "variables.add": "Ajouter une variable",
+    "variables.builtInDesc": "Taille du canevas, toujours disponible",
+    "variables.colorDesc": "Variable de couleur : les formes de cette couleur l'utilisent dans le code",
+    "variables.error.invalidName": "Le nom doit être un identifiant Python qui n'est ni un mot-clé ni un nom utilisé par le code.",
+    "variables.error.builtIn": "W et H désignent déjà la taille du canevas.",
+    "variables.error.duplicate": "Une variable portant ce nom existe déjà.",
+    "settings.code.colorNames": "Noms de couleurs",
+    "settings.code.colorNamesDesc": "Comment les couleurs sont écrites dans le code Tkinter. Tk connaît plus de 700 noms, ex. \"sky blue\" ou \"gray75\".",
+    "settings.code.colorNames.hex": "Comme dans le projet",
+    "settings.code.colorNames.hexDesc": "Les codes HEX et les noms restent tels que saisis.",
+    "settings.code.colorNames.exact": "Noms exacts",
+    "settings.code.colorNames.exactDesc": "Un code HEX est remplacé par un nom quand Tk a une couleur de cette valeur exacte.",
+    "settings.code.colorNames.nearest": "Noms les plus proches",
+    "settings.code.colorNames.nearestDesc": "Chaque code HEX est remplacé par le nom Tk le plus proche. Les couleurs peuvent légèrement changer.",
+    "color.invalidTk": "Tk ne connaît pas cette couleur : le code la convertit en HEX ou l'omet.",
+    "color.invalidLoaded": "{count} couleurs sont inconnues de Tk ({colors}). Elles sont signalées dans les propriétés et le code les convertit en HEX ou les omet.",
+    "code.note.invalidColor": "couleur inconnue de Tk omise :",
+    "tool.widget": "Widget",
+    "widget.button": "Bouton",
+    "widget.label": "Étiquette",
+    "widget.entry": "Champ de saisie",
+    "widget.checkbutton": "Case à cocher",
+    "widget.scale": "Curseur",
+    "props.widgetType": "Widget :",
+    "prop.title.widgetType": "La classe de widget Tkinter placée sur le canevas.",
+    "props.widgetThemed": "Thématisé (ttk)",
+    "prop.title.widgetThemed": "Crée le widget depuis tkinter.ttk. Les couleurs et la police vont dans un style dédié ; l'apparence dépend du thème du système.",
+    "prop.title.widgetText": "Texte affiché sur le widget (le libellé d'un curseur).",
+    "prop.title.widgetInitialText": "Contenu initial du champ.",
+    "props.widgetCommand": "Commande :",
+    "prop.title.widgetCommand": "Nom de la fonction appelée par le widget. Un squelette est ajouté au code.",
+    "props.scaleFrom": "De :",
+    "prop.title.scaleFrom": "Valeur du curseur à son extrémité gauche.",
+    "props.scaleTo": "À :",
+    "prop.title.scaleTo": "Valeur du curseur à son extrémité droite.",
+    "code.comment.widgetCommands": "# --- Commandes des widgets ---",
+    "props.stateStyles": "Survol et désactivé",
+    "props.stateStylesDesc": "Comment Tk dessine l'élément quand le pointeur le survole (active…) et quand il est désactivé (disabled…). Les valeurs non cochées gardent l'apparence normale.",
+    "props.stateStyles.active": "Sous le pointeur",
+    "props.stateStyles.disabled": "Désactivé",
+    "prop.title.stateStyleToggle": "Donner à « {property} » une valeur propre dans cet état.",
+    "bitmaps.title": "Bitmaps du projet",
+    "bitmaps.new": "Nouveau",
+    "bitmaps.defaultName": "bitmap",
+    "bitmaps.import": "Importer XBM…",
+    "bitmaps.importError": "Le fichier n'est pas un bitmap XBM ou dépasse {size}×{size}.",
+    "bitmaps.name": "Nom",
+    "bitmaps.nameDesc": "Le nom donne le nom du fichier .xbm dans le code généré.",
+    "bitmaps.width": "Largeur",
+    "bitmaps.height": "Hauteur",
+    "bitmaps.clear": "Effacer",
+    "bitmaps.invert": "Inverser",
+    "bitmaps.delete": "Supprimer",
+    "bitmaps.inUse": "Des formes utilisent ce bitmap, il ne peut donc pas être supprimé.",
+    "bitmaps.empty": "Le projet n'a pas encore de bitmaps. Créez-en un ou importez un fichier XBM.",
+    "bitmaps.drawHint": "Cliquez ou faites glisser pour dessiner ; commencer sur un pixel allumé efface.",
+    "props.bitmaps.custom": "Bitmaps du projet",
+    "props.bitmaps.edit": "Bitmaps…",
+    "prop.title.editBitmaps": "Dessiner ou importer vos propres bitmaps XBM.",
+    "props.outlineStipple": "Motif du contour",
+    "prop.title.outlineStipple": "Bitmap à travers lequel le contour est dessiné (outlinestipple).",
+    "code.note.missingBitmap": "le bitmap du projet a été supprimé",
+    "settings.canvas.scrollable": "Canevas défilant",
+    "settings.canvas.scrollableDesc": "La fenêtre du programme est plus petite que le canevas : elle n'en montre que la zone visible et des barres de défilement donnent accès au reste. La taille du canevas devient la scrollregion.",
+    "settings.canvas.viewportWidth": "Largeur de la fenêtre :",
+    "settings.canvas.viewportHeight": "Hauteur de la fenêtre :",
+    "settings.canvas.mouseWheel": "Défilement à la molette",
+    "settings.canvas.mouseWheelDesc": "La molette fait défiler verticalement, et horizontalement avec Maj enfoncée.",
+    "settings.code.resizeScrollable": "Le canevas défile, il n'est donc pas mis à l'échelle avec la fenêtre.",
+    "code.comment.mouseWheel": "# Défilement à la molette (horizontal avec Maj)",
+    "pages.defaultName": "Page",
+    "pages.add": "Ajouter une page avec son propre canevas",
+    "pages.addShort": "Page",
+    "pages.delete": "Supprimer la page",
+    "pages.deleteConfirmTitle": "Suppression de la page",
+    "pages.deleteConfirmText": "Supprimer la page « {name} » et toutes ses formes ?",
+    "settings.code.resizePages": "Le projet comporte plusieurs pages, les canevas ne sont donc pas mis à l'échelle avec la fenêtre.",
+    "settings.code.pageLayout": "Pages dans le code",
+    "settings.code.pageLayoutDesc": "Comment le programme affiche les canevas d'un projet à plusieurs pages.",
+    "settings.code.pageLayout.frames": "Changement de page",
+    "settings.code.pageLayout.framesDesc": "Chaque page est un Frame ; une seule est visible et show_page() ou Page préc./Page suiv. passent de l'une à l'autre.",
+    "settings.code.pageLayout.grid": "Tous les canevas côte à côte",
+    "settings.code.pageLayout.gridDesc": "Chaque page est son propre Canvas, disposé en ligne avec grid().",
+    "code.comment.pages": "# Canevas des pages du projet",
+    "code.comment.showPage": "# Affiche une page par son numéro (Page préc./Page suiv. les font défiler)",
+    "code.comment.page": "# Page « {name} »",
+    "menu.edit.copy": "Copier",
+    "menu.edit.cut": "Couper",
+    "menu.edit.paste": "Coller",
+    "shortcuts.item.copy": "Copier la sélection dans le presse-papiers",
+    "shortcuts.item.cut": "Couper la sélection",
+    "shortcuts.item.paste": "Coller les formes à la position du curseur",
+    "clipboard.copied": "{count} forme(s) copiée(s)",
+    "clipboard.cut": "{count} forme(s) coupée(s)",
+    "clipboard.pasted": "{count} forme(s) collée(s)",
+    "clipboard.empty": "Le presse-papiers ne contient aucune forme copiée",
+    "clipboard.writeError": "Impossible d'écrire dans le presse-papiers",
+    "clipboard.readError": "Le navigateur n'a pas permis de lire le presse-papiers ; essayez Ctrl+V",
+    "svgImport.imported": "{count} forme(s) importée(s) depuis le SVG",
+    "svgImport.skipped": "{count} élément(s) sans forme équivalente (images, etc.) ont été ignorés.",
+    "svgImport.empty": "Le SVG ne contient aucune forme importable",
+    "svgImport.invalid": "Le fichier n'est pas un document SVG valide"
   }
 } as const;
 
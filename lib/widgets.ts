@@ -0,0 +1,85 @@
+import { type WidgetShape, type WidgetType } from '../types';
+import { getVisualFontFamily } from './constants';
+
+export const WIDGET_TYPES: WidgetType[] = ['button', 'label', 'entry', 'checkbutton', 'scale'];
+
+/** Size and background a new widget of each kind starts with, close to what Tk gives it by default. */
+export const WIDGET_DEFAULTS: Record<WidgetType, { width: number; height: number; background: string }> = {
+    button: { width: 100, height: 30, background: '#d9d9d9' },
+    label: { width: 100, height: 24, background: '#d9d9d9' },
+    entry: { width: 150, height: 24, background: '#ffffff' },
+    checkbutton: { width: 120, height: 24, background: '#d9d9d9' },
+    scale: { width: 150, height: 42, background: '#d9d9d9' },
+};
+
+/** Widgets that take a `command` callback. */
+export const hasWidgetCommand = (widgetType: WidgetType): boolean => widgetType === 'button' || widgetType === 'checkbutton' || widgetType === 'scale';
+
+/** One SVG element of a widget look-alike, with attribute names as React expects them. */
+export interface WidgetLookalikePart {
+    tag: 'rect' | 'path' | 'text';
+    attrs: Record<string, string | number>;
+    text?: string;
+}
+
+const LIGHT_EDGE = '#ffffff';
+const DARK_EDGE = '#808080';
+
+/**
+ * SVG elements that imitate the widget in the editor, the preview and the SVG export. This is only a
+ * sketch of the classic Tk look; the real widget is drawn by Tk (or the ttk theme) at run time.
+ */
+export function getWidgetLookalike(shape: WidgetShape): WidgetLookalikePart[] {
+    const { x, y, width: w, height: h, foreground, background } = shape;
+    const font = {
+        fontFamily: getVisualFontFamily(shape.font),
+        fontSize: shape.fontSize,
+        fontWeight: shape.weight,
+        fontStyle: shape.slant === 'italic' ? 'italic' : 'normal',
+    };
+    const label = (tx: number, ty: number, anchor: 'start' | 'middle'): WidgetLookalikePart => ({
+        tag: 'text',
+        attrs: { x: tx, y: ty, fill: foreground, textAnchor: anchor, dominantBaseline: 'central', ...font },
+        text: shape.text,
+    });
+    const bevel = (bx: number, by: number, bw: number, bh: number, raised: boolean): WidgetLookalikePart[] => [
+        { tag: 'path', attrs: { d: `M${bx},${by + bh} L${bx},${by} L${bx + bw},${by}`, fill: 'none', stroke: raised ? LIGHT_EDGE : DARK_EDGE, strokeWidth: 1 } },
+        { tag: 'path', attrs: { d: `M${bx + bw},${by} L${bx + bw},${by + bh} L${bx},${by + bh}`, fill: 'none', stroke: raised ? DARK_EDGE : LIGHT_EDGE, strokeWidth: 1 } },
+    ];
+
+    const parts: WidgetLookalikePart[] = [{ tag: 'rect', attrs: { x, y, width: w, height: h, fill: background, stroke: 'none' } }];
+    switch (shape.widgetType) {
+        case 'button':
+            parts.push(...bevel(x, y, w, h, true), label(x + w / 2, y + h / 2, 'middle'));
+            break;
+        case 'label':
+            parts.push(label(x + w / 2, y + h / 2, 'middle'));
+            break;
+        case 'entry':
+            parts.push(...bevel(x, y, w, h, false), label(x + 4, y + h / 2, 'start'));
+            break;
+        case 'checkbutton': {
+            const box = 13;
+            parts.push(
+                { tag: 'rect', attrs: { x: x + 4, y: y + (h - box) / 2, width: box, height: box, fill: LIGHT_EDGE, stroke: 'none' } },
+                ...bevel(x + 4, y + (h - box) / 2, box, box, false),
+                label(x + box + 10, y + h / 2, 'start'),
+            );
+            break;
+        }
+        case 'scale': {
+            const troughHeight = 10;
+            const troughY = y + h - troughHeight - 4;
+            const sliderWidth = Math.min(30, Math.max(0, w - 8));
+            if (shape.text) parts.push(label(x + 4, y + (troughY - y) / 2, 'start'));
+            parts.push(
+                { tag: 'rect', attrs: { x: x + 2, y: troughY, width: Math.max(0, w - 4), height: troughHeight, fill: '#c3c3c3', stroke: 'none' } },
+                ...bevel(x + 2, troughY, Math.max(0, w - 4), troughHeight, false),
+                { tag: 'rect', attrs: { x: x + 4, y: troughY + 1, width: sliderWidth, height: troughHeight - 2, fill: background, stroke: 'none' } },
+                ...bevel(x + 4, troughY + 1, sliderWidth, troughHeight - 2, true),
+            );
+            break;
+        }
+    }
+    return parts;
+}
@@ -0,0 +1,323 @@
+import { type Shape, ArcShape, ImageShape, TextShape } from '../types';
+import { getArrowheadPoints, getFinalPoints, getShapeCenter, getTextBoundingBox, isShapeClosed, processTextLines } from '../lib/geometry';
+import { type CodeLine } from '../components/CodeDisplay';
+import { getDefaultNameForShape } from '../lib/constants';
+
+const round = (num: number): number => {
+    return Math.round(num * 100) / 100;
+};
+
+const jsString = (value: string): string => JSON.stringify(value);
+
+// CSS colour names have no spaces ("light blue" is "lightblue"); hex colours pass through.
+const jsColor = (color: string): string => jsString(color.startsWith('#') ? color : color.toLowerCase().replace(/\s+/g, ''));
+
+// Tkinter angles are in degrees; the canvas wants radians.
+const jsAngle = (degrees: number): string => degrees === 0 ? '0' : `${round(degrees)} * Math.PI / 180`;
+
+// Point lists longer than this are drawn with a `for` loop instead of one lineTo per point.
+const MAX_INLINE_POINTS = 4;
+
+// Canvas has no stipple patterns, so the grey ones are approximated with transparency.
+const STIPPLE_ALPHA: Record<string, number> = { gray12: 0.125, gray25: 0.25, gray50: 0.5, gray75: 0.75 };
+
+const CAP_STYLES: Record<string, string> = { butt: 'butt', round: 'round', projecting: 'square' };
+
+type Point = { x: number; y: number };
+
+// Context settings already in effect, so each shape only emits the ones it changes.
+interface ContextState {
+    fillStyle?: string;
+    strokeStyle?: string;
+    lineWidth?: number;
+    lineJoin?: string;
+    lineCap?: string;
+    lineDash?: string;
+    lineDashOffset?: number;
+    globalAlpha?: number;
+    font?: string;
+    textAlign?: string;
+    textBaseline?: string;
+}
+
+/**
+ * Canvas 2D statements drawing a single shape, without its comment, plus warnings about what the
+ * canvas can't reproduce. Rotated shapes build their path inside a rotated transform, so ellipses,
+ * arcs and rectangles keep their native calls.
+ */
+function shapeToCanvasCommands(shape: Shape, state: ContextState, images: { varName: string; src: string }[], t: (key: string) => string): { commands: string[]; warnings: string[] } {
+    const commands: string[] = [];
+    const warnings: string[] = [];
+
+    const set = (key: Exclude<keyof ContextState, 'lineDash'>, value: number | string) => {
+        if (state[key] === value) return;
+        (state as any)[key] = value;
+        const formatted = typeof value === 'number' ? value : key === 'fillStyle' || key === 'strokeStyle' ? jsColor(value) : jsString(value);
+        commands.push(`ctx.${key} = ${formatted};`);
+    };
+    const setLineDash = (dash: number[]) => {
+        const value = `[${dash.join(', ')}]`;
+        if (state.lineDash === value) return;
+        state.lineDash = value;
+        commands.push(`ctx.setLineDash(${value});`);
+    };
+    // The caller sets the styles first: restore() would undo anything set inside.
+    const rotated = (center: Point | null, rotation: number, draw: () => void) => {
+        if (!rotation || !center) {
+            draw();
+            return;
+        }
+        commands.push('ctx.save();');
+        commands.push(`ctx.translate(${round(center.x)}, ${round(center.y)});`);
+        commands.push(`ctx.rotate(${jsAngle(-rotation)});`);
+        commands.push(`ctx.translate(${round(-center.x)}, ${round(-center.y)});`);
+        draw();
+        commands.push('ctx.restore();');
+    };
+    const stipple = 'stipple' in shape && shape.stipple ? shape.stipple : null;
+
+    if (shape.type === 'text') {
+        const text = shape as TextShape;
+        const bbox = getTextBoundingBox(text);
+        if (!bbox || text.fill === 'none') return { commands, warnings };
+        if (text.underline || text.overstrike) warnings.push(t('canvas.warn.textDecoration'));
+        const lines = processTextLines(text);
+        // Tkinter's line spacing, recovered from the block height: one line plus leading per extra line.
+        const lineHeight = (bbox.height + text.fontSize * 0.2) / lines.length;
+        const family = /\s/.test(text.font) ? `'${text.font}'` : text.font;
+        const x = text.justify === 'center' ? bbox.x + bbox.width / 2 : text.justify === 'right' ? bbox.x + bbox.width : bbox.x;
+        set('font', `${text.slant === 'italic' ? 'italic ' : ''}${text.weight === 'bold' ? 'bold ' : ''}${Math.round(text.fontSize)}px ${family}`);
+        set('textAlign', text.justify);
+        set('textBaseline', 'top');
+        set('fillStyle', text.fill);
+        if (stipple) set('globalAlpha', STIPPLE_ALPHA[stipple] ?? 1);
+        rotated(getShapeCenter(text), text.rotation, () => {
+            lines.forEach((line, index) => commands.push(`ctx.fillText(${jsString(line)}, ${round(x)}, ${round(bbox.y + index * lineHeight)});`));
+        });
+        if (stipple) set('globalAlpha', 1);
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'image') {
+        const image = shape as ImageShape;
+        const varName = `image_${images.length + 1}`;
+        images.push({ varName, src: image.src });
+        rotated({ x: image.x + image.width / 2, y: image.y + image.height / 2 }, image.rotation, () => {
+            commands.push(`ctx.drawImage(${varName}, ${round(image.x)}, ${round(image.y)}, ${round(image.width)}, ${round(image.height)});`);
+        });
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'bitmap' || shape.type === 'widget') {
+        warnings.push(t('canvas.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    const closed = isShapeClosed(shape);
+    const hasStroke = shape.stroke !== 'none' && shape.strokeWidth > 0;
+    const fill = closed && 'fill' in shape && shape.fill && shape.fill !== 'none' ? shape.fill : null;
+    if (!hasStroke && !fill) return { commands, warnings };
+    if ((stipple && !(stipple in STIPPLE_ALPHA)) || ('outlineStipple' in shape && shape.outlineStipple && hasStroke)) warnings.push(t('canvas.warn.stipple'));
+
+    const rotation = 'rotation' in shape ? shape.rotation : 0;
+    const pathCommands: string[] = [];
+    const addPoints = (points: Point[], close: boolean) => {
+        pathCommands.push(`ctx.moveTo(${round(points[0].x)}, ${round(points[0].y)});`);
+        const rest = points.slice(1);
+        if (rest.length > MAX_INLINE_POINTS) {
+            pathCommands.push(`for (const [x, y] of [${rest.map(p => `[${round(p.x)}, ${round(p.y)}]`).join(', ')}]) {`);
+            pathCommands.push('    ctx.lineTo(x, y);');
+            pathCommands.push('}');
+        } else {
+            rest.forEach(p => pathCommands.push(`ctx.lineTo(${round(p.x)}, ${round(p.y)});`));
+        }
+        if (close) pathCommands.push('ctx.closePath();');
+    };
+    const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    const quadTo = (control: Point, end: Point) => pathCommands.push(`ctx.quadraticCurveTo(${round(control.x)}, ${round(control.y)}, ${round(end.x)}, ${round(end.y)});`);
+
+    if (shape.type === 'rectangle') {
+        pathCommands.push(`ctx.rect(${round(shape.x)}, ${round(shape.y)}, ${round(shape.width)}, ${round(shape.height)});`);
+    } else if (shape.type === 'ellipse') {
+        if (shape.rx === shape.ry) {
+            pathCommands.push(`ctx.arc(${round(shape.cx)}, ${round(shape.cy)}, ${round(shape.rx)}, 0, 2 * Math.PI);`);
+        } else {
+            pathCommands.push(`ctx.ellipse(${round(shape.cx)}, ${round(shape.cy)}, ${round(shape.rx)}, ${round(shape.ry)}, 0, 0, 2 * Math.PI);`);
+        }
+    } else if (shape.type === 'arc') {
+        const arc = shape as ArcShape;
+        const rx = arc.width / 2;
+        const ry = arc.height / 2;
+        const cx = arc.x + rx;
+        const cy = arc.y + ry;
+        // A flip mirrors the angles: horizontally around 90°, vertically around 0°.
+        let start = arc.start;
+        let extent = arc.extent;
+        if (arc.isFlippedHorizontally) [start, extent] = [180 - start, -extent];
+        if (arc.isFlippedVertically) [start, extent] = [-start, -extent];
+        // Tkinter measures angles counterclockwise, the canvas clockwise.
+        const angles = `${jsAngle(-start)}, ${jsAngle(-(start + extent))}${extent > 0 ? ', true' : ''}`;
+        if (arc.style === 'pieslice') pathCommands.push(`ctx.moveTo(${round(cx)}, ${round(cy)});`);
+        if (rx === ry) {
+            pathCommands.push(`ctx.arc(${round(cx)}, ${round(cy)}, ${round(rx)}, ${angles});`);
+        } else {
+            pathCommands.push(`ctx.ellipse(${round(cx)}, ${round(cy)}, ${round(rx)}, ${round(ry)}, 0, ${angles});`);
+        }
+        if (closed) pathCommands.push('ctx.closePath();');
+    } else if ((shape.type === 'polyline' || shape.type === 'bezier') && shape.smooth && shape.points.filter(p => p).length >= 3) {
+        // Tkinter's smoothing is a quadratic B-spline through the midpoints, which quadraticCurveTo draws exactly.
+        const points = shape.points.filter(p => p);
+        const n = points.length;
+        if (closed) {
+            const startPoint = mid(points[n - 1], points[0]);
+            pathCommands.push(`ctx.moveTo(${round(startPoint.x)}, ${round(startPoint.y)});`);
+            points.forEach((p, i) => quadTo(p, mid(p, points[(i + 1) % n])));
+            pathCommands.push('ctx.closePath();');
+        } else {
+            pathCommands.push(`ctx.moveTo(${round(points[0].x)}, ${round(points[0].y)});`);
+            const firstMidpoint = mid(points[0], points[1]);
+            pathCommands.push(`ctx.lineTo(${round(firstMidpoint.x)}, ${round(firstMidpoint.y)});`);
+            for (let i = 1; i < n - 1; i++) quadTo(points[i], mid(points[i], points[i + 1]));
+            pathCommands.push(`ctx.lineTo(${round(points[n - 1].x)}, ${round(points[n - 1].y)});`);
+        }
+    } else {
+        const points = getFinalPoints({ ...shape, rotation: 0 } as Shape);
+        if (!points || points.length < 2) {
+            warnings.push(t('canvas.warn.unsupported').replace('{type}', shape.type));
+            return { commands, warnings };
+        }
+        addPoints(points, closed);
+    }
+
+    // The path keeps its rotated coordinates after restore(), so only building it needs the transform.
+    commands.push('ctx.beginPath();');
+    rotated(getShapeCenter(shape), rotation, () => commands.push(...pathCommands));
+
+    if (fill) {
+        set('fillStyle', fill);
+        if (stipple) set('globalAlpha', STIPPLE_ALPHA[stipple] ?? 1);
+        commands.push('ctx.fill();');
+        if (stipple) set('globalAlpha', 1);
+    }
+    if (!hasStroke) return { commands, warnings };
+
+    set('lineWidth', round(shape.strokeWidth));
+    set('strokeStyle', shape.stroke);
+    const dash = 'dash' in shape && shape.dash && shape.dash.length > 0 ? shape.dash.map(v => round(v * shape.strokeWidth)) : [];
+    setLineDash(dash);
+    if (dash.length > 0) set('lineDashOffset', 'dashoffset' in shape && shape.dashoffset ? shape.dashoffset : 0);
+    // Tkinter joins and (for open lines) caps are round and butt unless the shape says otherwise.
+    set('lineJoin', 'joinstyle' in shape && shape.joinstyle ? shape.joinstyle : 'round');
+    if (!closed) set('lineCap', CAP_STYLES['capstyle' in shape && shape.capstyle ? shape.capstyle : 'butt']);
+    commands.push('ctx.stroke();');
+
+    // The canvas has no arrows, so the arrowheads are filled as small triangles.
+    const finalPoints = getFinalPoints(shape);
+    if ('arrow' in shape && shape.arrow && shape.arrow !== 'none' && shape.arrowshape && !closed && finalPoints && finalPoints.length >= 2) {
+        const arrowshape = shape.arrowshape.map(v => v * shape.strokeWidth);
+        const ends: [Point, Point][] = [];
+        if (shape.arrow === 'first' || shape.arrow === 'both') ends.push([finalPoints[0], finalPoints[1]]);
+        if (shape.arrow === 'last' || shape.arrow === 'both') ends.push([finalPoints[finalPoints.length - 1], finalPoints[finalPoints.length - 2]]);
+        set('fillStyle', shape.stroke);
+        ends.forEach(([tip, from]) => {
+            const head = getArrowheadPoints(tip, from, arrowshape);
+            commands.push('ctx.beginPath();');
+            commands.push(`ctx.moveTo(${round(head[0].x)}, ${round(head[0].y)});`);
+            head.slice(1).forEach(p => commands.push(`ctx.lineTo(${round(p.x)}, ${round(p.y)});`));
+            commands.push('ctx.fill();');
+        });
+    }
+    return { commands, warnings };
+}
+
+/**
+ * Generates JavaScript that draws the shapes with the Canvas 2D API: a `draw(ctx)` function,
+ * either on its own or inside a complete HTML page that calls it. Bitmaps and non-grey stipples
+ * have no canvas equivalent and are flagged in a warning comment next to the shape.
+ */
+export async function generateCanvasCodeLocally(
+    shapes: Shape[],
+    canvasWidth: number,
+    canvasHeight: number,
+    backgroundColor: string,
+    projectName: string,
+    autoGenerateComments: boolean,
+    htmlPage: boolean,
+    t: (key: string) => string
+): Promise<{ codeLines: CodeLine[] }> {
+    // Start from the canvas defaults that are rarely changed by the caller.
+    const state: ContextState = { globalAlpha: 1, lineDash: '[]', lineDashOffset: 0 };
+    const images: { varName: string; src: string }[] = [];
+    const shapeBlocks = shapes
+        .filter(s => s.type !== 'group' && s.state !== 'hidden')
+        .map(shape => ({ shape, ...shapeToCanvasCommands(shape, state, images, t) }));
+
+    const codeLines: CodeLine[] = [];
+    // Script lines are indented inside the page's <script> element.
+    const indent = htmlPage ? '    ' : '';
+    const push = (content: string, shapeId: string | null = null) => {
+        codeLines.push({ content: content ? `${indent}${content}` : '', shapeId });
+    };
+    const pushHtml = (content: string) => {
+        codeLines.push({ content, shapeId: null });
+    };
+
+    if (htmlPage) {
+        pushHtml('<!DOCTYPE html>');
+        pushHtml('<html>');
+        pushHtml('<head>');
+        pushHtml('    <meta charset="utf-8">');
+        pushHtml(`    <title>${projectName.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</title>`);
+        pushHtml('</head>');
+        pushHtml('<body>');
+        pushHtml(`    <canvas id="canvas" width="${canvasWidth}" height="${canvasHeight}"></canvas>`);
+        pushHtml('    <script>');
+    }
+
+    if (images.length > 0) {
+        push(`// ${t('canvas.comment.images')}`);
+        images.forEach(({ varName, src }) => {
+            push(`const ${varName} = new Image();`);
+            push(`${varName}.src = ${jsString(src)};`);
+        });
+        push('');
+    }
+
+    push('function draw(ctx) {');
+    push(`    ctx.fillStyle = ${jsColor(backgroundColor)};`);
+    push(`    ctx.fillRect(0, 0, ${canvasWidth}, ${canvasHeight});`);
+    push('');
+    push(`    ${t('code.comment.shapes').replace(/^#/, '//')}`);
+    if (shapeBlocks.length === 0) {
+        push(`    ${t('code.comment.noShapes').replace(/^#/, '//')}`);
+    }
+    shapeBlocks.forEach(({ shape, commands, warnings }, index) => {
+        if (index > 0) push('');
+        let comment = shape.comment;
+        if (autoGenerateComments && !comment) {
+            comment = shape.name || getDefaultNameForShape(shape, t);
+        }
+        if (comment) {
+            comment.split('\n').forEach(line => push(line.trim() === '' ? '    //' : `    // ${line}`, shape.id));
+        }
+        warnings.forEach(warning => push(`    // ${warning}`, shape.id));
+        commands.forEach(command => push(`    ${command}`, shape.id));
+    });
+    push('}');
+
+    const waitForImages = `Promise.all([${images.map(image => `${image.varName}.decode()`).join(', ')}]).then(() => draw(ctx));`;
+    if (htmlPage) {
+        push('');
+        push('const ctx = document.getElementById("canvas").getContext("2d");');
+        push(images.length > 0 ? waitForImages : 'draw(ctx);');
+        pushHtml('    </script>');
+        pushHtml('</body>');
+        pushHtml('</html>');
+    } else if (images.length > 0) {
+        push('');
+        push(`// ${t('canvas.comment.waitForImages')}`);
+        push(`// ${waitForImages}`);
+    }
+
+    return Promise.resolve({ codeLines });
+}
@@ -1,19 +1,34 @@
 import { GoogleGenAI } from "@google/genai";
-import { type Shape } from '../types';
-
-// Transliteration map for Ukrainian Cyrillic to Latin to prevent header errors.
-const ua_map: { [key: string]: string } = {
-    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'h', 'ґ': 'g', 'д': 'd', 'е': 'e', 'є': 'ie', 'ж': 'zh', 'з': 'z', 'и': 'y', 'і': 'i', 'ї': 'i',
-    'й': 'i', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh',
-    'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ь': '', 'ю': 'iu', 'я': 'ia',
-    'А': 'A', 'Б': 'B', 'В': 'V', 'Г': 'H', 'Ґ': 'G', 'Д': 'D', 'Е': 'E', 'Є': 'Ie', 'Ж': 'Zh', 'З': 'Z', 'И': 'Y', 'І': 'I', 'Ї': 'I',
-    'Й': 'I', 'К': 'K', 'Л': 'L', 'М': 'M', 'Н': 'N', 'О': 'O', 'П': 'P', 'Р': 'R', 'С': 'S', 'Т': 'T', 'У': 'U', 'Ф': 'F', 'Х': 'Kh',
-    'Ц': 'Ts', 'Ч': 'Ch', 'Ш': 'Sh', 'Щ': 'Shch', 'Ь': '', 'Ю': 'Iu', 'Я': 'Ia'
-};
-
-function transliterate(text: string): string {
-    if (!text) return text;
-    return text.split('').map(char => ua_map[char] || char).join('');
+import { type Shape, type CodeGeneratorOptions, type CodeStyleProfile } from '../types';
+import { transliterate } from '../lib/pythonNames';
+
+// Prompt section describing the script layout for each code style profile.
+function describeScriptStructure(codeStyle: CodeStyleProfile, canvasVarName: string): string {
+    switch (codeStyle) {
+        case 'module':
+            return `    *   Import tkinter: \`import tkinter as tk\`. Qualify every Tkinter name with \`tk.\`.
+    *   Create the root window at module level: \`root = tk.Tk()\`.
+    *   Set the window title and geometry.
+    *   Create the canvas: \`${canvasVarName} = tk.Canvas(root, ...)\`.
+    *   Pack the canvas: \`${canvasVarName}.pack()\`.`;
+        case 'function':
+            return `    *   Import tkinter: \`import tkinter as tk\`. Qualify every Tkinter name with \`tk.\`.
+    *   Put all code inside a \`def main():\` function and call it from an \`if __name__ == "__main__":\` guard at the end of the file.
+    *   Inside main(): create \`root = tk.Tk()\`, set the window title and geometry, create \`${canvasVarName} = tk.Canvas(root, ...)\` and pack it.
+    *   The \`root.mainloop()\` call belongs at the end of main().`;
+        case 'class':
+            return `    *   Import tkinter: \`import tkinter as tk\`. Qualify every Tkinter name with \`tk.\`.
+    *   Define \`class App(tk.Tk):\`. Its \`__init__\` calls \`super().__init__()\`, sets the title and geometry, creates \`self.${canvasVarName} = tk.Canvas(self, ...)\`, packs it and calls \`self.draw()\`.
+    *   All drawing commands go into a \`def draw(self):\` method and use \`self.${canvasVarName}\`. Store images as attributes of self.
+    *   End the file with \`if __name__ == "__main__":\` creating \`app = App()\` and calling \`app.mainloop()\` instead of root.mainloop().`;
+        case 'classic':
+        default:
+            return `    *   Import tkinter: \`from tkinter import *\`.
+    *   Create the root window: \`root = Tk()\`.
+    *   Set the window title and geometry.
+    *   Create the canvas: \`${canvasVarName} = Canvas(root, ...)\`.
+    *   Pack the canvas: \`${canvasVarName}.pack()\`.`;
+    }
 }
 
 /**
@@ -39,7 +54,8 @@ export async function generateTkinterCode(
     autoGenerateComments: boolean,
     outlineWithFill: boolean,
     generateTkinterTags: boolean,
-    showSystemTags: boolean
+    showSystemTags: boolean,
+    options: CodeGeneratorOptions = {}
 ): Promise<string> {
     
     if (!apiKey) {
@@ -47,6 +63,7 @@ export async function generateTkinterCode(
     }
     
     const ai = new GoogleGenAI({ apiKey });
+    const codeStyle = options.codeStyle || 'classic';
     
     // FIX: Sanitize projectName before using it in the prompt.
     const sanitizedProjectName = transliterate(projectName);
@@ -96,16 +113,18 @@ Here are the specifications:
     *   The canvas background color must be "${canvasBgColor}".
 
 2.  **Script Structure:**
-    *   Import tkinter: \`from tkinter import *\`.
-    *   Create the root window: \`root = Tk()\`.
-    *   Set the window title and geometry.
-    *   Create the canvas: \`${canvasVarName} = Canvas(root, ...)\`.
-    *   Pack the canvas: \`${canvasVarName}.pack()\`.
+${describeScriptStructure(codeStyle, canvasVarName)}
     *   Draw all the shapes provided below.
     *   For each shape, you MUST add a comment with its unique ID right before the drawing command, in the format: \`# ID:shape-id-123\`. This is critical for mapping code back to the editor.
     *   ${generateTkinterTags ? 'Add a tags= parameter for each shape using ONLY the tags provided in the shape object. ' + (showSystemTags ? 'Include the shape id and group id.' : 'Do NOT include shape id or group id as tags.') : 'Do not add tags= parameter.'}\n    *   ${autoGenerateComments ? 'Add a short, descriptive comment for each shape based on its properties (e.g., `# A blue square`).' : 'Do not add any descriptive comments unless one is provided in the shape object\'s "comment" property.'}
     ${outlineWithFill ? `*   **Important Rule for Outlines:** For any closed shape that has a fill color but no stroke (stroke is "none" or strokeWidth is 0), you MUST add \`outline=""\` to its drawing command. This prevents Tkinter from adding a default 1px black border. This rule applies to rectangles, ovals, polygons, pieslices, and chords.` : ''}
-    *   End the script with \`root.mainloop()\`.
+    *   Some shapes (or groups) have an "events" array. For each such shape, give it and all members of the group a readable tag, then for every binding define a handler \`def on_<tag>_<event>(event):\` and call \`${canvasVarName}.tag_bind(tag, sequence, handler)\`. Actions: "fill" → \`itemconfigure(target, fill=...)\`, "move" → \`move(target, dx, dy)\`, "toggleState" → switch the target between "normal" and "hidden", "showText" → show the text near \`event.x, event.y\`, "custom" → use the "code" property as the handler body. "targetId" names the shape or group the action applies to (defaults to the bound shape).
+    *   Some shapes have a "keyframes" array (\`time\` in milliseconds, \`easing\` and the property \`values\` at that time). Draw these shapes in their first keyframe state, then animate them with a \`root.after\` loop of ${Math.round(1000 / (options.animation?.fps || 30))} ms per frame over ${options.animation?.duration ?? 3000} ms, interpolating between keyframes with the given easing and updating the items with \`coords\`, \`move\` or \`itemconfigure\`.${options.animation?.loop === false ? ' Play the animation once.' : ' Restart it from the beginning when it ends.'}
+    ${options.shapeVariables ? `*   Assign the result of every drawing command to a variable named after the shape's "name" property in snake_case (e.g. \`sun = ${canvasVarName}.create_oval(...)\`). Names must be valid Python identifiers, must not be Python keywords and must be unique; append \`_2\`, \`_3\`, ... on collisions.${codeStyle === 'class' ? ' Store them as attributes on `self`.' : ''}` : ''}
+    ${options.compressLoops ? '*   When three or more consecutive shapes differ only by evenly spaced coordinates, sizes or colours, draw them with a single `for i in range(n):` loop that computes those values from `i`, instead of repeating the drawing command. Keep separate commands whenever a loop would not reproduce every shape exactly.' : ''}
+    ${options.groupFunctions ? `*   Turn every top-level group (a shape of type "group" without a "groupId") into a function \`def draw_<group_name>(canvas, x, y, scale=1):\`${codeStyle === 'class' ? ' defined as a method of the class (with `self` first)' : ' defined before the shapes are drawn'}. Its body draws all shapes inside the group with coordinates written relative to the group's bounding-box origin, e.g. \`canvas.create_oval(x + 10 * scale, y + 5 * scale, ...)\`. Draw the group with one call at its original origin, e.g. \`draw_house(${canvasVarName}, 40, 60)\`, instead of separate commands.` : ''}
+    ${options.viewport ? `*   The canvas is larger than its window: create it with \`width=${options.viewport.width}, height=${options.viewport.height}, scrollregion=(0, 0, ${canvasWidth}, ${canvasHeight})\`, attach a horizontal and a vertical \`Scrollbar\` through \`xscrollcommand\`/\`yscrollcommand\` and \`xview\`/\`yview\`, lay them out with \`grid\` so the canvas fills the window, and don't set the window geometry.${options.viewport.mouseWheel ? ' Scroll vertically with the mouse wheel and horizontally with Shift+wheel, binding both `<MouseWheel>` and X11\'s `<Button-4>`/`<Button-5>`.' : ''}` : options.resizeMode && options.resizeMode !== 'fixed' ? `*   Make the canvas follow the window size: create it with \`highlightthickness=0\`, pack it with \`fill="both", expand=True\` and bind \`<Configure>\` to a handler that rescales every item with \`${canvasVarName}.scale("all", 0, 0, fx, fy)\` relative to the original ${canvasWidth}x${canvasHeight} size${options.resizeMode === 'keepAspect' ? ', using the same factor (the smaller one) on both axes to keep the aspect ratio' : ''}.${options.scaleFonts ? ' Rescale the font size of every text item by the same factor as well.' : ''}` : ''}
+    ${codeStyle === 'classic' || codeStyle === 'module' ? '*   End the script with `root.mainloop()`.' : ''}
 
 3.  **Shapes to Draw (JSON format):**
     ${JSON.stringify(sanitizedShapes, null, 2)}
@@ -1,16 +1,34 @@
-import { type Shape, EllipseShape, LineShape, BezierCurveShape, RectangleShape, PolylineShape, PolygonShape, ArcShape, ImageShape, TextShape, BitmapShape, PathShape } from '../types';
-import { getFinalPoints, isPolylineAxisAlignedRectangle, getTextBoundingBox, getShapeCenter, rotatePoint } from '../lib/geometry';
+import { type Shape, type ShapeEventBinding, type AnimationEasing, type CodeGeneratorOptions, type CodeStyleProfile, type ColorNameMode, EllipseShape, LineShape, BezierCurveShape, RectangleShape, PolylineShape, PolygonShape, ArcShape, ImageShape, TextShape, BitmapShape, PathShape, WidgetShape, WidgetType, CustomBitmap, FillableShape, DashableShape } from '../types';
+import { getFinalPoints, isPolylineAxisAlignedRectangle, getTextBoundingBox, getShapeCenter, rotatePoint, getBoundingBox } from '../lib/geometry';
 import { type CodeLine } from '../components/CodeDisplay';
-import { getDefaultNameForShape } from '../lib/constants';
+import { getDefaultNameForShape, STATE_STYLE_KEYS } from '../lib/constants';
+import { createIdentifierAllocator, isUsablePythonName } from '../lib/pythonNames';
+import { getImageSizeKey, getResizedPngBase64, renderBitmapToPngBase64 } from '../lib/exportUtils';
+import { evaluateExpression, getBoundExpression, getShapeValue, type VariableScope } from '../lib/expressions';
+import { colorToHex, getTkColorName, isValidTkColor } from '../lib/colors';
+import { hasWidgetCommand } from '../lib/widgets';
+import { findCustomBitmap, getXbmName, isCustomBitmapRef, toCustomBitmapRef, toXbm } from '../lib/bitmaps';
+import { applyEasing, getAnimatedShape, mixColors, normalizeHexColor, DEFAULT_ANIMATION_SETTINGS } from '../lib/animation';
 
 const round = (num: number): number => {
     return Math.round(num * 100) / 100;
 };
 
+// Python code that formatOptions writes out as is instead of as a literal value.
+interface PythonExpression {
+    python: string;
+}
+
+const isPythonExpression = (value: any): value is PythonExpression =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.python === 'string';
+
 const formatOptions = (options: Record<string, any>): string => {
     const parts = Object.entries(options)
         .filter(([, value]) => value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0))
         .map(([key, value]) => {
+            if (isPythonExpression(value)) {
+                return `${key}=${value.python}`;
+            }
             if (typeof value === 'string') {
                 // For arrow style etc, they should not be quoted again if they are already strings
                 if (['first', 'last', 'both', 'pieslice', 'chord', 'arc', 'miter', 'round', 'bevel', 'butt', 'projecting', 'normal', 'hidden', 'disabled'].includes(value)) {
@@ -27,13 +45,52 @@ const formatOptions = (options: Record<string, any>): string => {
     return parts.length > 0 ? `, ${parts.join(', ')}` : '';
 };
 
+// Tk reads a font string as a list, so a family with spaces in it goes in braces: "{Times New Roman} 14 bold".
+const tkFontFamily = (family: string): string => /\s/.test(family) ? `{${family}}` : family;
+
+const pyString = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Body of the Python handler for a single event binding, without indentation.
+const eventHandlerBody = (binding: ShapeEventBinding, targetTag: string, canvasVarName: string): string[] => {
+    const target = pyString(targetTag);
+    switch (binding.action) {
+        case 'fill':
+            return [`${canvasVarName}.itemconfigure(${target}, fill=${pyString(binding.fill || 'red')})`];
+        case 'move':
+            return [`${canvasVarName}.move(${target}, ${round(binding.dx ?? 0)}, ${round(binding.dy ?? 0)})`];
+        case 'toggleState':
+            return [
+                `state = ${canvasVarName}.itemcget(${target}, "state")`,
+                `${canvasVarName}.itemconfigure(${target}, state="normal" if state == "hidden" else "hidden")`,
+            ];
+        case 'showText':
+            return [
+                `${canvasVarName}.delete("event_message")`,
+                `${canvasVarName}.create_text(event.x, event.y - 10, text=${pyString(binding.text || '')}, anchor="s", tags="event_message")`,
+            ];
+        case 'custom': {
+            const lines = (binding.code || '').replace(/\s+$/, '').split('\n');
+            return lines.some(l => l.trim() !== '') ? lines : ['pass'];
+        }
+    }
+};
+
 const generateLocalComment = (shape: Shape, t: (key: string) => string): string => {
     const commentText = shape.name || getDefaultNameForShape(shape, t);
     return commentText;
 };
 
 
-function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, canvasVarName: string, outlineWithFill: boolean, generateTkinterTags: boolean, showSystemTags: boolean, allShapes: Shape[] = []): string | null {
+// A canvas item as it will be created: `create_<type>(*coords, **options)`.
+interface TkinterItem {
+    type: string;
+    coords: number[];
+    options: Record<string, any>;
+    note?: string; // trailing comment for things Tkinter can't express
+    coordExpressions?: (string | undefined)[]; // project-variable expressions written in place of some coords
+}
+
+function shapeToTkinterItem(shape: Shape, imageVarMap: Map<string, string>, outlineWithFill: boolean, generateTkinterTags: boolean, showSystemTags: boolean, allShapes: Shape[] = [], itemTags: Map<string, string> = new Map(), widgetVarMap: Map<string, string> = new Map()): TkinterItem | null {
     if (shape.state === 'hidden') return null;
     
     const options: Record<string, any> = {};
@@ -71,6 +128,10 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
     if ('stipple' in shape && shape.stipple && 'fill' in shape && shape.fill !== 'none') {
         options.stipple = shape.stipple;
     }
+    // A line has no outline: its `stipple` is the one of the line itself (renamed below if the shape becomes a line).
+    if ('outlineStipple' in shape && shape.outlineStipple && hasStroke) {
+        options[isUnclosedLine && shape.type !== 'arc' ? 'stipple' : 'outlinestipple'] = shape.outlineStipple;
+    }
     
     if ('dash' in shape && shape.dash) {
         const strokeWidth = shape.strokeWidth > 0 ? shape.strokeWidth : 1;
@@ -79,6 +140,19 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
             options.dashoffset = round(shape.dashoffset);
         }
     }
+
+    // Looks Tk switches to by itself under the pointer and while disabled; a line's colour is its `fill`.
+    (['active', 'disabled'] as const).forEach(state => {
+        const keys = STATE_STYLE_KEYS[state];
+        const styled = shape as Partial<FillableShape & DashableShape>;
+        if (styled[keys.fill] !== undefined && !isUnclosedLine) options[`${state}fill`] = styled[keys.fill];
+        if (styled[keys.stroke] !== undefined) options[isUnclosedLine ? `${state}fill` : `${state}outline`] = styled[keys.stroke];
+        if (styled[keys.strokeWidth] !== undefined) options[`${state}width`] = round(styled[keys.strokeWidth]);
+        if (styled[keys.dash]) {
+            const width = styled[keys.strokeWidth] ?? shape.strokeWidth;
+            options[`${state}dash`] = styled[keys.dash].map(v => round(v * (width > 0 ? width : 1)));
+        }
+    });
     
     const tagsSet = new Set<string>();
     if (generateTkinterTags) {
@@ -107,6 +181,15 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
         }
     }
     
+    // Items always carry the tag their events and animation refer to, including those of enclosing groups.
+    let taggedId: string | undefined = shape.id;
+    while (taggedId) {
+        const itemTag = itemTags.get(taggedId);
+        if (itemTag) tagsSet.add(itemTag);
+        const currentId: string = taggedId;
+        taggedId = allShapes.find(s => s.id === currentId)?.groupId;
+    }
+
     if (tagsSet.size > 1) {
         options.tags = Array.from(tagsSet).map(t => `"${t.replace(/"/g, '\\"')}"`);
     } else if (tagsSet.size === 1) {
@@ -143,12 +226,12 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
             }
         }
 
-        const flattenedPoints = controlPoints.flatMap(p => [round(p.x), round(p.y)]).join(', ');
+        const flattenedPoints = controlPoints.flatMap(p => [round(p.x), round(p.y)]);
 
         if (shape.isClosed) {
-            return `${canvasVarName}.create_polygon(${flattenedPoints}${formatOptions(options)})`;
+            return { type: 'polygon', coords: flattenedPoints, options };
         }
-        return `${canvasVarName}.create_line(${flattenedPoints}${formatOptions(options)})`;
+        return { type: 'line', coords: flattenedPoints, options };
     }
 
     if (shape.type === 'line' || shape.type === 'bezier' || shape.type === 'polyline' || shape.type === 'pencil') {
@@ -156,7 +239,7 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
     }
 
     if (shape.type === 'text') {
-        const fontParts = [shape.font, Math.round(shape.fontSize)];
+        const fontParts = [tkFontFamily(shape.font), Math.round(shape.fontSize)];
         if (shape.weight === 'bold') fontParts.push('bold');
         if (shape.slant === 'italic') fontParts.push('italic');
         if (shape.underline) fontParts.push('underline');
@@ -171,30 +254,39 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
         if (shape.rotation !== 0) options.angle = round(shape.rotation);
         if (shape.stipple && shape.fill !== 'none') options.stipple = shape.stipple;
 
-        const coords = [round(shape.x), round(shape.y)].join(', ');
-        return `${canvasVarName}.create_text(${coords}${formatOptions(options)})`;
+        return { type: 'text', coords: [round(shape.x), round(shape.y)], options };
     }
     
     if (shape.type === 'image') {
-        options.image = imageVarMap.get(shape.id);
-        const coords = [round(shape.x + shape.width / 2), round(shape.y + shape.height / 2)].join(', ');
-        let command = `${canvasVarName}.create_image(${coords}${formatOptions(options)})`;
-        if (shape.rotation !== 0) {
-            command += ` # Tkinter не підтримує обертання для цього об'єкта.`;
-        }
-        return command;
+        const imageVar = imageVarMap.get(shape.id);
+        // The option takes the PhotoImage object, not its variable name as a string.
+        if (imageVar) options.image = { python: imageVar };
+        const coords = [round(shape.x + shape.width / 2), round(shape.y + shape.height / 2)];
+        return { type: 'image', coords, options };
     }
 
     if (shape.type === 'bitmap') {
+        const coords = [round(shape.x + shape.width / 2), round(shape.y + shape.height / 2)];
+        const imageVar = imageVarMap.get(shape.id);
+        if (imageVar) {
+            options.image = { python: imageVar };
+            return { type: 'image', coords, options };
+        }
         options.bitmap = shape.bitmapType;
         options.foreground = shape.foreground;
         options.background = shape.background;
-        const coords = [round(shape.x + shape.width / 2), round(shape.y + shape.height / 2)].join(', ');
-        let command = `${canvasVarName}.create_bitmap(${coords}${formatOptions(options)})`;
-        if (shape.rotation !== 0) {
-            command += ` # Tkinter не підтримує обертання для цього об'єкта.`;
-        }
-        return command;
+        return { type: 'bitmap', coords, options };
+    }
+
+    if (shape.type === 'widget') {
+        // A window item takes none of the drawing options; its state belongs to the widget itself,
+        // which is created separately (see widgetLines).
+        const widgetVar = widgetVarMap.get(shape.id);
+        return {
+            type: 'window',
+            coords: [round(shape.x), round(shape.y)],
+            options: { window: widgetVar ? { python: widgetVar } : undefined, anchor: 'nw', width: round(shape.width), height: round(shape.height), tags: options.tags },
+        };
     }
 
     // Optimization: A rotated circle is still a circle. Ignore its rotation.
@@ -204,12 +296,12 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
         switch (shape.type) {
             case 'rectangle':
                 const r = shape as RectangleShape;
-                const r_coords = [r.x, r.y, r.x + r.width, r.y + r.height].map(round).join(', ');
-                return `${canvasVarName}.create_rectangle(${r_coords}${formatOptions(options)})`;
+                const r_coords = [r.x, r.y, r.x + r.width, r.y + r.height].map(round);
+                return { type: 'rectangle', coords: r_coords, options };
             case 'ellipse':
                 const e = shape as EllipseShape;
-                const e_coords = [e.cx - e.rx, e.cy - e.ry, e.cx + e.rx, e.cy + e.ry].map(round).join(', ');
-                return `${canvasVarName}.create_oval(${e_coords}${formatOptions(options)})`;
+                const e_coords = [e.cx - e.rx, e.cy - e.ry, e.cx + e.rx, e.cy + e.ry].map(round);
+                return { type: 'oval', coords: e_coords, options };
             case 'arc':
                 const a = shape as ArcShape;
                 // An unrotated arc is always handled efficiently.
@@ -222,14 +314,16 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
                 // FIX: For style='arc', Tkinter uses 'outline' for the line color.
                 // The general logic sets 'fill' for unclosed lines, so we move it to 'outline'.
                 if (a.style === 'arc') {
-                    if (options.fill) {
-                        options.outline = options.fill;
-                        delete options.fill;
-                    }
+                    ['', 'active', 'disabled'].forEach(state => {
+                        if (options[`${state}fill`]) {
+                            options[`${state}outline`] = options[`${state}fill`];
+                            delete options[`${state}fill`];
+                        }
+                    });
                 }
 
-                const a_coords = [a.x, a.y, a.x + a.width, a.y + a.height].map(round).join(', ');
-                return `${canvasVarName}.create_arc(${a_coords}${formatOptions(options)})`;
+                const a_coords = [a.x, a.y, a.x + a.width, a.y + a.height].map(round);
+                return { type: 'arc', coords: a_coords, options };
         }
     }
     
@@ -247,22 +341,24 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
             // FIX: For style='arc', Tkinter uses 'outline' for the line color.
             // The general logic sets 'fill' for unclosed lines, so we move it to 'outline'.
             if (a.style === 'arc') {
-                if (options.fill) {
-                    options.outline = options.fill;
-                    delete options.fill;
-                }
+                ['', 'active', 'disabled'].forEach(state => {
+                    if (options[`${state}fill`]) {
+                        options[`${state}outline`] = options[`${state}fill`];
+                        delete options[`${state}fill`];
+                    }
+                });
             }
             
-            const a_coords = [a.x, a.y, a.x + a.width, a.y + a.height].map(round).join(', ');
-            return `${canvasVarName}.create_arc(${a_coords}${formatOptions(options)})`;
+            const a_coords = [a.x, a.y, a.x + a.width, a.y + a.height].map(round);
+            return { type: 'arc', coords: a_coords, options };
         }
     }
 
     if (shape.type === 'polyline' && shape.isClosed && !shape.rotation && isPolylineAxisAlignedRectangle(shape)) {
         const xs = shape.points.map(p => p.x);
         const ys = shape.points.map(p => p.y);
-        const coords = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].map(round).join(', ');
-        return `${canvasVarName}.create_rectangle(${coords}${formatOptions(options)})`;
+        const coords = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].map(round);
+        return { type: 'rectangle', coords, options };
     }
 
     const finalPoints = getFinalPoints(shape);
@@ -275,15 +371,336 @@ function shapeToTkinterString(shape: Shape, imageVarMap: Map<string, string>, ca
         }
     }
     
-    const flattenedPoints = finalPoints.flatMap(p => [round(p.x), round(p.y)]).join(', ');
+    const flattenedPoints = finalPoints.flatMap(p => [round(p.x), round(p.y)]);
 
     if (isUnclosedLine) {
-        return `${canvasVarName}.create_line(${flattenedPoints}${formatOptions(options)})`;
+        if (options.outlinestipple) {
+            options.stipple = options.outlinestipple;
+            delete options.outlinestipple;
+        }
+        return { type: 'line', coords: flattenedPoints, options };
     }
     
-    return `${canvasVarName}.create_polygon(${flattenedPoints}${formatOptions(options)})`;
+    return { type: 'polygon', coords: flattenedPoints, options };
+}
+
+type TrackValue = number | number[] | string;
+
+interface AnimationTrack {
+    channel: 'coords' | 'position' | string; // a Tk option name for everything else
+    keys: { time: number; value: TrackValue; easing: AnimationEasing }[];
+}
+
+const mixTrackValues = (a: TrackValue, b: TrackValue, p: number): TrackValue => {
+    if (typeof a === 'number' && typeof b === 'number') return a + (b - a) * p;
+    if (Array.isArray(a) && Array.isArray(b)) return a.map((v, i) => v + (b[i] - v) * p);
+    return mixColors(String(a), String(b), p);
+};
+
+const trackValuesEqual = (a: TrackValue, b: TrackValue): boolean => {
+    if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 0.011;
+    if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => Math.abs(v - b[i]) < 0.011);
+    return a === b;
+};
+
+const formatTrackValue = (value: TrackValue): string => {
+    if (typeof value === 'number') return String(round(value));
+    if (Array.isArray(value)) return `(${value.map(round).join(', ')})`;
+    return pyString(value);
+};
+
+/**
+ * Compiles a shape's keyframes into tracks of Tk item values (coords and options) for the generated
+ * `animate()` loop. Keyframes are kept where the Python eased interpolation reproduces the editor;
+ * segments it can't reproduce (rotation, differently keyed properties) are sampled once per frame.
+ * @returns The frame the item is created from and its tracks, or null when the item changes kind mid-animation.
+ */
+function compileShapeAnimation(shape: Shape, duration: number, fps: number, itemOf: (s: Shape) => TkinterItem | null): { startShape: Shape; tracks: AnimationTrack[] } | null {
+    const times = Array.from(new Set((shape.keyframes || []).map(k => Math.min(Math.max(k.time, 0), duration)))).sort((a, b) => a - b);
+    const frameStep = 1000 / fps;
+    const sampleTimes = [...times];
+    for (let t = 0; t < duration; t += frameStep) sampleTimes.push(t);
+
+    // Rotating a rectangle or ellipse away from 0° turns Tk's item into a polygon, so keep it a polygon throughout.
+    const frameAt = (time: number, forcePolygon: boolean): Shape => {
+        const frame = getAnimatedShape(shape, time);
+        return forcePolygon && 'rotation' in frame && frame.rotation === 0 ? { ...frame, rotation: 1e-9 } as Shape : frame;
+    };
+    const isConsistent = (forcePolygon: boolean) => {
+        const first = itemOf(frameAt(0, forcePolygon));
+        return !!first && sampleTimes.every(t => {
+            const item = itemOf(frameAt(t, forcePolygon));
+            return !!item && item.type === first.type && item.coords.length === first.coords.length;
+        });
+    };
+    const forcePolygon = !isConsistent(false);
+    if (forcePolygon && !isConsistent(true)) return null;
+
+    const items = new Map<number, TkinterItem>();
+    const itemAt = (time: number): TkinterItem => {
+        if (!items.has(time)) items.set(time, itemOf(frameAt(time, forcePolygon))!);
+        return items.get(time)!;
+    };
+    const easingAt = (time: number): AnimationEasing => (shape.keyframes || []).find(k => k.time === time)?.easing || 'linear';
+
+    const buildTrack = (channel: string, sample: (item: TkinterItem) => TrackValue): AnimationTrack | null => {
+        const keys: AnimationTrack['keys'] = [{ time: times[0], value: sample(itemAt(times[0])), easing: 'linear' }];
+        for (let i = 1; i < times.length; i++) {
+            const [a, b] = [times[i - 1], times[i]];
+            const [va, vb] = [sample(itemAt(a)), sample(itemAt(b))];
+            const easing = easingAt(b);
+            const inner: number[] = [];
+            for (let t = a + frameStep; t < b - 1e-6; t += frameStep) inner.push(t);
+            const exact = inner.every(t => trackValuesEqual(sample(itemAt(t)), mixTrackValues(va, vb, applyEasing(easing, (t - a) / (b - a)))));
+            if (!exact) inner.forEach(t => keys.push({ time: t, value: sample(itemAt(t)), easing: 'linear' }));
+            keys.push({ time: b, value: vb, easing: exact ? easing : 'linear' });
+        }
+        return keys.every(k => trackValuesEqual(k.value, keys[0].value)) ? null : { channel, keys };
+    };
+
+    const tracks: AnimationTrack[] = [];
+    const first = itemAt(times[0]);
+    // A pure translation reads better as `move`; anything else replaces the coordinates.
+    const isTranslation = sampleTimes.every(t => {
+        const coords = itemAt(t).coords;
+        const [dx, dy] = [coords[0] - first.coords[0], coords[1] - first.coords[1]];
+        return coords.every((v, i) => Math.abs(v - first.coords[i] - (i % 2 === 0 ? dx : dy)) < 0.011);
+    });
+    const coordsTrack = isTranslation
+        ? buildTrack('position', item => item.coords.slice(0, 2))
+        : buildTrack('coords', item => item.coords);
+    if (coordsTrack) tracks.push(coordsTrack);
+
+    const optionNames = new Set<string>();
+    sampleTimes.forEach(t => Object.keys(itemAt(t).options).forEach(key => optionNames.add(key)));
+    optionNames.forEach(option => {
+        if (option === 'tags' || option === 'image') return;
+        const values = sampleTimes.map(t => itemAt(t).options[option]);
+        const isNumeric = values.every(v => typeof v === 'number');
+        const isText = values.every(v => v === undefined || typeof v === 'string');
+        if (!isNumeric && !isText) return;
+        const track = buildTrack(option, item => {
+            const value = item.options[option];
+            return isNumeric ? value : (normalizeHexColor(value || '') ?? (value || ''));
+        });
+        if (track) tracks.push(track);
+    });
+
+    return { startShape: frameAt(0, forcePolygon), tracks };
+}
+
+// An item whose coordinates are Python expressions, e.g. of a loop variable or function parameters.
+type TkinterExpressionItem = Omit<TkinterItem, 'coords'> & { coords: string[] };
+
+// Shorter runs read better as separate lines.
+const MIN_LOOP_LENGTH = 3;
+
+/** `start + step * i` the way a person would write it, e.g. `10 + 25 * i`, `i` or `40 - 5 * i`. */
+const progressionExpression = (start: number, step: number, loopVar: string): string => {
+    if (step === 0) return String(start);
+    const term = Math.abs(step) === 1 ? loopVar : `${Math.abs(step)} * ${loopVar}`;
+    if (start === 0) return step < 0 ? `-${term}` : term;
+    return `${start} ${step < 0 ? '-' : '+'} ${term}`;
+};
+
+/** Step of the arithmetic progression the values form once rounded like the generated literals, or null. */
+const progressionStep = (values: number[]): number | null => {
+    const step = round(values[1] - values[0]);
+    return values.every((value, k) => round(values[0] + step * k) === value) ? step : null;
+};
+
+/**
+ * Rewrites items that differ only by evenly spaced numbers or hex colours as the body of a
+ * `for <loopVar> in range(n):` loop. Returns null unless the loop reproduces every item exactly.
+ */
+function itemsAsLoop(items: TkinterItem[], loopVar: string): { item: TkinterExpressionItem; varies: boolean } | null {
+    const [first] = items;
+    const optionKeys = Object.keys(first.options).join();
+    if (items.some(item => item.type !== first.type || item.note !== first.note || item.coordExpressions || item.coords.length !== first.coords.length || Object.keys(item.options).join() !== optionKeys)) {
+        return null;
+    }
+    let varies = false;
+    const numberExpression = (values: number[]): string | null => {
+        const step = progressionStep(values);
+        if (step === null) return null;
+        if (step !== 0) varies = true;
+        return progressionExpression(values[0], step, loopVar);
+    };
+
+    const coords: string[] = [];
+    for (let c = 0; c < first.coords.length; c++) {
+        const expression = numberExpression(items.map(item => item.coords[c]));
+        if (expression === null) return null;
+        coords.push(expression);
+    }
+
+    const options: Record<string, any> = {};
+    for (const key of Object.keys(first.options)) {
+        const values = items.map(item => item.options[key]);
+        if (values.every(v => JSON.stringify(v) === JSON.stringify(values[0]))) {
+            options[key] = values[0];
+            continue;
+        }
+        if (values.every(v => typeof v === 'number')) {
+            const expression = numberExpression(values);
+            if (expression === null) return null;
+            options[key] = { python: expression };
+            continue;
+        }
+        const colors = values.map(v => typeof v === 'string' ? normalizeHexColor(v) : null);
+        if (colors.some(color => color === null)) return null;
+        const channels = [0, 1, 2].map(ch => numberExpression(colors.map(color => parseInt(color!.slice(1 + ch * 2, 3 + ch * 2), 16))));
+        if (channels.some(channel => channel === null)) return null;
+        options[key] = { python: `"#%02x%02x%02x" % (${channels.join(', ')})` };
+    }
+    return { item: { ...first, coords, options }, varies };
+}
+
+/** The item drawn relative to `(x, y)` and scaled by `scale`, the parameters of a group's draw function. */
+const itemRelativeTo = (item: TkinterItem, originX: number, originY: number): TkinterExpressionItem => ({
+    ...item,
+    coordExpressions: undefined,
+    coords: item.coords.map((value, i) => {
+        const [axis, offset] = i % 2 === 0 ? ['x', round(value - originX)] : ['y', round(value - originY)];
+        return offset === 0 ? axis : `${axis} ${offset < 0 ? '-' : '+'} ${Math.abs(offset)} * scale`;
+    }),
+});
+
+const COLOR_OPTIONS = ['fill', 'outline', 'foreground', 'background', 'activefill', 'activeoutline', 'disabledfill', 'disabledoutline'];
+
+/**
+ * The item with the shape's variable expressions written in place of the literals they still give:
+ * coordinates and widths bound in the property editor, and colours equal to a colour variable.
+ */
+function bindItemToVariables(item: TkinterItem | null, shape: Shape, scope: VariableScope, colorVariables: Map<string, string>): TkinterItem | null {
+    if (!item) return item;
+    const coordKeys = item.coords.length === 4 ? ['x1', 'y1', 'x2', 'y2'] : item.coords.length === 2 ? ['x1', 'y1'] : [];
+    let coordExpressions: (string | undefined)[] | undefined;
+    coordKeys.forEach((key, i) => {
+        const expression = getBoundExpression(shape, key, scope);
+        const value = getShapeValue(shape, key);
+        if (expression && value !== null && round(value) === item.coords[i]) {
+            (coordExpressions ??= [])[i] = expression;
+        }
+    });
+
+    const options = { ...item.options };
+    const widthExpression = getBoundExpression(shape, 'width', scope);
+    if (widthExpression && options.width === round(getShapeValue(shape, 'width') ?? NaN)) {
+        options.width = { python: widthExpression };
+    }
+    COLOR_OPTIONS.forEach(key => {
+        const name = typeof options[key] === 'string' ? colorVariables.get(options[key].toLowerCase()) : undefined;
+        if (name) options[key] = { python: name };
+    });
+    return { ...item, options, coordExpressions };
+}
+
+/**
+ * A colour as Tk will read it: unknown names (web-only ones such as RebeccaPurple) become hex and,
+ * depending on `colorNames`, hex values become Tk names. Null when even the browser can't read it.
+ */
+const toTkColor = (color: string, colorNames: ColorNameMode = 'hex'): string | null => {
+    const value = isValidTkColor(color) ? color : colorToHex(color);
+    if (!value || !value.startsWith('#')) return value;
+    return colorNames === 'hex' ? value : getTkColorName(value, colorNames === 'nearest') ?? value;
+};
+
+/** The item with its colours passed through toTkColor; ones that would raise a TclError are left out with a note. */
+function toTkColors(item: TkinterItem | null, colorNames: ColorNameMode | undefined, t: (key: string) => string): TkinterItem | null {
+    if (!item) return item;
+    const options = { ...item.options };
+    const notes = item.note ? [item.note] : [];
+    COLOR_OPTIONS.forEach(key => {
+        if (typeof options[key] !== 'string') return;
+        const color = toTkColor(options[key], colorNames);
+        if (color === null) {
+            notes.push(`${t('code.note.invalidColor')} ${pyString(options[key])}`);
+            delete options[key];
+        } else {
+            options[key] = color;
+        }
+    });
+    return { ...item, options, note: notes.length > 0 ? notes.join('; ') : undefined };
+}
+
+const BITMAP_OPTIONS = ['bitmap', 'stipple', 'outlinestipple'];
+
+/**
+ * The item with project bitmaps (`@<id>`) replaced by the `@file` names the script knows them by.
+ * A bitmap that is no longer in the project is left out with a note, or shown as Tk's `error` bitmap.
+ */
+function toBitmapFiles(item: TkinterItem | null, bitmapRefs: Map<string, string | PythonExpression>, t: (key: string) => string): TkinterItem | null {
+    if (!item) return item;
+    const options = { ...item.options };
+    const notes = item.note ? [item.note] : [];
+    BITMAP_OPTIONS.forEach(key => {
+        if (!isCustomBitmapRef(options[key])) return;
+        const ref = bitmapRefs.get(options[key]);
+        if (ref === undefined) {
+            notes.push(t('code.note.missingBitmap'));
+            if (key === 'bitmap') options[key] = 'error';
+            else delete options[key];
+        } else {
+            options[key] = ref;
+        }
+    });
+    return { ...item, options, note: notes.length > 0 ? notes.join('; ') : undefined };
 }
 
+const TK_WIDGET_CLASSES: Record<WidgetType, string> = { button: 'Button', label: 'Label', entry: 'Entry', checkbutton: 'Checkbutton', scale: 'Scale' };
+const TTK_STYLE_CLASSES: Record<WidgetType, string> = { button: 'TButton', label: 'TLabel', entry: 'TEntry', checkbutton: 'TCheckbutton', scale: 'Horizontal.TScale' };
+
+/**
+ * Lines creating the widget a `window` item shows, with the canvas as its parent. ttk widgets take
+ * their colours (and mostly their font) from a style of their own named after the variable.
+ */
+function widgetLines(shape: WidgetShape, varName: string, parent: string, tk: string, command: string | undefined, colorNames: ColorNameMode | undefined): string[] {
+    const lines: string[] = [];
+    const fontParts = [tkFontFamily(shape.font), Math.round(shape.fontSize)];
+    if (shape.weight === 'bold') fontParts.push('bold');
+    if (shape.slant === 'italic') fontParts.push('italic');
+    const font = fontParts.join(' ');
+    const foreground = toTkColor(shape.foreground, colorNames) ?? undefined;
+    const background = toTkColor(shape.background, colorNames) ?? undefined;
+    const showsText = shape.widgetType !== 'entry' && shape.widgetType !== 'scale';
+
+    const options: Record<string, any> = {};
+    if (showsText) options.text = shape.text;
+    if (shape.widgetType === 'scale') {
+        Object.assign(options, { from_: shape.from ?? 0, to: shape.to ?? 100, orient: 'horizontal' });
+    }
+    if (command) options.command = { python: command };
+
+    if (shape.themed) {
+        const styleName = `${varName.replace(/^self\./, '')}.${TTK_STYLE_CLASSES[shape.widgetType]}`;
+        const styleOptions: Record<string, any> = shape.widgetType === 'scale'
+            ? { background }
+            : { foreground, [shape.widgetType === 'entry' ? 'fieldbackground' : 'background']: background };
+        // ttk.Entry ignores the font of its style.
+        if (shape.widgetType === 'entry') options.font = font;
+        else if (shape.widgetType !== 'scale') styleOptions.font = font;
+        lines.push(`ttk.Style().configure(${pyString(styleName)}${formatOptions(styleOptions)})`);
+        options.style = styleName;
+        lines.push(`${varName} = ttk.${TK_WIDGET_CLASSES[shape.widgetType]}(${parent}${formatOptions(options)})`);
+    } else {
+        if (shape.widgetType === 'scale' && shape.text) options.label = shape.text;
+        Object.assign(options, { font, foreground, background });
+        lines.push(`${varName} = ${tk}${TK_WIDGET_CLASSES[shape.widgetType]}(${parent}${formatOptions(options)})`);
+    }
+
+    // An entry can only be filled in while it is enabled.
+    if (shape.widgetType === 'entry' && shape.text) lines.push(`${varName}.insert(0, ${pyString(shape.text)})`);
+    if (shape.state === 'disabled') lines.push(`${varName}.configure(state="disabled")`);
+    return lines;
+}
+
+const formatTkinterItem = (item: TkinterItem | TkinterExpressionItem, canvasVarName: string): string => {
+    const coords = item.coords.map((value, i) => item.coordExpressions?.[i] ?? value);
+    const command = `${canvasVarName}.create_${item.type}(${coords.join(', ')}${formatOptions(item.options)})`;
+    return item.note ? `${command} # ${item.note}` : command;
+};
+
 export async function generateTkinterCodeLocally(
     shapes: Shape[], 
     canvasWidth: number, 
@@ -295,70 +712,669 @@ export async function generateTkinterCodeLocally(
     outlineWithFill: boolean,
     generateTkinterTags: boolean,
     showSystemTags: boolean,
-    t: (key: string) => string
+    t: (key: string) => string,
+    options: CodeGeneratorOptions = {}
 ): Promise<{ codeLines: CodeLine[] }> {
     
-    const finalCanvasVarName = ((canvasVarName) || "").trim() || 'c';
-    const imageShapes = shapes.filter(s => s.type === 'image') as ImageShape[];
+    const codeStyle: CodeStyleProfile = options.codeStyle || 'classic';
+    const isClassic = codeStyle === 'classic';
+    // Names are qualified with `tk.` for every profile except the star-import one.
+    const tk = isClassic ? '' : 'tk.';
+    const baseVarName = ((canvasVarName) || "").trim() || 'c';
+    // In the class profile the canvas and images are attributes so they outlive draw().
+    const finalCanvasVarName = codeStyle === 'class' ? `self.${baseVarName}` : baseVarName;
+    const windowVarName = codeStyle === 'class' ? 'self' : 'root';
+    // A multi-page project draws every page on a canvas of its own; images and names are shared by all of them.
+    const pages = options.pages && options.pages.length > 1 ? options.pages : null;
+    const allShapes = pages ? pages.flatMap(page => page.shapes) : shapes;
+    const imageShapes = allShapes.filter(s => s.type === 'image') as ImageShape[];
     const imageVarMap = new Map<string, string>();
-    let imageSetupCode = '';
-
-    if (imageShapes.length > 0) {
-      imageSetupCode += `from PIL import Image, ImageTk\n`;
-      imageSetupCode += `import base64\n`;
-      imageSetupCode += `import io\n\n`;
-      
-      imageShapes.forEach((shape, index) => {
-          const varName = `img_photo_${index}`;
+    const imageImports: string[] = [];
+    const imageSetupLines: string[] = [];
+
+    const photoVarName = (index: number) => codeStyle === 'class' ? `self.img_photo_${index}` : `img_photo_${index}`;
+    let imageIndex = 0;
+
+    if (imageShapes.length > 0 && options.imageFiles) {
+      // The files are already at the drawn size. Shapes showing the same file share one PhotoImage;
+      // rotated or mirrored ones are turned with Pillow, which Tk can't do.
+      const isTransformed = (shape: ImageShape) => shape.rotation !== 0 || !!shape.isFlippedHorizontally || !!shape.isFlippedVertically;
+      const fileOf = (shape: ImageShape) => pyString(options.imageFiles![getImageSizeKey(shape.src, shape.width, shape.height)]);
+      const fileVarMap = new Map<string, string>();
+      imageShapes.filter(shape => !isTransformed(shape)).forEach(shape => {
+          const file = fileOf(shape);
+          let varName = fileVarMap.get(file);
+          if (!varName) {
+              varName = photoVarName(imageIndex++);
+              imageSetupLines.push(`${varName} = ${tk}PhotoImage(file=${file})`);
+              fileVarMap.set(file, varName);
+          }
+          imageVarMap.set(shape.id, varName);
+      });
+
+      const transformedShapes = imageShapes.filter(isTransformed);
+      if (transformedShapes.length > 0) {
+        imageImports.push('from PIL import Image, ImageTk');
+      }
+      transformedShapes.forEach(shape => {
+          const index = imageIndex++;
+          const varName = photoVarName(index);
+          imageSetupLines.push(`img_pil_${index} = Image.open(${fileOf(shape)}).convert("RGBA")`);
+          if (shape.isFlippedHorizontally) imageSetupLines.push(`img_pil_${index} = img_pil_${index}.transpose(Image.FLIP_LEFT_RIGHT)`);
+          if (shape.isFlippedVertically) imageSetupLines.push(`img_pil_${index} = img_pil_${index}.transpose(Image.FLIP_TOP_BOTTOM)`);
+          if (shape.rotation !== 0) imageSetupLines.push(`img_pil_${index} = img_pil_${index}.rotate(${round(shape.rotation)}, expand=True)`);
+          imageSetupLines.push(`${varName} = ImageTk.PhotoImage(img_pil_${index})`);
+          imageVarMap.set(shape.id, varName);
+      });
+    } else if (imageShapes.length > 0) {
+      // Tk can't rotate or mirror a PhotoImage, so only those images still need Pillow in the native mode.
+      const needsPil = (shape: ImageShape) => !options.nativeImages || shape.rotation !== 0 || !!shape.isFlippedHorizontally || !!shape.isFlippedVertically;
+
+      const dataVarMap = new Map<string, string>();
+      for (const shape of imageShapes.filter(s => !needsPil(s))) {
+          const data = await getResizedPngBase64(shape.src, shape.width, shape.height);
+          let varName = dataVarMap.get(data);
+          if (!varName) {
+              varName = photoVarName(imageIndex++);
+              imageSetupLines.push(`${varName} = ${tk}PhotoImage(data="${data}")`);
+              dataVarMap.set(data, varName);
+          }
+          imageVarMap.set(shape.id, varName);
+      }
+
+      const pilShapes = imageShapes.filter(needsPil);
+      if (pilShapes.length > 0) {
+        imageImports.push('from PIL import Image, ImageTk', 'import base64', 'import io');
+      }
+      pilShapes.forEach(shape => {
+          const index = imageIndex++;
+          const varName = photoVarName(index);
           const rawDataBase64 = shape.src.split(',')[1];
-          imageSetupCode += `img_data_${index} = base64.b64decode(b'${rawDataBase64}')\n`;
-          imageSetupCode += `img_pil_${index} = Image.open(io.BytesIO(img_data_${index}))\n`;
-          imageSetupCode += `${varName} = ImageTk.PhotoImage(img_pil_${index})\n`;
+          const size = `(${Math.max(1, Math.round(shape.width))}, ${Math.max(1, Math.round(shape.height))})`;
+          imageSetupLines.push(`img_data_${index} = base64.b64decode(b'${rawDataBase64}')`);
+          // Same order as on the canvas: mirror first, then rotate about the centre, growing the image to fit.
+          imageSetupLines.push(`img_pil_${index} = Image.open(io.BytesIO(img_data_${index})).convert("RGBA").resize(${size})`);
+          if (shape.isFlippedHorizontally) imageSetupLines.push(`img_pil_${index} = img_pil_${index}.transpose(Image.FLIP_LEFT_RIGHT)`);
+          if (shape.isFlippedVertically) imageSetupLines.push(`img_pil_${index} = img_pil_${index}.transpose(Image.FLIP_TOP_BOTTOM)`);
+          if (shape.rotation !== 0) imageSetupLines.push(`img_pil_${index} = img_pil_${index}.rotate(${round(shape.rotation)}, expand=True)`);
+          imageSetupLines.push(`${varName} = ImageTk.PhotoImage(img_pil_${index})`);
           imageVarMap.set(shape.id, varName);
       });
-      imageSetupCode += '\n'
     }
 
+    // Tk can't rotate a bitmap either, so rotated ones are drawn as an image rendered in the browser.
+    const rotatedBitmaps = allShapes.filter(s => s.type === 'bitmap' && s.rotation !== 0) as BitmapShape[];
+    rotatedBitmaps.forEach(shape => {
+        const varName = photoVarName(imageIndex++);
+        imageSetupLines.push(`${varName} = ${tk}PhotoImage(data="${renderBitmapToPngBase64(shape, options.customBitmaps)}")`);
+        imageVarMap.set(shape.id, varName);
+    });
+
+    // Tk reads a bitmap of its own as `@path` to an XBM file: the bundle's files, or copies written to the
+    // temporary folder at start-up. Bitmap shapes without a file show theirs as a BitmapImage instead.
+    const customBitmaps = options.customBitmaps || [];
+    const bitmapRefs = new Map<string, string | PythonExpression>();
+    const xbmFileNames = new Set<string>();
+    const bitmapImageVars = new Map<string, string>();
+    const registerBitmapFile = (bitmap: CustomBitmap) => {
+        const ref = toCustomBitmapRef(bitmap);
+        if (bitmapRefs.has(ref)) return;
+        const file = options.bitmapFiles?.[bitmap.id];
+        if (file) {
+            bitmapRefs.set(ref, `@${file}`);
+            return;
+        }
+        if (xbmFileNames.size === 0) imageImports.push('import os', 'import tempfile');
+        let fileName = `${getXbmName(bitmap)}.xbm`;
+        for (let counter = 2; xbmFileNames.has(fileName); counter++) fileName = `${getXbmName(bitmap)}_${counter}.xbm`;
+        const varName = `xbm_file_${xbmFileNames.size}`;
+        xbmFileNames.add(fileName);
+        imageSetupLines.push(`${varName} = os.path.join(tempfile.gettempdir(), ${pyString(fileName)})`);
+        imageSetupLines.push(`with open(${varName}, "w") as f:`);
+        imageSetupLines.push(`    f.write(${pyString(toXbm(bitmap))})`);
+        bitmapRefs.set(ref, { python: `"@" + ${varName}` });
+    };
+    allShapes.forEach(shape => {
+        if (shape.type === 'bitmap') {
+            const bitmap = findCustomBitmap(shape.bitmapType, customBitmaps);
+            if (!bitmap || imageVarMap.has(shape.id)) return;
+            if (options.bitmapFiles?.[bitmap.id]) {
+                registerBitmapFile(bitmap);
+                return;
+            }
+            // Shapes showing the same bitmap in the same colours share one image.
+            const key = `${bitmap.id}|${shape.foreground}|${shape.background}`;
+            let varName = bitmapImageVars.get(key);
+            if (!varName) {
+                varName = photoVarName(imageIndex++);
+                const colors = formatOptions({ foreground: toTkColor(shape.foreground, options.colorNames) ?? undefined, background: toTkColor(shape.background, options.colorNames) ?? undefined });
+                imageSetupLines.push(`${varName} = ${tk}BitmapImage(data=${pyString(toXbm(bitmap))}${colors})`);
+                bitmapImageVars.set(key, varName);
+            }
+            imageVarMap.set(shape.id, varName);
+        }
+        ['stipple' in shape ? shape.stipple : undefined, 'outlineStipple' in shape ? shape.outlineStipple : undefined].forEach(name => {
+            const bitmap = findCustomBitmap(name, customBitmaps);
+            if (bitmap) registerBitmapFile(bitmap);
+        });
+    });
+
     const codeLines: CodeLine[] = [];
+    let indent = '';
+    const push = (content: string, shapeId: string | null = null, shapeIds?: string[]) => {
+        const line: CodeLine = { content: content ? `${indent}${content}` : '', shapeId };
+        if (shapeIds) line.shapeIds = shapeIds;
+        codeLines.push(line);
+    };
+
+    // Pages are neither scrolled nor rescaled.
+    const viewport = pages ? undefined : options.viewport;
+    const resizeMode = viewport || pages ? 'fixed' : options.resizeMode || 'fixed';
+    const scalesFonts = resizeMode !== 'fixed' && !!options.scaleFonts;
 
-    codeLines.push({ content: 'from tkinter import *', shapeId: null });
-    if (((imageSetupCode) || "").trim()) {
-        codeLines.push({ content: `\n# --- Image setup ---`, shapeId: null });
-        imageSetupCode.split('\n').forEach(l => codeLines.push({ content: l, shapeId: null }));
-    }
-    codeLines.push({ content: '', shapeId: null });
-    codeLines.push({ content: 'root = Tk()', shapeId: null });
-    codeLines.push({ content: `root.title("${projectName}")`, shapeId: null });
-    codeLines.push({ content: `root.geometry("${canvasWidth}x${canvasHeight}")`, shapeId: null });
-    codeLines.push({ content: '', shapeId: null });
-    codeLines.push({ content: `${finalCanvasVarName} = Canvas(root, width=${canvasWidth}, height=${canvasHeight}, bg="${backgroundColor}")`, shapeId: null });
-    codeLines.push({ content: `${finalCanvasVarName}.pack()`, shapeId: null });
-    codeLines.push({ content: '', shapeId: null });
-    codeLines.push({ content: t('code.comment.shapes'), shapeId: null });
-
-    if (shapes.length === 0) {
-        codeLines.push({ content: t('code.comment.noShapes'), shapeId: null });
+    push(isClassic ? 'from tkinter import *' : 'import tkinter as tk');
+    if (allShapes.some(s => s.type === 'widget' && s.themed && s.state !== 'hidden')) push('from tkinter import ttk');
+    if (scalesFonts) push('import tkinter.font as tkfont');
+    imageImports.forEach(l => push(l));
+    push('');
+
+    // Project variables sit at module level, ahead of the canvas size and shapes that use them.
+    const variableLines: string[] = [];
+    const variableScope: VariableScope = { W: canvasWidth, H: canvasHeight };
+    (options.variables || []).forEach(variable => {
+        if (!isUsablePythonName(variable.name) || variable.name in variableScope) return;
+        const value = evaluateExpression(variable.value, variableScope);
+        variableScope[variable.name] = value ?? variable.value.trim();
+        variableLines.push(`${variable.name} = ${value !== null ? variable.value.trim() : pyString(variable.value.trim())}`);
+    });
+    const useVariables = variableLines.length > 0 || allShapes.some(s => s.expressions && Object.keys(s.expressions).length > 0);
+    const colorVariables = new Map<string, string>();
+    Object.entries(variableScope).forEach(([name, value]) => {
+        if (typeof value === 'string' && !colorVariables.has(value.toLowerCase())) colorVariables.set(value.toLowerCase(), name);
+    });
+    if (useVariables) {
+        push(t('code.comment.variables'));
+        push(`W = ${canvasWidth}`);
+        push(`H = ${canvasHeight}`);
+        variableLines.forEach(line => push(line));
+        push('');
+    }
+
+    if (codeStyle === 'function') {
+        push('');
+        push('def main():');
+        indent = '    ';
+    } else if (codeStyle === 'class') {
+        push('');
+        push('class App(tk.Tk):');
+        indent = '    ';
+        push('def __init__(self):');
+        indent = '        ';
+        push('super().__init__()');
+    }
+
+    if (codeStyle !== 'class') {
+        push(`root = ${tk}Tk()`);
+    }
+    push(`${windowVarName}.title("${projectName}")`);
+    // A scrollable window takes its size from the canvas viewport and the scrollbars around it, a
+    // multi-page one from its canvases.
+    if (!viewport && !pages) {
+        push(useVariables ? `${windowVarName}.geometry(f"{W}x{H}")` : `${windowVarName}.geometry("${canvasWidth}x${canvasHeight}")`);
+    }
+    push('');
+    const canvasSize = useVariables ? 'width=W, height=H' : `width=${canvasWidth}, height=${canvasHeight}`;
+    const canvasBg = toTkColor(backgroundColor, options.colorNames) ?? '#ffffff';
+    const isAnimated = (shape: Shape) => shape.type !== 'group' && !!shape.keyframes && shape.keyframes.length > 0;
+    // Hands out unique, keyword-safe Python names that don't clash with the canvas, images, animation helpers or loop variable.
+    const allocatePythonName = createIdentifierAllocator([
+        ...(pages ? [] : [baseVarName]),
+        ...Object.keys(variableScope),
+        ...Array.from({ length: imageIndex }, (_, i) => [`img_data_${i}`, `img_pil_${i}`, `img_photo_${i}`]).flat(),
+        ...Array.from({ length: xbmFileNames.size }, (_, i) => `xbm_file_${i}`),
+        ...(allShapes.some(isAnimated) ? ['ease', 'lerp', 'interpolate', 'animate'] : []),
+        ...(options.compressLoops ? ['i'] : []),
+        ...(resizeMode !== 'fixed' ? ['scale_x', 'scale_y', 'text_fonts', 'on_resize'] : []),
+        ...(scalesFonts ? ['tkfont'] : []),
+        ...(viewport ? ['h_scroll', 'v_scroll'] : []),
+        ...(pages && options.pageLayout !== 'grid' ? ['page', 'pages', 'current_page', 'show_page'] : []),
+    ], 'shape');
+    const nameOf = (shape: Shape) => shape.name || getDefaultNameForShape(shape, t);
+    const variablePrefix = codeStyle === 'class' ? 'self.' : '';
+    const pageCanvasVars = (pages || []).map(page => variablePrefix + allocatePythonName(page.canvasVarName || 'c'));
+
+    if (pages) {
+        const pageCanvas = (page: NonNullable<typeof pages>[number], index: number, parent: string) =>
+            `${pageCanvasVars[index]} = ${tk}Canvas(${parent}, width=${page.width}, height=${page.height}, bg="${toTkColor(page.bgColor, options.colorNames) ?? '#ffffff'}")`;
+        push(t('code.comment.pages'));
+        if (options.pageLayout === 'grid') {
+            pages.forEach((page, index) => {
+                push(pageCanvas(page, index, windowVarName));
+                push(`${pageCanvasVars[index]}.grid(row=0, column=${index}, padx=4, pady=4, sticky="n")`);
+            });
+        } else {
+            // Every page is a frame in the same grid cell; the one raised last is shown.
+            const frameVars = pages.map(page => allocatePythonName(`${page.name} page`));
+            pages.forEach((page, index) => {
+                push(`${frameVars[index]} = ${tk}Frame(${windowVarName})`);
+                push(pageCanvas(page, index, frameVars[index]));
+                push(`${pageCanvasVars[index]}.pack()`);
+            });
+            push(`pages = [${frameVars.join(', ')}]`);
+            push('for page in pages:');
+            push('    page.grid(row=0, column=0, sticky="nsew")');
+            push('current_page = 0');
+            push('');
+            push(t('code.comment.showPage'));
+            push('def show_page(index):');
+            push(`    ${codeStyle === 'function' || codeStyle === 'class' ? 'nonlocal' : 'global'} current_page`);
+            push('    current_page = index % len(pages)');
+            push('    pages[current_page].tkraise()');
+            push('');
+            push(`${windowVarName}.bind("<Next>", lambda event: show_page(current_page + 1))`);
+            push(`${windowVarName}.bind("<Prior>", lambda event: show_page(current_page - 1))`);
+            push('show_page(0)');
+        }
+    } else if (viewport) {
+        const scrollRegion = useVariables ? '(0, 0, W, H)' : `(0, 0, ${canvasWidth}, ${canvasHeight})`;
+        push(`${finalCanvasVarName} = ${tk}Canvas(${windowVarName}, width=${viewport.width}, height=${viewport.height}, bg="${canvasBg}", scrollregion=${scrollRegion})`);
+        push(`h_scroll = ${tk}Scrollbar(${windowVarName}, orient="horizontal", command=${finalCanvasVarName}.xview)`);
+        push(`v_scroll = ${tk}Scrollbar(${windowVarName}, orient="vertical", command=${finalCanvasVarName}.yview)`);
+        push(`${finalCanvasVarName}.configure(xscrollcommand=h_scroll.set, yscrollcommand=v_scroll.set)`);
+        push(`${finalCanvasVarName}.grid(row=0, column=0, sticky="nsew")`);
+        push('v_scroll.grid(row=0, column=1, sticky="ns")');
+        push('h_scroll.grid(row=1, column=0, sticky="ew")');
+        push(`${windowVarName}.rowconfigure(0, weight=1)`);
+        push(`${windowVarName}.columnconfigure(0, weight=1)`);
+        if (viewport.mouseWheel) {
+            // Windows and macOS report the wheel as <MouseWheel>, X11 as buttons 4 and 5.
+            push(t('code.comment.mouseWheel'));
+            push(`${finalCanvasVarName}.bind_all("<MouseWheel>", lambda event: ${finalCanvasVarName}.yview_scroll(-1 if event.delta > 0 else 1, "units"))`);
+            push(`${finalCanvasVarName}.bind_all("<Shift-MouseWheel>", lambda event: ${finalCanvasVarName}.xview_scroll(-1 if event.delta > 0 else 1, "units"))`);
+            push(`${finalCanvasVarName}.bind_all("<Button-4>", lambda event: ${finalCanvasVarName}.yview_scroll(-1, "units"))`);
+            push(`${finalCanvasVarName}.bind_all("<Button-5>", lambda event: ${finalCanvasVarName}.yview_scroll(1, "units"))`);
+            push(`${finalCanvasVarName}.bind_all("<Shift-Button-4>", lambda event: ${finalCanvasVarName}.xview_scroll(-1, "units"))`);
+            push(`${finalCanvasVarName}.bind_all("<Shift-Button-5>", lambda event: ${finalCanvasVarName}.xview_scroll(1, "units"))`);
+        }
+    } else if (resizeMode === 'fixed') {
+        push(`${finalCanvasVarName} = ${tk}Canvas(${windowVarName}, ${canvasSize}, bg="${canvasBg}")`);
+        push(`${finalCanvasVarName}.pack()`);
+    } else {
+        // Without the focus highlight <Configure> reports exactly the drawing area.
+        push(`${finalCanvasVarName} = ${tk}Canvas(${windowVarName}, ${canvasSize}, bg="${canvasBg}", highlightthickness=0)`);
+        push(`${finalCanvasVarName}.pack(fill="both", expand=True)`);
+    }
+
+    if (codeStyle === 'class') {
+        push('self.draw()');
+        indent = '    ';
+        push('');
+        push('def draw(self):');
+        indent = '        ';
     } else {
-        shapes.forEach(shape => {
-            const lineContent = shapeToTkinterString(shape, imageVarMap, finalCanvasVarName, outlineWithFill, generateTkinterTags, showSystemTags, shapes);
-            if (lineContent) {
-                let commentToUse = shape.comment;
-                if (autoGenerateComments && !commentToUse) {
-                    commentToUse = generateLocalComment(shape, t);
+        push('');
+    }
+
+    // Images can only be created once the Tk root exists.
+    if (imageSetupLines.length > 0) {
+        push(`# --- Image setup ---`);
+        imageSetupLines.forEach(l => push(l));
+        push('');
+    }
+
+    // Group draw functions are defined ahead of the shapes that call them (or as methods after draw() in the class profile).
+    const shapesCommentIndex = codeLines.length;
+    const groupFunctionLines: CodeLine[] = [];
+    const widgetCommandLines: CodeLine[] = [];
+    push(t('code.comment.shapes'));
+
+    // Widgets are kept in variables for create_window; the commands they name share one stub per name.
+    const widgetShapes = allShapes.filter(s => s.type === 'widget' && s.state !== 'hidden') as WidgetShape[];
+    const widgetVarMap = new Map(widgetShapes.map(shape => [shape.id, variablePrefix + allocatePythonName(nameOf(shape))]));
+    const widgetCommands = new Map<string, { name: string; users: WidgetShape[] }>();
+    widgetShapes.forEach(shape => {
+        const command = shape.command?.trim();
+        if (!command || !hasWidgetCommand(shape.widgetType)) return;
+        if (!widgetCommands.has(command)) widgetCommands.set(command, { name: allocatePythonName(command), users: [] });
+        widgetCommands.get(command)!.users.push(shape);
+    });
+    widgetCommands.forEach(({ name, users }) => {
+        // A scale passes its new value to the command.
+        const scaleUsers = users.filter(u => u.widgetType === 'scale').length;
+        const valueParam = scaleUsers === 0 ? [] : [scaleUsers === users.length ? 'value' : 'value=None'];
+        const params = [...(codeStyle === 'class' ? ['self'] : []), ...valueParam];
+        widgetCommandLines.push({ content: `def ${name}(${params.join(', ')}):`, shapeId: users[0].id, shapeIds: users.map(u => u.id) });
+        widgetCommandLines.push({ content: '    pass', shapeId: users[0].id, shapeIds: users.map(u => u.id) });
+        widgetCommandLines.push({ content: '', shapeId: null });
+    });
+    const widgetCommandOf = (shape: WidgetShape) => {
+        const command = widgetCommands.get(shape.command?.trim() || '');
+        return command && hasWidgetCommand(shape.widgetType) ? variablePrefix + command.name : undefined;
+    };
+
+    const animation = options.animation || DEFAULT_ANIMATION_SETTINGS;
+    let animationHelpersPushed = false;
+
+    // Draws one canvas's shapes, with the event handlers, resizing and animation that go with them.
+    const drawShapes = (shapes: Shape[], finalCanvasVarName: string) => {
+        const animatedShapes = shapes.filter(isAnimated);
+
+        // Shapes and groups taking part in event bindings or animation get a readable tag to refer to them by.
+        const shapesWithEvents = shapes.filter(s => s.events && s.events.length > 0);
+        const itemTags = new Map<string, string>();
+        const allocateItemTag = createIdentifierAllocator(['event_message'], 'shape');
+        const tagShape = (target: Shape | undefined) => {
+            if (target && !itemTags.has(target.id)) itemTags.set(target.id, allocateItemTag(nameOf(target)));
+        };
+        shapesWithEvents.forEach(owner => {
+            [owner, ...owner.events!.map(binding => shapes.find(s => s.id === binding.targetId))].forEach(tagShape);
+        });
+        animatedShapes.forEach(tagShape);
+
+        const compiledAnimations = new Map(animatedShapes.map(shape => [shape.id, compileShapeAnimation(shape, animation.duration, animation.fps,
+            s => shapeToTkinterItem(s, imageVarMap, outlineWithFill, generateTkinterTags, showSystemTags, shapes, itemTags, widgetVarMap))]));
+
+        const pushComment = (comment: string, shapeId: string, shapeIds?: string[]) => {
+            comment.split('\n').forEach(line => {
+                push((line || '').trim() === '' ? '#' : `# ${line}`, shapeId, shapeIds);
+            });
+        };
+
+        // Animated items are created as they look on the first frame.
+        const items = shapes.map(shape => toBitmapFiles(toTkColors(bindItemToVariables(
+            shapeToTkinterItem(compiledAnimations.get(shape.id)?.startShape ?? shape, imageVarMap, outlineWithFill, generateTkinterTags, showSystemTags, shapes, itemTags, widgetVarMap),
+            shape, variableScope, colorVariables), options.colorNames, t), bitmapRefs, t));
+
+        // Each top-level group drawn by a function: the shapes inside it (at any depth) and the origin they are drawn relative to.
+        const groupFunctions = new Map<string, { name: string; group: Shape; childIndexes: number[]; origin: { x: number; y: number } }>();
+        const functionGroupOf = new Map<string, string>();
+        if (options.groupFunctions) {
+            shapes.forEach((shape, index) => {
+                // Widgets are created ahead of their item, so they stay out of the group functions.
+                if (!items[index] || !shape.groupId || shape.type === 'widget') return;
+                let group: Shape | undefined = shapes.find(s => s.id === shape.groupId);
+                while (group && group.groupId) {
+                    const parentId = group.groupId;
+                    group = shapes.find(s => s.id === parentId);
+                }
+                if (!group) return;
+                if (!groupFunctions.has(group.id)) {
+                    const bbox = getBoundingBox(group, shapes);
+                    const origin = bbox ? { x: round(bbox.x), y: round(bbox.y) } : { x: 0, y: 0 };
+                    groupFunctions.set(group.id, { name: allocatePythonName(`draw ${nameOf(group)}`), group, childIndexes: [], origin });
+                }
+                groupFunctions.get(group.id)!.childIndexes.push(index);
+                functionGroupOf.set(shape.id, group.id);
+            });
+        }
+        const groupDrawnIds = (groupId: string) => [groupId, ...groupFunctions.get(groupId)!.childIndexes.map(i => shapes[i].id)];
+        const shapeComment = (shape: Shape) => shape.comment || (autoGenerateComments ? generateLocalComment(shape, t) : '');
+
+        groupFunctions.forEach(({ name, group, childIndexes, origin }) => {
+            groupFunctionLines.push({ content: `def ${name}(${codeStyle === 'class' ? 'self, ' : ''}canvas, x, y, scale=1):`, shapeId: group.id, shapeIds: groupDrawnIds(group.id) });
+            childIndexes.forEach(i => {
+                const child = shapes[i];
+                const comment = shapeComment(child);
+                if (comment) {
+                    comment.split('\n').forEach(line => groupFunctionLines.push({ content: (line || '').trim() === '' ? '    #' : `    # ${line}`, shapeId: child.id, shapeIds: [child.id] }));
                 }
+                groupFunctionLines.push({ content: `    ${formatTkinterItem(itemRelativeTo(items[i]!, origin.x, origin.y), 'canvas')}`, shapeId: child.id, shapeIds: [child.id] });
+            });
+            groupFunctionLines.push({ content: '', shapeId: null });
+        });
 
-                if (commentToUse) {
-                    (commentToUse || '').split('\n').forEach(line => {
-                        codeLines.push({ content: (line || '').trim() === '' ? '#' : `# ${line}`, shapeId: shape.id });
-                    });
+        // The longest loop starting at `start`; later shapes may not carry their own comment, which the loop would drop.
+        const canLoop = (index: number) => !!items[index] && shapes[index].type !== 'widget' && !compiledAnimations.has(shapes[index].id) && !functionGroupOf.has(shapes[index].id);
+        const findLoop = (start: number) => {
+            let found: { length: number; item: TkinterExpressionItem } | null = null;
+            if (!canLoop(start)) return found;
+            for (let end = start + 1; end < shapes.length && canLoop(end) && !shapes[end].comment; end++) {
+                const loop = itemsAsLoop(items.slice(start, end + 1) as TkinterItem[], 'i');
+                if (!loop) break;
+                if (loop.varies && end + 1 - start >= MIN_LOOP_LENGTH) found = { length: end + 1 - start, item: loop.item };
+            }
+            return found;
+        };
+
+        for (let index = 0; index < shapes.length; index++) {
+            const shape = shapes[index];
+            const item = items[index];
+            if (!item) continue;
+
+            const functionGroupId = functionGroupOf.get(shape.id);
+            if (functionGroupId) {
+                // The group's first shape stands for the call that draws all of them.
+                const { name, group, childIndexes, origin } = groupFunctions.get(functionGroupId)!;
+                if (childIndexes[0] === index) {
+                    const drawnIds = groupDrawnIds(group.id);
+                    const comment = shapeComment(group);
+                    if (comment) pushComment(comment, group.id, drawnIds);
+                    push(`${variablePrefix}${name}(${finalCanvasVarName}, ${origin.x}, ${origin.y})`, group.id, drawnIds);
+                }
+                continue;
+            }
+
+            const loop = options.compressLoops ? findLoop(index) : null;
+            if (loop) {
+                const runShapes = shapes.slice(index, index + loop.length);
+                const runIds = runShapes.map(s => s.id);
+                const lastShape = runShapes[runShapes.length - 1];
+                if (shape.comment) {
+                    pushComment(shape.comment, shape.id, runIds);
+                } else if (autoGenerateComments) {
+                    const [firstName, lastName] = [generateLocalComment(shape, t), generateLocalComment(lastShape, t)];
+                    pushComment(firstName === lastName ? firstName : `${firstName} … ${lastName}`, shape.id, runIds);
+                }
+                let bodyContent = formatTkinterItem(loop.item, finalCanvasVarName);
+                if (options.shapeVariables) {
+                    // The loop collects its items in a list named after the shapes, without their running number.
+                    const listName = variablePrefix + allocatePythonName(nameOf(shape).replace(/[\s_-]*\d+$/, '') || nameOf(shape));
+                    push(`${listName} = []`, shape.id, runIds);
+                    bodyContent = `${listName}.append(${bodyContent})`;
                 }
-                codeLines.push({ content: lineContent, shapeId: shape.id });
+                push(`for i in range(${loop.length}):`, shape.id, runIds);
+                push(`    ${bodyContent}`, shape.id, runIds);
+                index += loop.length - 1;
+                continue;
+            }
+
+            let lineContent = formatTkinterItem(item, finalCanvasVarName);
+            const commentToUse = shapeComment(shape);
+            if (commentToUse) {
+                pushComment(commentToUse, shape.id);
+            }
+            if (shape.type === 'widget') {
+                widgetLines(shape, widgetVarMap.get(shape.id)!, finalCanvasVarName, tk, widgetCommandOf(shape), options.colorNames).forEach(line => push(line, shape.id));
+            }
+            if (options.shapeVariables) {
+                const variableName = allocatePythonName(nameOf(shape));
+                lineContent = `${variablePrefix}${variableName} = ${lineContent}`;
             }
+            push(lineContent, shape.id);
+        }
+
+        if (shapesWithEvents.length > 0) {
+            push('');
+            push(t('code.comment.events'));
+            shapesWithEvents.forEach(owner => {
+                const ownerTag = itemTags.get(owner.id)!;
+                owner.events!.forEach((binding, index) => {
+                    const targetTag = (binding.targetId && itemTags.get(binding.targetId)) || ownerTag;
+                    const sequenceName = binding.sequence.replace(/[<>]/g, '');
+                    const handlerName = allocatePythonName(`on_${ownerTag}_${sequenceName}`);
+                    if (index > 0 || owner !== shapesWithEvents[0]) push('');
+                    push(`def ${handlerName}(event):`, owner.id);
+                    eventHandlerBody(binding, targetTag, finalCanvasVarName).forEach(line => push(line.trim() ? `    ${line}` : ''));
+                    push(`${finalCanvasVarName}.tag_bind(${pyString(ownerTag)}, ${pyString(binding.sequence)}, ${handlerName})`, owner.id);
+                });
+            });
+        }
+
+        // Scale factors of the items relative to the original canvas, kept up to date by on_resize.
+        const [scaleX, scaleY] = codeStyle === 'class' ? ['self.scale_x', 'self.scale_y'] : ['scale_x', 'scale_y'];
+        if (resizeMode !== 'fixed') {
+            const textFonts = codeStyle === 'class' ? 'self.text_fonts' : 'text_fonts';
+            push('');
+            push(t('code.comment.resize'));
+            push(`BASE_WIDTH, BASE_HEIGHT = ${canvasWidth}, ${canvasHeight}`);
+            push(`${scaleX}, ${scaleY} = 1, 1`);
+            if (scalesFonts) {
+                // Tk resolves the font itself: a family name may contain spaces.
+                push(`${textFonts} = {item: tkfont.Font(font=${finalCanvasVarName}.itemcget(item, "font")).actual() for item in ${finalCanvasVarName}.find_all() if ${finalCanvasVarName}.type(item) == "text"}`);
+            }
+            push('');
+            push('def on_resize(event):');
+            if (codeStyle !== 'class') push(`    ${codeStyle === 'function' ? 'nonlocal' : 'global'} scale_x, scale_y`);
+            push('    new_x, new_y = event.width / BASE_WIDTH, event.height / BASE_HEIGHT');
+            if (resizeMode === 'keepAspect') push('    new_x = new_y = min(new_x, new_y)');
+            push(`    ${finalCanvasVarName}.scale("all", 0, 0, new_x / ${scaleX}, new_y / ${scaleY})`);
+            push(`    ${scaleX}, ${scaleY} = new_x, new_y`);
+            if (scalesFonts) {
+                push(`    for item, font in ${textFonts}.items():`);
+                push('        size = max(1, round(font["size"] * min(new_x, new_y)))');
+                push('        styles = [font["weight"], font["slant"]] + [style for style in ("underline", "overstrike") if font[style]]');
+                push(`        ${finalCanvasVarName}.itemconfig(item, font=(font["family"], size, *styles))`);
+            }
+            push('');
+            push(`${finalCanvasVarName}.bind("<Configure>", on_resize)`);
+        }
+
+        if (animatedShapes.length > 0) {
+            // The helpers are shared by the pages; each page gets an animate() of its own.
+            const animateName = animationHelpersPushed ? allocatePythonName(`animate ${finalCanvasVarName.replace(/^self\./, '')}`) : 'animate';
+            if (!animationHelpersPushed) {
+                animationHelpersPushed = true;
+                const frameDelay = Math.max(1, Math.round(1000 / animation.fps));
+                push('');
+                push(t('code.comment.animation'));
+                push(`FRAME_DELAY = ${frameDelay}  # ms, ${animation.fps} fps`);
+                push(`ANIMATION_DURATION = ${Math.round(animation.duration)}  # ms`);
+                push('');
+                [
+                    'def ease(kind, t):',
+                    '    if kind == "easeIn":',
+                    '        return t * t',
+                    '    if kind == "easeOut":',
+                    '        return 1 - (1 - t) * (1 - t)',
+                    '    if kind == "easeInOut":',
+                    '        return 2 * t * t if t < 0.5 else 1 - 2 * (1 - t) * (1 - t)',
+                    '    return t',
+                    '',
+                    'def lerp(a, b, p):',
+                    '    if isinstance(a, tuple):',
+                    '        return tuple(lerp(x, y, p) for x, y in zip(a, b))',
+                    '    if isinstance(a, str):',
+                    '        if len(a) == len(b) == 7 and a.startswith("#") and b.startswith("#"):',
+                    '            return "#" + "".join("%02x" % int(int(a[i:i + 2], 16) + (int(b[i:i + 2], 16) - int(a[i:i + 2], 16)) * p + 0.5) for i in (1, 3, 5))',
+                    '        return b if p >= 1 else a',
+                    '    return a + (b - a) * p',
+                    '',
+                    'def interpolate(keys, time):',
+                    '    if time <= keys[0][0]:',
+                    '        return keys[0][1]',
+                    '    for (t0, v0, _), (t1, v1, kind) in zip(keys, keys[1:]):',
+                    '        if time <= t1:',
+                    '            return lerp(v0, v1, ease(kind, (time - t0) / (t1 - t0)))',
+                    '    return keys[-1][1]',
+                ].forEach(line => push(line));
+            }
+
+            const animateLines: CodeLine[] = [];
+            animatedShapes.forEach(shape => {
+                const tag = pyString(itemTags.get(shape.id)!);
+                const compiled = compiledAnimations.get(shape.id);
+                push('');
+                if (!compiled) {
+                    push(t('code.comment.animationUnsupported').replace('{name}', nameOf(shape)), shape.id);
+                    return;
+                }
+                const optionArgs: string[] = [];
+                compiled.tracks.forEach(track => {
+                    const trackName = allocatePythonName(`${itemTags.get(shape.id)}_${track.channel}`);
+                    const keys = track.keys.map(k => `(${Math.round(k.time)}, ${formatTrackValue(k.value)}, "${k.easing}")`);
+                    push(`${trackName} = [${keys.join(', ')}]`, shape.id);
+                    if (track.channel === 'position') {
+                        animateLines.push({ content: `x, y = interpolate(${trackName}, time)`, shapeId: shape.id });
+                        animateLines.push({ content: `x0, y0 = ${finalCanvasVarName}.coords(${tag})[:2]`, shapeId: shape.id });
+                        const [moveX, moveY] = resizeMode === 'fixed' ? ['x', 'y'] : [`x * ${scaleX}`, `y * ${scaleY}`];
+                        animateLines.push({ content: `${finalCanvasVarName}.move(${tag}, ${moveX} - x0, ${moveY} - y0)`, shapeId: shape.id });
+                    } else if (track.channel === 'coords') {
+                        const coords = resizeMode === 'fixed'
+                            ? `interpolate(${trackName}, time)`
+                            : `[v * (${scaleY} if i % 2 else ${scaleX}) for i, v in enumerate(interpolate(${trackName}, time))]`;
+                        animateLines.push({ content: `${finalCanvasVarName}.coords(${tag}, *${coords})`, shapeId: shape.id });
+                    } else {
+                        optionArgs.push(`${track.channel}=interpolate(${trackName}, time)`);
+                    }
+                });
+                if (optionArgs.length > 0) {
+                    animateLines.push({ content: `${finalCanvasVarName}.itemconfig(${tag}, ${optionArgs.join(', ')})`, shapeId: shape.id });
+                }
+            });
+
+            push('');
+            push(`def ${animateName}(time=0):`);
+            animateLines.forEach(line => push(`    ${line.content}`, line.shapeId));
+            push('    if time < ANIMATION_DURATION:');
+            push(`        ${windowVarName}.after(FRAME_DELAY, ${animateName}, min(time + FRAME_DELAY, ANIMATION_DURATION))`);
+            if (animation.loop) {
+                push('    else:');
+                push(`        ${windowVarName}.after(FRAME_DELAY, ${animateName}, 0)`);
+            }
+            push('');
+            push(`${animateName}()`);
+        }
+    };
+
+    if (allShapes.length === 0) {
+        push(t('code.comment.noShapes'));
+        // Keep the class body valid when there is nothing to draw.
+        if (codeStyle === 'class') push('pass');
+    } else if (pages) {
+        pages.forEach((page, index) => {
+            if (index > 0) push('');
+            push(t('code.comment.page').replace('{name}', page.name));
+            // W and H follow the page, so expressions place the shapes on their own canvas.
+            if (useVariables) push(`W, H = ${page.width}, ${page.height}`);
+            if (page.shapes.length === 0) push(t('code.comment.noShapes'));
+            else drawShapes(page.shapes, pageCanvasVars[index]);
         });
+    } else {
+        drawShapes(shapes, finalCanvasVarName);
     }
 
-    codeLines.push({ content: '', shapeId: null });
-    codeLines.push({ content: 'root.mainloop()', shapeId: null });
+    const definitionLines: CodeLine[] = [
+        ...(widgetCommandLines.length > 0 ? [{ content: t('code.comment.widgetCommands'), shapeId: null }, ...widgetCommandLines] : []),
+        ...(groupFunctionLines.length > 0 ? [{ content: t('code.comment.groupFunctions'), shapeId: null }, ...groupFunctionLines] : []),
+    ];
+    if (definitionLines.length > 0) {
+        const definitionIndent = codeStyle === 'class' ? '    ' : indent;
+        const definitions: CodeLine[] = definitionLines
+            .map(line => ({ ...line, content: line.content ? `${definitionIndent}${line.content}` : '' }));
+        if (codeStyle === 'class') {
+            codeLines.push({ content: '', shapeId: null }, ...definitions.slice(0, -1));
+        } else {
+            codeLines.splice(shapesCommentIndex, 0, ...definitions);
+        }
+    }
+
+    push('');
+    if (codeStyle === 'function') {
+        push('root.mainloop()');
+        indent = '';
+        push('');
+        push('');
+        push('if __name__ == "__main__":');
+        push('    main()');
+    } else if (codeStyle === 'class') {
+        indent = '';
+        push('');
+        push('if __name__ == "__main__":');
+        push('    app = App()');
+        push('    app.mainloop()');
+    } else {
+        push('root.mainloop()');
+    }
 
     return Promise.resolve({ codeLines });
-}
\ No newline at end of file
+}
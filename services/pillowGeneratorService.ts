@@ -0,0 +1,269 @@
+import { type Shape, ArcShape, ImageShape, TextShape } from '../types';
+import { getArrowheadPoints, getFinalPoints, getTextBoundingBox, isShapeClosed, processTextLines } from '../lib/geometry';
+import { type CodeLine } from '../components/CodeDisplay';
+import { getDefaultNameForShape } from '../lib/constants';
+
+const round = (num: number): number => {
+    return Math.round(num * 100) / 100;
+};
+
+const pyString = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Pillow looks colour names up without spaces ("light blue" is "lightblue"); hex colours pass through.
+const pyColor = (color: string): string => pyString(color.startsWith('#') ? color : color.toLowerCase().replace(/\s+/g, ''));
+
+type Point = { x: number; y: number };
+
+const formatPoints = (points: Point[]) => `[${points.map(p => `(${round(p.x)}, ${round(p.y)})`).join(', ')}]`;
+
+// Font files (regular, bold, italic, bold italic) of the families projects use most, as Windows names
+// them; any other family is tried as "<family>.ttf". Missing fonts fall back to Pillow's own.
+const FONT_FILES: Record<string, string[]> = {
+    arial: ['arial', 'arialbd', 'ariali', 'arialbi'],
+    helvetica: ['arial', 'arialbd', 'ariali', 'arialbi'],
+    courier: ['cour', 'courbd', 'couri', 'courbi'],
+    'courier new': ['cour', 'courbd', 'couri', 'courbi'],
+    times: ['times', 'timesbd', 'timesi', 'timesbi'],
+    'times new roman': ['times', 'timesbd', 'timesi', 'timesbi'],
+    verdana: ['verdana', 'verdanab', 'verdanai', 'verdanaz'],
+};
+
+const getFontFile = (text: TextShape): string => {
+    const files = FONT_FILES[text.font.toLowerCase()];
+    if (!files) return `${text.font.toLowerCase().replace(/\s+/g, '')}.ttf`;
+    return `${files[(text.weight === 'bold' ? 1 : 0) + (text.slant === 'italic' ? 2 : 0)]}.ttf`;
+};
+
+// Python helpers emitted once when a shape needs them.
+const LOAD_FONT_HELPER = [
+    'def load_font(file_name, size):',
+    '    """Loads a TrueType font, falling back to Pillow\'s built-in font when it isn\'t installed."""',
+    '    try:',
+    '        return ImageFont.truetype(file_name, size)',
+    '    except OSError:',
+    '        try:',
+    '            return ImageFont.load_default(size)',
+    '        except TypeError:  # Pillow before 10.1 has only the small bitmap font',
+    '            return ImageFont.load_default()',
+];
+
+const DASHED_LINE_HELPER = [
+    'def draw_dashed_line(draw, points, fill, width, dash):',
+    '    """Draws connected line segments with a repeating (dash, gap, ...) pattern."""',
+    '    if len(dash) % 2:',
+    '        dash = dash * 2',
+    '    index, left = 0, dash[0]',
+    '    for (x1, y1), (x2, y2) in zip(points, points[1:]):',
+    '        length = math.hypot(x2 - x1, y2 - y1)',
+    '        pos = 0',
+    '        while pos < length:',
+    '            step = min(left, length - pos)',
+    '            if index % 2 == 0:',
+    '                a, b = pos / length, (pos + step) / length',
+    '                draw.line([(x1 + (x2 - x1) * a, y1 + (y2 - y1) * a), (x1 + (x2 - x1) * b, y1 + (y2 - y1) * b)], fill=fill, width=width)',
+    '            pos += step',
+    '            left -= step',
+    '            if left <= 0:',
+    '                index = (index + 1) % len(dash)',
+    '                left = dash[index]',
+];
+
+// Things the shapes need before drawing starts: fonts, images and the helpers.
+interface PillowResources {
+    fonts: Map<string, string>; // load_font arguments -> variable name
+    images: { varName: string; lines: string[] }[];
+    needsDashes: boolean;
+}
+
+/**
+ * ImageDraw statements drawing a single shape onto `image`, without its comment, plus warnings about
+ * what Pillow can't reproduce. Rotated shapes are drawn as polygons through their final points.
+ */
+function shapeToPillowCommands(shape: Shape, resources: PillowResources, t: (key: string) => string): { commands: string[]; warnings: string[] } {
+    const commands: string[] = [];
+    const warnings: string[] = [];
+    const warn = (key: string) => warnings.push(t(key));
+
+    if (shape.type === 'text') {
+        const text = shape as TextShape;
+        const bbox = getTextBoundingBox(text);
+        if (!bbox || text.fill === 'none') return { commands, warnings };
+        if (text.rotation) warn('pillow.warn.textRotation');
+        if (text.stipple) warn('pillow.warn.stipple');
+        if (text.underline || text.overstrike) warn('pillow.warn.textDecoration');
+        const fontArgs = `${pyString(getFontFile(text))}, ${Math.round(text.fontSize)}`;
+        if (!resources.fonts.has(fontArgs)) resources.fonts.set(fontArgs, `font_${resources.fonts.size + 1}`);
+        // Lines are placed like Tkinter justifies them inside the text block; "a" puts the ascender at the top.
+        const [anchor, anchorX] = text.justify === 'center' ? ['ma', bbox.x + bbox.width / 2] : text.justify === 'right' ? ['ra', bbox.x + bbox.width] : ['la', bbox.x];
+        const lines = processTextLines(text);
+        const align = lines.length > 1 && text.justify !== 'left' ? `, align="${text.justify}"` : '';
+        commands.push(`draw.text((${round(anchorX)}, ${round(bbox.y)}), ${pyString(lines.join('\n'))}, fill=${pyColor(text.fill)}, font=${resources.fonts.get(fontArgs)}, anchor="${anchor}"${align})`);
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'image') {
+        const image = shape as ImageShape;
+        const varName = `image_${resources.images.length + 1}`;
+        const rawDataBase64 = image.src.split(',')[1];
+        const lines = [`${varName} = Image.open(io.BytesIO(base64.b64decode(b'${rawDataBase64}'))).convert("RGBA").resize((${Math.max(1, Math.round(image.width))}, ${Math.max(1, Math.round(image.height))}))`];
+        // Both Pillow and the editor turn counterclockwise.
+        if (image.rotation) lines.push(`${varName} = ${varName}.rotate(${round(image.rotation)}, expand=True)`);
+        resources.images.push({ varName, lines });
+        // The image is its own mask, so transparent pixels stay transparent.
+        const cx = round(image.x + image.width / 2);
+        const cy = round(image.y + image.height / 2);
+        commands.push(`image.paste(${varName}, (round(${cx} - ${varName}.width / 2), round(${cy} - ${varName}.height / 2)), ${varName})`);
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'bitmap' || shape.type === 'widget') {
+        warnings.push(t('pillow.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    const closed = isShapeClosed(shape);
+    const hasStroke = shape.stroke !== 'none' && shape.strokeWidth > 0;
+    const fill = closed && 'fill' in shape && shape.fill && shape.fill !== 'none' ? shape.fill : null;
+    if (!hasStroke && !fill) return { commands, warnings };
+    const width = Math.max(1, Math.round(shape.strokeWidth));
+    const dash = 'dash' in shape && shape.dash && shape.dash.length > 0 && hasStroke ? shape.dash.map(v => round(v * shape.strokeWidth)) : null;
+    if (('stipple' in shape && shape.stipple && fill) || ('outlineStipple' in shape && shape.outlineStipple && hasStroke)) warn('pillow.warn.stipple');
+
+    const isRotated = 'rotation' in shape && !!shape.rotation;
+    const points = getFinalPoints(shape);
+    const color = pyColor(shape.stroke);
+    // Dashed outlines are drawn separately by the helper, so the shape itself only gets a fill.
+    const fillArg = fill ? `fill=${pyColor(fill)}` : '';
+    const outlineArgs = hasStroke && !dash ? `outline=${color}, width=${width}` : '';
+    const styleArgs = [fillArg, outlineArgs].filter(Boolean).join(', ');
+    const drawClosed = (call: string) => {
+        if (styleArgs) commands.push(`${call}, ${styleArgs})`);
+    };
+
+    const arc = shape.type === 'arc' ? shape as ArcShape : null;
+    if (shape.type === 'rectangle' && !isRotated) {
+        drawClosed(`draw.rectangle((${round(shape.x)}, ${round(shape.y)}, ${round(shape.x + shape.width)}, ${round(shape.y + shape.height)})`);
+    } else if (shape.type === 'ellipse' && !isRotated) {
+        drawClosed(`draw.ellipse((${round(shape.cx - shape.rx)}, ${round(shape.cy - shape.ry)}, ${round(shape.cx + shape.rx)}, ${round(shape.cy + shape.ry)})`);
+    } else if (arc && (arc.width === arc.height || !isRotated)) {
+        // Same as the Tkinter output: rotating a circular arc only moves its start angle.
+        let start = arc.start + (isRotated ? arc.rotation : 0);
+        let extent = arc.extent;
+        // A flip mirrors the angles: horizontally around 90°, vertically around 0°.
+        if (arc.isFlippedHorizontally) [start, extent] = [180 - start, -extent];
+        if (arc.isFlippedVertically) [start, extent] = [-start, -extent];
+        // Tkinter measures angles counterclockwise, Pillow clockwise.
+        const [from, to] = extent >= 0 ? [-(start + extent), -start] : [-start, -(start + extent)];
+        const box = `(${round(arc.x)}, ${round(arc.y)}, ${round(arc.x + arc.width)}, ${round(arc.y + arc.height)}), ${round(from)}, ${round(to)}`;
+        if (arc.style === 'arc') {
+            if (!dash) commands.push(`draw.arc(${box}, fill=${color}, width=${width})`);
+        } else {
+            drawClosed(`draw.${arc.style}(${box}`);
+        }
+    } else if (points && points.length >= 2) {
+        if (closed) {
+            drawClosed(`draw.polygon(${formatPoints(points)}`);
+        } else if (!dash) {
+            // Tkinter joins line segments round unless told otherwise.
+            const joint = points.length > 2 && (!('joinstyle' in shape) || !shape.joinstyle || shape.joinstyle === 'round') ? ', joint="curve"' : '';
+            commands.push(`draw.line(${formatPoints(points)}, fill=${color}, width=${width}${joint})`);
+        }
+    } else {
+        warnings.push(t('pillow.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    if (dash && points && points.length >= 2) {
+        resources.needsDashes = true;
+        commands.push(`draw_dashed_line(draw, ${formatPoints(closed ? [...points, points[0]] : points)}, ${color}, ${width}, (${dash.join(', ')}))`);
+    }
+
+    // Pillow has no arrows, so the arrowheads are drawn as small polygons.
+    if ('arrow' in shape && shape.arrow && shape.arrow !== 'none' && shape.arrowshape && !closed && points && points.length >= 2) {
+        const arrowshape = shape.arrowshape.map(v => v * shape.strokeWidth);
+        const ends: [Point, Point][] = [];
+        if (shape.arrow === 'first' || shape.arrow === 'both') ends.push([points[0], points[1]]);
+        if (shape.arrow === 'last' || shape.arrow === 'both') ends.push([points[points.length - 1], points[points.length - 2]]);
+        ends.forEach(([tip, from]) => commands.push(`draw.polygon(${formatPoints(getArrowheadPoints(tip, from, arrowshape))}, fill=${color})`));
+    }
+    return { commands, warnings };
+}
+
+/**
+ * Generates a headless Pillow script that draws the shapes with ImageDraw onto an image of the
+ * canvas size and background, then saves it as a PNG named after the project.
+ */
+export async function generatePillowCodeLocally(
+    shapes: Shape[],
+    canvasWidth: number,
+    canvasHeight: number,
+    backgroundColor: string,
+    projectName: string,
+    autoGenerateComments: boolean,
+    t: (key: string) => string
+): Promise<{ codeLines: CodeLine[] }> {
+    const resources: PillowResources = { fonts: new Map(), images: [], needsDashes: false };
+    const shapeBlocks = shapes
+        .filter(s => s.type !== 'group' && s.state !== 'hidden')
+        .map(shape => ({ shape, ...shapeToPillowCommands(shape, resources, t) }));
+
+    const codeLines: CodeLine[] = [];
+    const push = (content: string, shapeId: string | null = null) => {
+        codeLines.push({ content, shapeId });
+    };
+
+    push('from PIL import Image, ImageDraw, ImageFont');
+    if (resources.needsDashes) push('import math');
+    if (resources.images.length > 0) {
+        push('import base64');
+        push('import io');
+    }
+    if (resources.fonts.size > 0) {
+        push('');
+        push('');
+        LOAD_FONT_HELPER.forEach(line => push(line));
+    }
+    if (resources.needsDashes) {
+        push('');
+        push('');
+        DASHED_LINE_HELPER.forEach(line => push(line));
+    }
+
+    push('');
+    if (resources.fonts.size > 0 || resources.needsDashes) push('');
+    push(`image = Image.new("RGB", (${canvasWidth}, ${canvasHeight}), ${pyColor(backgroundColor)})`);
+    push('draw = ImageDraw.Draw(image)');
+
+    if (resources.fonts.size > 0) {
+        push('');
+        resources.fonts.forEach((varName, args) => push(`${varName} = load_font(${args})`));
+    }
+    if (resources.images.length > 0) {
+        push('');
+        push('# --- Image setup ---');
+        resources.images.forEach(image => image.lines.forEach(line => push(line)));
+    }
+
+    push('');
+    push(t('code.comment.shapes'));
+    if (shapeBlocks.length === 0) {
+        push(t('code.comment.noShapes'));
+    }
+    shapeBlocks.forEach(({ shape, commands, warnings }, index) => {
+        if (index > 0) push('');
+        let comment = shape.comment;
+        if (autoGenerateComments && !comment) {
+            comment = shape.name || getDefaultNameForShape(shape, t);
+        }
+        if (comment) {
+            comment.split('\n').forEach(line => push(line.trim() === '' ? '#' : `# ${line}`, shape.id));
+        }
+        warnings.forEach(warning => push(`# ${warning}`, shape.id));
+        commands.forEach(command => push(command, shape.id));
+    });
+
+    push('');
+    push(`image.save(${pyString(`${projectName.replace(/[\\/:*?"<>|]/g, '_') || 'drawing'}.png`)})`);
+
+    return Promise.resolve({ codeLines });
+}
@@ -0,0 +1,276 @@
+import { type Shape, ArcShape, EllipseShape, ImageShape, RectangleShape, TextShape } from '../types';
+import { getArrowheadPoints, getFinalPoints, getTextBoundingBox, isShapeClosed, processTextLines } from '../lib/geometry';
+import { type CodeLine } from '../components/CodeDisplay';
+import { getDefaultNameForShape } from '../lib/constants';
+
+const round = (num: number): number => {
+    return Math.round(num * 100) / 100;
+};
+
+const pyString = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// pygame looks colour names up without spaces ("light blue" is "lightblue") and only reads six-digit hex.
+const pyColor = (color: string): string => {
+    if (/^#[0-9a-f]{3}$/i.test(color)) return pyString(`#${color.slice(1).split('').map(c => c + c).join('')}`);
+    return pyString(color.startsWith('#') ? color : color.toLowerCase().replace(/\s+/g, ''));
+};
+
+type Point = { x: number; y: number };
+
+const formatPoint = (p: Point) => `(${round(p.x)}, ${round(p.y)})`;
+const formatPoints = (points: Point[]) => `[${points.map(formatPoint).join(', ')}]`;
+
+// Python helper emitted once when any outline is dashed; pygame only draws solid lines.
+const DASHED_LINES_HELPER = [
+    'def draw_dashed_lines(surface, color, points, width, dash):',
+    '    """Draws connected line segments with a repeating (dash, gap, ...) pattern."""',
+    '    if len(dash) % 2:',
+    '        dash = dash * 2',
+    '    index, left = 0, dash[0]',
+    '    for (x1, y1), (x2, y2) in zip(points, points[1:]):',
+    '        length = math.hypot(x2 - x1, y2 - y1)',
+    '        pos = 0',
+    '        while pos < length:',
+    '            step = min(left, length - pos)',
+    '            if index % 2 == 0:',
+    '                a, b = pos / length, (pos + step) / length',
+    '                pygame.draw.line(surface, color, (x1 + (x2 - x1) * a, y1 + (y2 - y1) * a), (x1 + (x2 - x1) * b, y1 + (y2 - y1) * b), width)',
+    '            pos += step',
+    '            left -= step',
+    '            if left <= 0:',
+    '                index = (index + 1) % len(dash)',
+    '                left = dash[index]',
+];
+
+// Things the shapes need before the event loop starts: fonts, images and the dash helper.
+interface PygameResources {
+    fonts: Map<string, string>; // SysFont arguments -> variable name
+    images: { varName: string; lines: string[] }[];
+    needsMath: boolean;
+    needsDashes: boolean;
+}
+
+/**
+ * pygame statements drawing a single shape onto `surface`, without its comment, plus warnings about
+ * what pygame can't reproduce. Rotated shapes are drawn as polygons through their final points.
+ */
+function shapeToPygameCommands(shape: Shape, resources: PygameResources, t: (key: string) => string): { commands: string[]; warnings: string[] } {
+    const commands: string[] = [];
+    const warnings: string[] = [];
+    const warn = (key: string) => warnings.push(t(key));
+
+    if (shape.type === 'text') {
+        const text = shape as TextShape;
+        const bbox = getTextBoundingBox(text);
+        if (!bbox || text.fill === 'none') return { commands, warnings };
+        if (text.rotation) warn('pygame.warn.textRotation');
+        if (text.stipple) warn('pygame.warn.stipple');
+        const fontArgs = `${pyString(text.font)}, ${Math.round(text.fontSize)}${text.weight === 'bold' ? ', bold=True' : ''}${text.slant === 'italic' ? ', italic=True' : ''}`;
+        const fontKey = `${fontArgs}|${!!text.underline}|${!!text.overstrike}`;
+        if (!resources.fonts.has(fontKey)) resources.fonts.set(fontKey, `font_${resources.fonts.size + 1}`);
+        const font = resources.fonts.get(fontKey)!;
+        // Lines are placed like Tkinter justifies them inside the text block.
+        const [anchor, anchorX] = text.justify === 'center' ? ['midtop', bbox.x + bbox.width / 2] : text.justify === 'right' ? ['topright', bbox.x + bbox.width] : ['topleft', bbox.x];
+        const lines = processTextLines(text);
+        if (lines.length === 1) {
+            commands.push(`text = ${font}.render(${pyString(lines[0])}, True, ${pyColor(text.fill)})`);
+            commands.push(`surface.blit(text, text.get_rect(${anchor}=(${round(anchorX)}, ${round(bbox.y)})))`);
+        } else {
+            commands.push(`for i, line in enumerate([${lines.map(pyString).join(', ')}]):`);
+            commands.push(`    text = ${font}.render(line, True, ${pyColor(text.fill)})`);
+            commands.push(`    surface.blit(text, text.get_rect(${anchor}=(${round(anchorX)}, ${round(bbox.y)} + i * ${font}.get_linesize())))`);
+        }
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'image') {
+        const image = shape as ImageShape;
+        const varName = `image_${resources.images.length + 1}`;
+        const rawDataBase64 = image.src.split(',')[1];
+        const lines = [
+            `${varName} = pygame.image.load(io.BytesIO(base64.b64decode(b'${rawDataBase64}')))`,
+            `${varName} = pygame.transform.smoothscale(${varName}, (${Math.max(1, Math.round(image.width))}, ${Math.max(1, Math.round(image.height))}))`,
+        ];
+        // Both pygame and the editor turn counterclockwise.
+        if (image.rotation) lines.push(`${varName} = pygame.transform.rotate(${varName}, ${round(image.rotation)})`);
+        resources.images.push({ varName, lines });
+        commands.push(`surface.blit(${varName}, ${varName}.get_rect(center=(${round(image.x + image.width / 2)}, ${round(image.y + image.height / 2)})))`);
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'bitmap' || shape.type === 'widget') {
+        warnings.push(t('pygame.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    const closed = isShapeClosed(shape);
+    const hasStroke = shape.stroke !== 'none' && shape.strokeWidth > 0;
+    const fill = closed && 'fill' in shape && shape.fill && shape.fill !== 'none' ? shape.fill : null;
+    const width = Math.max(1, Math.round(shape.strokeWidth));
+    const dash = 'dash' in shape && shape.dash && shape.dash.length > 0 && hasStroke ? shape.dash.map(v => round(v * shape.strokeWidth)) : null;
+    if (('stipple' in shape && shape.stipple && fill) || ('outlineStipple' in shape && shape.outlineStipple && hasStroke)) warn('pygame.warn.stipple');
+
+    const isRotated = 'rotation' in shape && !!shape.rotation;
+    const points = getFinalPoints(shape);
+
+    // Fill first, then the outline on top, like Tkinter does.
+    if (fill) {
+        const ellipse = shape.type === 'ellipse' ? shape as EllipseShape : null;
+        const rect = shape.type === 'rectangle' ? shape as RectangleShape : null;
+        if (ellipse && ellipse.rx === ellipse.ry) {
+            commands.push(`pygame.draw.circle(surface, ${pyColor(fill)}, ${formatPoint({ x: ellipse.cx, y: ellipse.cy })}, ${round(ellipse.rx)})`);
+        } else if (ellipse && !isRotated) {
+            commands.push(`pygame.draw.ellipse(surface, ${pyColor(fill)}, (${round(ellipse.cx - ellipse.rx)}, ${round(ellipse.cy - ellipse.ry)}, ${round(ellipse.rx * 2)}, ${round(ellipse.ry * 2)}))`);
+        } else if (rect && !isRotated) {
+            commands.push(`pygame.draw.rect(surface, ${pyColor(fill)}, (${round(rect.x)}, ${round(rect.y)}, ${round(rect.width)}, ${round(rect.height)}))`);
+        } else if (points && points.length >= 3) {
+            commands.push(`pygame.draw.polygon(surface, ${pyColor(fill)}, ${formatPoints(points)})`);
+        }
+    }
+
+    if (!hasStroke) {
+        if (!fill) return { commands, warnings };
+        if (commands.length === 0) warnings.push(t('pygame.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    const color = pyColor(shape.stroke);
+    if (dash) {
+        if (!points || points.length < 2) {
+            warnings.push(t('pygame.warn.unsupported').replace('{type}', shape.type));
+            return { commands, warnings };
+        }
+        resources.needsDashes = true;
+        resources.needsMath = true;
+        const path = closed ? [...points, points[0]] : points;
+        commands.push(`draw_dashed_lines(surface, ${color}, ${formatPoints(path)}, ${width}, (${dash.join(', ')}))`);
+    } else if (shape.type === 'ellipse' && shape.rx === shape.ry) {
+        commands.push(`pygame.draw.circle(surface, ${color}, ${formatPoint({ x: shape.cx, y: shape.cy })}, ${round(shape.rx)}, ${width})`);
+    } else if (shape.type === 'ellipse' && !isRotated) {
+        commands.push(`pygame.draw.ellipse(surface, ${color}, (${round(shape.cx - shape.rx)}, ${round(shape.cy - shape.ry)}, ${round(shape.rx * 2)}, ${round(shape.ry * 2)}), ${width})`);
+    } else if (shape.type === 'rectangle' && !isRotated) {
+        commands.push(`pygame.draw.rect(surface, ${color}, (${round(shape.x)}, ${round(shape.y)}, ${round(shape.width)}, ${round(shape.height)}), ${width})`);
+    } else if (shape.type === 'arc' && shape.style === 'arc' && (shape.width === shape.height || !isRotated) && !(shape as ArcShape).isFlippedHorizontally && !(shape as ArcShape).isFlippedVertically) {
+        // Same as the Tkinter output: rotating a circular arc only moves its start angle.
+        resources.needsMath = true;
+        const start = shape.start + (shape.width === shape.height ? shape.rotation || 0 : 0);
+        const [from, to] = shape.extent >= 0 ? [start, start + shape.extent] : [start + shape.extent, start];
+        commands.push(`pygame.draw.arc(surface, ${color}, (${round(shape.x)}, ${round(shape.y)}, ${round(shape.width)}, ${round(shape.height)}), math.radians(${round(from)}), math.radians(${round(to)}), ${width})`);
+    } else if (points && points.length >= 2) {
+        if (closed) {
+            commands.push(`pygame.draw.polygon(surface, ${color}, ${formatPoints(points)}, ${width})`);
+        } else if (points.length === 2) {
+            commands.push(`pygame.draw.line(surface, ${color}, ${formatPoint(points[0])}, ${formatPoint(points[1])}, ${width})`);
+        } else {
+            commands.push(`pygame.draw.lines(surface, ${color}, False, ${formatPoints(points)}, ${width})`);
+        }
+    } else {
+        warnings.push(t('pygame.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    // pygame has no arrows, so the arrowheads are drawn as small polygons.
+    if ('arrow' in shape && shape.arrow && shape.arrow !== 'none' && shape.arrowshape && !closed && points && points.length >= 2) {
+        const arrowshape = shape.arrowshape.map(v => v * shape.strokeWidth);
+        const ends: [Point, Point][] = [];
+        if (shape.arrow === 'first' || shape.arrow === 'both') ends.push([points[0], points[1]]);
+        if (shape.arrow === 'last' || shape.arrow === 'both') ends.push([points[points.length - 1], points[points.length - 2]]);
+        ends.forEach(([tip, from]) => commands.push(`pygame.draw.polygon(surface, ${color}, ${formatPoints(getArrowheadPoints(tip, from, arrowshape))})`));
+    }
+    return { commands, warnings };
+}
+
+/**
+ * Generates a pygame program that draws the shapes every frame of a standard event loop.
+ * pygame has no dashes, stipples or arrows: dashes and arrowheads are drawn by hand and the
+ * rest is flagged in a warning comment next to the shape.
+ */
+export async function generatePygameCodeLocally(
+    shapes: Shape[],
+    canvasWidth: number,
+    canvasHeight: number,
+    backgroundColor: string,
+    projectName: string,
+    autoGenerateComments: boolean,
+    t: (key: string) => string
+): Promise<{ codeLines: CodeLine[] }> {
+    const resources: PygameResources = { fonts: new Map(), images: [], needsMath: false, needsDashes: false };
+    const shapeBlocks = shapes
+        .filter(s => s.type !== 'group' && s.state !== 'hidden')
+        .map(shape => ({ shape, ...shapeToPygameCommands(shape, resources, t) }));
+
+    const codeLines: CodeLine[] = [];
+    const push = (content: string, shapeId: string | null = null) => {
+        codeLines.push({ content, shapeId });
+    };
+
+    push('import pygame');
+    if (resources.needsMath) push('import math');
+    if (resources.images.length > 0) {
+        push('import base64');
+        push('import io');
+    }
+    push('');
+    push('pygame.init()');
+    push(`screen = pygame.display.set_mode((${canvasWidth}, ${canvasHeight}))`);
+    push(`pygame.display.set_caption(${pyString(projectName)})`);
+    push('clock = pygame.time.Clock()');
+
+    if (resources.fonts.size > 0) {
+        push('');
+        resources.fonts.forEach((varName, key) => {
+            const [args, underline, overstrike] = key.split('|');
+            push(`${varName} = pygame.font.SysFont(${args})`);
+            if (underline === 'true') push(`${varName}.set_underline(True)`);
+            if (overstrike === 'true') push(`${varName}.set_strikethrough(True)`);
+        });
+    }
+    if (resources.images.length > 0) {
+        push('');
+        push('# --- Image setup ---');
+        resources.images.forEach(image => image.lines.forEach(line => push(line)));
+    }
+    if (resources.needsDashes) {
+        push('');
+        push('');
+        DASHED_LINES_HELPER.forEach(line => push(line));
+    }
+
+    push('');
+    push('');
+    push('def draw(surface):');
+    push(`    ${t('code.comment.shapes')}`);
+    if (shapeBlocks.length === 0) {
+        push(`    ${t('code.comment.noShapes')}`);
+    }
+    shapeBlocks.forEach(({ shape, commands, warnings }, index) => {
+        if (index > 0) push('');
+        let comment = shape.comment;
+        if (autoGenerateComments && !comment) {
+            comment = shape.name || getDefaultNameForShape(shape, t);
+        }
+        if (comment) {
+            comment.split('\n').forEach(line => push(line.trim() === '' ? '    #' : `    # ${line}`, shape.id));
+        }
+        warnings.forEach(warning => push(`    # ${warning}`, shape.id));
+        commands.forEach(command => push(`    ${command}`, shape.id));
+    });
+    // A body of nothing but comments (no shapes, or only skipped ones) still needs a statement.
+    if (shapeBlocks.every(block => block.commands.length === 0)) push('    pass');
+
+    push('');
+    push('');
+    push('running = True');
+    push('while running:');
+    push('    for event in pygame.event.get():');
+    push('        if event.type == pygame.QUIT:');
+    push('            running = False');
+    push(`    screen.fill(${pyColor(backgroundColor)})`);
+    push('    draw(screen)');
+    push('    pygame.display.flip()');
+    push('    clock.tick(30)');
+    push('');
+    push('pygame.quit()');
+
+    return Promise.resolve({ codeLines });
+}
@@ -0,0 +1,207 @@
+import { type Shape, ArcShape, EllipseShape, TextShape } from '../types';
+import { getFinalPoints, getTextBoundingBox, isShapeClosed } from '../lib/geometry';
+import { type CodeLine } from '../components/CodeDisplay';
+import { getDefaultNameForShape } from '../lib/constants';
+
+const round = (num: number): number => {
+    return Math.round(num * 100) / 100;
+};
+
+const pyString = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Point lists longer than this are walked with a `for` loop instead of one goto per point.
+const MAX_INLINE_POINTS = 4;
+
+type Point = { x: number; y: number };
+
+// Pen settings already in effect, so each shape only emits the ones it changes.
+interface PenState {
+    pensize?: number;
+    pencolor?: string;
+    fillcolor?: string;
+}
+
+/** What a shape needs from the pen: the outline colour and width, and the fill colour of closed shapes. */
+const getPenStyle = (shape: Shape, closed: boolean) => {
+    const hasStroke = shape.stroke !== 'none' && shape.strokeWidth > 0;
+    const fill = closed && 'fill' in shape && shape.fill && shape.fill !== 'none' ? shape.fill : null;
+    return { hasStroke, fill };
+};
+
+/**
+ * Turtle commands for a single shape, without its comment, plus the warnings about what turtle
+ * couldn't reproduce. Shapes turtle can't draw at all return no commands, only a warning.
+ * Coordinates are converted from the canvas (origin top-left, y down) to turtle's (origin centre, y up).
+ */
+function shapeToTurtleCommands(shape: Shape, toTurtle: (p: Point) => string, pen: PenState, t: (key: string) => string): { commands: string[]; warnings: string[] } {
+    const commands: string[] = [];
+    const warnings: string[] = [];
+    const warn = (key: string) => warnings.push(t(key));
+
+    const setPen = (key: keyof PenState, value: number | string) => {
+        if (pen[key] === value) return;
+        (pen as any)[key] = value;
+        commands.push(`t.${key}(${typeof value === 'string' ? pyString(value) : value})`);
+    };
+
+    if (shape.type === 'image' || shape.type === 'bitmap' || shape.type === 'widget') {
+        warnings.push(t('turtle.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+
+    if (shape.type === 'text') {
+        const text = shape as TextShape;
+        const bbox = getTextBoundingBox(text);
+        if (!bbox) return { commands, warnings };
+        // turtle.write() puts the bottom edge of the text block at the turtle.
+        const align = text.justify === 'center' ? 'center' : text.justify === 'right' ? 'right' : 'left';
+        const anchorX = align === 'center' ? bbox.x + bbox.width / 2 : align === 'right' ? bbox.x + bbox.width : bbox.x;
+        const styles = [text.weight === 'bold' ? 'bold' : '', text.slant === 'italic' ? 'italic' : '', text.underline ? 'underline' : '', text.overstrike ? 'overstrike' : ''].filter(Boolean);
+        if (text.rotation) warn('turtle.warn.textRotation');
+        if (text.stipple) warn('turtle.warn.stipple');
+        commands.push('t.penup()');
+        commands.push(`t.goto(${toTurtle({ x: anchorX, y: bbox.y + bbox.height })})`);
+        if (text.fill !== 'none') setPen('pencolor', text.fill);
+        commands.push(`t.write(${pyString(text.text)}, align="${align}", font=(${pyString(text.font)}, ${Math.round(text.fontSize)}, "${styles.join(' ') || 'normal'}"))`);
+        return { commands, warnings };
+    }
+
+    if ('dash' in shape && shape.dash && shape.dash.length > 0) warn('turtle.warn.dash');
+    if ('arrow' in shape && shape.arrow && shape.arrow !== 'none') warn('turtle.warn.arrow');
+    if (('stipple' in shape && shape.stipple) || ('outlineStipple' in shape && shape.outlineStipple)) warn('turtle.warn.stipple');
+
+    const closed = isShapeClosed(shape);
+    const { hasStroke, fill } = getPenStyle(shape, closed);
+    // With the pen up turtle still records the fill outline, so borderless shapes are filled without a line.
+    const beginPath = (start: Point) => {
+        commands.push('t.penup()');
+        commands.push(`t.goto(${toTurtle(start)})`);
+        if (hasStroke) {
+            setPen('pensize', round(shape.strokeWidth));
+            setPen('pencolor', shape.stroke);
+        }
+        if (fill) {
+            setPen('fillcolor', fill);
+            commands.push('t.begin_fill()');
+        }
+    };
+    const endPath = () => {
+        if (fill) commands.push('t.end_fill()');
+    };
+    const startDrawing = () => {
+        if (hasStroke) commands.push('t.pendown()');
+    };
+
+    const isFlipped = !!shape.isFlippedHorizontally || !!shape.isFlippedVertically;
+    const ellipse = shape.type === 'ellipse' ? shape as EllipseShape : null;
+    if (ellipse && ellipse.rx === ellipse.ry) {
+        // t.circle() keeps the centre on the turtle's left, so start at the bottom heading east.
+        const radius = round(ellipse.rx);
+        beginPath({ x: ellipse.cx, y: ellipse.cy + ellipse.rx });
+        commands.push('t.setheading(0)');
+        startDrawing();
+        commands.push(`t.circle(${radius})`);
+        endPath();
+        return { commands, warnings };
+    }
+
+    const arc = shape.type === 'arc' ? shape as ArcShape : null;
+    if (arc && arc.width === arc.height && !isFlipped) {
+        const radius = arc.width / 2;
+        const center = { x: arc.x + radius, y: arc.y + radius };
+        // Same as the Tkinter output: rotating a circular arc only moves its start angle.
+        const start = arc.start + (arc.rotation || 0);
+        const startPoint = { x: center.x + radius * Math.cos(start * Math.PI / 180), y: center.y - radius * Math.sin(start * Math.PI / 180) };
+        beginPath(arc.style === 'pieslice' ? center : startPoint);
+        startDrawing();
+        if (arc.style === 'pieslice') commands.push(`t.goto(${toTurtle(startPoint)})`);
+        commands.push(`t.setheading(${round(start + 90)})`);
+        commands.push(`t.circle(${round(radius)}, ${round(arc.extent)})`);
+        if (arc.style === 'pieslice') commands.push(`t.goto(${toTurtle(center)})`);
+        if (arc.style === 'chord') commands.push(`t.goto(${toTurtle(startPoint)})`);
+        endPath();
+        return { commands, warnings };
+    }
+
+    const points = getFinalPoints(shape);
+    if (!points || points.length < 2) {
+        warnings.push(t('turtle.warn.unsupported').replace('{type}', shape.type));
+        return { commands, warnings };
+    }
+    if (ellipse) warn('turtle.warn.ellipse');
+    if (arc) warn('turtle.warn.ellipticalArc');
+    if ('smooth' in shape && shape.smooth) warn('turtle.warn.smooth');
+
+    const path = closed ? [...points.slice(1), points[0]] : points.slice(1);
+    beginPath(points[0]);
+    startDrawing();
+    if (path.length > MAX_INLINE_POINTS) {
+        commands.push(`for x, y in [${path.map(p => `(${toTurtle(p)})`).join(', ')}]:`);
+        commands.push('    t.goto(x, y)');
+    } else {
+        path.forEach(p => commands.push(`t.goto(${toTurtle(p)})`));
+    }
+    endPath();
+    return { commands, warnings };
+}
+
+/**
+ * Generates a Python `turtle` program that draws the shapes. turtle has no ellipses, dashes,
+ * arrows or images, so such shapes are approximated (or skipped) and the generated code says so
+ * in a warning comment next to them.
+ */
+export async function generateTurtleCodeLocally(
+    shapes: Shape[],
+    canvasWidth: number,
+    canvasHeight: number,
+    backgroundColor: string,
+    projectName: string,
+    autoGenerateComments: boolean,
+    t: (key: string) => string
+): Promise<{ codeLines: CodeLine[] }> {
+    const codeLines: CodeLine[] = [];
+    const push = (content: string, shapeId: string | null = null) => {
+        codeLines.push({ content, shapeId });
+    };
+    const toTurtle = (p: Point) => `${round(p.x - canvasWidth / 2)}, ${round(canvasHeight / 2 - p.y)}`;
+
+    push('import turtle');
+    push('');
+    push('screen = turtle.Screen()');
+    push(`screen.setup(${canvasWidth}, ${canvasHeight})`);
+    push(`screen.title(${pyString(projectName)})`);
+    push(`screen.bgcolor(${pyString(backgroundColor)})`);
+    // Draw everything at once instead of watching the turtle crawl.
+    push('screen.tracer(0)');
+    push('');
+    push('t = turtle.Turtle()');
+    push('t.hideturtle()');
+    push('');
+    push(t('code.comment.shapes'));
+
+    const drawable = shapes.filter(s => s.type !== 'group' && s.state !== 'hidden');
+    if (drawable.length === 0) {
+        push(t('code.comment.noShapes'));
+    }
+
+    const pen: PenState = {};
+    drawable.forEach((shape, index) => {
+        const { commands, warnings } = shapeToTurtleCommands(shape, toTurtle, pen, t);
+        if (index > 0) push('');
+        let comment = shape.comment;
+        if (autoGenerateComments && !comment) {
+            comment = shape.name || getDefaultNameForShape(shape, t);
+        }
+        if (comment) {
+            comment.split('\n').forEach(line => push(line.trim() === '' ? '#' : `# ${line}`, shape.id));
+        }
+        warnings.forEach(warning => push(`# ${warning}`, shape.id));
+        commands.forEach(command => push(command, shape.id));
+    });
+
+    push('');
+    push('screen.update()');
+    push('turtle.done()');
+
+    return Promise.resolve({ codeLines });
+}
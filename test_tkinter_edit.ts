@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { applyTkinterEditToShape } from './lib/tkinterParser';
+import { type EllipseShape, type RectangleShape, type Shape } from './types';
+
+// Editing a shape's line in the code panel changes what the line sets and keeps the rest.
+
+const animated: RectangleShape = {
+    id: 'rect-1', type: 'rectangle', name: 'box', state: 'normal', rotation: 0,
+    x: 10, y: 20, width: 100, height: 50, fill: '#ff0000', stroke: '#000000', strokeWidth: 2,
+    isFlippedHorizontally: true,
+    keyframes: [
+        { id: 'key-1', time: 0, easing: 'linear', values: { x: 10, fill: '#ff0000' } },
+        { id: 'key-2', time: 1000, easing: 'easeIn', values: { x: 200, fill: '#0000ff' } },
+    ],
+};
+const recoloured = applyTkinterEditToShape(animated, 'canvas.create_rectangle(10, 20, 110, 70, fill="#00ff00", outline="#000000", width=2)', [animated]) as RectangleShape;
+assert.equal(recoloured.fill, '#00ff00');
+assert.equal(recoloured.name, 'box');
+assert.equal(recoloured.keyframes, animated.keyframes, 'the timeline survives a colour change');
+assert.equal(recoloured.isFlippedHorizontally, true);
+
+const moved = applyTkinterEditToShape(animated, 'canvas.create_rectangle(30, 20, 130, 70, fill="#ff0000", outline="#000000", width=2, dash=(4, 2))', [animated]) as RectangleShape;
+assert.equal(moved.x, 30);
+assert.deepEqual(moved.dash, [2, 1]);
+assert.equal(moved.keyframes, animated.keyframes, 'the timeline survives a move');
+const undashed = applyTkinterEditToShape(moved, 'canvas.create_rectangle(30, 20, 130, 70, fill="#ff0000", outline="#000000", width=2)', [moved]) as RectangleShape;
+assert.equal(undashed.dash, undefined, 'an option taken out of the line goes back to the default');
+
+// Coordinates bound to project variables stay bound while the line still gives their values.
+const scope = { W: 400, H: 300, left: 20, size: 80 };
+const bound: EllipseShape = {
+    id: 'oval-1', type: 'ellipse', state: 'normal', rotation: 0,
+    cx: 60, cy: 60, rx: 40, ry: 40, fill: '#ffff00', stroke: '#000000', strokeWidth: 1, isAspectRatioLocked: true,
+    expressions: { x1: 'left', y1: 'left', x2: 'left + size', y2: 'left + size' },
+};
+const refilled = applyTkinterEditToShape(bound, 'canvas.create_oval(left, left, left + size, left + size, fill="blue", outline="#000000")', [bound], scope) as EllipseShape;
+assert.equal(refilled.fill, 'blue');
+assert.deepEqual(refilled.expressions, bound.expressions);
+const retyped = applyTkinterEditToShape(bound, 'canvas.create_oval(left, left, 120, left + size, fill="#ffff00", outline="#000000")', [bound], scope) as EllipseShape;
+assert.equal(retyped.cx, 70);
+assert.deepEqual(retyped.expressions, { x1: 'left', y1: 'left', y2: 'left + size' }, 'only the overwritten value is unbound');
+
+// A line that now makes another kind of shape keeps the shape's identity but not its box.
+const polygon = applyTkinterEditToShape(animated, 'canvas.create_polygon(10, 20, 110, 20, 110, 70, fill="#ff0000")', [animated]) as Shape;
+assert.equal(polygon.type, 'polyline');
+assert.equal(polygon.name, 'box');
+assert.deepEqual(polygon.keyframes?.map(keyframe => keyframe.values), [{ fill: '#ff0000' }, { fill: '#0000ff' }]);
+
+console.log('tkinter edit: ok');
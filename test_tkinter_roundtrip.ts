@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { generateTkinterCodeLocally } from './services/localGeneratorService';
+import { parseTkinterScript } from './lib/tkinterParser';
+import { translations } from './lib/translations';
+import { type BezierCurveShape, type CodeGeneratorOptions, type RectangleShape, type Shape, type WidgetShape } from './types';
+
+// Generated code imports back as the shapes it was generated from.
+
+const smoothLine: BezierCurveShape = {
+    id: 'curve-1', type: 'bezier', state: 'normal', rotation: 0,
+    points: [{ x: 10, y: 10 }, { x: 60, y: 80 }, { x: 120, y: 20 }], isClosed: false, smooth: true, splinesteps: 12,
+    fill: 'none', stroke: '#000000', strokeWidth: 2,
+};
+const smoothPolygon: BezierCurveShape = {
+    id: 'curve-2', type: 'bezier', state: 'normal', rotation: 0,
+    points: [{ x: 200, y: 50 }, { x: 260, y: 120 }, { x: 140, y: 120 }], isClosed: true, smooth: true, splinesteps: 12,
+    fill: '#00ff00', stroke: '#000000', strokeWidth: 1,
+};
+
+// A shape bound to project variables, with a colour variable as its fill.
+const framed: RectangleShape = {
+    id: 'rect-1', type: 'rectangle', state: 'normal', rotation: 0,
+    x: 20, y: 20, width: 260, height: 30, fill: '#ff0000', stroke: '#000000', strokeWidth: 1,
+    expressions: { x1: 'margin', y1: 'margin', x2: 'W - margin', y2: 'margin + 30' },
+};
+const variables = [{ name: 'margin', value: '20' }, { name: 'accent', value: '#ff0000' }];
+
+// Widgets aren't imported, but the stub of their command is only scaffolding.
+const button = {
+    id: 'widget-1', type: 'widget', widgetType: 'button', state: 'normal', rotation: 0,
+    x: 20, y: 20, width: 80, height: 30, text: 'Go', command: 'on_click',
+    font: 'Arial', fontSize: 10, weight: 'normal', slant: 'roman', foreground: '#000000', background: '#eeeeee', stroke: 'none', strokeWidth: 0,
+} as WidgetShape;
+
+const run = async (shapes: Shape[], options?: CodeGeneratorOptions) => {
+    const { codeLines } = await generateTkinterCodeLocally(shapes, 300, 200, '#ffffff', 'Test', 'canvas', false, false, false, false, key => translations.en[key as keyof typeof translations.en] ?? key, options);
+    return parseTkinterScript(codeLines.map(line => line.content).join('\n'));
+};
+
+run([smoothLine, smoothPolygon]).then(result => {
+    assert.deepEqual(result.unmappedLines, []);
+    assert.equal(result.shapes.length, 2);
+    const [line, polygon] = result.shapes as BezierCurveShape[];
+    assert.equal(line.type, 'bezier');
+    assert.equal(line.smooth, true);
+    assert.equal(line.isClosed, false);
+    assert.deepEqual(line.points, smoothLine.points);
+    assert.equal(polygon.type, 'bezier');
+    assert.equal(polygon.smooth, true);
+    assert.equal(polygon.isClosed, true);
+    assert.equal(polygon.fill, '#00ff00');
+}).then(() => run([framed], { variables })).then(result => {
+    assert.deepEqual(result.unmappedLines, []);
+    assert.equal(result.canvasSettings.width, 300);
+    assert.equal(result.canvasSettings.height, 200);
+    assert.deepEqual(result.variables, variables);
+    const [rect] = result.shapes as RectangleShape[];
+    assert.deepEqual([rect.x, rect.y, rect.width, rect.height, rect.fill], [20, 20, 260, 30, '#ff0000']);
+    assert.deepEqual(rect.expressions, framed.expressions);
+}).then(() => run([button])).then(result => {
+    assert.ok(result.unmappedLines.every(line => line.content !== 'pass'));
+    console.log('tkinter round trip: ok');
+});
@@ -23,11 +23,15 @@ export type Tool =
     | 'chord'
     | 'text'
     | 'image'
-    | 'bitmap' | 'group';
+    | 'bitmap'
+    | 'widget' | 'group';
 
 export type DrawMode = 'corner' | 'center';
 export type JoinStyle = 'miter' | 'round' | 'bevel';
 export type BuiltInBitmap = 'error' | 'gray75' | 'gray50' | 'gray25' | 'gray12' | 'hourglass' | 'info' | 'questhead' | 'question' | 'warning';
+/** A bitmap of the project (see CustomBitmap), named by its id the way Tk names a bitmap file: `@<id>`. */
+export type CustomBitmapRef = `@${string}`;
+export type StippleBitmap = 'gray12' | 'gray25' | 'gray50' | 'gray75' | CustomBitmapRef;
 export type TransformHandle = 'top-left' | 'top-center' | 'top-right' | 'middle-left' | 'middle-right' | 'bottom-left' | 'bottom-center' | 'bottom-right' | 'line-start' | 'line-end';
 
 
@@ -37,6 +41,39 @@ export interface ViewTransform {
     y: number;
 }
 
+export type ShapeEventAction = 'fill' | 'move' | 'toggleState' | 'showText' | 'custom';
+
+/** A Tkinter event handler attached to a shape or group and emitted as `canvas.tag_bind(...)`. */
+export interface ShapeEventBinding {
+    id: string;
+    sequence: string; // e.g. '<Button-1>', '<Enter>'
+    action: ShapeEventAction;
+    targetId?: string; // shape or group the action applies to; defaults to the bound shape
+    fill?: string;
+    dx?: number;
+    dy?: number;
+    text?: string;
+    code?: string; // free-form Python body for the 'custom' action
+}
+
+export type AnimationEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+export type AnimatableProperty = 'x' | 'y' | 'cx' | 'cy' | 'rx' | 'ry' | 'width' | 'height' | 'rotation' | 'fill' | 'points';
+export type AnimatableValue = number | string | { x: number; y: number }[];
+
+/** Values of some animatable properties at one point of the animation timeline. */
+export interface ShapeKeyframe {
+    id: string;
+    time: number; // ms from the start of the animation
+    easing: AnimationEasing; // easing of the segment that ends at this keyframe
+    values: Partial<Record<AnimatableProperty, AnimatableValue>>;
+}
+
+export interface AnimationSettings {
+    duration: number; // ms
+    fps: number;
+    loop: boolean;
+}
+
 interface BaseShape {
     id: string;
     name?: string;
@@ -52,6 +89,10 @@ interface BaseShape {
     _previousStroke?: string;
     isFlippedHorizontally?: boolean;
     isFlippedVertically?: boolean;
+    events?: ShapeEventBinding[];
+    keyframes?: ShapeKeyframe[];
+    /** Expressions of project variables, keyed by the `create_*` coordinate (`x1`…`y2`) or option (`width`) they give. */
+    expressions?: Record<string, string>;
 }
 
 export interface RotatableShape {
@@ -61,14 +102,29 @@ export interface RotatableShape {
 
 export interface FillableShape {
     fill: string;
-    stipple?: 'gray12' | 'gray25' | 'gray50' | 'gray75';
+    stipple?: StippleBitmap;
     // Fix: Add _previousFill to store fill color when fill is toggled off.
     _previousFill?: string;
+    /** Fill while the pointer is over the item (`activefill`) and while it is disabled (`disabledfill`). */
+    activeFill?: string;
+    disabledFill?: string;
 }
 
 export interface DashableShape {
     dash?: number[];
     dashoffset?: number;
+    /** Stipple of the outline (`outlinestipple`), or of the line itself for lines (their `stipple`). */
+    outlineStipple?: StippleBitmap;
+    /**
+     * Outline (line colour for lines), width and dash while the pointer is over the item and while it
+     * is disabled: Tk's `activeoutline`, `activewidth`, `activedash` and their `disabled*` versions.
+     */
+    activeStroke?: string;
+    activeStrokeWidth?: number;
+    activeDash?: number[];
+    disabledStroke?: string;
+    disabledStrokeWidth?: number;
+    disabledDash?: number[];
 }
 
 export interface JoinableShape {
@@ -98,7 +154,6 @@ export interface LineShape extends BaseShape, RotatableShape, DashableShape {
     capstyle?: 'butt' | 'round' | 'projecting';
     arrow?: 'none' | 'first' | 'last' | 'both';
     arrowshape?: [number, number, number];
-    activeStroke?: string;
 }
 
 export interface PolylineShape extends BaseShape, RotatableShape, FillableShape, DashableShape, JoinableShape {
@@ -110,7 +165,6 @@ export interface PolylineShape extends BaseShape, RotatableShape, FillableShape,
     capstyle?: 'butt' | 'round' | 'projecting';
     arrow?: 'none' | 'first' | 'last' | 'both';
     arrowshape?: [number, number, number];
-    activeStroke?: string;
 }
 
 export interface BezierCurveShape extends BaseShape, RotatableShape, FillableShape, DashableShape, JoinableShape {
@@ -122,7 +176,6 @@ export interface BezierCurveShape extends BaseShape, RotatableShape, FillableSha
     capstyle?: 'butt' | 'round' | 'projecting';
     arrow?: 'none' | 'first' | 'last' | 'both';
     arrowshape?: [number, number, number];
-    activeStroke?: string;
 }
 
 export interface PathShape extends BaseShape, RotatableShape, DashableShape, JoinableShape {
@@ -131,7 +184,6 @@ export interface PathShape extends BaseShape, RotatableShape, DashableShape, Joi
     capstyle?: 'butt' | 'round' | 'projecting';
     arrow?: 'none' | 'first' | 'last' | 'both';
     arrowshape?: [number, number, number];
-    activeStroke?: string;
 }
 
 export interface PolygonShape extends BaseShape, RotatableShape, FillableShape, DashableShape, JoinableShape {
@@ -246,9 +298,35 @@ export interface BitmapShape extends BaseShape, RotatableShape {
     y: number;
     width: number;
     height: number;
-    bitmapType: BuiltInBitmap;
+    bitmapType: BuiltInBitmap | CustomBitmapRef;
+    foreground: string;
+    background: string;
+}
+
+export type WidgetType = 'button' | 'label' | 'entry' | 'checkbutton' | 'scale';
+
+/**
+ * A Tk widget placed on the canvas with `create_window`. The box is the window's size in pixels;
+ * widgets can't be rotated, and with `themed` the ttk version takes its colours and font from a style.
+ */
+export interface WidgetShape extends BaseShape, RotatableShape {
+    type: 'widget';
+    widgetType: WidgetType;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    text: string;
+    font: string;
+    fontSize: number;
+    weight: 'normal' | 'bold';
+    slant: 'roman' | 'italic';
     foreground: string;
     background: string;
+    themed?: boolean;
+    command?: string; // name of the generated callback stub (buttons, checkbuttons and scales)
+    from?: number; // range of a scale
+    to?: number;
 }
 
 export interface GroupShape extends BaseShape, RotatableShape {
@@ -274,6 +352,7 @@ export type Shape =
     | TextShape
     | ImageShape
     | BitmapShape
+    | WidgetShape
     | GroupShape;
 
 export interface DistributeEntity {
@@ -327,6 +406,136 @@ export interface NewProjectSettings {
   canvasVarName: string;
 }
 
+/**
+ * Where the code comes from:
+ * - local: Tkinter code generated in the browser
+ * - gemini: Tkinter code written by the Gemini API
+ * - turtle: Python `turtle` code generated in the browser
+ * - pygame: pygame code generated in the browser
+ * - canvas: JavaScript for the HTML5 Canvas 2D API generated in the browser
+ * - pillow: a Pillow ImageDraw script rendering a PNG, generated in the browser
+ */
+export type GeneratorType = 'local' | 'gemini' | 'turtle' | 'pygame' | 'canvas' | 'pillow';
+
+/** File types the generated code can be saved as. */
+export type CodeFileExtension = '.py' | '.html' | '.js' | '.txt';
+
+/**
+ * House style of the generated Python program:
+ * - classic: `from tkinter import *` with top-level statements
+ * - module: `import tkinter as tk` with top-level statements
+ * - function: a `main()` function behind an `if __name__ == "__main__":` guard
+ * - class: an `App(tk.Tk)` class that draws in its `draw()` method
+ */
+export type CodeStyleProfile = 'classic' | 'module' | 'function' | 'class';
+
+/**
+ * How the generated window reacts to being resized:
+ * - fixed: the canvas keeps its size
+ * - stretch: the canvas fills the window and items scale with it on each axis
+ * - keepAspect: the canvas fills the window and items scale uniformly by the smaller factor
+ */
+export type ResizeMode = 'fixed' | 'stretch' | 'keepAspect';
+
+/**
+ * The visible part of a canvas larger than its window. The generated window shows `width`×`height`
+ * and scrolls over the rest; the project's canvas size becomes the `scrollregion`.
+ */
+export interface ScrollViewport {
+  width: number;
+  height: number;
+  /** Scroll with the mouse wheel, sideways while Shift is held. */
+  mouseWheel: boolean;
+}
+
+/**
+ * How colours are written in the generated Tkinter code:
+ * - hex: as they are in the project
+ * - exact: hex values with a Tk name of exactly that colour use the name
+ * - nearest: every hex value is replaced by the nearest Tk colour name
+ */
+export type ColorNameMode = 'hex' | 'exact' | 'nearest';
+
+/**
+ * A named value of the project, e.g. `margin = 20` or `sky = "#87ceeb"`. A value that evaluates to a
+ * number (it may use `W`, `H` and earlier variables) is numeric; anything else is taken as a colour string.
+ */
+export interface ProjectVariable {
+  name: string;
+  value: string;
+}
+
+/**
+ * A 1-bit bitmap drawn or imported into the project. Each row is a string of '1' (foreground) and
+ * '0' (background) pixels, `width` characters long.
+ */
+export interface CustomBitmap {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  rows: string[];
+}
+
+/**
+ * One screen of a multi-page project, each with a canvas of its own. The page open in the editor
+ * keeps its size, background, canvas name, layers and shapes in the editor state; its entry here
+ * is brought up to date when another page is opened and when the project is saved.
+ */
+export interface ProjectPage {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  bgColor: string;
+  canvasVarName: string;
+  shapes: Shape[];
+  layers: Layer[];
+  activeLayerId: string;
+}
+
+/**
+ * How the generated program shows the pages of a project:
+ * - frames: one page at a time, each canvas in a frame of its own, switched with `show_page`
+ * - grid: all canvases side by side in one window
+ */
+export type PageLayout = 'frames' | 'grid';
+
+/** A page as the code generators draw it: its shapes in drawing order, without hidden ones. */
+export type CodePage = Pick<ProjectPage, 'name' | 'width' | 'height' | 'bgColor' | 'canvasVarName' | 'shapes'>;
+
+export interface CodeGeneratorOptions {
+  codeStyle?: CodeStyleProfile;
+  /** Assign each canvas item to a variable named after its shape, e.g. `sun = c.create_oval(...)`. */
+  shapeVariables?: boolean;
+  /** Draw runs of evenly spaced, otherwise identical shapes with a `for i in range(n):` loop. */
+  compressLoops?: boolean;
+  /** Emit each top-level group as `def draw_<group>(canvas, x, y, scale=1)` and draw it with a call. */
+  groupFunctions?: boolean;
+  resizeMode?: ResizeMode;
+  /** Make the canvas scrollable with this window size; the resize mode is then ignored. */
+  viewport?: ScrollViewport;
+  /** All pages of a multi-page project, in order; with two or more the shapes argument is ignored and each page gets a canvas. */
+  pages?: CodePage[];
+  pageLayout?: PageLayout;
+  /** Rescale text fonts along with the items when the window is resized. */
+  scaleFonts?: boolean;
+  /** Timeline settings used when shapes have keyframes. */
+  animation?: AnimationSettings;
+  /** Embed images with Tk's own `PhotoImage(data=...)`, pre-resized to the shape, so Pillow is only needed for rotated or flipped ones. */
+  nativeImages?: boolean;
+  /** Project variables, emitted at the top of the script and used by the shapes' expressions. */
+  variables?: ProjectVariable[];
+  /** Write hex colours as Tk colour names; see ColorNameMode. */
+  colorNames?: ColorNameMode;
+  /** Relative PNG paths of the images at their drawn size, keyed by getImageSizeKey; images are then loaded from these files instead of being embedded. */
+  imageFiles?: Record<string, string>;
+  /** The project's own bitmaps, which shapes refer to as `@<id>`. */
+  customBitmaps?: CustomBitmap[];
+  /** Relative XBM paths keyed by custom bitmap id; bitmaps and stipples then read these files instead of embedding the data. */
+  bitmapFiles?: Record<string, string>;
+}
+
 export interface ProjectTemplate {
   id: string;
   name: string;